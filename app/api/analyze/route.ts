@@ -7,7 +7,7 @@ import type { PartyPerspective } from '@/types';
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { reviewId, documentText, partyPerspective } = body;
+    const { reviewId, documentText, documentPages, partyPerspective } = body;
 
     if (!reviewId) {
       return NextResponse.json(
@@ -33,6 +33,7 @@ export async function POST(request: NextRequest) {
       review = {
         id: reviewId,
         original_text: documentText,
+        source_pages: documentPages || null,
         party_perspective: partyPerspective || 'receiving',
         status: 'processing'
       };
@@ -75,7 +76,8 @@ export async function POST(request: NextRequest) {
       // Perform party-aware document analysis
       const analysisResults = await analyzeDocument(
         review.original_text, 
-        review.party_perspective as PartyPerspective
+        review.party_perspective as PartyPerspective,
+        { pages: review.source_pages || undefined }
       );
 
       console.log(`Analysis found ${analysisResults.matches.length} matches, ${analysisResults.missingClauses.length} missing clauses`);
@@ -94,7 +96,8 @@ export async function POST(request: NextRequest) {
             match.matchedText,
             match.ruleId,
             review.party_perspective as PartyPerspective,
-            false // Use template for MVP
+            false, // Use template for MVP
+            { clauseName: match.clauseName, features: match.features }
           );
 
           if (suggestionResult.success) {
@@ -116,17 +119,38 @@ export async function POST(request: NextRequest) {
           detected_text: match.matchedText,
           match_type: match.ruleType,
           confidence_score: match.confidenceScore,
-          risk_level: match.ruleType === 'not_acceptable' ? 5 : 
-                     match.ruleType === 'fallback' ? 3 : 1,
+          // Clauses that assess their own exposure (e.g. remedies) override the rule-type default
+          risk_level: match.riskLevel ?? (match.ruleType === 'not_acceptable' ? 5 :
+                     match.ruleType === 'fallback' ? 3 : 1),
           recommended_action: recommendedAction,
           position_start: match.position.start,
           position_end: match.position.end,
+          position_page: match.position.page ?? null,
+          position_line: match.position.line ?? null,
+          match_spans: match.spans || [match.position],
+          extracted_features: match.features || null,
+          classification_evidence: match.evidence || null,
+          low_confidence_pages: match.lowConfidencePages || null,
           suggested_text: suggestedText
         };
 
         analysisRecords.push(analysisRecord);
       }
 
+      // Missing clauses are reported by name; their records keep the clause id so the
+      // results view can name them without parsing the recommended action
+      const clauseIds: Record<string, string> = {};
+      if (analysisResults.missingClauses.length > 0) {
+        const { data: missingClauseRows, error: clausesError } = await supabaseAdmin
+          .from('clauses')
+          .select('id, name')
+          .in('name', analysisResults.missingClauses);
+        if (clausesError) {
+          console.warn('Could not look up missing clause ids:', clausesError.message);
+        }
+        (missingClauseRows || []).forEach((clause: { id: string; name: string }) => { clauseIds[clause.name] = clause.id; });
+      }
+
       // Process missing clauses
       for (const missingClause of analysisResults.missingClauses) {
         const suggestionResult = await generateMissingClauseSuggestion(
@@ -144,7 +168,7 @@ export async function POST(request: NextRequest) {
 
         const analysisRecord = {
           review_id: reviewId,
-          clause_id: null, // No clause ID for missing clauses
+          clause_id: clauseIds[missingClause] || null,
           detected_text: null,
           match_type: 'missing',
           confidence_score: 1.0, // High confidence that it's missing
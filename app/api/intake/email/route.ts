@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseDocument } from '@/lib/document-parser';
+import { parseEmail, detectEmailFormat, isLikelyNdaAttachment, emailReviewDefaults } from '@/lib/email-intake';
+import type { PartyPerspective } from '@/types';
+
+// Messages carry several attachments, each of which is still held to the parser's 4.5MB limit
+const MAX_EMAIL_SIZE = 25 * 1024 * 1024;
+
+/**
+ * Create reviews from an emailed NDA: accepts an .eml or .msg file, parses its likely NDA
+ * attachments and returns one review per attachment, ready for /api/analyze.
+ * Client name and title are taken from the email unless given in the form.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+
+    const file = formData.get('file') as File;
+    const clientName = formData.get('clientName') as string | null;
+    const ndaTitle = formData.get('ndaTitle') as string | null;
+    const partyPerspective = (formData.get('partyPerspective') as PartyPerspective) || 'receiving';
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No email file provided' },
+        { status: 400 }
+      );
+    }
+
+    if (!['receiving', 'disclosing', 'mutual'].includes(partyPerspective)) {
+      return NextResponse.json(
+        { error: 'Invalid party perspective' },
+        { status: 400 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    if (buffer.length > MAX_EMAIL_SIZE) {
+      return NextResponse.json(
+        { error: 'Email exceeds maximum size of 25MB', details: `File size: ${(buffer.length / 1024 / 1024).toFixed(2)}MB` },
+        { status: 400 }
+      );
+    }
+
+    if (!detectEmailFormat(buffer)) {
+      return NextResponse.json(
+        { error: 'Unsupported email format', details: 'Only .eml and .msg files are supported' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`Parsing email ${file.name} (${file.size} bytes)`);
+    const email = await parseEmail(buffer);
+    const sourceEmail = {
+      fileName: file.name,
+      format: email.format,
+      messageId: email.messageId,
+      from: email.from,
+      subject: email.subject,
+      date: email.date
+    };
+
+    // Every attachment goes through the document parser; NDAs are told apart by name or content
+    const skippedAttachments: Array<{ fileName: string; reason: string }> = [];
+    const ndaAttachments = [];
+    for (const attachment of email.attachments) {
+      if (attachment.inline) {
+        skippedAttachments.push({ fileName: attachment.fileName, reason: 'Inline content' });
+        continue;
+      }
+      const parseResult = await parseDocument(attachment.content, attachment.fileName, attachment.contentType);
+      if (!parseResult.success) {
+        skippedAttachments.push({ fileName: attachment.fileName, reason: parseResult.error });
+      } else if (!isLikelyNdaAttachment(attachment.fileName, parseResult.data.text)) {
+        skippedAttachments.push({ fileName: attachment.fileName, reason: 'Does not look like an NDA' });
+      } else {
+        ndaAttachments.push({ attachment, parsed: parseResult.data });
+      }
+    }
+
+    if (ndaAttachments.length === 0) {
+      return NextResponse.json(
+        {
+          error: 'No NDA attachment found in email',
+          details: `${email.attachments.length} attachment(s) checked`,
+          skippedAttachments
+        },
+        { status: 422 }
+      );
+    }
+
+    const reviews = ndaAttachments.map(({ attachment, parsed }) => {
+      const defaults = emailReviewDefaults(email, attachment.fileName);
+      // Several NDAs in one email share a subject, so their titles name the attachment too
+      const title = ndaTitle || (ndaAttachments.length > 1 ? `${defaults.ndaTitle} (${attachment.fileName})` : defaults.ndaTitle);
+      return {
+        id: `dev-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        client_name: clientName || defaults.clientName,
+        nda_title: title,
+        file_path: `dev-mode/${Date.now()}-${attachment.fileName}`,
+        original_text: parsed.text,
+        source_pages: parsed.pages || null,
+        tracked_changes: parsed.originalText !== undefined
+          ? { originalText: parsed.originalText, revisions: parsed.revisions || [], comments: parsed.comments || [] }
+          : null,
+        // Reference back to the email the NDA arrived in
+        source_email: { ...sourceEmail, attachmentName: attachment.fileName },
+        party_perspective: partyPerspective,
+        status: 'uploaded',
+        created_at: new Date().toISOString(),
+        metadata: parsed.metadata
+      };
+    });
+
+    console.log(`Email intake: ${reviews.length} review(s) created from ${file.name}, ${skippedAttachments.length} attachment(s) skipped`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        email: { ...sourceEmail, attachmentCount: email.attachments.length },
+        reviews,
+        skippedAttachments
+      },
+      message: `${reviews.length} NDA attachment(s) ready for ${partyPerspective} party analysis`
+    });
+
+  } catch (error) {
+    console.error('Email intake API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
+import { checkGeneralProvisions } from '@/lib/general-provisions';
+import { buildDefinedTermsIndex } from '@/lib/defined-terms';
+import { findLowConfidencePages } from '@/lib/text-normalization';
+import { describeClauseFeatures } from '@/lib/extractors';
+import { getClauseTypeForName } from '@/lib/playbook/detection-profiles';
 
 // Force recompilation - development mode support added
 
@@ -78,7 +83,7 @@ export async function GET(
           *,
           clause_analyses(
             *,
-            clauses(id, name, category)
+            clauses(id, name, category, display_order, clause_key)
           )
         `)
         .eq('id', reviewId)
@@ -94,11 +99,19 @@ export async function GET(
       review = dbReview;
     }
 
+    // Extracted values (term, governing law, ...) are formatted here so the results view
+    // does not need the extractors or the playbook
+    review.clause_analyses = (review.clause_analyses || []).map((analysis: any) => {
+      if (!analysis.extracted_features || !analysis.clauses) return analysis;
+      const clauseKey = analysis.clauses.clause_key || getClauseTypeForName(analysis.clauses.name);
+      return { ...analysis, feature_summary: describeClauseFeatures(clauseKey, analysis.extracted_features) };
+    });
+
     // Organize analysis results by clause and match type
     const analysisByClause: Record<string, any> = {};
     const missingClauses: any[] = [];
 
-    for (const analysis of review.clause_analyses || []) {
+    for (const analysis of review.clause_analyses) {
       if (analysis.match_type === 'missing') {
         missingClauses.push(analysis);
       } else if (analysis.clauses) {
@@ -113,29 +126,35 @@ export async function GET(
       }
     }
 
-    // Calculate matrix view data (3×4 grid)
-    const matrixData = Object.values(analysisByClause).map((clauseData: any) => ({
-      clauseId: clauseData.clause.id,
-      clauseName: clauseData.clause.name,
-      startingPosition: clauseData.analyses.starting_position || null,
-      fallback: clauseData.analyses.fallback || null,
-      notAcceptable: clauseData.analyses.not_acceptable || null,
-      missing: false
-    }));
+    // Calculate matrix view data (one row per clause in playbook order, 4 columns)
+    const matrixData = Object.values(analysisByClause)
+      .sort((a: any, b: any) => (a.clause.display_order || 0) - (b.clause.display_order || 0))
+      .map((clauseData: any) => ({
+        clauseId: clauseData.clause.id,
+        clauseName: clauseData.clause.name,
+        clauseKey: clauseData.clause.clause_key || null,
+        startingPosition: clauseData.analyses.starting_position || null,
+        fallback: clauseData.analyses.fallback || null,
+        notAcceptable: clauseData.analyses.not_acceptable || null,
+        missing: false
+      }));
 
     // Add missing clauses to matrix
     const existingClauseNames = new Set(matrixData.map(item => item.clauseName));
     for (const missing of missingClauses) {
-      // Extract clause name from recommended action or use generic name
-      const clauseName = missing.recommended_action?.includes('Definition') ? 'Definition of Confidential Information' :
-                         missing.recommended_action?.includes('Duration') ? 'Duration of Confidentiality Obligations' :
-                         missing.recommended_action?.includes('Governing') ? 'Governing Law and Jurisdictions' :
-                         'Unknown Clause';
+      // Missing clauses are stored with their clause id; records saved before that
+      // fall back to the core clause named in the recommended action
+      const clauseName = missing.clauses?.name ||
+                         (missing.recommended_action?.includes('Definition') ? 'Definition of Confidential Information' :
+                          missing.recommended_action?.includes('Duration') ? 'Duration of Confidentiality Obligations' :
+                          missing.recommended_action?.includes('Governing') ? 'Governing Law and Jurisdictions' :
+                          'Unknown Clause');
       
       if (!existingClauseNames.has(clauseName)) {
         matrixData.push({
-          clauseId: null,
+          clauseId: missing.clauses?.id ?? null,
           clauseName,
+          clauseKey: missing.clauses?.clause_key || null,
           startingPosition: null,
           fallback: null,
           notAcceptable: null,
@@ -152,6 +171,10 @@ export async function GET(
       ? review.clause_analyses.reduce((sum: number, a: any) => sum + (a.confidence_score || 0), 0) / totalAnalyses
       : 0;
 
+    // General provisions (boilerplate) are checked for presence only, against the stored document text
+    const generalProvisions = checkGeneralProvisions(review.original_text || '', review.source_pages || undefined);
+    const definedTerms = buildDefinedTermsIndex(review.original_text || '', review.source_pages || undefined);
+
     return NextResponse.json({
       success: true,
       data: {
@@ -173,7 +196,20 @@ export async function GET(
           missingCount,
           avgConfidence: Math.round(avgConfidence * 100) / 100,
           riskLevel: notAcceptableCount > 0 ? 'high' : 
-                    missingCount > 0 ? 'medium' : 'low'
+                    missingCount > 0 ? 'medium' : 'low',
+          generalProvisions: {
+            presentCount: generalProvisions.filter(provision => provision.present).length,
+            total: generalProvisions.length,
+            provisions: generalProvisions
+          },
+          // Defined terms with their definitions, and drafting issues in how they are used
+          definedTerms: {
+            count: definedTerms.terms.length,
+            terms: definedTerms.terms,
+            issues: definedTerms.issues
+          },
+          // Scanned pages read by OCR with low confidence, where detection may be unreliable
+          lowConfidencePages: findLowConfidencePages(review.source_pages || undefined)
         },
         analyses: review.clause_analyses || []
       }
@@ -0,0 +1,90 @@
+// app/api/rules/[id]/route.ts
+// API endpoint for updating a playbook rule, with its condition validated before saving
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { validateRuleCondition } from '@/lib/playbook/rule-conditions';
+import type { ClauseRule } from '@/types';
+
+// Fields a rule update may change; the clause, rule type and party perspective are fixed
+const EDITABLE_FIELDS: Array<keyof ClauseRule> = [
+  'rule_text',
+  'keywords',
+  'severity',
+  'guidance_notes',
+  'example_language',
+  'rewriting_prompt',
+  'condition'
+];
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body: Partial<ClauseRule> = await request.json();
+
+    const updates: Record<string, unknown> = {};
+    EDITABLE_FIELDS.forEach(field => {
+      if (body[field] !== undefined) updates[field] = body[field];
+    });
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        { error: `Nothing to update; editable fields are ${EDITABLE_FIELDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('clause_rules')
+      .select('id, clauses(clause_key)')
+      .eq('id', params.id)
+      .single();
+
+    if (existingError || !existing) {
+      return NextResponse.json(
+        { error: 'Rule not found' },
+        { status: 404 }
+      );
+    }
+
+    // A null condition clears it, leaving the rule to keyword matching
+    if (updates.condition !== undefined && updates.condition !== null) {
+      const conditionErrors = validateRuleCondition(updates.condition, existing.clauses?.clause_key);
+      if (conditionErrors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid rule condition', details: conditionErrors },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { data: rule, error: ruleError } = await supabaseAdmin
+      .from('clause_rules')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', params.id)
+      .select('*')
+      .single();
+
+    if (ruleError) {
+      console.error('Database error updating rule:', ruleError);
+      return NextResponse.json(
+        { error: 'Failed to update rule', details: ruleError.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: rule });
+
+  } catch (error) {
+    console.error('Rules API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+// app/api/rules/route.ts
+// API endpoint for creating playbook rules, with their conditions validated before saving
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { validateRuleCondition } from '@/lib/playbook/rule-conditions';
+import type { ClauseRule } from '@/types';
+
+type NewClauseRule = Omit<ClauseRule, 'id' | 'created_at' | 'updated_at'>;
+
+const RULE_TYPES = ['starting_position', 'fallback', 'not_acceptable'];
+const PARTY_PERSPECTIVES = ['receiving', 'disclosing', 'mutual'];
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: NewClauseRule = await request.json();
+
+    if (!body.clause_id || !RULE_TYPES.includes(body.rule_type) || !PARTY_PERSPECTIVES.includes(body.party_perspective)) {
+      return NextResponse.json(
+        { error: 'Missing or invalid required fields: clause_id, rule_type, party_perspective' },
+        { status: 400 }
+      );
+    }
+
+    const { data: clause, error: clauseError } = await supabaseAdmin
+      .from('clauses')
+      .select('id, clause_key')
+      .eq('id', body.clause_id)
+      .single();
+
+    if (clauseError || !clause) {
+      return NextResponse.json(
+        { error: 'Clause not found' },
+        { status: 404 }
+      );
+    }
+
+    // Any condition given is validated; false, 0 or "" are rejected rather than dropped
+    if (body.condition !== undefined && body.condition !== null) {
+      const conditionErrors = validateRuleCondition(body.condition, clause.clause_key);
+      if (conditionErrors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid rule condition', details: conditionErrors },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { data: rule, error: ruleError } = await supabaseAdmin
+      .from('clause_rules')
+      .insert({
+        clause_id: body.clause_id,
+        rule_type: body.rule_type,
+        party_perspective: body.party_perspective,
+        rule_text: body.rule_text || '',
+        keywords: body.keywords || [],
+        severity: body.severity || 1,
+        guidance_notes: body.guidance_notes || null,
+        example_language: body.example_language || null,
+        rewriting_prompt: body.rewriting_prompt || null,
+        condition: body.condition ?? null
+      })
+      .select('*')
+      .single();
+
+    if (ruleError) {
+      console.error('Database error creating rule:', ruleError);
+      return NextResponse.json(
+        { error: 'Failed to create rule', details: ruleError.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: rule }, { status: 201 });
+
+  } catch (error) {
+    console.error('Rules API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { parseDocument, preprocessText } from '@/lib/document-parser';
+import { parseDocument } from '@/lib/document-parser';
+import type { PageBoundary } from '@/lib/text-normalization';
+import type { DocumentRevision, DocumentComment } from '@/lib/docx-revisions';
 import type { PartyPerspective } from '@/types';
 
 export async function POST(request: NextRequest) {
@@ -39,6 +41,8 @@ export async function POST(request: NextRequest) {
     // Parse the document or extract text
     let text: string;
     let metadata: any;
+    let pages: PageBoundary[] | undefined;
+    let trackedChanges: { originalText: string; revisions: DocumentRevision[]; comments: DocumentComment[] } | null = null;
     
     if (isTextInput) {
       // For text input, extract text directly from the file blob
@@ -66,12 +70,20 @@ export async function POST(request: NextRequest) {
       }
 
       text = parseResult.data.text;
+      pages = parseResult.data.pages;
       metadata = parseResult.data.metadata;
+      if (parseResult.data.originalText !== undefined) {
+        trackedChanges = {
+          originalText: parseResult.data.originalText,
+          revisions: parseResult.data.revisions || [],
+          comments: parseResult.data.comments || []
+        };
+      }
       console.log(`Document parsed: ${metadata.wordCount} words, ${metadata.pageCount || 'unknown'} pages`);
     }
 
-    const processedText = preprocessText(text);
-
+    // Keep the raw extracted text: analysis normalizes it internally and maps
+    // clause positions back to this text (and to PDF pages) for reviewers
     // Create mock review for algorithm testing (no database dependency)
     console.log('Creating mock review for algorithm testing - bypassing database');
     const mockReview = {
@@ -79,7 +91,10 @@ export async function POST(request: NextRequest) {
       client_name: clientName,
       nda_title: ndaTitle,
       file_path: `dev-mode/${Date.now()}-${file.name}`,
-      original_text: processedText,
+      original_text: text,
+      source_pages: pages || null,
+      // Counterparty revisions and comments, positioned in original_text (the accepted text)
+      tracked_changes: trackedChanges,
       party_perspective: partyPerspective,
       status: 'uploaded',
       created_at: new Date().toISOString(),
@@ -97,7 +112,12 @@ export async function POST(request: NextRequest) {
           characterCount: metadata.characterCount,
           sourceType: metadata.sourceType,
           fileName: file.name,
-          fileSize: file.size
+          fileSize: file.size,
+          ...(metadata.ocr ? { ocr: metadata.ocr } : {}),
+          ...(metadata.warnings ? { warnings: metadata.warnings } : {}),
+          ...(trackedChanges ? {
+            trackedChanges: { revisions: trackedChanges.revisions.length, comments: trackedChanges.comments.length }
+          } : {})
         }
       },
       message: `Document uploaded successfully for ${partyPerspective} party analysis`
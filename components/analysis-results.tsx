@@ -1,10 +1,13 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, type ReactNode } from 'react';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import type { PartyPerspective } from '@/types';
+import type { FeatureSummaryItem } from '@/lib/extractors';
+import type { GeneralProvisionCheck } from '@/lib/general-provisions';
+import type { DefinedTerm, DefinedTermIssue, DefinedTermIssueKind } from '@/lib/defined-terms';
 import { CheckCircle, XCircle, AlertTriangle, Info, ChevronDown, ChevronUp, FileText } from 'lucide-react';
 
 interface AnalysisResultsProps {
@@ -22,6 +25,24 @@ interface MatrixItem {
   missing: boolean;
 }
 
+interface MatchSpan {
+  start: number;
+  end: number;
+  page?: number;
+  line?: number;
+}
+
+const PREVIEW_LENGTH = 1500;
+// Characters of context shown before the first highlighted span
+const PREVIEW_CONTEXT = 200;
+
+const DEFINED_TERM_ISSUE_LABELS: Record<DefinedTermIssueKind, string> = {
+  undefined: 'Not defined',
+  unused: 'Unused',
+  inconsistent_definition: 'Inconsistent definitions',
+  capitalisation_drift: 'Capitalisation'
+};
+
 interface ReviewData {
   review: {
     id: string;
@@ -39,6 +60,17 @@ interface ReviewData {
     missingCount: number;
     avgConfidence: number;
     riskLevel: 'low' | 'medium' | 'high';
+    generalProvisions?: {
+      presentCount: number;
+      total: number;
+      provisions: GeneralProvisionCheck[];
+    };
+    definedTerms?: {
+      count: number;
+      terms: DefinedTerm[];
+      issues: DefinedTermIssue[];
+    };
+    lowConfidencePages?: number[];
   };
   analyses: any[];
 }
@@ -98,6 +130,12 @@ export function AnalysisResults({ reviewId, partyPerspective, onSwitchParty }: A
     }
   };
 
+  // Scanned pages under a clause's detection that OCR read with low confidence
+  const getLowConfidencePages = (item: MatrixItem): number[] => {
+    const analysis = item.startingPosition || item.fallback || item.notAcceptable;
+    return analysis?.low_confidence_pages || [];
+  };
+
   const getStatusText = (ruleType: string) => {
     switch (ruleType) {
       case 'startingPosition': return 'Starting Position';
@@ -121,6 +159,60 @@ export function AnalysisResults({ reviewId, partyPerspective, onSwitchParty }: A
     }
   };
 
+  // Spans of the selected analysis that fall inside the document, in document order
+  const getHighlightSpans = (text: string): MatchSpan[] => {
+    const spans: MatchSpan[] = selectedAnalysis?.match_spans ||
+      (selectedAnalysis?.position_end ? [{ start: selectedAnalysis.position_start, end: selectedAnalysis.position_end }] : []);
+    return spans
+      .filter(span => span.end > span.start && span.end <= text.length)
+      .sort((a, b) => a.start - b.start);
+  };
+
+  // Extracted values (term, governing law, ...) shown next to the matched text, formatted by the reviews API
+  const getFeatureSummary = (analysis: any): FeatureSummaryItem[] => analysis?.feature_summary || [];
+
+  const getLocationLabel = (span: MatchSpan) => {
+    if (span.page) return `Page ${span.page}${span.line ? `, line ${span.line}` : ''}`;
+    return span.line ? `Line ${span.line}` : null;
+  };
+
+  // Preview window around the highlighted spans, or the start of the document
+  const renderDocumentPreview = (text: string) => {
+    const spans = getHighlightSpans(text);
+    const windowStart = spans.length > 0 ? Math.max(0, spans[0].start - PREVIEW_CONTEXT) : 0;
+    const windowEnd = Math.min(
+      text.length,
+      Math.max(windowStart + PREVIEW_LENGTH, spans.length > 0 ? spans[spans.length - 1].end + PREVIEW_CONTEXT : 0)
+    );
+
+    const parts: ReactNode[] = [];
+    let cursor = windowStart;
+    spans.forEach((span, index) => {
+      const start = Math.max(span.start, cursor);
+      if (start >= span.end) return;
+      parts.push(text.substring(cursor, start));
+      parts.push(
+        <mark key={index} className="bg-yellow-200 rounded-sm">
+          {text.substring(start, span.end)}
+        </mark>
+      );
+      cursor = span.end;
+    });
+    parts.push(text.substring(cursor, windowEnd));
+
+    return {
+      content: (
+        <>
+          {windowStart > 0 && '...'}
+          {parts}
+          {windowEnd < text.length && '...'}
+        </>
+      ),
+      windowStart,
+      windowEnd
+    };
+  };
+
   const handleCellClick = (clauseName: string, ruleType: string, item: MatrixItem) => {
     const analysis = ruleType === 'missing' ? null : item[ruleType as keyof MatrixItem];
     if (analysis || ruleType === 'missing') {
@@ -185,6 +277,13 @@ export function AnalysisResults({ reviewId, partyPerspective, onSwitchParty }: A
             {data.summary.totalAnalyses} Analyses
           </Badge>
         </div>
+        {data.summary.lowConfidencePages && data.summary.lowConfidencePages.length > 0 && (
+          <div className="flex items-center gap-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-3 mb-4">
+            <AlertTriangle className="w-4 h-4" />
+            Scanned {data.summary.lowConfidencePages.length === 1 ? 'page' : 'pages'} {data.summary.lowConfidencePages.join(', ')} could
+            only be read with low OCR confidence; clause detection on {data.summary.lowConfidencePages.length === 1 ? 'it' : 'them'} may be unreliable.
+          </div>
+        )}
       </div>
 
       {/* Compact Document Preview Section */}
@@ -208,22 +307,23 @@ export function AnalysisResults({ reviewId, partyPerspective, onSwitchParty }: A
             }
           </Button>
           
-          {isPreviewExpanded && (
-            <div className="mt-4 pt-4 border-t border-gray-200">
-              <div className="bg-gray-50 border rounded-lg p-4 max-h-48 overflow-y-auto">
-                <div className="text-sm font-mono text-gray-700 whitespace-pre-wrap leading-relaxed">
-                  {data.review.originalText ? 
-                    data.review.originalText.substring(0, 1500) + (data.review.originalText.length > 1500 ? '...' : '')
-                    : 'Document text not available'}
+          {isPreviewExpanded && (() => {
+            const preview = data.review.originalText ? renderDocumentPreview(data.review.originalText) : null;
+            return (
+              <div className="mt-4 pt-4 border-t border-gray-200">
+                <div className="bg-gray-50 border rounded-lg p-4 max-h-48 overflow-y-auto">
+                  <div className="text-sm font-mono text-gray-700 whitespace-pre-wrap leading-relaxed">
+                    {preview ? preview.content : 'Document text not available'}
+                  </div>
                 </div>
+                {preview && data.review.originalText && (preview.windowStart > 0 || preview.windowEnd < data.review.originalText.length) && (
+                  <div className="text-xs text-gray-500 mt-2">
+                    Showing characters {(preview.windowStart + 1).toLocaleString()}–{preview.windowEnd.toLocaleString()} of {data.review.originalText.length.toLocaleString()} total
+                  </div>
+                )}
               </div>
-              {data.review.originalText && data.review.originalText.length > 1500 && (
-                <div className="text-xs text-gray-500 mt-2">
-                  Showing first 1,500 characters of {data.review.originalText.length} total
-                </div>
-              )}
-            </div>
-          )}
+            );
+          })()}
         </CardContent>
       </Card>
 
@@ -291,8 +391,15 @@ export function AnalysisResults({ reviewId, partyPerspective, onSwitchParty }: A
                     {data.matrix.map((item, index) => (
                       <tr key={index} className="border-b hover:bg-gray-50">
                         <td className="p-2 font-medium text-gray-900 text-sm min-w-[120px]">
-                          <div className="truncate" title={item.clauseName}>
-                            {item.clauseName}
+                          <div className="flex items-center gap-1">
+                            <div className="truncate" title={item.clauseName}>
+                              {item.clauseName}
+                            </div>
+                            {getLowConfidencePages(item).length > 0 && (
+                              <span title={`Low OCR confidence on page ${getLowConfidencePages(item).join(', ')}`}>
+                                <AlertTriangle className="w-3 h-3 flex-shrink-0 text-amber-600" />
+                              </span>
+                            )}
                           </div>
                         </td>
                         
@@ -384,13 +491,48 @@ export function AnalysisResults({ reviewId, partyPerspective, onSwitchParty }: A
                         </div>
                       </div>
 
+                      {selectedAnalysis.low_confidence_pages && selectedAnalysis.low_confidence_pages.length > 0 && (
+                        <div className="flex items-start gap-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-3">
+                          <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                          <span>
+                            Found on scanned {selectedAnalysis.low_confidence_pages.length === 1 ? 'page' : 'pages'} {selectedAnalysis.low_confidence_pages.join(', ')} read
+                            with low OCR confidence; check this clause against the original.
+                          </span>
+                        </div>
+                      )}
+
                       {/* Detected Text */}
                       {selectedAnalysis.detected_text && (
                         <div>
-                          <h4 className="font-medium text-gray-700 mb-2">Detected Text:</h4>
+                          <div className="flex items-center justify-between mb-2">
+                            <h4 className="font-medium text-gray-700">Detected Text:</h4>
+                            {data.review.originalText && getHighlightSpans(data.review.originalText).length > 0 && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-auto p-1 text-xs"
+                                onClick={() => setIsPreviewExpanded(true)}
+                              >
+                                {getHighlightSpans(data.review.originalText)
+                                  .map(getLocationLabel)
+                                  .filter(Boolean)
+                                  .join('; ') || 'Show'} in document
+                              </Button>
+                            )}
+                          </div>
                           <div className="bg-gray-50 p-3 rounded-lg border text-sm font-mono">
                             {selectedAnalysis.detected_text}
                           </div>
+                          {getFeatureSummary(selectedAnalysis).length > 0 && (
+                            <dl className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                              {getFeatureSummary(selectedAnalysis).map(item => (
+                                <div key={item.label} className="flex justify-between gap-2 border-b border-gray-100 py-0.5">
+                                  <dt className="text-gray-500">{item.label}</dt>
+                                  <dd className="font-medium text-gray-800 text-right">{item.value}</dd>
+                                </div>
+                              ))}
+                            </dl>
+                          )}
                         </div>
                       )}
 
@@ -528,6 +670,45 @@ export function AnalysisResults({ reviewId, partyPerspective, onSwitchParty }: A
               <strong>Overall Score:</strong> {(data.review.overallScore * 100).toFixed(0)}%
             </div>
           </div>
+          {data.summary.generalProvisions && (
+            <div className="mt-4 text-sm text-blue-700">
+              <strong>General Provisions:</strong> {data.summary.generalProvisions.presentCount} of {data.summary.generalProvisions.total} present
+              <div className="flex flex-wrap gap-2 mt-2">
+                {data.summary.generalProvisions.provisions.map(provision => (
+                  <Badge
+                    key={provision.key}
+                    variant={provision.present ? 'secondary' : 'outline'}
+                    title={provision.position ? `Line ${provision.position.line}${provision.position.page ? `, page ${provision.position.page}` : ''}` : 'Not found'}
+                  >
+                    {provision.present
+                      ? <CheckCircle className="w-3 h-3 text-green-600" />
+                      : <XCircle className="w-3 h-3 text-red-600" />}
+                    {provision.label}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+          {data.summary.definedTerms && (
+            <div className="mt-4 text-sm text-blue-700">
+              <strong>Defined Terms:</strong> {data.summary.definedTerms.count} defined, {data.summary.definedTerms.issues.length} {data.summary.definedTerms.issues.length === 1 ? 'issue' : 'issues'}
+              {data.summary.definedTerms.issues.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {data.summary.definedTerms.issues.map(issue => (
+                    <li
+                      key={`${issue.kind}-${issue.term}`}
+                      className="flex items-center gap-2"
+                      title={issue.positions.length > 0 ? `Line ${issue.positions[0].line}${issue.positions[0].page ? `, page ${issue.positions[0].page}` : ''}` : undefined}
+                    >
+                      <AlertTriangle className="w-3 h-3 text-yellow-600" />
+                      <Badge variant="outline">{DEFINED_TERM_ISSUE_LABELS[issue.kind]}</Badge>
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -5,6 +5,9 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import type { PartyPerspective } from '@/types';
+import type { ClassificationEvidence, MatchSpan } from '@/lib/clause-matcher';
+import type { RuleCondition } from '@/lib/playbook/rule-conditions';
+import type { RuleCriterion } from '@/lib/playbook/rule-criteria';
 import { 
   AlertTriangle, 
   ChevronRight, 
@@ -45,6 +48,129 @@ const ruleTypeLabels = {
   missing: '📝 Missing'
 };
 
+const matchTypeLabels: Record<string, string> = {
+  starting_position: '✅ Starting Position',
+  fallback: '⚠️ Fallback',
+  not_acceptable: '❌ Not Acceptable'
+};
+
+const criterionOperators: Record<RuleCriterion['op'], string> = {
+  eq: '=',
+  neq: '≠',
+  lt: '<',
+  lte: '≤',
+  gt: '>',
+  gte: '≥',
+  in: 'is one of',
+  not_in: 'is not one of',
+  exists: 'exists'
+};
+
+const formatScore = (value: number) => value.toFixed(2);
+
+const formatSpanLocation = (span: MatchSpan) =>
+  span.page ? `p. ${span.page}, line ${span.line}` : span.line ? `line ${span.line}` : `offset ${span.start}`;
+
+const formatCriterion = (criterion: RuleCriterion) => {
+  if (criterion.op === 'exists') return `${criterion.feature} ${criterion.value === false ? 'is absent' : 'is present'}`;
+  const value = Array.isArray(criterion.value) ? criterion.value.join(', ') : String(criterion.value);
+  return `${criterion.feature} ${criterionOperators[criterion.op]} ${value}`;
+};
+
+const formatCondition = (condition: RuleCondition): string => {
+  if ('all' in condition) return `(${condition.all.map(formatCondition).join(' and ')})`;
+  if ('any' in condition) return `(${condition.any.map(formatCondition).join(' or ')})`;
+  if ('not' in condition) return `not ${formatCondition(condition.not)}`;
+  return formatCriterion(condition);
+};
+
+// A top-level "all" is listed one test per line
+const listConditionTerms = (condition: RuleCondition): string[] =>
+  'all' in condition ? condition.all.map(formatCondition) : [formatCondition(condition)];
+
+function getEvidenceSummary(evidence: ClassificationEvidence, partyPerspective: PartyPerspective): string {
+  switch (evidence.method) {
+    case 'condition':
+      return 'The terms extracted from the clause meet the condition of this rule, so keyword scores were not used.';
+    case 'keywords':
+      return 'This rule had the highest weighted keyword score of the competing rules.';
+    case 'party_fallback':
+      return `No rule scored above ${formatScore(evidence.fallbackThreshold)}, so the rule type preferred for the ${partyLabels[partyPerspective].toLowerCase()} was used.`;
+    default:
+      return 'No rule could be scored, so the first rule for this clause was used as a conservative default.';
+  }
+}
+
+/**
+ * "Why this classification": how the selected rule won and what the competing rules scored
+ */
+function ClassificationEvidenceSection({
+  evidence,
+  partyPerspective
+}: {
+  evidence: ClassificationEvidence;
+  partyPerspective: PartyPerspective;
+}) {
+  return (
+    <div>
+      <h4 className="font-medium text-neutral-700 mb-2">Why this classification:</h4>
+      <div className="bg-neutral-50 p-3 rounded-lg border text-sm space-y-3">
+        <p className="text-neutral-600">{getEvidenceSummary(evidence, partyPerspective)}</p>
+
+        {evidence.condition && (
+          <ul className="list-disc list-inside text-xs text-neutral-600">
+            {listConditionTerms(evidence.condition).map((term, index) => (
+              <li key={index} className="font-mono">{term}</li>
+            ))}
+          </ul>
+        )}
+
+        {evidence.candidates.map(candidate => {
+          const isSelected = candidate.ruleId === evidence.selectedRuleId;
+          return (
+            <div
+              key={candidate.ruleId}
+              className={`p-2 rounded border ${isSelected ? 'border-neutral-400 bg-white' : 'border-neutral-200'}`}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-medium text-neutral-700">
+                  {matchTypeLabels[candidate.ruleType]}
+                  {isSelected && <span className="ml-2 text-xs text-neutral-500">(selected)</span>}
+                </span>
+                <Badge variant="outline" className="text-xs">{formatScore(candidate.total)}</Badge>
+              </div>
+              <p className="text-xs text-neutral-500 font-mono">
+                ({formatScore(candidate.keywordScore)} keywords + {formatScore(candidate.ruleTextBonus)} rule text)
+                {' '}× {candidate.typeWeight} party weight + {formatScore(candidate.severityBonus)} severity
+              </p>
+              {candidate.matchedKeywords.length > 0 ? (
+                <ul className="mt-1 space-y-0.5 text-xs text-neutral-600">
+                  {candidate.matchedKeywords.map(match => (
+                    <li key={match.keyword}>
+                      <span className="font-medium">{match.keyword}</span>
+                      {' '}({formatScore(match.score)})
+                      {match.spans.length > 0 && (
+                        <span className="text-neutral-400"> · {match.spans.map(formatSpanLocation).join('; ')}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="mt-1 text-xs text-neutral-400">No keywords matched</p>
+              )}
+              {candidate.ruleTextMatches.length > 0 && (
+                <p className="mt-1 text-xs text-neutral-500">
+                  Rule text words found: {candidate.ruleTextMatches.join(', ')}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 export function ClauseDetailPanel({
   isOpen,
   onClose,
@@ -229,6 +355,14 @@ export function ClauseDetailPanel({
                   </div>
                 </div>
 
+                {/* Classification Evidence */}
+                {selectedAnalysis.classification_evidence && (
+                  <ClassificationEvidenceSection
+                    evidence={selectedAnalysis.classification_evidence}
+                    partyPerspective={partyPerspective}
+                  />
+                )}
+
                 {/* Recommended Action */}
                 <div>
                   <h4 className="font-medium text-neutral-700 mb-2">Recommended Action:</h4>
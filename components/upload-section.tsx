@@ -9,12 +9,25 @@ import { Progress } from '@/components/ui/progress';
 import type { PartyPerspective } from '@/types';
 import { Upload, FileText, AlertCircle, CheckCircle } from 'lucide-react';
 
+// Emailed NDAs go through email intake, which fills in client name and title from the message
+const isEmailFile = (file: File | null) => !!file && /\.(?:eml|msg)$/i.test(file.name);
+const MAX_DOCUMENT_SIZE = 4.5 * 1024 * 1024;
+const MAX_EMAIL_SIZE = 25 * 1024 * 1024;
+
 interface UploadSectionProps {
   partyPerspective: PartyPerspective;
   onUploadComplete: (reviewId: string, clientName?: string, ndaTitle?: string, overallScore?: number) => void;
   onProgressUpdate: (progress: number) => void;
 }
 
+/** A review analyzed in this upload, ready to open in the results view */
+interface AnalyzedReview {
+  reviewId: string;
+  clientName?: string;
+  ndaTitle?: string;
+  overallScore?: number;
+}
+
 interface UploadState {
   status: 'idle' | 'uploading' | 'parsing' | 'analyzing' | 'complete' | 'error';
   progress: number;
@@ -24,6 +37,8 @@ interface UploadState {
   error: string | null;
   textInput: string;
   inputMode: 'file' | 'text';
+  /** Set when one upload created several reviews (an email with several NDAs) */
+  analyzedReviews: AnalyzedReview[];
 }
 
 export function UploadSection({ 
@@ -39,7 +54,8 @@ export function UploadSection({
     reviewId: null,
     error: null,
     textInput: '',
-    inputMode: 'file'
+    inputMode: 'file',
+    analyzedReviews: []
   });
   
   const [formData, setFormData] = useState({
@@ -63,9 +79,21 @@ export function UploadSection({
     onDrop,
     accept: {
       'application/pdf': ['.pdf'],
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx']
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+      'application/msword': ['.doc'],
+      'application/vnd.oasis.opendocument.text': ['.odt'],
+      'application/rtf': ['.rtf'],
+      'text/html': ['.html', '.htm'],
+      'text/markdown': ['.md', '.markdown'],
+      'text/plain': ['.txt'],
+      'message/rfc822': ['.eml'],
+      'application/vnd.ms-outlook': ['.msg']
     },
-    maxSize: 4.5 * 1024 * 1024, // 4.5MB
+    maxSize: MAX_EMAIL_SIZE,
+    // Documents keep the 4.5MB limit; emails may be larger because of their other attachments
+    validator: (file: File) => !isEmailFile(file) && file.size > MAX_DOCUMENT_SIZE
+      ? { code: 'file-too-large', message: 'File is larger than 4.5MB' }
+      : null,
     multiple: false
   });
 
@@ -81,6 +109,62 @@ export function UploadSection({
     return { valid: true, error: null };
   };
 
+  /**
+   * Run clause analysis on one uploaded review and return its overall score
+   */
+  const analyzeReview = async (review: any, step: (progress: number, message: string) => void) => {
+    const reviewId: string = review.id;
+
+    step(30, 'Extracting text from document...');
+
+    // Wait a moment for processing
+    await new Promise(resolve => setTimeout(resolve, 1000));
+
+    step(50, `Matching clauses for ${partyPerspective} party...`);
+
+    const analysisResponse = await fetch('/api/analyze', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ 
+        reviewId,
+        documentText: reviewId.startsWith('dev-') ? review.original_text : undefined,
+        documentPages: reviewId.startsWith('dev-') ? review.source_pages : undefined,
+        partyPerspective: reviewId.startsWith('dev-') ? partyPerspective : undefined
+      })
+    });
+
+    const analysisResult = await analysisResponse.json();
+
+    if (!analysisResult.success) {
+      throw new Error(analysisResult.error || 'Analysis failed');
+    }
+
+    step(75, `Generating ${partyPerspective}-specific suggestions...`);
+    
+    // Wait for AI processing simulation
+    await new Promise(resolve => setTimeout(resolve, 1500));
+
+    // Extract overall score from analysis or fetch from review API
+    let overallScore: number | undefined;
+    try {
+      if (analysisResult.data?.analysis?.overallScore) {
+        overallScore = analysisResult.data.analysis.overallScore;
+      } else {
+        // Fallback: fetch from review API
+        const reviewResponse = await fetch(`/api/reviews/${reviewId}`);
+        const reviewData = await reviewResponse.json();
+        if (reviewData.success && reviewData.data?.review?.overallScore) {
+          overallScore = reviewData.data.review.overallScore;
+        }
+      }
+    } catch (err) {
+      console.warn('Could not fetch overall score:', err);
+    }
+    return overallScore;
+  };
+
   const handleUpload = async () => {
     let hasValidInput = false;
     let validationError = null;
@@ -93,7 +177,8 @@ export function UploadSection({
       validationError = validation.error;
     }
     
-    if (!hasValidInput || !formData.clientName || !formData.ndaTitle) {
+    const emailUpload = uploadState.inputMode === 'file' && isEmailFile(uploadState.file);
+    if (!hasValidInput || (!emailUpload && (!formData.clientName || !formData.ndaTitle))) {
       setUploadState(prev => ({
         ...prev,
         error: validationError || `Please ${uploadState.inputMode === 'file' ? 'select a file' : 'enter text content'} and fill in all required fields`,
@@ -103,7 +188,7 @@ export function UploadSection({
     }
 
     try {
-      setUploadState(prev => ({ ...prev, status: 'uploading', error: null }));
+      setUploadState(prev => ({ ...prev, status: 'uploading', error: null, analyzedReviews: [] }));
       updateProgress(10, 'Uploading document...');
 
       // Upload the document or text
@@ -120,7 +205,7 @@ export function UploadSection({
       uploadFormData.append('ndaTitle', formData.ndaTitle);
       uploadFormData.append('partyPerspective', partyPerspective);
 
-      const uploadResponse = await fetch('/api/upload', {
+      const uploadResponse = await fetch(emailUpload ? '/api/intake/email' : '/api/upload', {
         method: 'POST',
         body: uploadFormData
       });
@@ -131,71 +216,38 @@ export function UploadSection({
         throw new Error(uploadResult.error || 'Upload failed');
       }
 
-      const reviewId = uploadResult.data.review.id;
-      setUploadState(prev => ({ ...prev, reviewId }));
-
-      updateProgress(30, 'Extracting text from document...');
+      // Email intake returns a review per NDA attachment; each one is analyzed
+      const reviews: any[] = emailUpload ? uploadResult.data.reviews : [uploadResult.data.review];
+      setUploadState(prev => ({ ...prev, reviewId: reviews[0].id, status: 'analyzing' }));
 
-      // Wait a moment for processing
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      updateProgress(50, `Matching clauses for ${partyPerspective} party...`);
-      
-      // Start analysis
-      setUploadState(prev => ({ ...prev, status: 'analyzing' }));
-      
-      const analysisResponse = await fetch('/api/analyze', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ 
-          reviewId,
-          documentText: reviewId.startsWith('dev-') ? uploadState.textInput : undefined,
-          partyPerspective: reviewId.startsWith('dev-') ? partyPerspective : undefined
-        })
-      });
-
-      const analysisResult = await analysisResponse.json();
-
-      if (!analysisResult.success) {
-        throw new Error(analysisResult.error || 'Analysis failed');
+      const analyzedReviews: AnalyzedReview[] = [];
+      for (let index = 0; index < reviews.length; index++) {
+        const review = reviews[index];
+        const step = (progress: number, message: string) => updateProgress(
+          Math.round((index * 100 + progress) / reviews.length),
+          reviews.length > 1 ? `${message} (${index + 1} of ${reviews.length})` : message
+        );
+        analyzedReviews.push({
+          reviewId: review.id,
+          clientName: formData.clientName || review.client_name || undefined,
+          ndaTitle: formData.ndaTitle || review.nda_title || undefined,
+          overallScore: await analyzeReview(review, step)
+        });
       }
 
-      updateProgress(75, `Generating ${partyPerspective}-specific suggestions...`);
-      
-      // Wait for AI processing simulation
-      await new Promise(resolve => setTimeout(resolve, 1500));
-
       updateProgress(100, 'Analysis complete!');
-      
-      setUploadState(prev => ({ ...prev, status: 'complete' }));
 
-      // Extract overall score from analysis or fetch from review API
-      let overallScore: number | undefined;
-      try {
-        if (analysisResult.data?.analysis?.overallScore) {
-          overallScore = analysisResult.data.analysis.overallScore;
-        } else {
-          // Fallback: fetch from review API
-          const reviewResponse = await fetch(`/api/reviews/${reviewId}`);
-          const reviewData = await reviewResponse.json();
-          if (reviewData.success && reviewData.data?.review?.overallScore) {
-            overallScore = reviewData.data.review.overallScore;
-          }
-        }
-      } catch (err) {
-        console.warn('Could not fetch overall score:', err);
+      if (analyzedReviews.length > 1) {
+        // Several NDAs: list them all instead of opening just one
+        setUploadState(prev => ({ ...prev, status: 'complete', analyzedReviews }));
+        return;
       }
+      setUploadState(prev => ({ ...prev, status: 'complete' }));
 
       // Auto-navigate to results after a brief delay
+      const [analyzed] = analyzedReviews;
       setTimeout(() => {
-        onUploadComplete(
-          reviewId, 
-          formData.clientName || undefined, 
-          formData.ndaTitle || undefined, 
-          overallScore
-        );
+        onUploadComplete(analyzed.reviewId, analyzed.clientName, analyzed.ndaTitle, analyzed.overallScore);
       }, 1500);
 
     } catch (error) {
@@ -218,7 +270,8 @@ export function UploadSection({
       reviewId: null,
       error: null,
       textInput: '',
-      inputMode: prev.inputMode // Preserve the input mode
+      inputMode: prev.inputMode, // Preserve the input mode
+      analyzedReviews: []
     }));
     setFormData({ clientName: '', ndaTitle: '' });
     updateProgress(0, '');
@@ -347,7 +400,7 @@ export function UploadSection({
               </CardTitle>
               <CardDescription>
                 {uploadState.inputMode === 'file' 
-                  ? 'Upload PDF or DOCX file (max 4.5MB)'
+                  ? 'Upload a PDF, Word, ODT, RTF, HTML, Markdown or text file (max 4.5MB), or the .eml/.msg email it arrived in'
                   : 'Paste or type your NDA text content directly'
                 }
               </CardDescription>
@@ -374,7 +427,7 @@ export function UploadSection({
                           Drag & drop an NDA file here, or click to select
                         </p>
                         <p className="text-xs text-gray-500">
-                          PDF or DOCX files only, up to 4.5MB
+                          PDF, DOCX, DOC, ODT, RTF, HTML, Markdown or TXT, up to 4.5MB; EML or MSG emails up to 25MB
                         </p>
                       </div>
                     )}
@@ -483,8 +536,7 @@ For purposes of this Agreement, confidential information shall include..."
                   ? !uploadState.file 
                   : !validateTextInput(uploadState.textInput).valid
                 ) || 
-                !formData.clientName || 
-                !formData.ndaTitle ||
+                (!isEmailFile(uploadState.file) && (!formData.clientName || !formData.ndaTitle)) ||
                 ['uploading', 'parsing', 'analyzing'].includes(uploadState.status)
               }
               className="flex-1"
@@ -529,6 +581,32 @@ For purposes of this Agreement, confidential information shall include..."
                 </div>
               )}
 
+              {uploadState.analyzedReviews.length > 1 && (
+                <div className="space-y-2">
+                  <div className="text-sm text-gray-700">
+                    The email contained {uploadState.analyzedReviews.length} NDAs. Open a review to see its results:
+                  </div>
+                  {uploadState.analyzedReviews.map(analyzed => (
+                    <div key={analyzed.reviewId} className="flex items-center justify-between gap-2 rounded border p-2">
+                      <div className="flex items-center gap-2 text-sm min-w-0">
+                        <FileText className="w-4 h-4 shrink-0 text-gray-500" />
+                        <span className="truncate">{analyzed.ndaTitle || analyzed.reviewId}</span>
+                        {analyzed.overallScore !== undefined && (
+                          <Badge variant="outline">{analyzed.overallScore}%</Badge>
+                        )}
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => onUploadComplete(analyzed.reviewId, analyzed.clientName, analyzed.ndaTitle, analyzed.overallScore)}
+                      >
+                        View Results
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {uploadState.error && (
                 <div className="flex items-start gap-2 text-red-600">
                   <AlertCircle className="w-5 h-5 mt-0.5" />
@@ -568,7 +646,7 @@ For purposes of this Agreement, confidential information shall include..."
                   uploadState.progress >= 100 ? 'text-green-600' : 'text-gray-400'
                 }`}>
                   <div className="w-2 h-2 rounded-full bg-current"></div>
-                  Complete - redirecting to results
+                  {uploadState.analyzedReviews.length > 1 ? 'Complete - choose a review to open' : 'Complete - redirecting to results'}
                 </div>
               </div>
             </CardContent>
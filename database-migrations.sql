@@ -230,6 +230,1556 @@ CREATE TABLE IF NOT EXISTS audit_trail (
 CREATE INDEX idx_audit_trail_lookup 
 ON audit_trail(document_id, created_at DESC);
 
+-- ============================================
+-- PHASE 6: Source Locations
+-- ============================================
+
+-- Page boundaries of the uploaded document (PDF), used to map offsets to pages
+ALTER TABLE reviews
+ADD COLUMN IF NOT EXISTS source_pages jsonb;
+
+-- Page and line of each detected clause, alongside position_start/position_end
+-- (offsets into reviews.original_text as extracted, before normalization)
+ALTER TABLE clause_analyses
+ADD COLUMN IF NOT EXISTS position_page integer,
+ADD COLUMN IF NOT EXISTS position_line integer;
+
+-- ============================================
+-- PHASE 7: Match Spans
+-- ============================================
+
+-- Every span of a detected clause, as [{start, end, page?, line?}] in document order.
+-- A clause split across sections has more than one span; position_start/position_end
+-- keep the primary span.
+ALTER TABLE clause_analyses
+ADD COLUMN IF NOT EXISTS match_spans jsonb;
+
+-- ============================================
+-- PHASE 8: Clause Detection Profiles
+-- ============================================
+
+-- clause_key links a clause to its profile in lib/playbook/detection-profiles.json;
+-- detection_profile overrides profile fields (keywords, contextPatterns, thresholds, ...)
+-- or defines a complete profile for a clause that is not in the playbook
+ALTER TABLE clauses
+ADD COLUMN IF NOT EXISTS clause_key VARCHAR(100),
+ADD COLUMN IF NOT EXISTS detection_profile jsonb;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_clauses_clause_key ON clauses(clause_key);
+
+UPDATE clauses SET clause_key = 'definition' WHERE name = 'Definition of Confidential Information' AND clause_key IS NULL;
+UPDATE clauses SET clause_key = 'duration' WHERE name = 'Duration of Confidentiality Obligations' AND clause_key IS NULL;
+UPDATE clauses SET clause_key = 'governing' WHERE name = 'Governing Law and Jurisdictions' AND clause_key IS NULL;
+
+-- ============================================
+-- PHASE 9: Structured Clause Features
+-- ============================================
+
+-- criteria: [{feature, op, value}] conditions on features extracted from the clause,
+-- all of which must hold. Rules with criteria are evaluated exactly before keyword matching.
+ALTER TABLE clause_rules
+ADD COLUMN IF NOT EXISTS criteria jsonb;
+
+-- Features extracted from the detected clause text (e.g. duration in months, trigger)
+ALTER TABLE clause_analyses
+ADD COLUMN IF NOT EXISTS extracted_features jsonb;
+
+-- Duration thresholds (durationMonths is the confidentiality term in months)
+UPDATE clause_rules SET criteria = '[{"feature": "kind", "op": "eq", "value": "fixed"}, {"feature": "durationMonths", "op": "lte", "value": 36}]'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'duration') AND party_perspective = 'receiving' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET criteria = '[{"feature": "kind", "op": "eq", "value": "fixed"}, {"feature": "durationMonths", "op": "gt", "value": 36}, {"feature": "durationMonths", "op": "lte", "value": 60}]'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'duration') AND party_perspective = 'receiving' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET criteria = '[{"feature": "kind", "op": "eq", "value": "perpetual"}]'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'duration') AND party_perspective = 'receiving' AND rule_type = 'not_acceptable';
+
+UPDATE clause_rules SET criteria = '[{"feature": "kind", "op": "eq", "value": "perpetual"}]'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'duration') AND party_perspective = 'disclosing' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET criteria = '[{"feature": "durationMonths", "op": "gte", "value": 84}, {"feature": "durationMonths", "op": "lte", "value": 120}, {"feature": "tradeSecretsIndefinite", "op": "eq", "value": true}]'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'duration') AND party_perspective = 'disclosing' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET criteria = '[{"feature": "kind", "op": "eq", "value": "fixed"}, {"feature": "durationMonths", "op": "lte", "value": 36}]'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'duration') AND party_perspective = 'disclosing' AND rule_type = 'not_acceptable';
+
+UPDATE clause_rules SET criteria = '[{"feature": "kind", "op": "eq", "value": "fixed"}, {"feature": "durationMonths", "op": "gt", "value": 36}, {"feature": "durationMonths", "op": "lte", "value": 60}]'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'duration') AND party_perspective = 'mutual' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET criteria = '[{"feature": "durationMonths", "op": "gte", "value": 36}, {"feature": "durationMonths", "op": "lte", "value": 84}]'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'duration') AND party_perspective = 'mutual' AND rule_type = 'fallback';
+
+-- Governing law lists (canonical jurisdiction ids, see lib/extractors/jurisdictions.ts).
+-- Rules that name "the receiving/disclosing party's jurisdiction" depend on the parties
+-- and are left to keyword matching unless criteria are configured per client.
+UPDATE clause_rules SET criteria = '[{"feature": "governingLaw", "op": "eq", "value": "SG"}]'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'governing') AND party_perspective = 'receiving' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET criteria = '[{"feature": "governingLaw", "op": "in", "value": ["SG", "HK"]}]'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'governing') AND party_perspective = 'disclosing' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET criteria = '[{"feature": "governingLaw", "op": "eq", "value": "SG"}]'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'governing') AND party_perspective = 'mutual' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET criteria = '[{"feature": "governingLaw", "op": "neq", "value": "SG"}, {"feature": "forumType", "op": "eq", "value": "arbitration"}, {"feature": "arbitralInstitution", "op": "in", "value": ["SIAC", "ICC", "LCIA", "HKIAC"]}]'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'governing') AND party_perspective = 'mutual' AND rule_type = 'fallback';
+
+-- Standard exceptions to the Confidential Information definition (see lib/extractors/standard-exceptions.ts).
+-- Each exception is present, narrowed, negated or missing; presentCount counts present and narrowed ones.
+-- Rules that turn on marking or symmetry rather than the exceptions are left to keyword matching.
+UPDATE clause_rules SET criteria = '[{"feature": "missingCount", "op": "eq", "value": 0}]'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'definition') AND party_perspective = 'receiving' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET criteria = '[{"feature": "exceptions.public_domain", "op": "in", "value": ["present", "narrowed"]}, {"feature": "exceptions.already_known", "op": "in", "value": ["present", "narrowed"]}, {"feature": "missingCount", "op": "gte", "value": 1}]'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'definition') AND party_perspective = 'receiving' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET criteria = '[{"feature": "presentCount", "op": "lte", "value": 1}]'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'definition') AND party_perspective = 'receiving' AND rule_type = 'not_acceptable';
+
+UPDATE clause_rules SET criteria = '[{"feature": "presentCount", "op": "lte", "value": 1}]'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'definition') AND party_perspective = 'disclosing' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET criteria = '[{"feature": "exceptions.public_domain", "op": "in", "value": ["present", "narrowed"]}, {"feature": "exceptions.independently_developed", "op": "in", "value": ["present", "narrowed"]}, {"feature": "missingCount", "op": "gte", "value": 1}]'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'definition') AND party_perspective = 'disclosing' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET criteria = '[{"feature": "exceptions.public_domain", "op": "in", "value": ["present", "narrowed"]}, {"feature": "exceptions.already_known", "op": "in", "value": ["present", "narrowed"]}]'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'definition') AND party_perspective = 'mutual' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET criteria = '[{"feature": "exceptions.already_known", "op": "in", "value": ["missing", "negated"]}, {"feature": "presentCount", "op": "gte", "value": 1}]'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'definition') AND party_perspective = 'mutual' AND rule_type = 'fallback';
+
+-- ============================================
+-- PHASE 10: Classification Evidence
+-- ============================================
+
+-- Why a clause got its match_type: matched keywords with spans, score components
+-- (keyword score, rule text bonus, party type weight, severity bonus), the competing
+-- rules and whether criteria or the party-context fallback decided it
+ALTER TABLE clause_analyses
+ADD COLUMN IF NOT EXISTS classification_evidence jsonb;
+
+-- ============================================
+-- PHASE 11: Rule Conditions
+-- ============================================
+
+-- Conditions combine feature tests with all / any / not, e.g.
+-- {"all": [{"feature": "durationMonths", "op": "lte", "value": 36},
+--          {"feature": "trigger", "op": "eq", "value": "disclosure"}]}
+-- The criteria column stays for existing rules and is read as an "all" condition
+ALTER TABLE clause_rules
+ADD COLUMN IF NOT EXISTS condition jsonb;
+
+UPDATE clause_rules
+SET condition = jsonb_build_object('all', criteria)
+WHERE criteria IS NOT NULL AND condition IS NULL;
+
+-- ============================================
+-- PHASE 12: Non-Solicitation and No-Hire Module
+-- ============================================
+
+-- The clause and its 9 rules are seeded in database-setup.sql as an optional clause:
+-- it is analysed when a document contains the covenant and never reported as missing
+-- Databases set up before this module get the clause and rules here; existing rows are left alone
+INSERT INTO clauses (name, category, display_order, is_active)
+SELECT 'Non-Solicitation and No-Hire', 'optional', 4, true
+WHERE NOT EXISTS (SELECT 1 FROM clauses WHERE name = 'Non-Solicitation and No-Hire');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'receiving',
+  'Non-solicitation only (no no-hire) of employees met during due diligence, for 12 months or less, with general advertisement and unsolicited approach carve-outs',
+  ARRAY['non-solicitation', 'employees introduced', 'due diligence', 'twelve months', 'general solicitation', 'not specifically directed', 'own initiative', 'unsolicited'],
+  3,
+  'Acquirer wants the narrowest covenant: no hiring ban, limited to people it actually met, short term and standard carve-outs so ordinary recruiting is unaffected',
+  'For twelve (12) months from the date of this Agreement, the Recipient shall not solicit for employment any employee of the Company with whom it first had contact in connection with its evaluation of the Transaction, provided that general solicitations not specifically directed at such employees, and hiring any person who approaches the Recipient on their own initiative, shall not breach this clause',
+  'Rewrite this non-solicitation clause to favor the receiving party in an M&A context by removing any no-hire restriction, limiting it to employees met during due diligence for no more than 12 months, and adding carve-outs for general advertisements and unsolicited approaches'
+FROM clauses WHERE name = 'Non-Solicitation and No-Hire'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'receiving',
+  'Non-solicitation and no-hire of key employees or due diligence contacts for up to 24 months with a general advertisement carve-out',
+  ARRAY['key employees', 'officers', 'no-hire', 'due diligence', 'eighteen months', 'twenty-four months', 'general advertisement', 'search firm'],
+  4,
+  'Acceptable compromise when the target insists on a hiring ban, provided it is limited to key staff or contacts and recruiting through general advertisements stays open',
+  'For eighteen (18) months, the Recipient shall not solicit or hire any officer or key employee of the Company introduced to it during due diligence, other than through general advertisements or search firms not directed at such persons',
+  'Rewrite to limit the non-solicitation and no-hire covenant to key employees or due diligence contacts, cap it at 24 months and preserve a carve-out for general advertisements and search firm activity'
+FROM clauses WHERE name = 'Non-Solicitation and No-Hire'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'receiving',
+  'No-hire covering all employees, a restricted period over 24 months or without end, or no carve-outs',
+  ARRAY['all employees', 'any employee', 'no-hire', 'three years', 'indefinitely', 'whether or not solicited', 'solicited or unsolicited', 'directly or indirectly'],
+  5,
+  'Unacceptable - a blanket hiring ban with no carve-outs restricts ordinary recruiting across the whole group long after the deal',
+  'The Recipient shall not, for a period of three (3) years, directly or indirectly solicit, hire or engage any employee of the Company, whether solicited or unsolicited',
+  'This restrictive covenant must be narrowed: remove the blanket no-hire, limit it to employees met during due diligence for at most 24 months, and add carve-outs for general advertisements and unsolicited approaches'
+FROM clauses WHERE name = 'Non-Solicitation and No-Hire'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'disclosing',
+  'Non-solicitation and no-hire covering all or key employees for at least 24 months',
+  ARRAY['non-solicitation', 'no-hire', 'any employee', 'officers', 'twenty-four months', 'two years', 'directly or indirectly', 'induce'],
+  4,
+  'Target wants to protect its workforce from being poached while it shares organisational information during the process',
+  'For twenty-four (24) months from the date of this Agreement, the Recipient shall not, directly or indirectly, solicit, induce or hire any employee or officer of the Company',
+  'Rewrite to favor the disclosing party by prohibiting both solicitation and hiring of any employee or officer for at least 24 months, directly or indirectly'
+FROM clauses WHERE name = 'Non-Solicitation and No-Hire'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'disclosing',
+  'Non-solicitation of key employees and due diligence contacts for 12 to 24 months with standard carve-outs',
+  ARRAY['non-solicitation', 'key employees', 'due diligence', 'twelve months', 'eighteen months', 'general solicitation', 'standard carve-outs'],
+  3,
+  'Compromise keeping protection for the people the buyer actually meets while accepting general advertisement and unsolicited approach carve-outs',
+  'For eighteen (18) months, the Recipient shall not solicit any key employee of the Company with whom it had contact during due diligence, except through general solicitations not targeted at such employees',
+  'Rewrite to keep a non-solicitation covenant of at least 12 months for key employees and due diligence contacts, accepting only standard carve-outs for general solicitations'
+FROM clauses WHERE name = 'Non-Solicitation and No-Hire'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'disclosing',
+  'Covenant shorter than 12 months or hollowed out by broad carve-outs, including former employees',
+  ARRAY['six months', 'former employees', 'terminated', 'unsolicited', 'general advertisement', 'search firm', 'own initiative'],
+  5,
+  'Unacceptable - a short covenant with every carve-out gives no real protection against targeted poaching',
+  'For six (6) months, the Recipient shall not solicit employees, excluding general advertisements, search firm activity, unsolicited approaches and any former employee',
+  'This weak covenant must be strengthened to at least 12 months, with carve-outs limited to general advertisements not targeted at Company employees'
+FROM clauses WHERE name = 'Non-Solicitation and No-Hire'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'mutual',
+  'Reciprocal non-solicitation of employees met during the transaction for 12 months with standard carve-outs',
+  ARRAY['neither party', 'reciprocal', 'non-solicitation', 'twelve months', 'had contact', 'general solicitation', 'unsolicited'],
+  3,
+  'Balanced covenant binding both parties equally, limited to people met through the transaction',
+  'For twelve (12) months, neither party shall solicit for employment any employee of the other party with whom it had contact in connection with the Transaction, except through general solicitations or where the employee initiates contact',
+  'Rewrite to make the non-solicitation covenant reciprocal, limited to employees met during the transaction for 12 months with carve-outs for general solicitations and unsolicited approaches'
+FROM clauses WHERE name = 'Non-Solicitation and No-Hire'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'mutual');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'mutual',
+  'Reciprocal non-solicitation and no-hire for up to 24 months with a general advertisement carve-out',
+  ARRAY['neither party', 'no-hire', 'eighteen months', 'twenty-four months', 'general advertisement', 'key employees'],
+  4,
+  'Compromise accepting a mutual hiring ban if it is time-limited and leaves general recruiting open',
+  'For eighteen (18) months, neither party shall solicit or hire any key employee of the other, other than through general advertisements not directed at such employees',
+  'Rewrite to make any no-hire covenant reciprocal, capped at 24 months, with a carve-out for general advertisements'
+FROM clauses WHERE name = 'Non-Solicitation and No-Hire'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'mutual');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'mutual',
+  'One-sided or open-ended non-solicitation that binds only one party or has no end date',
+  ARRAY['only the recipient', 'one-sided', 'indefinitely', 'perpetual', 'three years', 'any employee'],
+  5,
+  'Any restrictive covenant that binds only one party or never expires is unacceptable in a mutual NDA',
+  'The Recipient shall not at any time solicit or hire any employee of the Discloser',
+  'This one-sided covenant must be made reciprocal and time-limited, with standard carve-outs for general advertisements and unsolicited approaches'
+FROM clauses WHERE name = 'Non-Solicitation and No-Hire'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'mutual');
+UPDATE clauses SET clause_key = 'non_solicit' WHERE name = 'Non-Solicitation and No-Hire' AND clause_key IS NULL;
+
+-- Thresholds on the restricted period (durationMonths), who is covered and the carve-outs.
+-- Whether a mutual covenant is one-sided is not extracted; keywords still pick that rule up.
+UPDATE clause_rules SET condition = '{"all": [{"feature": "hasNoHire", "op": "eq", "value": false}, {"feature": "coveredPersons", "op": "in", "value": ["due_diligence_contacts", "key_employees"]}, {"feature": "durationMonths", "op": "lte", "value": 12}, {"feature": "carveOuts.general_advertisement", "op": "eq", "value": true}, {"feature": "carveOuts.unsolicited_approach", "op": "eq", "value": true}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'non_solicit') AND party_perspective = 'receiving' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "coveredPersons", "op": "in", "value": ["due_diligence_contacts", "key_employees"]}, {"feature": "durationMonths", "op": "lte", "value": 24}, {"feature": "carveOuts.general_advertisement", "op": "eq", "value": true}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'non_solicit') AND party_perspective = 'receiving' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"any": [{"feature": "durationMonths", "op": "gt", "value": 24}, {"feature": "durationMonths", "op": "exists", "value": false}, {"all": [{"feature": "hasNoHire", "op": "eq", "value": true}, {"feature": "coveredPersons", "op": "eq", "value": "all_employees"}]}, {"feature": "carveOutCount", "op": "eq", "value": 0}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'non_solicit') AND party_perspective = 'receiving' AND rule_type = 'not_acceptable';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "hasNoHire", "op": "eq", "value": true}, {"feature": "coveredPersons", "op": "in", "value": ["all_employees", "key_employees"]}, {"feature": "durationMonths", "op": "gte", "value": 24}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'non_solicit') AND party_perspective = 'disclosing' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "hasNonSolicit", "op": "eq", "value": true}, {"feature": "durationMonths", "op": "gte", "value": 12}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'non_solicit') AND party_perspective = 'disclosing' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"any": [{"feature": "durationMonths", "op": "lt", "value": 12}, {"feature": "carveOutCount", "op": "eq", "value": 3}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'non_solicit') AND party_perspective = 'disclosing' AND rule_type = 'not_acceptable';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "coveredPersons", "op": "in", "value": ["due_diligence_contacts", "key_employees"]}, {"feature": "durationMonths", "op": "lte", "value": 12}, {"feature": "carveOuts.general_advertisement", "op": "eq", "value": true}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'non_solicit') AND party_perspective = 'mutual' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "durationMonths", "op": "lte", "value": 24}, {"feature": "carveOuts.general_advertisement", "op": "eq", "value": true}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'non_solicit') AND party_perspective = 'mutual' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"any": [{"feature": "durationMonths", "op": "gt", "value": 24}, {"feature": "durationMonths", "op": "exists", "value": false}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'non_solicit') AND party_perspective = 'mutual' AND rule_type = 'not_acceptable';
+
+-- ============================================
+-- PHASE 13: Standstill Module
+-- ============================================
+
+-- The clause and its 9 rules are seeded in database-setup.sql as an optional clause:
+-- it is analysed when a document contains a standstill and never reported as missing
+-- Inserted when missing, as in Phase 12, before the key and conditions are set
+INSERT INTO clauses (name, category, display_order, is_active)
+SELECT 'Standstill', 'optional', 5, true
+WHERE NOT EXISTS (SELECT 1 FROM clauses WHERE name = 'Standstill');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'receiving',
+  'Standstill of 12 months or less that falls away on a third-party offer or a sale agreement, without "don''t ask, don''t waive" language',
+  ARRAY['standstill', 'twelve months', 'shall terminate', 'third party', 'tender offer', 'definitive agreement', 'confidential proposal'],
+  3,
+  'Acquirer wants a short standstill that ends as soon as someone else bids or the target agrees a deal, and keeps the right to approach the board privately',
+  'For twelve (12) months, the Recipient shall not acquire any voting securities of the Company; these restrictions shall terminate if any third party commences a tender offer for the Company or the Company enters into a definitive agreement for its sale to a third party',
+  'Rewrite this standstill to favor the receiving party by limiting it to 12 months, adding fall-aways for third-party offers and sale agreements, and preserving the right to make confidential proposals to the board'
+FROM clauses WHERE name = 'Standstill'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'receiving',
+  'Standstill of up to 18 months with at least one fall-away trigger',
+  ARRAY['standstill', 'eighteen months', 'shall terminate', 'third party', 'fall away', 'beneficial ownership'],
+  4,
+  'Acceptable compromise if the acquirer is not locked out after a competing bid or a sale to someone else',
+  'For eighteen (18) months, the Recipient shall not acquire beneficial ownership of more than 4.9% of the outstanding voting securities of the Company, provided that this paragraph shall cease to apply if the Company enters into an agreement with a third party for the sale of the Company',
+  'Rewrite to cap the standstill at 18 months and add at least one fall-away, preferably on a third-party tender offer or the Company entering into a sale agreement'
+FROM clauses WHERE name = 'Standstill'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'receiving',
+  'Standstill over 24 months or without a stated period, or "don''t ask, don''t waive" with no fall-away',
+  ARRAY['three years', 'indefinitely', 'request', 'waive', 'amend', 'directly or indirectly', 'standstill'],
+  5,
+  'Unacceptable - the acquirer could be shut out of a competitive process, unable even to ask the board to let it bid',
+  'For three (3) years the Recipient shall not acquire any securities of the Company or request the Company to amend or waive any provision of this paragraph',
+  'This standstill must be limited to at most 24 months, the "don''t ask, don''t waive" language removed or made subject to fall-aways for third-party offers and sale agreements'
+FROM clauses WHERE name = 'Standstill'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'disclosing',
+  'Standstill of at least 18 months with "don''t ask, don''t waive" language and no fall-away',
+  ARRAY['standstill', 'eighteen months', 'two years', 'request', 'waive', 'amend', 'voting securities', 'tender offer'],
+  4,
+  'Target wants to control the sale process: no stake building, no hostile approach and no public requests for a waiver',
+  'For two (2) years, the Recipient shall not acquire any voting securities of the Company, make any tender offer, solicit proxies or request the Company to amend or waive any provision of this paragraph',
+  'Rewrite to favor the disclosing party with a standstill of at least 18 months, a prohibition on requesting waivers or amendments and no fall-away triggers'
+FROM clauses WHERE name = 'Standstill'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'disclosing',
+  'Standstill of at least 12 months, accepting fall-aways on a third-party offer or sale agreement',
+  ARRAY['standstill', 'twelve months', 'voting securities', 'shall terminate', 'third party', 'definitive agreement'],
+  3,
+  'Compromise accepting market fall-aways as long as the standstill lasts long enough to run an orderly process',
+  'For twelve (12) months, the Recipient shall not acquire any voting securities of the Company, provided that these restrictions shall terminate if the Company enters into a definitive agreement with a third party',
+  'Rewrite to keep the standstill at 12 months or more, accepting fall-aways only for a third-party tender offer or a definitive sale agreement'
+FROM clauses WHERE name = 'Standstill'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'disclosing',
+  'Standstill shorter than 12 months or an ownership cap above 10%',
+  ARRAY['six months', 'nine months', 'ten percent', 'fifteen percent', 'toehold', 'beneficial ownership'],
+  5,
+  'Unacceptable - a short standstill or a large ownership cap lets the bidder build a blocking stake while holding confidential information',
+  'For six (6) months, the Recipient shall not acquire beneficial ownership of more than 15% of the outstanding voting securities of the Company',
+  'This standstill must run for at least 12 months and limit ownership to 5% or less of the outstanding voting securities'
+FROM clauses WHERE name = 'Standstill'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'mutual',
+  'Standstill of 12 months or less with at least one fall-away trigger',
+  ARRAY['standstill', 'twelve months', 'shall terminate', 'third party', 'each party', 'voting securities'],
+  3,
+  'Balanced standstill that is short and ends when a third party bids or a sale is agreed',
+  'For twelve (12) months, neither party shall acquire voting securities of the other, provided that these restrictions shall terminate if a third party commences a tender offer for such party',
+  'Rewrite to limit the standstill to 12 months and add a fall-away for third-party offers or sale agreements'
+FROM clauses WHERE name = 'Standstill'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'mutual');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'mutual',
+  'Standstill of up to 18 months',
+  ARRAY['standstill', 'eighteen months', 'voting securities', 'each party', 'tender offer'],
+  4,
+  'Compromise accepting a longer standstill if it remains time-limited',
+  'For eighteen (18) months, neither party shall acquire voting securities of the other or commence any tender offer for such securities',
+  'Rewrite to cap the standstill at 18 months, ideally with fall-aways for third-party offers and sale agreements'
+FROM clauses WHERE name = 'Standstill'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'mutual');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'mutual',
+  'Standstill over 24 months or without a stated period',
+  ARRAY['three years', 'indefinitely', 'perpetual', 'at any time', 'standstill'],
+  5,
+  'An open-ended or multi-year standstill is unacceptable in a balanced relationship',
+  'Neither party shall at any time acquire any securities of the other party',
+  'This standstill must be time-limited to at most 24 months, with fall-aways for third-party offers and sale agreements'
+FROM clauses WHERE name = 'Standstill'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'mutual');
+UPDATE clauses SET clause_key = 'standstill' WHERE name = 'Standstill' AND clause_key IS NULL;
+
+-- Thresholds on the standstill period (durationMonths), ownership cap, fall-aways and "don't ask, don't waive"
+UPDATE clause_rules SET condition = '{"all": [{"feature": "durationMonths", "op": "lte", "value": 12}, {"feature": "fallAway.third_party_offer", "op": "eq", "value": true}, {"feature": "fallAway.sale_agreement", "op": "eq", "value": true}, {"feature": "dontAskDontWaive", "op": "eq", "value": false}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'standstill') AND party_perspective = 'receiving' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "durationMonths", "op": "lte", "value": 18}, {"feature": "fallAwayCount", "op": "gte", "value": 1}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'standstill') AND party_perspective = 'receiving' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"any": [{"feature": "durationMonths", "op": "gt", "value": 24}, {"feature": "durationMonths", "op": "exists", "value": false}, {"all": [{"feature": "dontAskDontWaive", "op": "eq", "value": true}, {"feature": "fallAwayCount", "op": "eq", "value": 0}]}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'standstill') AND party_perspective = 'receiving' AND rule_type = 'not_acceptable';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "durationMonths", "op": "gte", "value": 18}, {"feature": "dontAskDontWaive", "op": "eq", "value": true}, {"feature": "fallAwayCount", "op": "eq", "value": 0}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'standstill') AND party_perspective = 'disclosing' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "durationMonths", "op": "gte", "value": 12}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'standstill') AND party_perspective = 'disclosing' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"any": [{"feature": "durationMonths", "op": "lt", "value": 12}, {"feature": "ownershipThresholdPercent", "op": "gt", "value": 10}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'standstill') AND party_perspective = 'disclosing' AND rule_type = 'not_acceptable';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "durationMonths", "op": "lte", "value": 12}, {"feature": "fallAwayCount", "op": "gte", "value": 1}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'standstill') AND party_perspective = 'mutual' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "durationMonths", "op": "lte", "value": 18}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'standstill') AND party_perspective = 'mutual' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"any": [{"feature": "durationMonths", "op": "gt", "value": 24}, {"feature": "durationMonths", "op": "exists", "value": false}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'standstill') AND party_perspective = 'mutual' AND rule_type = 'not_acceptable';
+
+-- ============================================
+-- PHASE 14: Return or Destruction of Information Module
+-- ============================================
+
+-- The clause and its 9 rules are seeded in database-setup.sql as a standard clause:
+-- unlike optional modules it is reported as missing when the document has none
+-- Inserted when missing, as in Phase 12, before the key and conditions are set
+INSERT INTO clauses (name, category, display_order, is_active)
+SELECT 'Return of Information', 'standard', 6, true
+WHERE NOT EXISTS (SELECT 1 FROM clauses WHERE name = 'Return of Information');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'receiving',
+  'Option to return or destroy, a deadline of at least 30 days if any, and carve-outs for automatic backups, legal or regulatory retention and board papers',
+  ARRAY['return or destroy', 'backup', 'archival', 'required by law', 'document retention', 'board papers', 'retain'],
+  3,
+  'Recipient wants to choose destruction over return, enough time to locate copies, and to keep what it cannot practically or lawfully delete',
+  'Upon the written request of the Company, the Recipient shall within thirty (30) days return or destroy the Confidential Information, provided that the Recipient may retain copies required by applicable law, regulation or its document retention policies, electronic copies created by automatic back-up systems and board papers, all of which shall remain subject to this Agreement',
+  'Rewrite this return-or-destroy clause to favor the receiving party by allowing destruction instead of return, a deadline of at least 30 days and carve-outs for automatic backups, legal or regulatory retention and board papers'
+FROM clauses WHERE name = 'Return of Information'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'receiving',
+  'Carve-outs for automatic backups and legal or regulatory retention, with a deadline of at least 10 days if any',
+  ARRAY['backup', 'required by law', 'regulation', 'retain', 'ten days', 'destroy'],
+  4,
+  'Acceptable if the recipient can keep backup copies and records it must retain, even without a board papers carve-out',
+  'The Recipient shall destroy the Confidential Information within ten (10) business days of request, except for copies retained under applicable law or regulation and copies held on automatic back-up systems',
+  'Rewrite to keep carve-outs for automatic backups and legally or regulatorily required retention, with a deadline of at least 10 business days'
+FROM clauses WHERE name = 'Return of Information'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'receiving',
+  'Return only with no option to destroy, no retention carve-outs, or a deadline under 5 days',
+  ARRAY['return all', 'immediately', 'all copies', 'without retaining', 'no copies', 'forthwith'],
+  5,
+  'Unacceptable - the recipient cannot comply: backup and regulatory copies cannot be returned or deleted on demand',
+  'Upon request the Recipient shall immediately return all Confidential Information and all copies thereof, without retaining any copy in any form',
+  'This clause must allow destruction as an alternative to return, a practical deadline and carve-outs for automatic backups and legally required retention'
+FROM clauses WHERE name = 'Return of Information'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'disclosing',
+  'Return or destruction on request within 10 days, certified in writing, with no retention carve-outs',
+  ARRAY['upon request', 'return or destroy', 'certify', 'in writing', 'all copies', 'ten days'],
+  4,
+  'Discloser wants every copy back or destroyed on demand and written proof that it was done',
+  'Upon the Company''s request at any time, the Recipient shall within ten (10) days return or destroy all Confidential Information and all copies, and an officer of the Recipient shall certify such return or destruction in writing',
+  'Rewrite to favor the disclosing party by requiring return or destruction on request within 10 days, written certification by an officer and no retention carve-outs'
+FROM clauses WHERE name = 'Return of Information'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'disclosing',
+  'Return or destruction on request with written certification, accepting limited retention carve-outs',
+  ARRAY['upon request', 'certify', 'in writing', 'destroy', 'remain subject', 'retain'],
+  3,
+  'Compromise accepting backup and legal retention carve-outs as long as retained copies stay confidential and destruction is certified',
+  'Upon request the Recipient shall destroy the Confidential Information and certify such destruction in writing, provided that copies retained under applicable law shall remain subject to this Agreement',
+  'Rewrite to keep return or destruction on request with written certification, limiting any retention carve-outs and keeping retained copies subject to the confidentiality obligations'
+FROM clauses WHERE name = 'Return of Information'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'disclosing',
+  'No right to demand return on request, or a deadline over 30 days',
+  ARRAY['termination', 'sixty days', 'ninety days', 'reasonable time', 'at its discretion'],
+  5,
+  'Unacceptable - the discloser cannot recover its information when it wants to end the process',
+  'Within ninety (90) days after termination of this Agreement, the Recipient shall return or destroy Confidential Information in its possession',
+  'This clause must let the disclosing party demand return or destruction at any time, within 30 days at most'
+FROM clauses WHERE name = 'Return of Information'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'mutual',
+  'Return or destruction on request with written certification and carve-outs for automatic backups and legal retention',
+  ARRAY['each party', 'upon request', 'return or destroy', 'certify', 'backup', 'required by law'],
+  3,
+  'Balanced clause: either party can demand its information back, and both keep what they cannot practically or lawfully delete',
+  'Upon the request of the disclosing party, the receiving party shall return or destroy its Confidential Information and certify such destruction in writing, except for copies retained under applicable law or on automatic back-up systems, which shall remain confidential',
+  'Rewrite to apply return-or-destroy on request to both parties, with written certification and carve-outs for automatic backups and legally required retention'
+FROM clauses WHERE name = 'Return of Information'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'mutual');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'mutual',
+  'Option to return or destroy with at least one retention carve-out',
+  ARRAY['return or destroy', 'retain', 'backup', 'required by law'],
+  4,
+  'Compromise where certification is dropped but destruction remains an option and some retention is allowed',
+  'Either party may, upon request, return or destroy the other party''s Confidential Information, except for copies it is required by law to retain',
+  'Rewrite to allow return or destruction, with carve-outs for automatic backups and legally required retention'
+FROM clauses WHERE name = 'Return of Information'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'mutual');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'mutual',
+  'Return only with no option to destroy and no retention carve-outs',
+  ARRAY['return all', 'immediately', 'all copies', 'without retaining', 'only the recipient'],
+  5,
+  'A return-only obligation with no carve-outs cannot be complied with for electronic copies and is unbalanced in a mutual NDA',
+  'The Recipient shall immediately return all Confidential Information and all copies thereof',
+  'This clause must allow destruction as an alternative to return and include carve-outs for automatic backups and legally required retention'
+FROM clauses WHERE name = 'Return of Information'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'mutual');
+UPDATE clauses SET clause_key = 'return_of_info' WHERE name = 'Return of Information' AND clause_key IS NULL;
+
+-- Thresholds on the obligation, deadline (deadlineDays), certification and retention carve-outs
+UPDATE clause_rules SET condition = '{"all": [{"feature": "obligation", "op": "eq", "value": "return_or_destroy"}, {"feature": "retentionCarveOutCount", "op": "eq", "value": 3}, {"any": [{"feature": "deadlineDays", "op": "exists", "value": false}, {"feature": "deadlineDays", "op": "gte", "value": 30}]}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'return_of_info') AND party_perspective = 'receiving' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "retentionCarveOuts.automatic_backups", "op": "eq", "value": true}, {"feature": "retentionCarveOuts.legal_retention", "op": "eq", "value": true}, {"any": [{"feature": "deadlineDays", "op": "exists", "value": false}, {"feature": "deadlineDays", "op": "gte", "value": 10}]}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'return_of_info') AND party_perspective = 'receiving' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"any": [{"feature": "obligation", "op": "eq", "value": "return"}, {"feature": "retentionCarveOutCount", "op": "eq", "value": 0}, {"feature": "deadlineDays", "op": "lt", "value": 5}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'return_of_info') AND party_perspective = 'receiving' AND rule_type = 'not_acceptable';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "triggers.on_request", "op": "eq", "value": true}, {"feature": "certificationRequired", "op": "eq", "value": true}, {"feature": "deadlineDays", "op": "lte", "value": 10}, {"feature": "retentionCarveOutCount", "op": "eq", "value": 0}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'return_of_info') AND party_perspective = 'disclosing' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "triggers.on_request", "op": "eq", "value": true}, {"feature": "certificationRequired", "op": "eq", "value": true}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'return_of_info') AND party_perspective = 'disclosing' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"any": [{"feature": "triggers.on_request", "op": "eq", "value": false}, {"feature": "deadlineDays", "op": "gt", "value": 30}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'return_of_info') AND party_perspective = 'disclosing' AND rule_type = 'not_acceptable';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "triggers.on_request", "op": "eq", "value": true}, {"feature": "certificationRequired", "op": "eq", "value": true}, {"feature": "retentionCarveOuts.automatic_backups", "op": "eq", "value": true}, {"feature": "retentionCarveOuts.legal_retention", "op": "eq", "value": true}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'return_of_info') AND party_perspective = 'mutual' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "obligation", "op": "eq", "value": "return_or_destroy"}, {"feature": "retentionCarveOutCount", "op": "gte", "value": 1}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'return_of_info') AND party_perspective = 'mutual' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "obligation", "op": "eq", "value": "return"}, {"feature": "retentionCarveOutCount", "op": "eq", "value": 0}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'return_of_info') AND party_perspective = 'mutual' AND rule_type = 'not_acceptable';
+
+-- ============================================
+-- PHASE 15: Representatives and Permitted Disclosees Module
+-- ============================================
+
+-- The clause and its 9 rules are seeded in database-setup.sql as a standard clause
+-- Inserted when missing, as in Phase 12, before the key and conditions are set
+INSERT INTO clauses (name, category, display_order, is_active)
+SELECT 'Representatives and Permitted Disclosees', 'standard', 7, true
+WHERE NOT EXISTS (SELECT 1 FROM clauses WHERE name = 'Representatives and Permitted Disclosees');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'receiving',
+  'Disclosure permitted to affiliates, advisers, financing sources and co-investors without prior consent, on a need-to-know basis',
+  ARRAY['representatives', 'affiliates', 'advisers', 'financing sources', 'co-investors', 'need to know'],
+  3,
+  'Acquirer needs to share with its group, deal team, lenders and co-investors to evaluate and fund the transaction',
+  'The Recipient may disclose Confidential Information to its affiliates and its and their directors, officers, employees, advisers, actual or potential financing sources and co-investors, in each case who need to know such information for the Purpose',
+  'Rewrite this clause to favor the receiving party by permitting disclosure to affiliates, advisers, financing sources and co-investors on a need-to-know basis without prior consent'
+FROM clauses WHERE name = 'Representatives and Permitted Disclosees'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'receiving',
+  'Disclosure permitted to affiliates, advisers and financing sources; co-investors or financing sources may require consent',
+  ARRAY['representatives', 'affiliates', 'advisers', 'financing sources', 'prior written consent'],
+  4,
+  'Acceptable if debt financing is covered, even where the discloser must approve co-investors or individual lenders',
+  'The Recipient may disclose Confidential Information to its affiliates, advisers and, with the prior written consent of the Company (not to be unreasonably withheld), its financing sources',
+  'Rewrite to permit disclosure to affiliates, advisers and financing sources, accepting consent for financing sources and co-investors'
+FROM clauses WHERE name = 'Representatives and Permitted Disclosees'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'receiving',
+  'No right to disclose to advisers or to affiliates',
+  ARRAY['shall not disclose', 'any third party', 'employees only', 'no other person'],
+  5,
+  'Unacceptable - the recipient cannot run a transaction process without its advisers and group companies',
+  'The Recipient shall not disclose Confidential Information to any person other than its own employees',
+  'This clause must permit disclosure to affiliates and professional advisers who need to know the information'
+FROM clauses WHERE name = 'Representatives and Permitted Disclosees'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'disclosing',
+  'Disclosure only to personnel and advisers who need to know, financing sources only with prior written consent, and the recipient liable for its Representatives',
+  ARRAY['need to know', 'prior written consent', 'financing sources', 'responsible for any breach', 'representatives'],
+  4,
+  'Discloser wants to control who sees the information and to hold the recipient answerable for everyone it shares with',
+  'The Recipient may disclose Confidential Information only to its directors, officers, employees and professional advisers who need to know it for the Purpose and, with the prior written consent of the Company, its financing sources. The Recipient shall be responsible for any breach of this Agreement by its Representatives',
+  'Rewrite to favor the disclosing party by limiting disclosure to personnel and advisers who need to know, requiring consent for financing sources and making the recipient liable for its Representatives'
+FROM clauses WHERE name = 'Representatives and Permitted Disclosees'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'disclosing',
+  'Permitted disclosees bound by need-to-know, with the recipient liable for its Representatives',
+  ARRAY['need to know', 'responsible for', 'representatives', 'bound by', 'confidentiality obligations'],
+  3,
+  'Compromise accepting a broader list of disclosees as long as the recipient answers for each of them',
+  'The Recipient may disclose Confidential Information to its Representatives who need to know it for the Purpose, and shall be responsible for any breach of this Agreement by its Representatives',
+  'Rewrite to keep the need-to-know limit and make the recipient responsible for any breach by its Representatives'
+FROM clauses WHERE name = 'Representatives and Permitted Disclosees'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'disclosing',
+  'Recipient not liable for its Representatives, or co-investors permitted without consent',
+  ARRAY['co-investors', 'consortium', 'without consent', 'any person', 'no liability'],
+  5,
+  'Unacceptable - information can reach potential competitors in a consortium with no one answerable for misuse',
+  'The Recipient may disclose Confidential Information to its Representatives, including any co-investors or consortium members, and shall have no liability for their acts',
+  'This clause must make the recipient liable for its Representatives and require consent before disclosure to co-investors'
+FROM clauses WHERE name = 'Representatives and Permitted Disclosees'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'mutual',
+  'Disclosure to affiliates and advisers on a need-to-know basis, with each party liable for its Representatives',
+  ARRAY['each party', 'representatives', 'affiliates', 'advisers', 'need to know', 'responsible for'],
+  3,
+  'Balanced clause: both parties can use their group and advisers, and each answers for those it shares with',
+  'Each party may disclose the other party''s Confidential Information to its affiliates and advisers who need to know it for the Purpose, and shall be responsible for any breach of this Agreement by such persons',
+  'Rewrite to let each party disclose to affiliates and advisers who need to know, with each party liable for its Representatives'
+FROM clauses WHERE name = 'Representatives and Permitted Disclosees'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'mutual');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'mutual',
+  'Disclosure to advisers on a need-to-know basis with each party liable for its Representatives',
+  ARRAY['each party', 'advisers', 'need to know', 'responsible for'],
+  4,
+  'Compromise limited to professional advisers, keeping liability for Representatives',
+  'Each party may disclose Confidential Information to its professional advisers who need to know it, and shall be liable for any breach by them',
+  'Rewrite to permit disclosure to advisers who need to know, with each party liable for breaches by its Representatives'
+FROM clauses WHERE name = 'Representatives and Permitted Disclosees'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'mutual');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'mutual',
+  'No right to disclose to advisers, or no party liable for its Representatives',
+  ARRAY['shall not disclose', 'any third party', 'no liability'],
+  5,
+  'Unacceptable - either the parties cannot take advice, or no one answers for onward disclosure',
+  'Neither party shall disclose Confidential Information to any third party, including its advisers',
+  'This clause must permit disclosure to advisers who need to know and make each party liable for its Representatives'
+FROM clauses WHERE name = 'Representatives and Permitted Disclosees'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'mutual');
+UPDATE clauses SET clause_key = 'representatives' WHERE name = 'Representatives and Permitted Disclosees' AND clause_key IS NULL;
+
+-- Thresholds on the permitted categories (categories.<category>.permitted), their conditions
+-- (needToKnow, consentRequired) and whether the recipient is liable for its Representatives
+UPDATE clause_rules SET condition = '{"all": [{"feature": "categories.affiliates.permitted", "op": "eq", "value": true}, {"feature": "categories.advisers.permitted", "op": "eq", "value": true}, {"feature": "categories.financing_sources.permitted", "op": "eq", "value": true}, {"feature": "categories.financing_sources.consentRequired", "op": "eq", "value": false}, {"feature": "categories.co_investors.permitted", "op": "eq", "value": true}, {"feature": "categories.co_investors.consentRequired", "op": "eq", "value": false}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'representatives') AND party_perspective = 'receiving' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "categories.affiliates.permitted", "op": "eq", "value": true}, {"feature": "categories.advisers.permitted", "op": "eq", "value": true}, {"feature": "categories.financing_sources.permitted", "op": "eq", "value": true}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'representatives') AND party_perspective = 'receiving' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"any": [{"feature": "categories.advisers.permitted", "op": "eq", "value": false}, {"feature": "categories.affiliates.permitted", "op": "eq", "value": false}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'representatives') AND party_perspective = 'receiving' AND rule_type = 'not_acceptable';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "recipientLiable", "op": "eq", "value": true}, {"feature": "categories.advisers.needToKnow", "op": "eq", "value": true}, {"any": [{"feature": "categories.financing_sources.permitted", "op": "eq", "value": false}, {"feature": "categories.financing_sources.consentRequired", "op": "eq", "value": true}]}, {"feature": "categories.co_investors.permitted", "op": "eq", "value": false}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'representatives') AND party_perspective = 'disclosing' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "recipientLiable", "op": "eq", "value": true}, {"feature": "categories.advisers.needToKnow", "op": "eq", "value": true}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'representatives') AND party_perspective = 'disclosing' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"any": [{"feature": "recipientLiable", "op": "eq", "value": false}, {"all": [{"feature": "categories.co_investors.permitted", "op": "eq", "value": true}, {"feature": "categories.co_investors.consentRequired", "op": "eq", "value": false}]}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'representatives') AND party_perspective = 'disclosing' AND rule_type = 'not_acceptable';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "categories.affiliates.permitted", "op": "eq", "value": true}, {"feature": "categories.advisers.permitted", "op": "eq", "value": true}, {"feature": "categories.advisers.needToKnow", "op": "eq", "value": true}, {"feature": "recipientLiable", "op": "eq", "value": true}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'representatives') AND party_perspective = 'mutual' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "categories.advisers.permitted", "op": "eq", "value": true}, {"feature": "recipientLiable", "op": "eq", "value": true}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'representatives') AND party_perspective = 'mutual' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"any": [{"feature": "categories.advisers.permitted", "op": "eq", "value": false}, {"feature": "recipientLiable", "op": "eq", "value": false}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'representatives') AND party_perspective = 'mutual' AND rule_type = 'not_acceptable';
+
+-- ============================================
+-- PHASE 16: Remedies and Liability Module
+-- ============================================
+
+-- The clause and its 9 rules are seeded in database-setup.sql as an optional module; the
+-- review's risk level comes from the exposure found (see assessRemediesRisk), not the rule type
+-- Inserted when missing, as in Phase 12, before the key and conditions are set
+INSERT INTO clauses (name, category, display_order, is_active)
+SELECT 'Remedies and Liability', 'optional', 8, true
+WHERE NOT EXISTS (SELECT 1 FROM clauses WHERE name = 'Remedies and Liability');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'receiving',
+  'Remedies limited to injunctive relief and actual damages: no indemnity, no liquidated damages and no unlimited liability',
+  ARRAY['injunctive relief', 'equitable relief', 'actual damages', 'consequential', 'in no event'],
+  3,
+  'Recipient accepts that the discloser can seek an injunction but wants no contractual damages regime beyond the general law',
+  'Each party acknowledges that damages may not be an adequate remedy for a breach of this Agreement and that the disclosing party may seek injunctive relief. In no event shall either party be liable for indirect or consequential loss',
+  'Rewrite this remedies clause to favor the receiving party by limiting remedies to injunctive relief and actual direct damages, with no indemnity, liquidated damages or unlimited liability'
+FROM clauses WHERE name = 'Remedies and Liability'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'receiving',
+  'Injunctive relief without bond accepted, or a mutual indemnity with a liability cap; no liquidated damages',
+  ARRAY['injunctive relief', 'without bond', 'mutual', 'shall not exceed', 'limited to'],
+  4,
+  'Acceptable if any indemnity is mutual and capped and the recipient does not pay a fixed sum per breach',
+  'The disclosing party shall be entitled to seek injunctive relief without posting a bond. The aggregate liability of either party under this Agreement shall not exceed the amount agreed',
+  'Rewrite to keep any indemnity mutual and capped, and remove liquidated damages'
+FROM clauses WHERE name = 'Remedies and Liability'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'receiving',
+  'Recipient indemnity, liquidated damages or unlimited liability',
+  ARRAY['indemnify', 'hold harmless', 'liquidated damages', 'unlimited liability', 'shall not be limited'],
+  5,
+  'Unacceptable - the recipient takes on open-ended exposure for any leak, including by its Representatives',
+  'The Recipient shall indemnify and hold harmless the Company from all losses arising from any breach, and shall pay liquidated damages of USD 500,000 for each unauthorised disclosure',
+  'This clause must remove the recipient indemnity, any liquidated damages and any unlimited liability, leaving injunctive relief and actual damages'
+FROM clauses WHERE name = 'Remedies and Liability'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'disclosing',
+  'Injunctive relief without bond or proof of damages, an acknowledgement of irreparable harm, and an indemnity from the recipient',
+  ARRAY['irreparable harm', 'injunctive relief', 'without posting a bond', 'indemnify', 'hold harmless'],
+  4,
+  'Discloser wants fast equitable relief and full recovery of its losses from the recipient',
+  'The Recipient acknowledges that any breach would cause irreparable harm and that the Company shall be entitled to injunctive relief without the necessity of posting a bond or proving actual damages. The Recipient shall indemnify the Company against all losses arising from any breach of this Agreement',
+  'Rewrite to favor the disclosing party with an irreparable harm acknowledgement, injunctive relief without bond or proof of damages and an indemnity from the recipient'
+FROM clauses WHERE name = 'Remedies and Liability'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'disclosing',
+  'Injunctive relief available, with no cap on the recipient''s liability',
+  ARRAY['injunctive relief', 'equitable relief', 'specific performance', 'remedies at law'],
+  3,
+  'Compromise dropping the indemnity as long as injunctive relief is available and recovery is not capped',
+  'The Company shall be entitled to seek injunctive relief and specific performance in addition to any other remedy available at law or in equity',
+  'Rewrite to keep injunctive relief and specific performance available in addition to damages, without any cap on liability'
+FROM clauses WHERE name = 'Remedies and Liability'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'disclosing',
+  'Liability capped or consequential loss excluded, or the discloser giving an indemnity',
+  ARRAY['shall not exceed', 'limited to', 'consequential', 'in no event', 'indemnify the recipient'],
+  5,
+  'Unacceptable - the discloser could not recover the real loss from a leak of its information',
+  'In no event shall the Recipient be liable for indirect or consequential loss, and its aggregate liability shall not exceed USD 10,000',
+  'This clause must not cap the recipient''s liability or exclude consequential loss, and must not require the disclosing party to indemnify'
+FROM clauses WHERE name = 'Remedies and Liability'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'mutual',
+  'Injunctive relief available to both parties with no indemnities, liquidated damages or unlimited liability',
+  ARRAY['each party', 'injunctive relief', 'adequate remedy', 'either party'],
+  3,
+  'Balanced clause: both parties can stop a breach quickly and neither takes on a contractual damages regime',
+  'Each party acknowledges that damages may not be an adequate remedy for a breach of this Agreement and that the other party may seek injunctive relief',
+  'Rewrite to give both parties injunctive relief without indemnities, liquidated damages or unlimited liability'
+FROM clauses WHERE name = 'Remedies and Liability'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'mutual');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'mutual',
+  'A mutual indemnity or a mutual liability cap',
+  ARRAY['each party', 'mutual', 'indemnify', 'shall not exceed'],
+  4,
+  'Compromise where remedies go beyond injunctive relief but apply equally to both parties',
+  'Each party shall indemnify the other against losses arising from its breach of this Agreement, subject to an aggregate cap on liability',
+  'Rewrite so that any indemnity or liability limit applies equally to both parties'
+FROM clauses WHERE name = 'Remedies and Liability'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'mutual');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'mutual',
+  'One-sided indemnity or liquidated damages',
+  ARRAY['indemnify', 'hold harmless', 'liquidated damages', 'penalty'],
+  5,
+  'Unacceptable - a mutual NDA should not put a damages regime on one party only',
+  'The Recipient shall indemnify the Company against all losses and pay liquidated damages for any breach',
+  'This clause must remove one-sided indemnities and liquidated damages, or make them apply equally to both parties'
+FROM clauses WHERE name = 'Remedies and Liability'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'mutual');
+UPDATE clauses SET clause_key = 'remedies' WHERE name = 'Remedies and Liability' AND clause_key IS NULL;
+
+-- Conditions on who indemnifies (indemnityBy), liquidated damages, the liability cap and injunctive relief
+UPDATE clause_rules SET condition = '{"all": [{"feature": "indemnity", "op": "eq", "value": false}, {"feature": "liquidatedDamages", "op": "eq", "value": false}, {"feature": "liabilityCap", "op": "neq", "value": "uncapped"}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'remedies') AND party_perspective = 'receiving' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "liquidatedDamages", "op": "eq", "value": false}, {"feature": "indemnityBy", "op": "not_in", "value": ["recipient", "discloser"]}, {"feature": "liabilityCap", "op": "neq", "value": "uncapped"}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'remedies') AND party_perspective = 'receiving' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"any": [{"feature": "indemnityBy", "op": "eq", "value": "recipient"}, {"feature": "liquidatedDamages", "op": "eq", "value": true}, {"feature": "liabilityCap", "op": "eq", "value": "uncapped"}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'remedies') AND party_perspective = 'receiving' AND rule_type = 'not_acceptable';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "injunctionWithoutBond", "op": "eq", "value": true}, {"feature": "irreparableHarmAcknowledged", "op": "eq", "value": true}, {"feature": "indemnityBy", "op": "eq", "value": "recipient"}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'remedies') AND party_perspective = 'disclosing' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "injunctiveRelief", "op": "eq", "value": true}, {"feature": "liabilityCap", "op": "neq", "value": "capped"}, {"feature": "consequentialDamagesExcluded", "op": "eq", "value": false}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'remedies') AND party_perspective = 'disclosing' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"any": [{"feature": "liabilityCap", "op": "eq", "value": "capped"}, {"feature": "consequentialDamagesExcluded", "op": "eq", "value": true}, {"feature": "indemnityBy", "op": "eq", "value": "discloser"}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'remedies') AND party_perspective = 'disclosing' AND rule_type = 'not_acceptable';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "injunctiveRelief", "op": "eq", "value": true}, {"feature": "indemnity", "op": "eq", "value": false}, {"feature": "liquidatedDamages", "op": "eq", "value": false}, {"feature": "liabilityCap", "op": "neq", "value": "uncapped"}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'remedies') AND party_perspective = 'mutual' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "liquidatedDamages", "op": "eq", "value": false}, {"any": [{"feature": "indemnityBy", "op": "eq", "value": "mutual"}, {"feature": "liabilityCap", "op": "eq", "value": "capped"}]}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'remedies') AND party_perspective = 'mutual' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"any": [{"feature": "indemnityBy", "op": "in", "value": ["recipient", "discloser"]}, {"feature": "liquidatedDamages", "op": "eq", "value": true}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'remedies') AND party_perspective = 'mutual' AND rule_type = 'not_acceptable';
+
+-- ============================================
+-- PHASE 17: Compelled Disclosure Module
+-- ============================================
+
+-- The clause and its 9 rules are seeded in database-setup.sql as a standard clause
+-- Inserted when missing, as in Phase 12, before the key and conditions are set
+INSERT INTO clauses (name, category, display_order, is_active)
+SELECT 'Compelled Disclosure', 'standard', 9, true
+WHERE NOT EXISTS (SELECT 1 FROM clauses WHERE name = 'Compelled Disclosure');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'receiving',
+  'Notice only to the extent legally permitted, with routine regulatory examinations carved out and any cooperation at the discloser''s expense',
+  ARRAY['to the extent legally permitted', 'regulatory authority', 'routine', 'examination', 'at the expense of'],
+  3,
+  'Regulated recipients (e.g. banks) cannot tip off the counterparty about supervisory requests and must not breach the NDA by answering their regulator',
+  'If the Recipient is required by law or legal process to disclose Confidential Information, it shall, to the extent legally permitted, notify the Company so that the Company may seek a protective order at its own expense. No notice shall be required for disclosure to any banking or supervisory authority in the course of a routine examination not targeted at the Company',
+  'Rewrite this compelled-disclosure clause to favor the receiving party by qualifying any notice duty "to the extent legally permitted", carving out routine regulatory examinations and putting the cost of any protective order on the disclosing party'
+FROM clauses WHERE name = 'Compelled Disclosure'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'receiving',
+  'Notice qualified by law, even without a regulatory examination carve-out',
+  ARRAY['to the extent legally permitted', 'unless prohibited by law', 'notice', 'required by law'],
+  4,
+  'Acceptable if the recipient is never obliged to give notice the law forbids, even though routine examinations are not expressly carved out',
+  'If the Recipient is required by law to disclose Confidential Information, it shall, unless prohibited by law, give the Company prompt notice and disclose only that portion legally required',
+  'Rewrite to qualify the notice obligation by "to the extent legally permitted" and, if possible, carve out routine regulatory examinations'
+FROM clauses WHERE name = 'Compelled Disclosure'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'receiving',
+  'Unqualified prior notice before any disclosure, with no exception for regulators',
+  ARRAY['prior written notice', 'in all cases', 'before any disclosure', 'consent of the company'],
+  5,
+  'Unacceptable for a regulated recipient - it would have to choose between breaching the NDA and breaching secrecy obligations to its regulator',
+  'The Recipient shall in all cases give the Company prior written notice before making any disclosure required by law, regulation or any governmental authority',
+  'This clause must qualify the notice obligation by what the law permits and exclude routine regulatory examinations'
+FROM clauses WHERE name = 'Compelled Disclosure'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'disclosing',
+  'Prompt prior notice, cooperation in seeking a protective order and disclosure limited to the minimum legally required',
+  ARRAY['prompt written notice', 'protective order', 'cooperate', 'only that portion', 'legally required'],
+  4,
+  'Discloser wants warning of any compelled disclosure and a chance to stop or narrow it',
+  'If the Recipient is required by law to disclose any Confidential Information, it shall give the Company prompt prior written notice, cooperate with the Company in seeking a protective order or other remedy, and disclose only that portion of the Confidential Information which it is legally required to disclose',
+  'Rewrite to favor the disclosing party by requiring prompt prior notice, cooperation in seeking a protective order and disclosure of no more than is legally required'
+FROM clauses WHERE name = 'Compelled Disclosure'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'disclosing',
+  'Notice (qualified by law if necessary) and disclosure limited to the minimum legally required',
+  ARRAY['notice', 'to the extent legally permitted', 'only that portion', 'legally required'],
+  3,
+  'Compromise accepting a legal qualifier and a regulatory carve-out as long as disclosure is kept to the minimum',
+  'To the extent legally permitted, the Recipient shall notify the Company of any legal requirement to disclose Confidential Information and shall disclose only such portion as is legally required',
+  'Rewrite to keep a notice obligation, qualified by law if needed, and limit disclosure to what is legally required'
+FROM clauses WHERE name = 'Compelled Disclosure'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'disclosing',
+  'Disclosure whenever legally required with no notice and no limit to the minimum required',
+  ARRAY['required by law', 'without notice', 'any authority', 'may disclose'],
+  5,
+  'Unacceptable - the discloser would learn of a compelled disclosure only after the event, with no chance to protect its information',
+  'The Recipient may disclose Confidential Information to the extent required by law or requested by any governmental or regulatory authority',
+  'This clause must require notice where legally permitted and limit any compelled disclosure to what is legally required'
+FROM clauses WHERE name = 'Compelled Disclosure'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'mutual',
+  'Notice to the extent legally permitted, protective order cooperation, minimum disclosure and a routine regulatory examination carve-out',
+  ARRAY['each party', 'to the extent legally permitted', 'protective order', 'only that portion', 'routine examination'],
+  3,
+  'Balanced clause: each party gets warning and can resist, and each can answer its own regulator',
+  'If either party is required by law to disclose the other party''s Confidential Information, it shall, to the extent legally permitted, give prompt notice, cooperate in seeking a protective order and disclose only the portion legally required; no notice is required for routine regulatory examinations not targeted at the other party',
+  'Rewrite to apply notice qualified by law, protective order cooperation, minimum disclosure and a routine regulatory examination carve-out to both parties'
+FROM clauses WHERE name = 'Compelled Disclosure'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'mutual');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'mutual',
+  'Notice to the extent legally permitted and disclosure limited to the minimum required',
+  ARRAY['each party', 'to the extent legally permitted', 'notice', 'legally required'],
+  4,
+  'Compromise without protective order cooperation or an examination carve-out',
+  'Each party may make any disclosure required by law, provided that, to the extent legally permitted, it notifies the other party and discloses only what is legally required',
+  'Rewrite to keep notice qualified by law and limit disclosure to what is legally required for both parties'
+FROM clauses WHERE name = 'Compelled Disclosure'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'mutual');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'mutual',
+  'No notice requirement, or an unqualified notice requirement with no regulatory carve-out',
+  ARRAY['without notice', 'in all cases', 'any authority'],
+  5,
+  'Unacceptable - either one party is left without warning, or a regulated party cannot comply',
+  'Either party may disclose Confidential Information whenever required by any authority, without notice to the other party',
+  'This clause must require notice to the extent legally permitted, with a carve-out for routine regulatory examinations'
+FROM clauses WHERE name = 'Compelled Disclosure'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'mutual');
+UPDATE clauses SET clause_key = 'compelled_disclosure' WHERE name = 'Compelled Disclosure' AND clause_key IS NULL;
+
+-- Conditions on the safeguards present (elements.<element>) and who pays for cooperation
+UPDATE clause_rules SET condition = '{"all": [{"feature": "elements.legally_permitted", "op": "eq", "value": true}, {"feature": "elements.regulatory_carve_out", "op": "eq", "value": true}, {"any": [{"feature": "elements.protective_order", "op": "eq", "value": false}, {"feature": "cooperationAtDisclosersExpense", "op": "eq", "value": true}]}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'compelled_disclosure') AND party_perspective = 'receiving' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"any": [{"feature": "elements.legally_permitted", "op": "eq", "value": true}, {"feature": "elements.prior_notice", "op": "eq", "value": false}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'compelled_disclosure') AND party_perspective = 'receiving' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "elements.prior_notice", "op": "eq", "value": true}, {"feature": "elements.legally_permitted", "op": "eq", "value": false}, {"feature": "elements.regulatory_carve_out", "op": "eq", "value": false}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'compelled_disclosure') AND party_perspective = 'receiving' AND rule_type = 'not_acceptable';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "elements.prior_notice", "op": "eq", "value": true}, {"feature": "elements.protective_order", "op": "eq", "value": true}, {"feature": "elements.minimum_disclosure", "op": "eq", "value": true}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'compelled_disclosure') AND party_perspective = 'disclosing' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "elements.prior_notice", "op": "eq", "value": true}, {"feature": "elements.minimum_disclosure", "op": "eq", "value": true}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'compelled_disclosure') AND party_perspective = 'disclosing' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "elements.prior_notice", "op": "eq", "value": false}, {"feature": "elements.minimum_disclosure", "op": "eq", "value": false}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'compelled_disclosure') AND party_perspective = 'disclosing' AND rule_type = 'not_acceptable';
+
+UPDATE clause_rules SET condition = '{"feature": "elementCount", "op": "eq", "value": 5}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'compelled_disclosure') AND party_perspective = 'mutual' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "elements.prior_notice", "op": "eq", "value": true}, {"feature": "elements.legally_permitted", "op": "eq", "value": true}, {"feature": "elements.minimum_disclosure", "op": "eq", "value": true}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'compelled_disclosure') AND party_perspective = 'mutual' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"any": [{"feature": "elements.prior_notice", "op": "eq", "value": false}, {"all": [{"feature": "elements.legally_permitted", "op": "eq", "value": false}, {"feature": "elements.regulatory_carve_out", "op": "eq", "value": false}]}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'compelled_disclosure') AND party_perspective = 'mutual' AND rule_type = 'not_acceptable';
+
+-- ============================================
+-- PHASE 18: Residuals Module
+-- ============================================
+
+-- The clause and its 7 rules are seeded in database-setup.sql as an optional module. Being optional,
+-- it is only evaluated when the document has residuals language, so no rule tests for its absence.
+-- Inserted when missing, as in Phase 12, before the key and conditions are set
+INSERT INTO clauses (name, category, display_order, is_active)
+SELECT 'Residuals', 'optional', 10, true
+WHERE NOT EXISTS (SELECT 1 FROM clauses WHERE name = 'Residuals');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'receiving',
+  'Broad residuals right covering unaided memory and general skills, know-how and experience, with no more than a patent licence carve-out',
+  ARRAY['residuals', 'unaided memory', 'general skills', 'know-how', 'free to use'],
+  3,
+  'Technology recipients cannot wall off what their engineers remember and want freedom to keep working in the same field',
+  'Nothing in this Agreement shall restrict the Recipient from using Residuals, meaning information retained in the unaided memory of its personnel, including general skills, ideas, concepts, know-how and techniques, provided that this does not grant any license under the Company''s patents',
+  'Rewrite this residuals clause to favor the receiving party with a broad right to use information retained in unaided memory and general know-how, limited only by the absence of a patent licence'
+FROM clauses WHERE name = 'Residuals'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'receiving',
+  'Residuals right limited to unaided memory, accepting limits on source code and deliberate memorisation',
+  ARRAY['residuals', 'unaided memory', 'source code', 'intentionally memorize'],
+  4,
+  'Acceptable if the recipient keeps some residuals right, even if narrowed to genuinely unaided memory',
+  'The Recipient may use Residuals retained in the unaided memory of its personnel, provided that no person intentionally memorizes Confidential Information for that purpose and that Residuals do not include source code',
+  'Rewrite to keep a residuals right limited to unaided memory, accepting exclusions for source code and deliberate memorisation'
+FROM clauses WHERE name = 'Residuals'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'disclosing',
+  'Residuals limited to unaided memory with no patent licence, no source code, no deliberate memorisation and no disclosure',
+  ARRAY['unaided memory', 'no license', 'patents', 'source code', 'intentionally memorize', 'shall not disclose'],
+  3,
+  'Compromise accepting genuinely unaided memory if the recipient gets no IP licence, source code is out and residuals stay confidential',
+  'Residuals means information retained in the unaided memory of the Recipient''s personnel without intentional memorization; Residuals exclude source code, no license under any patent or copyright is granted and the Recipient shall not disclose Residuals',
+  'Rewrite to limit residuals to unaided memory and add exclusions for patents and copyrights, source code, deliberate memorisation and disclosure'
+FROM clauses WHERE name = 'Residuals'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'disclosing',
+  'Residuals right with fewer than three limits, or a general skills and know-how right without any limit',
+  ARRAY['residuals', 'general skills', 'know-how', 'free to use', 'retained'],
+  5,
+  'Unacceptable - the recipient can take and use the substance of the information with no protection for patents or source code',
+  'The Recipient shall be free to use for any purpose the general skills, ideas, concepts, know-how and experience retained by its personnel',
+  'This clause must be removed or limited to unaided memory, with no patent licence, no source code, no deliberate memorisation and no disclosure'
+FROM clauses WHERE name = 'Residuals'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'mutual',
+  'Residuals limited to unaided memory with every limit',
+  ARRAY['each party', 'unaided memory', 'source code', 'patents', 'intentionally memorize'],
+  3,
+  'Balanced clause: either party can use the other''s information through residuals only on narrow, equal terms',
+  'Each party may use Residuals retained in the unaided memory of its personnel, excluding source code and information intentionally memorized, without any license under the other party''s patents or copyrights and without disclosing them',
+  'Rewrite to limit residuals for both parties to unaided memory, with exclusions for patents, source code, deliberate memorisation and disclosure'
+FROM clauses WHERE name = 'Residuals'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'mutual');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'mutual',
+  'Residuals limited to unaided memory with at least two limits',
+  ARRAY['each party', 'unaided memory', 'residuals', 'source code'],
+  4,
+  'Compromise where both parties keep a narrowed residuals right',
+  'Each party may use Residuals retained in the unaided memory of its personnel, excluding source code and without any patent license',
+  'Rewrite to limit residuals to unaided memory for both parties, with at least exclusions for source code and patents'
+FROM clauses WHERE name = 'Residuals'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'mutual');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'mutual',
+  'Residuals right without any limit',
+  ARRAY['residuals', 'general skills', 'know-how', 'free to use'],
+  5,
+  'Unacceptable - the confidentiality obligations can be sidestepped by either party',
+  'Each party shall be free to use any residual knowledge retained by its personnel for any purpose',
+  'This clause must limit residuals to unaided memory and exclude patents, source code and deliberate memorisation'
+FROM clauses WHERE name = 'Residuals'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'mutual');
+UPDATE clauses SET clause_key = 'residuals' WHERE name = 'Residuals' AND clause_key IS NULL;
+
+DELETE FROM clause_rules
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'residuals')
+  AND ((party_perspective = 'receiving' AND rule_type = 'not_acceptable') OR (party_perspective = 'disclosing' AND rule_type = 'starting_position'));
+
+-- Conditions on the memory qualifier and limits (limits.<limit>), with the negotiation guidance
+-- the advanced engine reports next to the limits the clause is missing
+UPDATE clause_rules SET condition = '{"all": [{"feature": "hasResiduals", "op": "eq", "value": true}, {"feature": "limitCount", "op": "lte", "value": 1}, {"feature": "limits.no_source_code", "op": "eq", "value": false}]}',
+  negotiation_guidance = 'Hold the broad residuals right; offer the patent licence carve-out if pressed'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'residuals') AND party_perspective = 'receiving' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "hasResiduals", "op": "eq", "value": true}, {"feature": "unaidedMemory", "op": "eq", "value": true}]}',
+  negotiation_guidance = 'Concede source code and deliberate memorisation exclusions, but keep unaided memory in scope'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'residuals') AND party_perspective = 'receiving' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "unaidedMemory", "op": "eq", "value": true}, {"feature": "limitCount", "op": "gte", "value": 3}, {"feature": "limits.no_patent_licence", "op": "eq", "value": true}]}',
+  negotiation_guidance = 'Accept unaided memory only with all four limits: no patent or copyright licence, no source code, no deliberate memorisation and no disclosure'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'residuals') AND party_perspective = 'disclosing' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "hasResiduals", "op": "eq", "value": true}, {"feature": "limitCount", "op": "lt", "value": 3}]}',
+  negotiation_guidance = 'Strike the clause or narrow it to unaided memory and add the patent, source code, memorisation and disclosure limits'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'residuals') AND party_perspective = 'disclosing' AND rule_type = 'not_acceptable';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "hasResiduals", "op": "eq", "value": true}, {"feature": "limitCount", "op": "eq", "value": 4}]}',
+  negotiation_guidance = 'Keep residuals symmetrical with every limit'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'residuals') AND party_perspective = 'mutual' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "unaidedMemory", "op": "eq", "value": true}, {"feature": "limitCount", "op": "gte", "value": 2}]}',
+  negotiation_guidance = 'Ask for the missing limits, starting with source code and patents'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'residuals') AND party_perspective = 'mutual' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "hasResiduals", "op": "eq", "value": true}, {"feature": "limitCount", "op": "eq", "value": 0}]}',
+  negotiation_guidance = 'Narrow the right to unaided memory and add limits that apply to both parties'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'residuals') AND party_perspective = 'mutual' AND rule_type = 'not_acceptable';
+
+-- ============================================
+-- PHASE 19: Personal Data Protection Module
+-- ============================================
+
+-- The clause and its 9 rules are seeded in database-setup.sql as an optional module; it is reported
+-- missing when the document brings personal data into scope without data-protection terms
+-- Inserted when missing, as in Phase 12, before the key and conditions are set
+INSERT INTO clauses (name, category, display_order, is_active)
+SELECT 'Personal Data Protection', 'optional', 11, true
+WHERE NOT EXISTS (SELECT 1 FROM clauses WHERE name = 'Personal Data Protection');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'receiving',
+  'Personal data excluded, or a general duty to comply with data protection laws without processor or transfer obligations',
+  ARRAY['personal data', 'applicable data protection laws', 'comply', 'excluding personal data'],
+  3,
+  'Recipients evaluating a deal should avoid taking on processor duties for data they only need to review',
+  'Each party shall comply with applicable data protection laws in respect of any personal data disclosed under this Agreement',
+  'Rewrite this data-protection clause to favor the receiving party with a general duty to comply with applicable law and no processor or transfer obligations'
+FROM clauses WHERE name = 'Personal Data Protection'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'receiving',
+  'Breach notification with at least 48 hours'' notice (or no fixed deadline), without acting as the discloser''s processor',
+  ARRAY['personal data breach', 'notify', 'without undue delay', 'security measures'],
+  4,
+  'Acceptable if the recipient keeps a workable notice period and does not become the discloser''s data processor',
+  'The Recipient shall implement reasonable security measures to protect personal data and shall notify the Company without undue delay, and in any event within 72 hours, after becoming aware of a personal data breach',
+  'Rewrite to accept security measures and breach notification with at least 48 hours'' notice, removing any processor obligations'
+FROM clauses WHERE name = 'Personal Data Protection'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'receiving',
+  'Breach notice within less than 24 hours, or the full set of processor, transfer, security and breach obligations',
+  ARRAY['data processor', 'instructions', 'transfer', 'breach', 'immediately'],
+  5,
+  'Unacceptable for a recipient reviewing information - it takes on processor liability and an unworkable notice period',
+  'The Recipient shall act as data processor, process personal data only on the documented instructions of the Company, not transfer it outside Singapore and notify the Company within 12 hours of any personal data breach',
+  'This clause must remove processor and transfer obligations and allow at least 48 hours to notify a breach'
+FROM clauses WHERE name = 'Personal Data Protection'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'receiving');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'disclosing',
+  'Named data protection regime with security measures, breach notification within 72 hours, transfer restrictions and processor terms',
+  ARRAY['PDPA', 'GDPR', 'data processor', 'technical and organisational measures', '72 hours', 'transfer'],
+  3,
+  'Discloser remains responsible for personal data it shares and needs every safeguard a regulator would expect',
+  'The Recipient shall process personal data only on the Company''s documented instructions, in compliance with the PDPA and the GDPR, shall implement appropriate technical and organisational measures, shall not transfer personal data outside Singapore without the Company''s prior written consent and shall notify the Company within 72 hours of any personal data breach',
+  'Rewrite to favor the disclosing party by naming the applicable regime and adding processor terms, security measures, transfer restrictions and breach notification within 72 hours'
+FROM clauses WHERE name = 'Personal Data Protection'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'disclosing',
+  'Named data protection regime with security measures and breach notification',
+  ARRAY['data protection laws', 'security measures', 'personal data breach', 'notify'],
+  4,
+  'Compromise covering the core statutory duties when the recipient refuses processor or transfer terms',
+  'The Recipient shall comply with applicable data protection laws, implement reasonable security measures to protect personal data and promptly notify the Company of any personal data breach',
+  'Rewrite to reference the applicable data protection laws and require security measures and breach notification'
+FROM clauses WHERE name = 'Personal Data Protection'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'disclosing',
+  'Personal data in scope with no data-protection terms, or without any security measures',
+  ARRAY['personal data', 'employee data', 'customer information', 'confidential information'],
+  5,
+  'Unacceptable - the discloser shares personal data with no contractual safeguards and stays liable for any breach',
+  'Confidential Information includes employee records and customer information',
+  'This clause must add data-protection terms: compliance with applicable law, security measures and breach notification'
+FROM clauses WHERE name = 'Personal Data Protection'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'disclosing');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'starting_position', 'mutual',
+  'Named data protection regime with security measures, breach notification and transfer restrictions for both parties',
+  ARRAY['each party', 'data protection laws', 'security measures', 'breach', 'transfer'],
+  3,
+  'Balanced clause: each party protects personal data received from the other on the same terms',
+  'Each party shall comply with applicable data protection laws, implement appropriate security measures, not transfer the other party''s personal data outside its jurisdiction without consent and notify the other party of any personal data breach within 72 hours',
+  'Rewrite to require, for both parties, compliance with applicable data protection laws, security measures, transfer restrictions and breach notification'
+FROM clauses WHERE name = 'Personal Data Protection'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'starting_position' AND party_perspective = 'mutual');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'fallback', 'mutual',
+  'Named data protection regime with security measures',
+  ARRAY['each party', 'data protection laws', 'security measures'],
+  4,
+  'Compromise where both parties commit to the law and to protecting personal data, without detailed procedures',
+  'Each party shall comply with applicable data protection laws and implement reasonable security measures to protect personal data received from the other party',
+  'Rewrite to require both parties to comply with applicable data protection laws and implement security measures'
+FROM clauses WHERE name = 'Personal Data Protection'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'fallback' AND party_perspective = 'mutual');
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity,
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT
+  id, 'not_acceptable', 'mutual',
+  'Personal data in scope with no data-protection terms',
+  ARRAY['personal data', 'employee data', 'customer information'],
+  5,
+  'Unacceptable - either party may receive personal data with no agreed safeguards',
+  'Confidential Information includes personal data relating to each party''s employees and customers',
+  'This clause must add data-protection terms that apply to both parties'
+FROM clauses WHERE name = 'Personal Data Protection'
+AND NOT EXISTS (SELECT 1 FROM clause_rules WHERE clause_rules.clause_id = clauses.id AND rule_type = 'not_acceptable' AND party_perspective = 'mutual');
+UPDATE clauses SET clause_key = 'personal_data' WHERE name = 'Personal Data Protection' AND clause_key IS NULL;
+
+-- Conditions on the regimes, obligations (obligations.<obligation>) and breach notification deadline
+UPDATE clause_rules SET condition = '{"any": [{"feature": "personalDataExcluded", "op": "eq", "value": true}, {"all": [{"feature": "regimeCount", "op": "gte", "value": 1}, {"feature": "obligations.processor_terms", "op": "eq", "value": false}, {"feature": "obligations.transfer_restrictions", "op": "eq", "value": false}]}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'personal_data') AND party_perspective = 'receiving' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "obligations.breach_notification", "op": "eq", "value": true}, {"feature": "obligations.processor_terms", "op": "eq", "value": false}, {"any": [{"feature": "breachNotificationHours", "op": "gte", "value": 48}, {"feature": "breachNotificationHours", "op": "eq", "value": null}]}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'personal_data') AND party_perspective = 'receiving' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"any": [{"feature": "breachNotificationHours", "op": "lt", "value": 24}, {"feature": "obligationCount", "op": "eq", "value": 4}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'personal_data') AND party_perspective = 'receiving' AND rule_type = 'not_acceptable';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "regimeCount", "op": "gte", "value": 1}, {"feature": "obligationCount", "op": "eq", "value": 4}, {"feature": "breachNotificationHours", "op": "lte", "value": 72}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'personal_data') AND party_perspective = 'disclosing' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "regimeCount", "op": "gte", "value": 1}, {"feature": "obligations.security_measures", "op": "eq", "value": true}, {"feature": "obligations.breach_notification", "op": "eq", "value": true}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'personal_data') AND party_perspective = 'disclosing' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"any": [{"feature": "protectionMismatch", "op": "eq", "value": true}, {"all": [{"feature": "personalDataInScope", "op": "eq", "value": true}, {"feature": "obligations.security_measures", "op": "eq", "value": false}]}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'personal_data') AND party_perspective = 'disclosing' AND rule_type = 'not_acceptable';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "regimeCount", "op": "gte", "value": 1}, {"feature": "obligations.security_measures", "op": "eq", "value": true}, {"feature": "obligations.breach_notification", "op": "eq", "value": true}, {"feature": "obligations.transfer_restrictions", "op": "eq", "value": true}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'personal_data') AND party_perspective = 'mutual' AND rule_type = 'starting_position';
+
+UPDATE clause_rules SET condition = '{"all": [{"feature": "regimeCount", "op": "gte", "value": 1}, {"feature": "obligations.security_measures", "op": "eq", "value": true}]}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'personal_data') AND party_perspective = 'mutual' AND rule_type = 'fallback';
+
+UPDATE clause_rules SET condition = '{"feature": "protectionMismatch", "op": "eq", "value": true}'
+WHERE clause_id = (SELECT id FROM clauses WHERE clause_key = 'personal_data') AND party_perspective = 'mutual' AND rule_type = 'not_acceptable';
+
+-- ============================================
+-- PHASE 20: Email Intake
+-- ============================================
+
+-- The email an NDA arrived in, for reviews created from .eml or .msg intake:
+-- {fileName, format, messageId, from: {name, address}, subject, date, attachmentName}
+ALTER TABLE reviews
+ADD COLUMN IF NOT EXISTS source_email jsonb;
+
+-- Look up the reviews created from one message
+CREATE INDEX IF NOT EXISTS idx_reviews_source_email_message
+ON reviews ((source_email->>'messageId'));
+
+-- ============================================
+-- PHASE 21: Tracked Changes
+-- ============================================
+
+-- Revisions and comments read from a DOCX upload, positioned in original_text (the accepted text):
+-- {originalText, revisions: [{id, type, author, date, text, position, originalPosition}],
+--  comments: [{id, author, date, text, position, anchorText}]}
+ALTER TABLE reviews
+ADD COLUMN IF NOT EXISTS tracked_changes jsonb;
+
+-- ============================================
+-- PHASE 22: Low-Confidence OCR Pages
+-- ============================================
+
+-- Pages a detected clause falls on that OCR read with low confidence (or left unread), e.g. [3, 4]
+ALTER TABLE clause_analyses
+ADD COLUMN IF NOT EXISTS low_confidence_pages jsonb;
+
 -- ============================================
 -- VIEWS FOR ANALYTICS
 -- ============================================
@@ -1,6 +1,8 @@
 -- NDA Review System Database Setup (Enhanced with Party Perspective)
--- Run this entire file in Supabase SQL Editor on Day 1
--- Based on enhanced architecture with party perspective support and 27 comprehensive rules
+-- Run this entire file in Supabase SQL Editor on Day 1, then database-migrations.sql, which
+-- sets each clause's clause_key and the rule conditions used for classification
+-- Based on enhanced architecture with party perspective support and 27 comprehensive rules,
+-- plus optional clause modules seeded after the core clauses
 
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
@@ -18,6 +20,8 @@ CREATE TABLE clauses (
   category VARCHAR(50) NOT NULL CHECK (category IN ('core', 'standard', 'optional')),
   display_order INTEGER NOT NULL DEFAULT 0,
   is_active BOOLEAN DEFAULT true,
+  clause_key VARCHAR(100),         -- Profile key in lib/playbook/detection-profiles.json
+  detection_profile JSONB,         -- Per-clause overrides of the playbook profile
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -34,6 +38,8 @@ CREATE TABLE clause_rules (
   guidance_notes TEXT,
   example_language TEXT,
   rewriting_prompt TEXT, -- AI prompt for party-aware contextual rewording
+  criteria JSONB, -- Feature tests that must all hold (superseded by condition)
+  condition JSONB, -- Feature tests combined with all / any / not
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -45,6 +51,9 @@ CREATE TABLE reviews (
   nda_title VARCHAR(255) NOT NULL,
   file_path TEXT,
   original_text TEXT,
+  source_pages JSONB,              -- Page boundaries of original_text, with OCR confidence for scans
+  tracked_changes JSONB,           -- DOCX revisions and comments, positioned in original_text
+  source_email JSONB,              -- Email the NDA arrived in, for .eml and .msg intake
   party_perspective VARCHAR(20) NOT NULL DEFAULT 'receiving' CHECK (party_perspective IN ('disclosing', 'receiving', 'mutual')),
   status VARCHAR(50) DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'error')),
   overall_score DECIMAL(3,2),
@@ -64,6 +73,12 @@ CREATE TABLE clause_analyses (
   recommended_action TEXT,
   position_start INTEGER,
   position_end INTEGER,
+  position_page INTEGER,
+  position_line INTEGER,
+  match_spans JSONB,               -- Every span of the clause, as [{start, end, page?, line?}]
+  extracted_features JSONB,        -- Structured values read from the clause text
+  classification_evidence JSONB,   -- Why the clause got its match_type
+  low_confidence_pages JSONB,      -- Pages of the clause read by OCR with low confidence
   suggested_text TEXT,             -- AI-generated suggestion
   edited_suggestion TEXT,          -- User's edited version
   user_override_type VARCHAR(50),  -- User's manual override
@@ -76,6 +91,8 @@ CREATE INDEX idx_reviews_status ON reviews(status);
 CREATE INDEX idx_reviews_created ON reviews(created_at DESC);
 CREATE INDEX idx_reviews_party_perspective ON reviews(party_perspective);
 CREATE INDEX idx_clause_analyses_review ON clause_analyses(review_id);
+CREATE INDEX idx_reviews_source_email_message ON reviews ((source_email->>'messageId'));
+CREATE UNIQUE INDEX idx_clauses_clause_key ON clauses(clause_key);
 CREATE INDEX idx_clause_rules_clause ON clause_rules(clause_id);
 CREATE INDEX idx_clause_rules_party_perspective ON clause_rules(party_perspective);
 CREATE INDEX idx_clause_rules_clause_party ON clause_rules(clause_id, party_perspective);
@@ -512,6 +529,1083 @@ SELECT
   'This biased jurisdiction clause must be revised to provide neutral, balanced dispute resolution that treats both parties equally under established commercial law principles'
 FROM clauses WHERE name = 'Governing Law and Jurisdictions';
 
+-- ============================================
+-- CLAUSE 4: NON-SOLICITATION AND NO-HIRE (OPTIONAL MODULE)
+-- 9 RULES WITH PARTY PERSPECTIVE
+-- Only analysed when the document contains the covenant
+-- ============================================
+
+INSERT INTO clauses (name, category, display_order, is_active) VALUES
+('Non-Solicitation and No-Hire', 'optional', 4, true);
+
+-- RECEIVING PARTY PERSPECTIVE (Default - M&A Acquirer)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'receiving',
+  'Non-solicitation only (no no-hire) of employees met during due diligence, for 12 months or less, with general advertisement and unsolicited approach carve-outs',
+  ARRAY['non-solicitation', 'employees introduced', 'due diligence', 'twelve months', 'general solicitation', 'not specifically directed', 'own initiative', 'unsolicited'],
+  3,
+  'Acquirer wants the narrowest covenant: no hiring ban, limited to people it actually met, short term and standard carve-outs so ordinary recruiting is unaffected',
+  'For twelve (12) months from the date of this Agreement, the Recipient shall not solicit for employment any employee of the Company with whom it first had contact in connection with its evaluation of the Transaction, provided that general solicitations not specifically directed at such employees, and hiring any person who approaches the Recipient on their own initiative, shall not breach this clause',
+  'Rewrite this non-solicitation clause to favor the receiving party in an M&A context by removing any no-hire restriction, limiting it to employees met during due diligence for no more than 12 months, and adding carve-outs for general advertisements and unsolicited approaches'
+FROM clauses WHERE name = 'Non-Solicitation and No-Hire';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'receiving',
+  'Non-solicitation and no-hire of key employees or due diligence contacts for up to 24 months with a general advertisement carve-out',
+  ARRAY['key employees', 'officers', 'no-hire', 'due diligence', 'eighteen months', 'twenty-four months', 'general advertisement', 'search firm'],
+  4,
+  'Acceptable compromise when the target insists on a hiring ban, provided it is limited to key staff or contacts and recruiting through general advertisements stays open',
+  'For eighteen (18) months, the Recipient shall not solicit or hire any officer or key employee of the Company introduced to it during due diligence, other than through general advertisements or search firms not directed at such persons',
+  'Rewrite to limit the non-solicitation and no-hire covenant to key employees or due diligence contacts, cap it at 24 months and preserve a carve-out for general advertisements and search firm activity'
+FROM clauses WHERE name = 'Non-Solicitation and No-Hire';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'receiving',
+  'No-hire covering all employees, a restricted period over 24 months or without end, or no carve-outs',
+  ARRAY['all employees', 'any employee', 'no-hire', 'three years', 'indefinitely', 'whether or not solicited', 'solicited or unsolicited', 'directly or indirectly'],
+  5,
+  'Unacceptable - a blanket hiring ban with no carve-outs restricts ordinary recruiting across the whole group long after the deal',
+  'The Recipient shall not, for a period of three (3) years, directly or indirectly solicit, hire or engage any employee of the Company, whether solicited or unsolicited',
+  'This restrictive covenant must be narrowed: remove the blanket no-hire, limit it to employees met during due diligence for at most 24 months, and add carve-outs for general advertisements and unsolicited approaches'
+FROM clauses WHERE name = 'Non-Solicitation and No-Hire';
+
+-- DISCLOSING PARTY PERSPECTIVE (Target Company/Seller)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'disclosing',
+  'Non-solicitation and no-hire covering all or key employees for at least 24 months',
+  ARRAY['non-solicitation', 'no-hire', 'any employee', 'officers', 'twenty-four months', 'two years', 'directly or indirectly', 'induce'],
+  4,
+  'Target wants to protect its workforce from being poached while it shares organisational information during the process',
+  'For twenty-four (24) months from the date of this Agreement, the Recipient shall not, directly or indirectly, solicit, induce or hire any employee or officer of the Company',
+  'Rewrite to favor the disclosing party by prohibiting both solicitation and hiring of any employee or officer for at least 24 months, directly or indirectly'
+FROM clauses WHERE name = 'Non-Solicitation and No-Hire';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'disclosing',
+  'Non-solicitation of key employees and due diligence contacts for 12 to 24 months with standard carve-outs',
+  ARRAY['non-solicitation', 'key employees', 'due diligence', 'twelve months', 'eighteen months', 'general solicitation', 'standard carve-outs'],
+  3,
+  'Compromise keeping protection for the people the buyer actually meets while accepting general advertisement and unsolicited approach carve-outs',
+  'For eighteen (18) months, the Recipient shall not solicit any key employee of the Company with whom it had contact during due diligence, except through general solicitations not targeted at such employees',
+  'Rewrite to keep a non-solicitation covenant of at least 12 months for key employees and due diligence contacts, accepting only standard carve-outs for general solicitations'
+FROM clauses WHERE name = 'Non-Solicitation and No-Hire';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'disclosing',
+  'Covenant shorter than 12 months or hollowed out by broad carve-outs, including former employees',
+  ARRAY['six months', 'former employees', 'terminated', 'unsolicited', 'general advertisement', 'search firm', 'own initiative'],
+  5,
+  'Unacceptable - a short covenant with every carve-out gives no real protection against targeted poaching',
+  'For six (6) months, the Recipient shall not solicit employees, excluding general advertisements, search firm activity, unsolicited approaches and any former employee',
+  'This weak covenant must be strengthened to at least 12 months, with carve-outs limited to general advertisements not targeted at Company employees'
+FROM clauses WHERE name = 'Non-Solicitation and No-Hire';
+
+-- MUTUAL NDA PERSPECTIVE (Balanced Partnership)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'mutual',
+  'Reciprocal non-solicitation of employees met during the transaction for 12 months with standard carve-outs',
+  ARRAY['neither party', 'reciprocal', 'non-solicitation', 'twelve months', 'had contact', 'general solicitation', 'unsolicited'],
+  3,
+  'Balanced covenant binding both parties equally, limited to people met through the transaction',
+  'For twelve (12) months, neither party shall solicit for employment any employee of the other party with whom it had contact in connection with the Transaction, except through general solicitations or where the employee initiates contact',
+  'Rewrite to make the non-solicitation covenant reciprocal, limited to employees met during the transaction for 12 months with carve-outs for general solicitations and unsolicited approaches'
+FROM clauses WHERE name = 'Non-Solicitation and No-Hire';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'mutual',
+  'Reciprocal non-solicitation and no-hire for up to 24 months with a general advertisement carve-out',
+  ARRAY['neither party', 'no-hire', 'eighteen months', 'twenty-four months', 'general advertisement', 'key employees'],
+  4,
+  'Compromise accepting a mutual hiring ban if it is time-limited and leaves general recruiting open',
+  'For eighteen (18) months, neither party shall solicit or hire any key employee of the other, other than through general advertisements not directed at such employees',
+  'Rewrite to make any no-hire covenant reciprocal, capped at 24 months, with a carve-out for general advertisements'
+FROM clauses WHERE name = 'Non-Solicitation and No-Hire';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'mutual',
+  'One-sided or open-ended non-solicitation that binds only one party or has no end date',
+  ARRAY['only the recipient', 'one-sided', 'indefinitely', 'perpetual', 'three years', 'any employee'],
+  5,
+  'Any restrictive covenant that binds only one party or never expires is unacceptable in a mutual NDA',
+  'The Recipient shall not at any time solicit or hire any employee of the Discloser',
+  'This one-sided covenant must be made reciprocal and time-limited, with standard carve-outs for general advertisements and unsolicited approaches'
+FROM clauses WHERE name = 'Non-Solicitation and No-Hire';
+
+-- ============================================
+-- CLAUSE 5: STANDSTILL (OPTIONAL MODULE)
+-- 9 RULES WITH PARTY PERSPECTIVE
+-- Only analysed when the document contains a standstill
+-- ============================================
+
+INSERT INTO clauses (name, category, display_order, is_active) VALUES
+('Standstill', 'optional', 5, true);
+
+-- RECEIVING PARTY PERSPECTIVE (Default - M&A Acquirer)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'receiving',
+  'Standstill of 12 months or less that falls away on a third-party offer or a sale agreement, without "don''t ask, don''t waive" language',
+  ARRAY['standstill', 'twelve months', 'shall terminate', 'third party', 'tender offer', 'definitive agreement', 'confidential proposal'],
+  3,
+  'Acquirer wants a short standstill that ends as soon as someone else bids or the target agrees a deal, and keeps the right to approach the board privately',
+  'For twelve (12) months, the Recipient shall not acquire any voting securities of the Company; these restrictions shall terminate if any third party commences a tender offer for the Company or the Company enters into a definitive agreement for its sale to a third party',
+  'Rewrite this standstill to favor the receiving party by limiting it to 12 months, adding fall-aways for third-party offers and sale agreements, and preserving the right to make confidential proposals to the board'
+FROM clauses WHERE name = 'Standstill';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'receiving',
+  'Standstill of up to 18 months with at least one fall-away trigger',
+  ARRAY['standstill', 'eighteen months', 'shall terminate', 'third party', 'fall away', 'beneficial ownership'],
+  4,
+  'Acceptable compromise if the acquirer is not locked out after a competing bid or a sale to someone else',
+  'For eighteen (18) months, the Recipient shall not acquire beneficial ownership of more than 4.9% of the outstanding voting securities of the Company, provided that this paragraph shall cease to apply if the Company enters into an agreement with a third party for the sale of the Company',
+  'Rewrite to cap the standstill at 18 months and add at least one fall-away, preferably on a third-party tender offer or the Company entering into a sale agreement'
+FROM clauses WHERE name = 'Standstill';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'receiving',
+  'Standstill over 24 months or without a stated period, or "don''t ask, don''t waive" with no fall-away',
+  ARRAY['three years', 'indefinitely', 'request', 'waive', 'amend', 'directly or indirectly', 'standstill'],
+  5,
+  'Unacceptable - the acquirer could be shut out of a competitive process, unable even to ask the board to let it bid',
+  'For three (3) years the Recipient shall not acquire any securities of the Company or request the Company to amend or waive any provision of this paragraph',
+  'This standstill must be limited to at most 24 months, the "don''t ask, don''t waive" language removed or made subject to fall-aways for third-party offers and sale agreements'
+FROM clauses WHERE name = 'Standstill';
+
+-- DISCLOSING PARTY PERSPECTIVE (Target Company/Seller)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'disclosing',
+  'Standstill of at least 18 months with "don''t ask, don''t waive" language and no fall-away',
+  ARRAY['standstill', 'eighteen months', 'two years', 'request', 'waive', 'amend', 'voting securities', 'tender offer'],
+  4,
+  'Target wants to control the sale process: no stake building, no hostile approach and no public requests for a waiver',
+  'For two (2) years, the Recipient shall not acquire any voting securities of the Company, make any tender offer, solicit proxies or request the Company to amend or waive any provision of this paragraph',
+  'Rewrite to favor the disclosing party with a standstill of at least 18 months, a prohibition on requesting waivers or amendments and no fall-away triggers'
+FROM clauses WHERE name = 'Standstill';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'disclosing',
+  'Standstill of at least 12 months, accepting fall-aways on a third-party offer or sale agreement',
+  ARRAY['standstill', 'twelve months', 'voting securities', 'shall terminate', 'third party', 'definitive agreement'],
+  3,
+  'Compromise accepting market fall-aways as long as the standstill lasts long enough to run an orderly process',
+  'For twelve (12) months, the Recipient shall not acquire any voting securities of the Company, provided that these restrictions shall terminate if the Company enters into a definitive agreement with a third party',
+  'Rewrite to keep the standstill at 12 months or more, accepting fall-aways only for a third-party tender offer or a definitive sale agreement'
+FROM clauses WHERE name = 'Standstill';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'disclosing',
+  'Standstill shorter than 12 months or an ownership cap above 10%',
+  ARRAY['six months', 'nine months', 'ten percent', 'fifteen percent', 'toehold', 'beneficial ownership'],
+  5,
+  'Unacceptable - a short standstill or a large ownership cap lets the bidder build a blocking stake while holding confidential information',
+  'For six (6) months, the Recipient shall not acquire beneficial ownership of more than 15% of the outstanding voting securities of the Company',
+  'This standstill must run for at least 12 months and limit ownership to 5% or less of the outstanding voting securities'
+FROM clauses WHERE name = 'Standstill';
+
+-- MUTUAL NDA PERSPECTIVE (Balanced Partnership)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'mutual',
+  'Standstill of 12 months or less with at least one fall-away trigger',
+  ARRAY['standstill', 'twelve months', 'shall terminate', 'third party', 'each party', 'voting securities'],
+  3,
+  'Balanced standstill that is short and ends when a third party bids or a sale is agreed',
+  'For twelve (12) months, neither party shall acquire voting securities of the other, provided that these restrictions shall terminate if a third party commences a tender offer for such party',
+  'Rewrite to limit the standstill to 12 months and add a fall-away for third-party offers or sale agreements'
+FROM clauses WHERE name = 'Standstill';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'mutual',
+  'Standstill of up to 18 months',
+  ARRAY['standstill', 'eighteen months', 'voting securities', 'each party', 'tender offer'],
+  4,
+  'Compromise accepting a longer standstill if it remains time-limited',
+  'For eighteen (18) months, neither party shall acquire voting securities of the other or commence any tender offer for such securities',
+  'Rewrite to cap the standstill at 18 months, ideally with fall-aways for third-party offers and sale agreements'
+FROM clauses WHERE name = 'Standstill';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'mutual',
+  'Standstill over 24 months or without a stated period',
+  ARRAY['three years', 'indefinitely', 'perpetual', 'at any time', 'standstill'],
+  5,
+  'An open-ended or multi-year standstill is unacceptable in a balanced relationship',
+  'Neither party shall at any time acquire any securities of the other party',
+  'This standstill must be time-limited to at most 24 months, with fall-aways for third-party offers and sale agreements'
+FROM clauses WHERE name = 'Standstill';
+
+-- ============================================
+-- CLAUSE 6: RETURN OR DESTRUCTION OF INFORMATION (STANDARD CLAUSE)
+-- 9 RULES WITH PARTY PERSPECTIVE
+-- Reported as missing when the document has no return-or-destroy obligation
+-- ============================================
+
+INSERT INTO clauses (name, category, display_order, is_active) VALUES
+('Return of Information', 'standard', 6, true);
+
+-- RECEIVING PARTY PERSPECTIVE (Default - M&A Acquirer)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'receiving',
+  'Option to return or destroy, a deadline of at least 30 days if any, and carve-outs for automatic backups, legal or regulatory retention and board papers',
+  ARRAY['return or destroy', 'backup', 'archival', 'required by law', 'document retention', 'board papers', 'retain'],
+  3,
+  'Recipient wants to choose destruction over return, enough time to locate copies, and to keep what it cannot practically or lawfully delete',
+  'Upon the written request of the Company, the Recipient shall within thirty (30) days return or destroy the Confidential Information, provided that the Recipient may retain copies required by applicable law, regulation or its document retention policies, electronic copies created by automatic back-up systems and board papers, all of which shall remain subject to this Agreement',
+  'Rewrite this return-or-destroy clause to favor the receiving party by allowing destruction instead of return, a deadline of at least 30 days and carve-outs for automatic backups, legal or regulatory retention and board papers'
+FROM clauses WHERE name = 'Return of Information';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'receiving',
+  'Carve-outs for automatic backups and legal or regulatory retention, with a deadline of at least 10 days if any',
+  ARRAY['backup', 'required by law', 'regulation', 'retain', 'ten days', 'destroy'],
+  4,
+  'Acceptable if the recipient can keep backup copies and records it must retain, even without a board papers carve-out',
+  'The Recipient shall destroy the Confidential Information within ten (10) business days of request, except for copies retained under applicable law or regulation and copies held on automatic back-up systems',
+  'Rewrite to keep carve-outs for automatic backups and legally or regulatorily required retention, with a deadline of at least 10 business days'
+FROM clauses WHERE name = 'Return of Information';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'receiving',
+  'Return only with no option to destroy, no retention carve-outs, or a deadline under 5 days',
+  ARRAY['return all', 'immediately', 'all copies', 'without retaining', 'no copies', 'forthwith'],
+  5,
+  'Unacceptable - the recipient cannot comply: backup and regulatory copies cannot be returned or deleted on demand',
+  'Upon request the Recipient shall immediately return all Confidential Information and all copies thereof, without retaining any copy in any form',
+  'This clause must allow destruction as an alternative to return, a practical deadline and carve-outs for automatic backups and legally required retention'
+FROM clauses WHERE name = 'Return of Information';
+
+-- DISCLOSING PARTY PERSPECTIVE (Target Company/Seller)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'disclosing',
+  'Return or destruction on request within 10 days, certified in writing, with no retention carve-outs',
+  ARRAY['upon request', 'return or destroy', 'certify', 'in writing', 'all copies', 'ten days'],
+  4,
+  'Discloser wants every copy back or destroyed on demand and written proof that it was done',
+  'Upon the Company''s request at any time, the Recipient shall within ten (10) days return or destroy all Confidential Information and all copies, and an officer of the Recipient shall certify such return or destruction in writing',
+  'Rewrite to favor the disclosing party by requiring return or destruction on request within 10 days, written certification by an officer and no retention carve-outs'
+FROM clauses WHERE name = 'Return of Information';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'disclosing',
+  'Return or destruction on request with written certification, accepting limited retention carve-outs',
+  ARRAY['upon request', 'certify', 'in writing', 'destroy', 'remain subject', 'retain'],
+  3,
+  'Compromise accepting backup and legal retention carve-outs as long as retained copies stay confidential and destruction is certified',
+  'Upon request the Recipient shall destroy the Confidential Information and certify such destruction in writing, provided that copies retained under applicable law shall remain subject to this Agreement',
+  'Rewrite to keep return or destruction on request with written certification, limiting any retention carve-outs and keeping retained copies subject to the confidentiality obligations'
+FROM clauses WHERE name = 'Return of Information';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'disclosing',
+  'No right to demand return on request, or a deadline over 30 days',
+  ARRAY['termination', 'sixty days', 'ninety days', 'reasonable time', 'at its discretion'],
+  5,
+  'Unacceptable - the discloser cannot recover its information when it wants to end the process',
+  'Within ninety (90) days after termination of this Agreement, the Recipient shall return or destroy Confidential Information in its possession',
+  'This clause must let the disclosing party demand return or destruction at any time, within 30 days at most'
+FROM clauses WHERE name = 'Return of Information';
+
+-- MUTUAL NDA PERSPECTIVE (Balanced Partnership)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'mutual',
+  'Return or destruction on request with written certification and carve-outs for automatic backups and legal retention',
+  ARRAY['each party', 'upon request', 'return or destroy', 'certify', 'backup', 'required by law'],
+  3,
+  'Balanced clause: either party can demand its information back, and both keep what they cannot practically or lawfully delete',
+  'Upon the request of the disclosing party, the receiving party shall return or destroy its Confidential Information and certify such destruction in writing, except for copies retained under applicable law or on automatic back-up systems, which shall remain confidential',
+  'Rewrite to apply return-or-destroy on request to both parties, with written certification and carve-outs for automatic backups and legally required retention'
+FROM clauses WHERE name = 'Return of Information';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'mutual',
+  'Option to return or destroy with at least one retention carve-out',
+  ARRAY['return or destroy', 'retain', 'backup', 'required by law'],
+  4,
+  'Compromise where certification is dropped but destruction remains an option and some retention is allowed',
+  'Either party may, upon request, return or destroy the other party''s Confidential Information, except for copies it is required by law to retain',
+  'Rewrite to allow return or destruction, with carve-outs for automatic backups and legally required retention'
+FROM clauses WHERE name = 'Return of Information';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'mutual',
+  'Return only with no option to destroy and no retention carve-outs',
+  ARRAY['return all', 'immediately', 'all copies', 'without retaining', 'only the recipient'],
+  5,
+  'A return-only obligation with no carve-outs cannot be complied with for electronic copies and is unbalanced in a mutual NDA',
+  'The Recipient shall immediately return all Confidential Information and all copies thereof',
+  'This clause must allow destruction as an alternative to return and include carve-outs for automatic backups and legally required retention'
+FROM clauses WHERE name = 'Return of Information';
+
+-- ============================================
+-- CLAUSE 7: REPRESENTATIVES AND PERMITTED DISCLOSEES (STANDARD CLAUSE)
+-- 9 RULES WITH PARTY PERSPECTIVE
+-- Reported as missing when the document does not say who the recipient may share with
+-- ============================================
+
+INSERT INTO clauses (name, category, display_order, is_active) VALUES
+('Representatives and Permitted Disclosees', 'standard', 7, true);
+
+-- RECEIVING PARTY PERSPECTIVE (Default - M&A Acquirer)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'receiving',
+  'Disclosure permitted to affiliates, advisers, financing sources and co-investors without prior consent, on a need-to-know basis',
+  ARRAY['representatives', 'affiliates', 'advisers', 'financing sources', 'co-investors', 'need to know'],
+  3,
+  'Acquirer needs to share with its group, deal team, lenders and co-investors to evaluate and fund the transaction',
+  'The Recipient may disclose Confidential Information to its affiliates and its and their directors, officers, employees, advisers, actual or potential financing sources and co-investors, in each case who need to know such information for the Purpose',
+  'Rewrite this clause to favor the receiving party by permitting disclosure to affiliates, advisers, financing sources and co-investors on a need-to-know basis without prior consent'
+FROM clauses WHERE name = 'Representatives and Permitted Disclosees';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'receiving',
+  'Disclosure permitted to affiliates, advisers and financing sources; co-investors or financing sources may require consent',
+  ARRAY['representatives', 'affiliates', 'advisers', 'financing sources', 'prior written consent'],
+  4,
+  'Acceptable if debt financing is covered, even where the discloser must approve co-investors or individual lenders',
+  'The Recipient may disclose Confidential Information to its affiliates, advisers and, with the prior written consent of the Company (not to be unreasonably withheld), its financing sources',
+  'Rewrite to permit disclosure to affiliates, advisers and financing sources, accepting consent for financing sources and co-investors'
+FROM clauses WHERE name = 'Representatives and Permitted Disclosees';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'receiving',
+  'No right to disclose to advisers or to affiliates',
+  ARRAY['shall not disclose', 'any third party', 'employees only', 'no other person'],
+  5,
+  'Unacceptable - the recipient cannot run a transaction process without its advisers and group companies',
+  'The Recipient shall not disclose Confidential Information to any person other than its own employees',
+  'This clause must permit disclosure to affiliates and professional advisers who need to know the information'
+FROM clauses WHERE name = 'Representatives and Permitted Disclosees';
+
+-- DISCLOSING PARTY PERSPECTIVE (Target Company/Seller)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'disclosing',
+  'Disclosure only to personnel and advisers who need to know, financing sources only with prior written consent, and the recipient liable for its Representatives',
+  ARRAY['need to know', 'prior written consent', 'financing sources', 'responsible for any breach', 'representatives'],
+  4,
+  'Discloser wants to control who sees the information and to hold the recipient answerable for everyone it shares with',
+  'The Recipient may disclose Confidential Information only to its directors, officers, employees and professional advisers who need to know it for the Purpose and, with the prior written consent of the Company, its financing sources. The Recipient shall be responsible for any breach of this Agreement by its Representatives',
+  'Rewrite to favor the disclosing party by limiting disclosure to personnel and advisers who need to know, requiring consent for financing sources and making the recipient liable for its Representatives'
+FROM clauses WHERE name = 'Representatives and Permitted Disclosees';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'disclosing',
+  'Permitted disclosees bound by need-to-know, with the recipient liable for its Representatives',
+  ARRAY['need to know', 'responsible for', 'representatives', 'bound by', 'confidentiality obligations'],
+  3,
+  'Compromise accepting a broader list of disclosees as long as the recipient answers for each of them',
+  'The Recipient may disclose Confidential Information to its Representatives who need to know it for the Purpose, and shall be responsible for any breach of this Agreement by its Representatives',
+  'Rewrite to keep the need-to-know limit and make the recipient responsible for any breach by its Representatives'
+FROM clauses WHERE name = 'Representatives and Permitted Disclosees';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'disclosing',
+  'Recipient not liable for its Representatives, or co-investors permitted without consent',
+  ARRAY['co-investors', 'consortium', 'without consent', 'any person', 'no liability'],
+  5,
+  'Unacceptable - information can reach potential competitors in a consortium with no one answerable for misuse',
+  'The Recipient may disclose Confidential Information to its Representatives, including any co-investors or consortium members, and shall have no liability for their acts',
+  'This clause must make the recipient liable for its Representatives and require consent before disclosure to co-investors'
+FROM clauses WHERE name = 'Representatives and Permitted Disclosees';
+
+-- MUTUAL NDA PERSPECTIVE (Balanced Partnership)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'mutual',
+  'Disclosure to affiliates and advisers on a need-to-know basis, with each party liable for its Representatives',
+  ARRAY['each party', 'representatives', 'affiliates', 'advisers', 'need to know', 'responsible for'],
+  3,
+  'Balanced clause: both parties can use their group and advisers, and each answers for those it shares with',
+  'Each party may disclose the other party''s Confidential Information to its affiliates and advisers who need to know it for the Purpose, and shall be responsible for any breach of this Agreement by such persons',
+  'Rewrite to let each party disclose to affiliates and advisers who need to know, with each party liable for its Representatives'
+FROM clauses WHERE name = 'Representatives and Permitted Disclosees';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'mutual',
+  'Disclosure to advisers on a need-to-know basis with each party liable for its Representatives',
+  ARRAY['each party', 'advisers', 'need to know', 'responsible for'],
+  4,
+  'Compromise limited to professional advisers, keeping liability for Representatives',
+  'Each party may disclose Confidential Information to its professional advisers who need to know it, and shall be liable for any breach by them',
+  'Rewrite to permit disclosure to advisers who need to know, with each party liable for breaches by its Representatives'
+FROM clauses WHERE name = 'Representatives and Permitted Disclosees';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'mutual',
+  'No right to disclose to advisers, or no party liable for its Representatives',
+  ARRAY['shall not disclose', 'any third party', 'no liability'],
+  5,
+  'Unacceptable - either the parties cannot take advice, or no one answers for onward disclosure',
+  'Neither party shall disclose Confidential Information to any third party, including its advisers',
+  'This clause must permit disclosure to advisers who need to know and make each party liable for its Representatives'
+FROM clauses WHERE name = 'Representatives and Permitted Disclosees';
+
+-- ============================================
+-- CLAUSE 8: REMEDIES AND LIABILITY (OPTIONAL MODULE)
+-- 9 RULES WITH PARTY PERSPECTIVE
+-- Only analysed when the document contains remedies provisions; risk follows the exposure found
+-- ============================================
+
+INSERT INTO clauses (name, category, display_order, is_active) VALUES
+('Remedies and Liability', 'optional', 8, true);
+
+-- RECEIVING PARTY PERSPECTIVE (Default - M&A Acquirer)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'receiving',
+  'Remedies limited to injunctive relief and actual damages: no indemnity, no liquidated damages and no unlimited liability',
+  ARRAY['injunctive relief', 'equitable relief', 'actual damages', 'consequential', 'in no event'],
+  3,
+  'Recipient accepts that the discloser can seek an injunction but wants no contractual damages regime beyond the general law',
+  'Each party acknowledges that damages may not be an adequate remedy for a breach of this Agreement and that the disclosing party may seek injunctive relief. In no event shall either party be liable for indirect or consequential loss',
+  'Rewrite this remedies clause to favor the receiving party by limiting remedies to injunctive relief and actual direct damages, with no indemnity, liquidated damages or unlimited liability'
+FROM clauses WHERE name = 'Remedies and Liability';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'receiving',
+  'Injunctive relief without bond accepted, or a mutual indemnity with a liability cap; no liquidated damages',
+  ARRAY['injunctive relief', 'without bond', 'mutual', 'shall not exceed', 'limited to'],
+  4,
+  'Acceptable if any indemnity is mutual and capped and the recipient does not pay a fixed sum per breach',
+  'The disclosing party shall be entitled to seek injunctive relief without posting a bond. The aggregate liability of either party under this Agreement shall not exceed the amount agreed',
+  'Rewrite to keep any indemnity mutual and capped, and remove liquidated damages'
+FROM clauses WHERE name = 'Remedies and Liability';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'receiving',
+  'Recipient indemnity, liquidated damages or unlimited liability',
+  ARRAY['indemnify', 'hold harmless', 'liquidated damages', 'unlimited liability', 'shall not be limited'],
+  5,
+  'Unacceptable - the recipient takes on open-ended exposure for any leak, including by its Representatives',
+  'The Recipient shall indemnify and hold harmless the Company from all losses arising from any breach, and shall pay liquidated damages of USD 500,000 for each unauthorised disclosure',
+  'This clause must remove the recipient indemnity, any liquidated damages and any unlimited liability, leaving injunctive relief and actual damages'
+FROM clauses WHERE name = 'Remedies and Liability';
+
+-- DISCLOSING PARTY PERSPECTIVE (Target Company/Seller)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'disclosing',
+  'Injunctive relief without bond or proof of damages, an acknowledgement of irreparable harm, and an indemnity from the recipient',
+  ARRAY['irreparable harm', 'injunctive relief', 'without posting a bond', 'indemnify', 'hold harmless'],
+  4,
+  'Discloser wants fast equitable relief and full recovery of its losses from the recipient',
+  'The Recipient acknowledges that any breach would cause irreparable harm and that the Company shall be entitled to injunctive relief without the necessity of posting a bond or proving actual damages. The Recipient shall indemnify the Company against all losses arising from any breach of this Agreement',
+  'Rewrite to favor the disclosing party with an irreparable harm acknowledgement, injunctive relief without bond or proof of damages and an indemnity from the recipient'
+FROM clauses WHERE name = 'Remedies and Liability';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'disclosing',
+  'Injunctive relief available, with no cap on the recipient''s liability',
+  ARRAY['injunctive relief', 'equitable relief', 'specific performance', 'remedies at law'],
+  3,
+  'Compromise dropping the indemnity as long as injunctive relief is available and recovery is not capped',
+  'The Company shall be entitled to seek injunctive relief and specific performance in addition to any other remedy available at law or in equity',
+  'Rewrite to keep injunctive relief and specific performance available in addition to damages, without any cap on liability'
+FROM clauses WHERE name = 'Remedies and Liability';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'disclosing',
+  'Liability capped or consequential loss excluded, or the discloser giving an indemnity',
+  ARRAY['shall not exceed', 'limited to', 'consequential', 'in no event', 'indemnify the recipient'],
+  5,
+  'Unacceptable - the discloser could not recover the real loss from a leak of its information',
+  'In no event shall the Recipient be liable for indirect or consequential loss, and its aggregate liability shall not exceed USD 10,000',
+  'This clause must not cap the recipient''s liability or exclude consequential loss, and must not require the disclosing party to indemnify'
+FROM clauses WHERE name = 'Remedies and Liability';
+
+-- MUTUAL NDA PERSPECTIVE (Balanced Partnership)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'mutual',
+  'Injunctive relief available to both parties with no indemnities, liquidated damages or unlimited liability',
+  ARRAY['each party', 'injunctive relief', 'adequate remedy', 'either party'],
+  3,
+  'Balanced clause: both parties can stop a breach quickly and neither takes on a contractual damages regime',
+  'Each party acknowledges that damages may not be an adequate remedy for a breach of this Agreement and that the other party may seek injunctive relief',
+  'Rewrite to give both parties injunctive relief without indemnities, liquidated damages or unlimited liability'
+FROM clauses WHERE name = 'Remedies and Liability';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'mutual',
+  'A mutual indemnity or a mutual liability cap',
+  ARRAY['each party', 'mutual', 'indemnify', 'shall not exceed'],
+  4,
+  'Compromise where remedies go beyond injunctive relief but apply equally to both parties',
+  'Each party shall indemnify the other against losses arising from its breach of this Agreement, subject to an aggregate cap on liability',
+  'Rewrite so that any indemnity or liability limit applies equally to both parties'
+FROM clauses WHERE name = 'Remedies and Liability';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'mutual',
+  'One-sided indemnity or liquidated damages',
+  ARRAY['indemnify', 'hold harmless', 'liquidated damages', 'penalty'],
+  5,
+  'Unacceptable - a mutual NDA should not put a damages regime on one party only',
+  'The Recipient shall indemnify the Company against all losses and pay liquidated damages for any breach',
+  'This clause must remove one-sided indemnities and liquidated damages, or make them apply equally to both parties'
+FROM clauses WHERE name = 'Remedies and Liability';
+
+-- ============================================
+-- CLAUSE 9: COMPELLED DISCLOSURE (STANDARD CLAUSE)
+-- 9 RULES WITH PARTY PERSPECTIVE
+-- Reported as missing when the document does not deal with legally required disclosure
+-- ============================================
+
+INSERT INTO clauses (name, category, display_order, is_active) VALUES
+('Compelled Disclosure', 'standard', 9, true);
+
+-- RECEIVING PARTY PERSPECTIVE (Default - M&A Acquirer)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'receiving',
+  'Notice only to the extent legally permitted, with routine regulatory examinations carved out and any cooperation at the discloser''s expense',
+  ARRAY['to the extent legally permitted', 'regulatory authority', 'routine', 'examination', 'at the expense of'],
+  3,
+  'Regulated recipients (e.g. banks) cannot tip off the counterparty about supervisory requests and must not breach the NDA by answering their regulator',
+  'If the Recipient is required by law or legal process to disclose Confidential Information, it shall, to the extent legally permitted, notify the Company so that the Company may seek a protective order at its own expense. No notice shall be required for disclosure to any banking or supervisory authority in the course of a routine examination not targeted at the Company',
+  'Rewrite this compelled-disclosure clause to favor the receiving party by qualifying any notice duty "to the extent legally permitted", carving out routine regulatory examinations and putting the cost of any protective order on the disclosing party'
+FROM clauses WHERE name = 'Compelled Disclosure';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'receiving',
+  'Notice qualified by law, even without a regulatory examination carve-out',
+  ARRAY['to the extent legally permitted', 'unless prohibited by law', 'notice', 'required by law'],
+  4,
+  'Acceptable if the recipient is never obliged to give notice the law forbids, even though routine examinations are not expressly carved out',
+  'If the Recipient is required by law to disclose Confidential Information, it shall, unless prohibited by law, give the Company prompt notice and disclose only that portion legally required',
+  'Rewrite to qualify the notice obligation by "to the extent legally permitted" and, if possible, carve out routine regulatory examinations'
+FROM clauses WHERE name = 'Compelled Disclosure';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'receiving',
+  'Unqualified prior notice before any disclosure, with no exception for regulators',
+  ARRAY['prior written notice', 'in all cases', 'before any disclosure', 'consent of the company'],
+  5,
+  'Unacceptable for a regulated recipient - it would have to choose between breaching the NDA and breaching secrecy obligations to its regulator',
+  'The Recipient shall in all cases give the Company prior written notice before making any disclosure required by law, regulation or any governmental authority',
+  'This clause must qualify the notice obligation by what the law permits and exclude routine regulatory examinations'
+FROM clauses WHERE name = 'Compelled Disclosure';
+
+-- DISCLOSING PARTY PERSPECTIVE (Target Company/Seller)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'disclosing',
+  'Prompt prior notice, cooperation in seeking a protective order and disclosure limited to the minimum legally required',
+  ARRAY['prompt written notice', 'protective order', 'cooperate', 'only that portion', 'legally required'],
+  4,
+  'Discloser wants warning of any compelled disclosure and a chance to stop or narrow it',
+  'If the Recipient is required by law to disclose any Confidential Information, it shall give the Company prompt prior written notice, cooperate with the Company in seeking a protective order or other remedy, and disclose only that portion of the Confidential Information which it is legally required to disclose',
+  'Rewrite to favor the disclosing party by requiring prompt prior notice, cooperation in seeking a protective order and disclosure of no more than is legally required'
+FROM clauses WHERE name = 'Compelled Disclosure';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'disclosing',
+  'Notice (qualified by law if necessary) and disclosure limited to the minimum legally required',
+  ARRAY['notice', 'to the extent legally permitted', 'only that portion', 'legally required'],
+  3,
+  'Compromise accepting a legal qualifier and a regulatory carve-out as long as disclosure is kept to the minimum',
+  'To the extent legally permitted, the Recipient shall notify the Company of any legal requirement to disclose Confidential Information and shall disclose only such portion as is legally required',
+  'Rewrite to keep a notice obligation, qualified by law if needed, and limit disclosure to what is legally required'
+FROM clauses WHERE name = 'Compelled Disclosure';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'disclosing',
+  'Disclosure whenever legally required with no notice and no limit to the minimum required',
+  ARRAY['required by law', 'without notice', 'any authority', 'may disclose'],
+  5,
+  'Unacceptable - the discloser would learn of a compelled disclosure only after the event, with no chance to protect its information',
+  'The Recipient may disclose Confidential Information to the extent required by law or requested by any governmental or regulatory authority',
+  'This clause must require notice where legally permitted and limit any compelled disclosure to what is legally required'
+FROM clauses WHERE name = 'Compelled Disclosure';
+
+-- MUTUAL NDA PERSPECTIVE (Balanced Partnership)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'mutual',
+  'Notice to the extent legally permitted, protective order cooperation, minimum disclosure and a routine regulatory examination carve-out',
+  ARRAY['each party', 'to the extent legally permitted', 'protective order', 'only that portion', 'routine examination'],
+  3,
+  'Balanced clause: each party gets warning and can resist, and each can answer its own regulator',
+  'If either party is required by law to disclose the other party''s Confidential Information, it shall, to the extent legally permitted, give prompt notice, cooperate in seeking a protective order and disclose only the portion legally required; no notice is required for routine regulatory examinations not targeted at the other party',
+  'Rewrite to apply notice qualified by law, protective order cooperation, minimum disclosure and a routine regulatory examination carve-out to both parties'
+FROM clauses WHERE name = 'Compelled Disclosure';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'mutual',
+  'Notice to the extent legally permitted and disclosure limited to the minimum required',
+  ARRAY['each party', 'to the extent legally permitted', 'notice', 'legally required'],
+  4,
+  'Compromise without protective order cooperation or an examination carve-out',
+  'Each party may make any disclosure required by law, provided that, to the extent legally permitted, it notifies the other party and discloses only what is legally required',
+  'Rewrite to keep notice qualified by law and limit disclosure to what is legally required for both parties'
+FROM clauses WHERE name = 'Compelled Disclosure';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'mutual',
+  'No notice requirement, or an unqualified notice requirement with no regulatory carve-out',
+  ARRAY['without notice', 'in all cases', 'any authority'],
+  5,
+  'Unacceptable - either one party is left without warning, or a regulated party cannot comply',
+  'Either party may disclose Confidential Information whenever required by any authority, without notice to the other party',
+  'This clause must require notice to the extent legally permitted, with a carve-out for routine regulatory examinations'
+FROM clauses WHERE name = 'Compelled Disclosure';
+
+-- ============================================
+-- CLAUSE 10: RESIDUALS (OPTIONAL MODULE)
+-- 7 RULES WITH PARTY PERSPECTIVE
+-- Only analysed when the document lets the recipient use information retained in memory, so
+-- there are no rules for a document without residuals language
+-- ============================================
+
+INSERT INTO clauses (name, category, display_order, is_active) VALUES
+('Residuals', 'optional', 10, true);
+
+-- RECEIVING PARTY PERSPECTIVE (Default - M&A Acquirer)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'receiving',
+  'Broad residuals right covering unaided memory and general skills, know-how and experience, with no more than a patent licence carve-out',
+  ARRAY['residuals', 'unaided memory', 'general skills', 'know-how', 'free to use'],
+  3,
+  'Technology recipients cannot wall off what their engineers remember and want freedom to keep working in the same field',
+  'Nothing in this Agreement shall restrict the Recipient from using Residuals, meaning information retained in the unaided memory of its personnel, including general skills, ideas, concepts, know-how and techniques, provided that this does not grant any license under the Company''s patents',
+  'Rewrite this residuals clause to favor the receiving party with a broad right to use information retained in unaided memory and general know-how, limited only by the absence of a patent licence'
+FROM clauses WHERE name = 'Residuals';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'receiving',
+  'Residuals right limited to unaided memory, accepting limits on source code and deliberate memorisation',
+  ARRAY['residuals', 'unaided memory', 'source code', 'intentionally memorize'],
+  4,
+  'Acceptable if the recipient keeps some residuals right, even if narrowed to genuinely unaided memory',
+  'The Recipient may use Residuals retained in the unaided memory of its personnel, provided that no person intentionally memorizes Confidential Information for that purpose and that Residuals do not include source code',
+  'Rewrite to keep a residuals right limited to unaided memory, accepting exclusions for source code and deliberate memorisation'
+FROM clauses WHERE name = 'Residuals';
+
+-- DISCLOSING PARTY PERSPECTIVE (Target Company/Seller)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'disclosing',
+  'Residuals limited to unaided memory with no patent licence, no source code, no deliberate memorisation and no disclosure',
+  ARRAY['unaided memory', 'no license', 'patents', 'source code', 'intentionally memorize', 'shall not disclose'],
+  3,
+  'Compromise accepting genuinely unaided memory if the recipient gets no IP licence, source code is out and residuals stay confidential',
+  'Residuals means information retained in the unaided memory of the Recipient''s personnel without intentional memorization; Residuals exclude source code, no license under any patent or copyright is granted and the Recipient shall not disclose Residuals',
+  'Rewrite to limit residuals to unaided memory and add exclusions for patents and copyrights, source code, deliberate memorisation and disclosure'
+FROM clauses WHERE name = 'Residuals';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'disclosing',
+  'Residuals right with fewer than three limits, or a general skills and know-how right without any limit',
+  ARRAY['residuals', 'general skills', 'know-how', 'free to use', 'retained'],
+  5,
+  'Unacceptable - the recipient can take and use the substance of the information with no protection for patents or source code',
+  'The Recipient shall be free to use for any purpose the general skills, ideas, concepts, know-how and experience retained by its personnel',
+  'This clause must be removed or limited to unaided memory, with no patent licence, no source code, no deliberate memorisation and no disclosure'
+FROM clauses WHERE name = 'Residuals';
+
+-- MUTUAL NDA PERSPECTIVE (Balanced Partnership)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'mutual',
+  'Residuals limited to unaided memory with every limit',
+  ARRAY['each party', 'unaided memory', 'source code', 'patents', 'intentionally memorize'],
+  3,
+  'Balanced clause: either party can use the other''s information through residuals only on narrow, equal terms',
+  'Each party may use Residuals retained in the unaided memory of its personnel, excluding source code and information intentionally memorized, without any license under the other party''s patents or copyrights and without disclosing them',
+  'Rewrite to limit residuals for both parties to unaided memory, with exclusions for patents, source code, deliberate memorisation and disclosure'
+FROM clauses WHERE name = 'Residuals';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'mutual',
+  'Residuals limited to unaided memory with at least two limits',
+  ARRAY['each party', 'unaided memory', 'residuals', 'source code'],
+  4,
+  'Compromise where both parties keep a narrowed residuals right',
+  'Each party may use Residuals retained in the unaided memory of its personnel, excluding source code and without any patent license',
+  'Rewrite to limit residuals to unaided memory for both parties, with at least exclusions for source code and patents'
+FROM clauses WHERE name = 'Residuals';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'mutual',
+  'Residuals right without any limit',
+  ARRAY['residuals', 'general skills', 'know-how', 'free to use'],
+  5,
+  'Unacceptable - the confidentiality obligations can be sidestepped by either party',
+  'Each party shall be free to use any residual knowledge retained by its personnel for any purpose',
+  'This clause must limit residuals to unaided memory and exclude patents, source code and deliberate memorisation'
+FROM clauses WHERE name = 'Residuals';
+
+-- ============================================
+-- CLAUSE 11: PERSONAL DATA PROTECTION (OPTIONAL MODULE)
+-- 9 RULES WITH PARTY PERSPECTIVE
+-- Reported missing only when the document brings personal data into scope
+-- ============================================
+
+INSERT INTO clauses (name, category, display_order, is_active) VALUES
+('Personal Data Protection', 'optional', 11, true);
+
+-- RECEIVING PARTY PERSPECTIVE (Default - M&A Acquirer)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'receiving',
+  'Personal data excluded, or a general duty to comply with data protection laws without processor or transfer obligations',
+  ARRAY['personal data', 'applicable data protection laws', 'comply', 'excluding personal data'],
+  3,
+  'Recipients evaluating a deal should avoid taking on processor duties for data they only need to review',
+  'Each party shall comply with applicable data protection laws in respect of any personal data disclosed under this Agreement',
+  'Rewrite this data-protection clause to favor the receiving party with a general duty to comply with applicable law and no processor or transfer obligations'
+FROM clauses WHERE name = 'Personal Data Protection';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'receiving',
+  'Breach notification with at least 48 hours'' notice (or no fixed deadline), without acting as the discloser''s processor',
+  ARRAY['personal data breach', 'notify', 'without undue delay', 'security measures'],
+  4,
+  'Acceptable if the recipient keeps a workable notice period and does not become the discloser''s data processor',
+  'The Recipient shall implement reasonable security measures to protect personal data and shall notify the Company without undue delay, and in any event within 72 hours, after becoming aware of a personal data breach',
+  'Rewrite to accept security measures and breach notification with at least 48 hours'' notice, removing any processor obligations'
+FROM clauses WHERE name = 'Personal Data Protection';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'receiving',
+  'Breach notice within less than 24 hours, or the full set of processor, transfer, security and breach obligations',
+  ARRAY['data processor', 'instructions', 'transfer', 'breach', 'immediately'],
+  5,
+  'Unacceptable for a recipient reviewing information - it takes on processor liability and an unworkable notice period',
+  'The Recipient shall act as data processor, process personal data only on the documented instructions of the Company, not transfer it outside Singapore and notify the Company within 12 hours of any personal data breach',
+  'This clause must remove processor and transfer obligations and allow at least 48 hours to notify a breach'
+FROM clauses WHERE name = 'Personal Data Protection';
+
+-- DISCLOSING PARTY PERSPECTIVE (Target Company/Seller)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'disclosing',
+  'Named data protection regime with security measures, breach notification within 72 hours, transfer restrictions and processor terms',
+  ARRAY['PDPA', 'GDPR', 'data processor', 'technical and organisational measures', '72 hours', 'transfer'],
+  3,
+  'Discloser remains responsible for personal data it shares and needs every safeguard a regulator would expect',
+  'The Recipient shall process personal data only on the Company''s documented instructions, in compliance with the PDPA and the GDPR, shall implement appropriate technical and organisational measures, shall not transfer personal data outside Singapore without the Company''s prior written consent and shall notify the Company within 72 hours of any personal data breach',
+  'Rewrite to favor the disclosing party by naming the applicable regime and adding processor terms, security measures, transfer restrictions and breach notification within 72 hours'
+FROM clauses WHERE name = 'Personal Data Protection';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'disclosing',
+  'Named data protection regime with security measures and breach notification',
+  ARRAY['data protection laws', 'security measures', 'personal data breach', 'notify'],
+  4,
+  'Compromise covering the core statutory duties when the recipient refuses processor or transfer terms',
+  'The Recipient shall comply with applicable data protection laws, implement reasonable security measures to protect personal data and promptly notify the Company of any personal data breach',
+  'Rewrite to reference the applicable data protection laws and require security measures and breach notification'
+FROM clauses WHERE name = 'Personal Data Protection';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'disclosing',
+  'Personal data in scope with no data-protection terms, or without any security measures',
+  ARRAY['personal data', 'employee data', 'customer information', 'confidential information'],
+  5,
+  'Unacceptable - the discloser shares personal data with no contractual safeguards and stays liable for any breach',
+  'Confidential Information includes employee records and customer information',
+  'This clause must add data-protection terms: compliance with applicable law, security measures and breach notification'
+FROM clauses WHERE name = 'Personal Data Protection';
+
+-- MUTUAL NDA PERSPECTIVE (Balanced Partnership)
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'starting_position', 'mutual',
+  'Named data protection regime with security measures, breach notification and transfer restrictions for both parties',
+  ARRAY['each party', 'data protection laws', 'security measures', 'breach', 'transfer'],
+  3,
+  'Balanced clause: each party protects personal data received from the other on the same terms',
+  'Each party shall comply with applicable data protection laws, implement appropriate security measures, not transfer the other party''s personal data outside its jurisdiction without consent and notify the other party of any personal data breach within 72 hours',
+  'Rewrite to require, for both parties, compliance with applicable data protection laws, security measures, transfer restrictions and breach notification'
+FROM clauses WHERE name = 'Personal Data Protection';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'fallback', 'mutual',
+  'Named data protection regime with security measures',
+  ARRAY['each party', 'data protection laws', 'security measures'],
+  4,
+  'Compromise where both parties commit to the law and to protecting personal data, without detailed procedures',
+  'Each party shall comply with applicable data protection laws and implement reasonable security measures to protect personal data received from the other party',
+  'Rewrite to require both parties to comply with applicable data protection laws and implement security measures'
+FROM clauses WHERE name = 'Personal Data Protection';
+
+INSERT INTO clause_rules (
+  clause_id, rule_type, party_perspective, rule_text, keywords, severity, 
+  guidance_notes, example_language, rewriting_prompt
+)
+SELECT 
+  id, 'not_acceptable', 'mutual',
+  'Personal data in scope with no data-protection terms',
+  ARRAY['personal data', 'employee data', 'customer information'],
+  5,
+  'Unacceptable - either party may receive personal data with no agreed safeguards',
+  'Confidential Information includes personal data relating to each party''s employees and customers',
+  'This clause must add data-protection terms that apply to both parties'
+FROM clauses WHERE name = 'Personal Data Protection';
+
 -- ============================================
 -- VERIFY DATA INSERTION
 -- ============================================
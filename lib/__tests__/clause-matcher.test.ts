@@ -0,0 +1,457 @@
+// lib/__tests__/clause-matcher.test.ts
+// Keyword clause matcher: spans reported against the source document
+
+import { supabase } from '@/lib/supabase';
+import { analyzeDocument, locateKeywordRegion } from '../clause-matcher';
+import type { ClauseProfileSource } from '../playbook/detection-profiles';
+import type { ClauseRule } from '@/types';
+
+type ClauseRow = ClauseProfileSource & { id: string; category: string; display_order: number };
+
+const clauses: ClauseRow[] = [
+  { id: 'clause-definition', name: 'Definition of Confidential Information', category: 'definition', display_order: 1 },
+  { id: 'clause-duration', name: 'Duration of Confidentiality Obligations', category: 'duration', display_order: 2 },
+  { id: 'clause-governing', name: 'Governing Law and Jurisdiction', category: 'governing_law', display_order: 3 }
+];
+
+/** A rule row for a clause, with an id such as "duration-fallback" unless one is given */
+function ruleFor(clauseId: string, ruleType: ClauseRule['rule_type'], fields: Partial<ClauseRule> = {}): Partial<ClauseRule> {
+  return {
+    id: `${clauseId.replace(/^clause-/, '')}-${ruleType}`,
+    clause_id: clauseId,
+    rule_type: ruleType,
+    party_perspective: 'receiving',
+    rule_text: 'Test rule',
+    keywords: [],
+    severity: 3,
+    ...fields
+  };
+}
+
+const rules = clauses.map(clause => ruleFor(clause.id, 'fallback', {
+  id: `${clause.id}-rule`,
+  rule_text: 'Acceptable position',
+  keywords: ['years', 'laws of', 'means']
+}));
+
+function mockTables(ruleRows: Array<Partial<ClauseRule>> = rules, clauseRows: ClauseRow[] = clauses) {
+  (supabase.from as jest.Mock).mockImplementation((table: string) => ({
+    select: () => ({
+      eq: () => ({
+        order: () => Promise.resolve({ data: table === 'clauses' ? clauseRows : ruleRows, error: null })
+      })
+    })
+  }));
+}
+
+const collapse = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+const document = `MUTUAL NON-DISCLOSURE AGREEMENT
+
+1.  DEFINITIONS
+
+"Confidential   Information" means all non-public information disclosed by either party.
+
+2.  TERM
+
+This Agreement remains in effect for a period of 2 years from the Effective Date.
+
+3.  GOVERNING LAW
+
+This Agreement shall be governed by the laws of Singapore and the parties submit to the courts of Singapore.
+
+4.  SURVIVAL
+
+The confidentiality obligations shall survive termination and continue for a period of five (5) years.`;
+
+describe('analyzeDocument spans', () => {
+  beforeEach(() => mockTables());
+
+  it('reports positions that point at the matched text in the source', async () => {
+    const result = await analyzeDocument(document, 'receiving');
+    expect(result.matches.length).toBeGreaterThan(0);
+
+    for (const match of result.matches) {
+      const primary = collapse(document.slice(match.position.start, match.position.end));
+      expect(collapse(match.matchedText)).toContain(primary);
+      expect(match.position.line).toBe(document.slice(0, match.position.start).split('\n').length);
+    }
+  });
+
+  it('reports every span of a clause split across sections', async () => {
+    const result = await analyzeDocument(document, 'receiving');
+    const duration = result.matches.find(match => match.clauseId === 'clause-duration');
+
+    expect(duration?.spans?.length).toBe(2);
+    const spanTexts = duration!.spans!.map(span => document.slice(span.start, span.end));
+    expect(spanTexts[0]).toMatch(/2 years/);
+    expect(spanTexts[1]).toMatch(/five \(5\) years/);
+  });
+
+  it('flags matches on scanned pages read with low OCR confidence', async () => {
+    const governingStart = document.indexOf('3.  GOVERNING LAW');
+    const pages = [
+      { pageNumber: 1, start: 0, end: governingStart },
+      { pageNumber: 2, start: governingStart, end: document.length, ocrConfidence: 52 }
+    ];
+
+    const result = await analyzeDocument(document, 'receiving', { pages });
+    const governing = result.matches.find(match => match.clauseId === 'clause-governing');
+    const definition = result.matches.find(match => match.clauseId === 'clause-definition');
+
+    expect(result.lowConfidencePages).toEqual([2]);
+    expect(governing?.lowConfidencePages).toEqual([2]);
+    expect(definition?.lowConfidencePages).toBeUndefined();
+  });
+});
+
+describe('analyzeDocument rule criteria', () => {
+  const durationRule = (ruleType: ClauseRule['rule_type'], criteria: ClauseRule['criteria']) =>
+    ruleFor('clause-duration', ruleType, { keywords: ['perpetual', 'indefinite'], criteria });
+
+  it('classifies duration by extracted features instead of keyword overlap', async () => {
+    mockTables([
+      durationRule('starting_position', [{ feature: 'durationMonths', op: 'lte', value: 36 }]),
+      durationRule('fallback', [{ feature: 'durationMonths', op: 'gt', value: 36 }, { feature: 'durationMonths', op: 'lte', value: 60 }]),
+      durationRule('not_acceptable', [{ feature: 'kind', op: 'eq', value: 'perpetual' }])
+    ]);
+
+    const result = await analyzeDocument(document, 'receiving');
+    const duration = result.matches.find(match => match.clauseId === 'clause-duration');
+
+    // The split clause runs for 5 years after termination
+    expect(duration?.features).toMatchObject({ kind: 'fixed', durationMonths: 60, survivesTermination: true });
+    expect(duration?.ruleId).toBe('duration-fallback');
+    expect(duration?.confidenceScore).toBe(0.95);
+  });
+});
+
+describe('analyzeDocument optional clauses', () => {
+  const nonSolicit = { id: 'clause-non-solicit', name: 'Non-Solicitation and No-Hire', category: 'optional', display_order: 4, clause_key: 'non_solicit' };
+  const nonSolicitRule = (ruleType: ClauseRule['rule_type'], condition: ClauseRule['condition']) =>
+    ruleFor(nonSolicit.id, ruleType, { keywords: ['solicit'], condition });
+  const nonSolicitRules = [
+    nonSolicitRule('fallback', { all: [
+      { feature: 'coveredPersons', op: 'in', value: ['due_diligence_contacts', 'key_employees'] },
+      { feature: 'durationMonths', op: 'lte', value: 24 }
+    ] }),
+    nonSolicitRule('not_acceptable', { any: [
+      { feature: 'durationMonths', op: 'gt', value: 24 },
+      { all: [{ feature: 'hasNoHire', op: 'eq', value: true }, { feature: 'coveredPersons', op: 'eq', value: 'all_employees' }] }
+    ] })
+  ];
+
+  it('does not report an absent optional clause as missing', async () => {
+    mockTables([...rules, ...nonSolicitRules], [...clauses, nonSolicit]);
+
+    const result = await analyzeDocument(document, 'receiving');
+    expect(result.missingClauses).not.toContain(nonSolicit.name);
+    expect(result.matches.some(match => match.clauseId === nonSolicit.id)).toBe(false);
+  });
+
+  it('classifies a present non-solicit covenant by its condition', async () => {
+    mockTables([...rules, ...nonSolicitRules], [...clauses, nonSolicit]);
+
+    const withCovenant = `${document}
+
+5.  NON-SOLICITATION
+
+For a period of two (2) years, the Recipient shall not, directly or indirectly, solicit or hire any employee of the Company.`;
+
+    const result = await analyzeDocument(withCovenant, 'receiving');
+    const match = result.matches.find(candidate => candidate.clauseId === nonSolicit.id);
+
+    expect(match?.features).toMatchObject({ hasNoHire: true, coveredPersons: 'all_employees', durationMonths: 24 });
+    expect(match?.ruleId).toBe('non-solicit-not_acceptable');
+    expect(match?.evidence?.method).toBe('condition');
+  });
+
+  it('classifies a standstill by its period and fall-aways', async () => {
+    const standstill = { id: 'clause-standstill', name: 'Standstill', category: 'optional', display_order: 5, clause_key: 'standstill' };
+    const standstillRule = (ruleType: ClauseRule['rule_type'], condition: ClauseRule['condition']) =>
+      ruleFor(standstill.id, ruleType, { keywords: ['standstill'], condition });
+    mockTables([
+      ...rules,
+      standstillRule('fallback', { all: [
+        { feature: 'durationMonths', op: 'lte', value: 18 },
+        { feature: 'fallAwayCount', op: 'gte', value: 1 }
+      ] }),
+      standstillRule('not_acceptable', { any: [{ feature: 'durationMonths', op: 'gt', value: 24 }] })
+    ], [...clauses, standstill]);
+
+    const withStandstill = `${document}
+
+5.  STANDSTILL
+
+For a period of eighteen (18) months from the date of this Agreement, the Recipient shall not, directly or indirectly, acquire beneficial ownership of more than 4.9% of the outstanding voting securities of the Company or commence any tender offer for securities of the Company. These restrictions shall terminate if the Company enters into a definitive agreement with a third party providing for a merger or sale of the Company.`;
+
+    const result = await analyzeDocument(withStandstill, 'receiving');
+    const match = result.matches.find(candidate => candidate.clauseId === standstill.id);
+
+    expect(match?.features).toMatchObject({ durationMonths: 18, ownershipThresholdPercent: 4.9, fallAway: { sale_agreement: true } });
+    expect(match?.ruleId).toBe('standstill-fallback');
+    expect(match?.evidence?.method).toBe('condition');
+  });
+});
+
+describe('analyzeDocument return or destruction', () => {
+  const returnClause = { id: 'clause-return', name: 'Return of Information', category: 'standard', display_order: 6, clause_key: 'return_of_info' };
+  const returnRule = (ruleType: ClauseRule['rule_type'], condition: ClauseRule['condition']) =>
+    ruleFor(returnClause.id, ruleType, { keywords: ['return'], condition });
+  const returnRules = [
+    returnRule('starting_position', { all: [
+      { feature: 'obligation', op: 'eq', value: 'return_or_destroy' },
+      { feature: 'retentionCarveOutCount', op: 'eq', value: 3 }
+    ] }),
+    returnRule('not_acceptable', { any: [{ feature: 'retentionCarveOutCount', op: 'eq', value: 0 }] })
+  ];
+
+  it('reports a missing return clause', async () => {
+    mockTables([...rules, ...returnRules], [...clauses, returnClause]);
+
+    const result = await analyzeDocument(document, 'receiving');
+    expect(result.missingClauses).toContain(returnClause.name);
+  });
+
+  it('reads the retention carve-outs of a long return clause', async () => {
+    mockTables([...rules, ...returnRules], [...clauses, returnClause]);
+
+    const withReturn = `${document}
+
+5.  RETURN OR DESTRUCTION OF INFORMATION
+
+Upon the written request of the Company, the Recipient shall within ten (10) business days return or destroy all Confidential Information, including all copies, extracts and notes thereof, and shall certify such destruction in writing. Notwithstanding the foregoing, the Recipient (i) may retain copies of Confidential Information to the extent required to comply with applicable law, regulation or internal document retention policies, (ii) shall not be required to delete electronic copies created pursuant to automatic archiving and back-up procedures, and (iii) may retain any board papers or investment committee materials that reflect Confidential Information. Confidential Information so retained shall remain subject to this Agreement.`;
+
+    const result = await analyzeDocument(withReturn, 'receiving');
+    const match = result.matches.find(candidate => candidate.clauseId === returnClause.id);
+
+    expect(match?.features).toMatchObject({ deadlineDays: 10, certificationRequired: true, retentionCarveOutCount: 3 });
+    expect(match?.ruleId).toBe('return-starting_position');
+    expect(match?.evidence?.method).toBe('condition');
+  });
+});
+
+describe('analyzeDocument remedies', () => {
+  const remedies = { id: 'clause-remedies', name: 'Remedies and Liability', category: 'optional', display_order: 8, clause_key: 'remedies' };
+  const remediesRule = (partyPerspective: ClauseRule['party_perspective']) =>
+    ruleFor(remedies.id, 'fallback', { id: `remedies-${partyPerspective}`, party_perspective: partyPerspective, keywords: ['injunctive relief'] });
+  const withRemedies = `${document}
+
+5.  REMEDIES
+
+The Recipient shall indemnify and hold harmless the Company against any loss arising from a breach of this Agreement, and the liability of the Recipient under this Agreement shall not be limited. The Recipient acknowledges that any breach would cause irreparable harm and that the Company shall be entitled to injunctive relief without the necessity of posting a bond.`;
+
+  it('sets the risk level from the exposure found rather than the rule type', async () => {
+    mockTables([...rules, remediesRule('receiving')], [...clauses, remedies]);
+
+    const result = await analyzeDocument(withRemedies, 'receiving');
+    const match = result.matches.find(candidate => candidate.clauseId === remedies.id);
+
+    expect(match?.ruleType).toBe('fallback');
+    expect(match?.features).toMatchObject({ indemnityBy: 'recipient', liabilityCap: 'uncapped', injunctionWithoutBond: true });
+    expect(match?.riskLevel).toBe(5);
+    expect(result.matches.find(candidate => candidate.clauseId === 'clause-governing')?.riskLevel).toBeUndefined();
+  });
+
+  it('scores the same remedies as low risk for the disclosing party', async () => {
+    mockTables([...rules, remediesRule('disclosing')], [...clauses, remedies]);
+
+    const result = await analyzeDocument(withRemedies, 'disclosing');
+    expect(result.matches.find(candidate => candidate.clauseId === remedies.id)?.riskLevel).toBe(1);
+  });
+});
+
+describe('analyzeDocument compelled disclosure', () => {
+  it('classifies a compelled-disclosure clause by its safeguards for the disclosing party', async () => {
+    const compelled = { id: 'clause-compelled', name: 'Compelled Disclosure', category: 'standard', display_order: 9, clause_key: 'compelled_disclosure' };
+    const compelledRule = (ruleType: ClauseRule['rule_type'], condition: ClauseRule['condition']) =>
+      ruleFor(compelled.id, ruleType, { party_perspective: 'disclosing', keywords: ['required by law'], condition });
+    mockTables([
+      ...rules,
+      compelledRule('starting_position', { all: [
+        { feature: 'elements.prior_notice', op: 'eq', value: true },
+        { feature: 'elements.protective_order', op: 'eq', value: true },
+        { feature: 'elements.regulatory_carve_out', op: 'eq', value: false }
+      ] }),
+      compelledRule('fallback', { all: [
+        { feature: 'elements.prior_notice', op: 'eq', value: true },
+        { feature: 'elements.minimum_disclosure', op: 'eq', value: true }
+      ] })
+    ], [...clauses, compelled]);
+
+    const withCompelled = `${document}
+
+5.  COMPELLED DISCLOSURE
+
+If the Recipient is required by law, regulation or court order to disclose any Confidential Information, it shall, to the extent legally permitted, give the Company prompt written notice and cooperate with the Company in seeking a protective order, and shall disclose only that portion of the Confidential Information which it is legally required to disclose. No notice shall be required for disclosure to a banking regulator in the course of a routine supervisory examination not targeted at the Company.`;
+
+    const result = await analyzeDocument(withCompelled, 'disclosing');
+    const match = result.matches.find(candidate => candidate.clauseId === compelled.id);
+
+    expect(match?.features).toMatchObject({ elementCount: 5 });
+    expect(match?.ruleId).toBe('compelled-fallback');
+    expect(match?.evidence?.method).toBe('condition');
+  });
+});
+
+describe('analyzeDocument personal data', () => {
+  const personalData = { id: 'clause-personal-data', name: 'Personal Data Protection', category: 'optional', display_order: 11, clause_key: 'personal_data' };
+
+  it('reports missing data-protection terms when the document brings personal data into scope', async () => {
+    mockTables(rules, [...clauses, personalData]);
+
+    const withEmployeeData = document.replace(
+      'means all non-public information disclosed by either party.',
+      'means all non-public information disclosed by either party, including employee records and customer details.'
+    );
+
+    const result = await analyzeDocument(withEmployeeData, 'disclosing');
+    expect(result.missingClauses).toContain(personalData.name);
+  });
+
+  it('does not expect data-protection terms when personal data is excluded', async () => {
+    mockTables(rules, [...clauses, personalData]);
+
+    const excludingPersonalData = document.replace(
+      'means all non-public information disclosed by either party.',
+      'means all non-public information disclosed by either party, excluding any personal data.'
+    );
+
+    const result = await analyzeDocument(excludingPersonalData, 'disclosing');
+    expect(result.missingClauses).not.toContain(personalData.name);
+  });
+});
+
+describe('analyzeDocument keyword scopes', () => {
+  const definitionRule = (ruleType: ClauseRule['rule_type'], keywords: string[]) =>
+    ruleFor('clause-definition', ruleType, { keywords });
+
+  const scopedDocument = `1.  DEFINITIONS
+
+"Confidential Information" means information clearly designated as confidential and not all information or everything disclosed, excluding oral disclosures and information that is publicly available.`;
+
+  it('does not reward keywords that appear only in negated or excluded phrases', async () => {
+    mockTables([
+      definitionRule('starting_position', ['clearly designated', 'publicly available', 'oral disclosures', 'written notice', 'signed writing']),
+      definitionRule('not_acceptable', ['all information', 'everything disclosed'])
+    ]);
+
+    const result = await analyzeDocument(scopedDocument, 'receiving');
+    const definition = result.matches.find(match => match.clauseId === 'clause-definition');
+
+    expect(definition?.ruleId).toBe('definition-starting_position');
+    // Exceptions are expected inside exclusions; other excluded keywords are not matches
+    expect(definition?.matchedKeywords).toEqual(['clearly designated', 'publicly available']);
+  });
+
+  it('does not read legal wording in a keyword as an exception', async () => {
+    mockTables([
+      definitionRule('starting_position', ['clearly designated', 'publicly available', 'laws of'])
+    ]);
+
+    const excludingLegalDisclosures = `1.  DEFINITIONS
+
+"Confidential Information" means all business and technical information clearly designated as confidential, excluding information that is publicly available or disclosed under the laws of any jurisdiction.`;
+
+    const result = await analyzeDocument(excludingLegalDisclosures, 'receiving');
+    const definition = result.matches.find(match => match.clauseId === 'clause-definition');
+
+    // "laws of" only mentions the law, unlike the wording of an exception
+    expect(definition?.matchedKeywords).toEqual(['clearly designated', 'publicly available']);
+  });
+});
+
+describe('analyzeDocument classification evidence', () => {
+  it('breaks down the score of every competing rule with keyword spans in the source', async () => {
+    mockTables([
+      { ...rules[0], id: 'definition-starting', rule_type: 'starting_position', keywords: ['non-public information', 'either party'], severity: 2 },
+      { ...rules[0], id: 'definition-not-acceptable', rule_type: 'not_acceptable', keywords: ['all information', 'no exceptions'], severity: 2 }
+    ]);
+
+    const result = await analyzeDocument(document, 'receiving');
+    const evidence = result.matches.find(match => match.clauseId === 'clause-definition')!.evidence!;
+
+    expect(evidence.method).toBe('keywords');
+    expect(evidence.selectedRuleId).toBe('definition-starting');
+    expect(evidence.candidates.map(candidate => candidate.ruleId)).toEqual(['definition-starting', 'definition-not-acceptable']);
+
+    const [selected, competing] = evidence.candidates;
+    expect(selected).toMatchObject({ keywordScore: 1, typeWeight: 1.2, severityBonus: 0.1 });
+    expect(selected.total).toBeCloseTo((selected.keywordScore + selected.ruleTextBonus) * selected.typeWeight + selected.severityBonus);
+    // "all information" only matches word by word, so each word's first occurrence is reported
+    expect(competing.matchedKeywords.map(keyword => keyword.keyword)).toEqual(['all information']);
+    expect(competing.matchedKeywords[0].spans.map(span => document.slice(span.start, span.end))).toEqual(['Information', 'all']);
+
+    selected.matchedKeywords.forEach(keyword => {
+      const span = keyword.spans[0];
+      expect(collapse(document.slice(span.start, span.end)).toLowerCase()).toBe(keyword.keyword);
+      expect(span.line).toBe(5);
+    });
+  });
+
+  it('records when the party-context fallback decided the rule', async () => {
+    mockTables([{ ...rules[0], keywords: ['unrelated phrase'], severity: 1 }]);
+
+    const result = await analyzeDocument(document, 'receiving');
+    const evidence = result.matches.find(match => match.clauseId === 'clause-definition')!.evidence!;
+
+    expect(evidence.method).toBe('party_fallback');
+    expect(evidence.candidates[0].total).toBeLessThan(evidence.fallbackThreshold);
+  });
+});
+
+describe('analyzeDocument defined terms', () => {
+  it('extracts definition features from the definition wherever it sits', async () => {
+    mockTables([rules[0]], [clauses[0]]);
+    const recitalDefinition = `MUTUAL NON-DISCLOSURE AGREEMENT
+
+WHEREAS the Discloser will make available information about its business, other than information which is or becomes public other than through a breach of this Agreement (the "Confidential Information").
+
+1. DEFINITIONS
+
+1.1 "Purpose" means evaluating the proposed acquisition of the Discloser.
+
+1.2 "Representatives" means the directors, officers and professional advisers of the Recipient.
+
+2. SCOPE
+
+2.1 Confidential Information includes technical, commercial and financial information in any form.
+
+3. TERM
+
+This Agreement continues for 2 years.`;
+
+    const result = await analyzeDocument(recitalDefinition, 'receiving');
+    const definition = result.matches.find(match => match.clauseId === 'clause-definition');
+
+    expect(definition?.matchedText).not.toContain('WHEREAS');
+    // The public-domain exception is only in the recital that defines the term
+    expect(definition?.features).toMatchObject({ exceptions: { public_domain: 'present' } });
+  });
+});
+
+describe('locateKeywordRegion', () => {
+  it('reports the clause the keywords match rather than the first mention of a keyword', () => {
+    const withRecital = `MUTUAL NON-DISCLOSURE AGREEMENT
+
+WHEREAS the parties wish to enter into an agreement governing the exchange of information.
+
+1.  CONFIDENTIALITY
+
+The Recipient shall keep the Confidential Information confidential.
+
+2.  GOVERNING LAW
+
+This Agreement is governing and shall be construed under the laws of Singapore, and the courts of Singapore have exclusive jurisdiction.`;
+
+    const region = locateKeywordRegion(withRecital, ['governing', 'laws of', 'jurisdiction']);
+
+    expect(region).not.toBeNull();
+    expect(region!.position.start).toBeGreaterThan(withRecital.indexOf('2.  GOVERNING LAW') - 1);
+    expect(withRecital.slice(region!.position.start, region!.position.end)).toContain('laws of Singapore');
+  });
+
+  it('returns null when no part of the document matches the keywords', () => {
+    expect(locateKeywordRegion(document, ['standstill', 'voting securities'])).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+// lib/__tests__/defined-terms.test.ts
+// Defined-terms index: definitions with their locations, and consistency issues
+
+import { buildDefinedTermsIndex, findTermDefinition } from '../defined-terms';
+
+const nda = `MUTUAL NON-DISCLOSURE AGREEMENT
+
+This Agreement is made between Acme Pte Ltd (the "Company") and Beta Ltd (each a "Party", together the "Parties").
+
+1. DEFINITIONS
+
+1.1 "Confidential Information" means all information disclosed by a Party, including:
+(a) technical data; and
+(b) business plans.
+
+1.2 Affiliate means any entity controlling a Party.
+
+1.3 "Purpose" shall mean evaluating a joint venture.
+
+2. OBLIGATIONS
+
+2.1 Each Party shall keep the Confidential Information confidential and use it only for the Purpose.
+
+2.2 The Recipient may share confidential information with the Company's advisers.
+
+2.3 Information is used for the purpose of this Agreement only as referred to as the "Purpose" in clause 1.3, being evaluating a possible acquisition.`;
+
+describe('buildDefinedTermsIndex', () => {
+  const index = buildDefinedTermsIndex(nda);
+  const issue = (kind: string, term: string) => index.issues.find(found => found.kind === kind && found.term === term);
+
+  it('finds quoted, unquoted and parenthetical definitions with their location', () => {
+    expect(index.terms.map(term => term.term)).toEqual(['Company', 'Party', 'Confidential Information', 'Affiliate', 'Purpose']);
+
+    const confidential = findTermDefinition(index, 'confidential information')!;
+    expect(confidential.style).toBe('means');
+    // A definition that continues as a list keeps its items
+    expect(confidential.text).toMatch(/^"Confidential Information" means[\s\S]*\(b\) business plans\.$/);
+    expect(confidential.position.line).toBe(7);
+    expect(nda.slice(confidential.position.start, confidential.position.end)).toBe(confidential.text);
+
+    const company = findTermDefinition(index, 'Company')!;
+    expect(company).toMatchObject({ style: 'parenthetical', position: { line: 3 } });
+    expect(findTermDefinition(index, 'Parties')).toBe(findTermDefinition(index, 'Party'));
+    expect(findTermDefinition(index, 'Affiliate')!.text).toBe('1.2 Affiliate means any entity controlling a Party.');
+    expect(findTermDefinition(index, 'Recipient')).toBeNull();
+  });
+
+  it('counts uses outside the definitions', () => {
+    const usage = (term: string) => index.terms.find(entry => entry.term === term)!.usageCount;
+
+    expect(usage('Confidential Information')).toBe(1);
+    // "Company's" is a use; the label inside the parenthetical is not
+    expect(usage('Company')).toBe(1);
+  });
+
+  it('reports terms used but never defined, and terms defined but never used', () => {
+    expect(issue('undefined', 'Recipient')).toMatchObject({ message: '"Recipient" is used 1 time but never defined' });
+    expect(issue('undefined', 'Confidential Information')).toBeUndefined();
+    expect(issue('unused', 'Affiliate')).toMatchObject({ positions: [{ line: 11 }] });
+    expect(issue('unused', 'Purpose')).toBeUndefined();
+  });
+
+  it('reports terms defined twice with different wording', () => {
+    const purpose = issue('inconsistent_definition', 'Purpose')!;
+
+    expect(purpose.message).toBe('"Purpose" is defined 2 times with different wording');
+    expect(purpose.positions.map(position => position.line)).toEqual([13, 21]);
+  });
+
+  it('reports capitalisation drift but not ordinary lower-case words', () => {
+    const drift = issue('capitalisation_drift', 'Confidential Information')!;
+
+    expect(drift.message).toBe('"Confidential Information" also appears as "confidential information" (1 time)');
+    expect(nda.slice(drift.positions[0].start, drift.positions[0].end)).toBe('confidential information');
+    // "the purpose of" is plain English, not a drifting "Purpose"
+    expect(issue('capitalisation_drift', 'Purpose')).toBeUndefined();
+  });
+
+  it('reports pages when page boundaries are given', () => {
+    const split = nda.indexOf('2. OBLIGATIONS');
+    const paged = buildDefinedTermsIndex(nda, [
+      { pageNumber: 1, start: 0, end: split },
+      { pageNumber: 2, start: split, end: nda.length }
+    ]);
+
+    expect(findTermDefinition(paged, 'Confidential Information')!.position.page).toBe(1);
+    expect(paged.issues.find(found => found.kind === 'undefined')!.positions[0].page).toBe(2);
+  });
+});
@@ -0,0 +1,116 @@
+/** @jest-environment node */
+// lib/__tests__/document-formats.test.ts
+// Content-based format detection and the RTF, HTML, Markdown and ODT text converters
+
+import JSZip from 'jszip';
+import {
+  detectDocumentFormat,
+  decodeText,
+  rtfToText,
+  htmlToText,
+  markdownToText,
+  odtToText
+} from '../document-formats';
+
+const ODT_MIMETYPE = 'application/vnd.oasis.opendocument.text';
+const ODF_NAMESPACES =
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" ' +
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0" ' +
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0" ' +
+  'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"';
+
+/** Package an ODT the way office suites do: an uncompressed mimetype entry first */
+async function buildOdt(automaticStyles: string, body: string): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('mimetype', ODT_MIMETYPE, { compression: 'STORE' });
+  zip.file('content.xml',
+    `<?xml version="1.0" encoding="UTF-8"?><office:document-content ${ODF_NAMESPACES}>` +
+    `<office:automatic-styles>${automaticStyles}</office:automatic-styles>` +
+    `<office:body><office:text>${body}</office:text></office:body></office:document-content>`);
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+describe('detectDocumentFormat', () => {
+  it('detects formats from content whatever the file is called', async () => {
+    const odt = await buildOdt('', '<text:p>Mutual NDA</text:p>');
+    const docx = new JSZip();
+    docx.file('word/document.xml', '<w:document/>');
+    const ole = Buffer.concat([
+      Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]),
+      Buffer.alloc(100),
+      Buffer.from('WordDocument', 'utf16le')
+    ]);
+
+    expect(detectDocumentFormat(Buffer.from('%PDF-1.7\n'), 'contract.docx')).toBe('pdf');
+    expect(detectDocumentFormat(odt, 'contract.pdf')).toBe('odt');
+    expect(detectDocumentFormat(await docx.generateAsync({ type: 'nodebuffer' }), 'upload')).toBe('docx');
+    expect(detectDocumentFormat(ole, 'contract.docx')).toBe('doc');
+    expect(detectDocumentFormat(Buffer.from('{\\rtf1\\ansi Confidential}'), 'nda.txt')).toBe('rtf');
+    expect(detectDocumentFormat(Buffer.from('<!DOCTYPE html><html><body><p>NDA</p></body></html>'), 'nda.txt')).toBe('html');
+    expect(detectDocumentFormat(Buffer.from('# Mutual NDA\n\n1. Definitions\n'), 'nda.txt')).toBe('markdown');
+    expect(detectDocumentFormat(Buffer.from('MUTUAL NDA\n\n1. Definitions\n'), 'nda.md')).toBe('text');
+  });
+
+  it('rejects binary content that is not a supported document', () => {
+    expect(detectDocumentFormat(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]), 'scan.pdf')).toBeNull();
+  });
+});
+
+describe('decodeText', () => {
+  it('honours byte order marks and falls back to Windows-1252', () => {
+    expect(decodeText(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('Clause 1', 'utf16le')]))).toBe('Clause 1');
+    expect(decodeText(Buffer.from([0x93, 0x41, 0x94, 0x20, 0x96, 0x20, 0xa7, 0x32]))).toBe('“A” – §2');
+  });
+});
+
+describe('text converters', () => {
+  it('keeps RTF paragraphs and list numbers and drops control groups', () => {
+    const rtf = '{\\rtf1\\ansi{\\fonttbl{\\f0 Times New Roman;}}{\\colortbl;\\red0\\green0\\blue0;}' +
+      '{\\*\\generator Word;}\\pard\\b CONFIDENTIALITY\\b0\\par' +
+      '{\\listtext 1.1\\tab}The Recipient shall hold the \\ldblquote Confidential Information\\rdblquote  in confidence.\\par' +
+      '{\\listtext 1.2\\tab}Caf\\\'e9 \\u8364? 5,000 penalty.\\par}';
+
+    expect(rtfToText(rtf)).toBe(
+      'CONFIDENTIALITY\n\n1.1\tThe Recipient shall hold the “Confidential Information” in confidence.\n\n1.2\tCafé € 5,000 penalty.'
+    );
+  });
+
+  it('numbers HTML lists and separates blocks and table cells', () => {
+    const html = '<html><head><title>x</title><style>p{}</style></head><body>' +
+      '<h1>Mutual&nbsp;NDA</h1><ol><li>Definitions<ol><li>&ldquo;Affiliate&rdquo; means&hellip;</li></ol></li>' +
+      '<li>Term</li></ol><ul><li>Schedule A</li></ul>' +
+      '<table><tr><td>Party</td><td>Acme &amp; Co</td></tr></table></body></html>';
+
+    expect(htmlToText(html)).toBe(
+      'Mutual NDA\n\n1. Definitions\n\n1.1. “Affiliate” means…\n\n2. Term\n\n- Schedule A\n\nParty\tAcme & Co'
+    );
+  });
+
+  it('strips Markdown formatting but keeps list numbering and tables', () => {
+    const markdown = '# Mutual NDA\n\n**1. Definitions**\n\n1. *Confidential Information* means [all data](http://x).\n' +
+      '2. `Term` means two years.\n\n* Schedule A\n\n| Party | Role |\n| --- | --- |\n| Acme | Discloser |\n';
+
+    expect(markdownToText(markdown)).toBe(
+      'Mutual NDA\n\n1. Definitions\n\n1. Confidential Information means all data.\n2. Term means two years.\n\n' +
+      '- Schedule A\n\nParty\tRole\n\nAcme\tDiscloser'
+    );
+  });
+
+  it('numbers ODT list items from the list style', async () => {
+    const styles = '<text:list-style style:name="L1">' +
+      '<text:list-level-style-number text:level="1" style:num-format="1"/>' +
+      '<text:list-level-style-number text:level="2" style:num-format="1"/>' +
+      '</text:list-style>';
+    const body = '<text:h text:outline-level="1">Mutual NDA</text:h>' +
+      '<text:list text:style-name="L1">' +
+      '<text:list-item><text:p>Definitions</text:p>' +
+      '<text:list><text:list-item><text:p>Affiliate<text:tab/>means</text:p></text:list-item></text:list>' +
+      '</text:list-item>' +
+      '<text:list-item><text:p>Term<text:s text:c="2"/>of<text:line-break/>two years</text:p></text:list-item>' +
+      '</text:list>';
+
+    expect(await odtToText(await buildOdt(styles, body))).toBe(
+      'Mutual NDA\n\n1. Definitions\n\n1.1. Affiliate\tmeans\n\n2. Term  of\ntwo years'
+    );
+  });
+});
@@ -0,0 +1,145 @@
+// lib/__tests__/document-parser.test.ts
+// PDF parsing: OCR fallback for scanned pages and per-page OCR confidence; content-based format detection
+
+import pdfParse from 'pdf-parse';
+import { parseDocument } from '../document-parser';
+import { recognizePdfPages } from '../ocr';
+
+jest.mock('pdf-parse', () => jest.fn());
+jest.mock('../ocr', () => ({ recognizePdfPages: jest.fn() }));
+const mockDocBody = jest.fn(() => 'MUTUAL NDA\r1.\tDefinitions\r\r2.\tTerm\r');
+jest.mock('word-extractor', () => jest.fn().mockImplementation(() => ({
+  extract: async () => ({ getBody: mockDocBody })
+})));
+
+/** Make pdf-parse render the given page texts through the parser's page renderer */
+function mockPdfPages(pageTexts: string[]) {
+  (pdfParse as unknown as jest.Mock).mockImplementation(async (_buffer: Buffer, options: any) => {
+    let text = '';
+    for (const pageText of pageTexts) {
+      const rendered = await options.pagerender({
+        getTextContent: async () => ({ items: pageText ? [{ str: pageText, transform: [0, 0, 0, 0, 0, 700] }] : [] })
+      });
+      text += `\n\n${rendered}`;
+    }
+    return { text, numpages: pageTexts.length, numrender: pageTexts.length };
+  });
+}
+
+const clauseText = 'The Recipient shall keep the Confidential Information strictly confidential for five years.';
+
+describe('parseDocument OCR fallback', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('reads scanned pages with OCR and reports their confidence', async () => {
+    mockPdfPages([clauseText, '']);
+    (recognizePdfPages as jest.Mock).mockResolvedValue([
+      { pageNumber: 2, text: 'This Agreement is governed by the laws of Singapore.', confidence: 58 }
+    ]);
+
+    const result = await parseDocument(Buffer.from('%PDF'), 'signed.pdf', 'application/pdf');
+    if (!result.success) throw new Error(result.error);
+
+    expect(recognizePdfPages).toHaveBeenCalledWith(expect.any(Buffer), [2], { timeoutMs: expect.any(Number) });
+    expect(result.data.text).toBe(`\n\n${clauseText}\n\nThis Agreement is governed by the laws of Singapore.`);
+    expect(result.data.pages?.[1]).toMatchObject({ pageNumber: 2, ocrConfidence: 58 });
+    expect(result.data.pages?.[0].ocrConfidence).toBeUndefined();
+    expect(result.data.metadata.ocr).toEqual({ pages: [{ pageNumber: 2, confidence: 58 }], lowConfidencePages: [2] });
+  });
+
+  it('caps the pages read and flags scanned pages OCR did not reach', async () => {
+    mockPdfPages(new Array<string>(22).fill(''));
+    // OCR times out after the first two pages
+    (recognizePdfPages as jest.Mock).mockResolvedValue([
+      { pageNumber: 1, text: clauseText, confidence: 91 },
+      { pageNumber: 2, text: clauseText, confidence: 88 }
+    ]);
+
+    const result = await parseDocument(Buffer.from('%PDF'), 'long-scan.pdf', 'application/pdf');
+    if (!result.success) throw new Error(result.error);
+
+    const unreadPages = Array.from({ length: 20 }, (_, index) => index + 3);
+    expect((recognizePdfPages as jest.Mock).mock.calls[0][1]).toHaveLength(20);
+    expect(result.data.metadata.ocr).toEqual({
+      pages: [{ pageNumber: 1, confidence: 91 }, { pageNumber: 2, confidence: 88 }],
+      lowConfidencePages: unreadPages,
+      unreadPages
+    });
+    expect(result.data.pages?.[2]).toMatchObject({ pageNumber: 3, ocrConfidence: 0 });
+    expect(result.data.metadata.warnings).toEqual([
+      `OCR stopped before reading scanned page(s) ${unreadPages.join(', ')}; their text may be missing`
+    ]);
+  });
+
+  it('leaves PDFs with a text layer alone', async () => {
+    mockPdfPages([clauseText, clauseText]);
+
+    const result = await parseDocument(Buffer.from('%PDF'), 'typed.pdf', 'application/pdf');
+
+    if (!result.success) throw new Error(result.error);
+
+    expect(recognizePdfPages).not.toHaveBeenCalled();
+    expect(result.data.metadata.ocr).toBeUndefined();
+  });
+
+  it('fails when neither the text layer nor OCR finds any text', async () => {
+    mockPdfPages(['', '']);
+    (recognizePdfPages as jest.Mock).mockResolvedValue([
+      { pageNumber: 1, text: '', confidence: 0 },
+      { pageNumber: 2, text: '', confidence: 0 }
+    ]);
+
+    const result = await parseDocument(Buffer.from('%PDF'), 'blank.pdf', 'application/pdf');
+    expect(result).toMatchObject({ success: false, error: 'PDF appears to be empty or contains no extractable text' });
+  });
+});
+
+describe('parseDocument format detection', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('parses by content when the MIME type and extension are wrong', async () => {
+    const result = await parseDocument(
+      Buffer.from('{\\rtf1\\ansi 1.\\tab Confidentiality\\par 2.\\tab Term\\par}'),
+      'nda.pdf',
+      'application/pdf'
+    );
+    if (!result.success) throw new Error(result.error);
+
+    expect(pdfParse).not.toHaveBeenCalled();
+    expect(result.data.text).toBe('1.\tConfidentiality\n\n2.\tTerm');
+    expect(result.data.metadata).toMatchObject({ fileName: 'nda.pdf', format: 'rtf', wordCount: 4 });
+    expect(result.data.metadata.warnings).toEqual(['File was declared as PDF but read as RTF']);
+  });
+
+  const ole = Buffer.concat([
+    Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]),
+    Buffer.from('WordDocument', 'utf16le')
+  ]);
+
+  it('reads legacy Word documents with one paragraph per block', async () => {
+    const result = await parseDocument(ole, 'nda.doc', 'application/msword');
+    if (!result.success) throw new Error(result.error);
+
+    expect(result.data.text).toBe('MUTUAL NDA\n\n1.\tDefinitions\n\n2.\tTerm');
+    expect(result.data.metadata.format).toBe('doc');
+    expect(result.data.metadata.warnings).toBeUndefined();
+  });
+
+  it('warns that automatic numbering is lost when a legacy Word document has no numbered sections', async () => {
+    // word-extractor drops list numbers Word generates, leaving only the paragraph text
+    mockDocBody.mockReturnValueOnce('MUTUAL NDA\rDefinitions\r\rTerm\r');
+
+    const result = await parseDocument(ole, 'nda.doc', 'application/msword');
+    if (!result.success) throw new Error(result.error);
+
+    expect(result.data.text).toBe('MUTUAL NDA\n\nDefinitions\n\nTerm');
+    expect(result.data.metadata.warnings).toEqual([
+      'No numbered sections were found. Automatic numbering is not read from .doc files; upload a DOCX to keep section numbers.'
+    ]);
+  });
+
+  it('rejects unsupported binary files', async () => {
+    const result = await parseDocument(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x00]), 'scan.png', 'image/png');
+    expect(result).toMatchObject({ success: false, error: 'Unsupported file type' });
+  });
+});
@@ -0,0 +1,94 @@
+// lib/__tests__/document-structure.test.ts
+// Outline parser: numbering, headings, nesting and exact offsets
+
+import fs from 'fs';
+import path from 'path';
+import { parseOutline, flattenOutline, findNodeAt, getNodeText } from '../document-structure';
+
+const sampleNda = `MUTUAL NON-DISCLOSURE AGREEMENT
+
+1. DEFINITION OF CONFIDENTIAL INFORMATION
+
+"Confidential Information" means all information disclosed by either party, including: (a) technical data; (b) business plans; and (c) customer lists.
+
+1.1 Exclusions. Confidential Information does not include information that:
+(a) is publicly available;
+(b) was already known to the recipient; or
+(c) is independently developed, where
+(i) development is documented; and
+(ii) no Confidential Information was used.
+
+2. TERM
+
+The obligations continue for a period of five (5) years from the date of disclosure.
+
+3. GOVERNING LAW
+
+This Agreement shall be governed by the laws of Singapore.
+
+SCHEDULE 1
+List of Representatives`;
+
+describe('parseOutline', () => {
+  const outline = parseOutline(sampleNda);
+  const flat = flattenOutline(outline);
+
+  it('builds top-level sections and schedules in order', () => {
+    expect(outline.map(node => node.path)).toEqual(['1', '2', '3', 'SCHEDULE 1']);
+    expect(outline[0].heading).toBe('DEFINITION OF CONFIDENTIAL INFORMATION');
+    expect(outline[1].heading).toBe('TERM');
+    expect(outline[3].kind).toBe('schedule');
+  });
+
+  it('nests multi-level numbering, sub-clauses and roman items', () => {
+    const section11 = flat.find(node => node.path === '1.1');
+    expect(section11).toBeDefined();
+    expect(section11!.heading).toBe('Exclusions');
+    expect(section11!.children.map(node => node.numbering)).toEqual(['(a)', '(b)', '(c)']);
+
+    const itemC = section11!.children[2];
+    expect(itemC.children.map(node => node.path)).toEqual(['1.1(c)(i)', '1.1(c)(ii)']);
+    expect(itemC.children[0].style).toBe('lower-roman');
+  });
+
+  it('detects inline enumerations inside a paragraph', () => {
+    const inline = outline[0].children.filter(node => node.inline);
+    expect(inline.map(node => node.numbering)).toEqual(['(a)', '(b)', '(c)']);
+    expect(getNodeText(sampleNda, inline[1])).toBe('(b) business plans');
+  });
+
+  it('keeps exact character offsets into the source text', () => {
+    for (const node of flat) {
+      expect(sampleNda.slice(node.start).startsWith(node.numbering)).toBe(true);
+      expect(node.end).toBeGreaterThan(node.start);
+      expect(node.bodyStart).toBeGreaterThanOrEqual(node.start);
+    }
+
+    const term = outline[1];
+    expect(getNodeText(sampleNda, term)).toBe(
+      '2. TERM\n\nThe obligations continue for a period of five (5) years from the date of disclosure.'
+    );
+    expect(sampleNda.slice(term.bodyStart, term.end)).toMatch(/^The obligations/);
+  });
+
+  it('finds the deepest node at an offset', () => {
+    const offset = sampleNda.indexOf('no Confidential Information was used');
+    expect(findNodeAt(outline, offset)?.path).toBe('1.1(c)(ii)');
+  });
+
+  it('does not treat out-of-sequence numbers as sections', () => {
+    const text = '1. Purpose\nThe parties meet.\n2024 was a good year.\n2. Term\nFive years.';
+    expect(parseOutline(text).map(node => node.path)).toEqual(['1', '2']);
+  });
+
+  it('parses tab-numbered and markdown-headed documents from the corpus', () => {
+    const nda = fs.readFileSync(path.join(process.cwd(), 'nda-for-testing.md'), 'utf8');
+    const paths = parseOutline(nda).filter(node => node.kind === 'section').map(node => node.path);
+    expect(paths.slice(0, 5)).toEqual(['1', '2', '3', '4', '5']);
+
+    const mock = fs.readFileSync(path.join(process.cwd(), 'test-documents/mock-nda-1-basic-ma.md'), 'utf8');
+    const headings = parseOutline(mock).map(node => node.heading);
+    expect(headings).toContain('DEFINITION OF CONFIDENTIAL INFORMATION');
+    expect(headings).toContain('GOVERNING LAW AND JURISDICTION');
+  });
+});
@@ -0,0 +1,93 @@
+/** @jest-environment node */
+// lib/__tests__/docx-revisions.test.ts
+// Tracked changes and comments read from DOCX uploads
+
+import JSZip from 'jszip';
+import { readDocxMarkupXml } from '../docx-revisions';
+import { parseDocument } from '../document-parser';
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const documentXml = `<w:document ${W}><w:body>
+  <w:p><w:r><w:t>1. Confidentiality</w:t></w:r></w:p>
+  <w:p>
+    <w:r><w:t xml:space="preserve">The Recipient shall keep the information confidential for </w:t></w:r>
+    <w:del w:id="1" w:author="Counsel A" w:date="2024-05-01T10:00:00Z"><w:r><w:delText>five</w:delText></w:r></w:del>
+    <w:ins w:id="2" w:author="Counsel A" w:date="2024-05-01T10:00:00Z"><w:r><w:t>two</w:t></w:r></w:ins>
+    <w:r><w:t xml:space="preserve"> years</w:t></w:r>
+    <w:commentRangeStart w:id="7"/>
+    <w:r><w:t xml:space="preserve"> after disclosure.</w:t></w:r>
+    <w:commentRangeEnd w:id="7"/>
+    <w:r><w:commentReference w:id="7"/></w:r>
+  </w:p>
+</w:body></w:document>`;
+
+const commentsXml = `<w:comments ${W}>
+  <w:comment w:id="7" w:author="Counsel B" w:date="2024-05-02T09:00:00Z">
+    <w:p><w:r><w:t>Should run from termination.</w:t></w:r></w:p>
+  </w:comment>
+</w:comments>`;
+
+describe('readDocxMarkupXml', () => {
+  it('builds accepted and original text with positioned revisions', () => {
+    const markup = readDocxMarkupXml(documentXml, commentsXml);
+    const clause = 'The Recipient shall keep the information confidential for ';
+
+    expect(markup.acceptedText).toBe(`1. Confidentiality\n\n${clause}two years after disclosure.\n\n`);
+    expect(markup.originalText).toBe(`1. Confidentiality\n\n${clause}five years after disclosure.\n\n`);
+
+    const [deletion, insertion] = markup.revisions;
+    expect(deletion).toMatchObject({ id: '1', type: 'deletion', author: 'Counsel A', date: '2024-05-01T10:00:00Z', text: 'five' });
+    expect(markup.originalText.slice(deletion.originalPosition.start, deletion.originalPosition.end)).toBe('five');
+    expect(deletion.position.start).toBe(deletion.position.end);
+    expect(insertion).toMatchObject({ id: '2', type: 'insertion', text: 'two' });
+    expect(markup.acceptedText.slice(insertion.position.start, insertion.position.end)).toBe('two');
+  });
+
+  it('anchors comments to the commented range', () => {
+    const [comment] = readDocxMarkupXml(documentXml, commentsXml).comments;
+
+    expect(comment).toMatchObject({
+      id: '7',
+      author: 'Counsel B',
+      text: 'Should run from termination.',
+      anchorText: ' after disclosure.'
+    });
+  });
+
+  it('treats deleted paragraph marks as joining paragraphs in the accepted text', () => {
+    const markup = readDocxMarkupXml(`<w:document ${W}><w:body>
+      <w:p><w:pPr><w:rPr><w:del w:id="3" w:author="A"/></w:rPr></w:pPr><w:r><w:t xml:space="preserve">Term of </w:t></w:r></w:p>
+      <w:p><w:r><w:t>two years.</w:t></w:r></w:p>
+    </w:body></w:document>`);
+
+    expect(markup.acceptedText).toBe('Term of two years.\n\n');
+    expect(markup.originalText).toBe('Term of \n\ntwo years.\n\n');
+  });
+});
+
+describe('parseDocument tracked changes', () => {
+  it('exposes revisions and comments from a DOCX upload', async () => {
+    const zip = new JSZip();
+    zip.file('[Content_Types].xml',
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+      '</Types>');
+    zip.file('_rels/.rels',
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+      '</Relationships>');
+    zip.file('word/document.xml', documentXml);
+    zip.file('word/comments.xml', commentsXml);
+
+    const result = await parseDocument(await zip.generateAsync({ type: 'nodebuffer' }), 'nda-turn-2.docx');
+    if (!result.success) throw new Error(result.error);
+
+    expect(result.data.text).toContain('confidential for two years');
+    expect(result.data.originalText).toContain('confidential for five years');
+    expect(result.data.revisions?.map(revision => revision.type)).toEqual(['deletion', 'insertion']);
+    expect(result.data.comments?.[0].text).toBe('Should run from termination.');
+  });
+});
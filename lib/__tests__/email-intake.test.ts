@@ -0,0 +1,97 @@
+/** @jest-environment node */
+// lib/__tests__/email-intake.test.ts
+// Reading emailed NDAs: sender, subject, attachments (including forwarded ones) and review defaults
+
+import { detectEmailFormat, parseEmail, isLikelyNdaAttachment, emailReviewDefaults } from '../email-intake';
+
+const rtfNda = Buffer.from('{\\rtf1\\ansi 1.\\tab Definitions\\par Confidential Information means all information.\\par}').toString('base64');
+
+const eml = [
+  'From: "Jane Tan" <jane@legal.acme-corp.com.sg>',
+  'To: nda@firm.example',
+  'Subject: Fwd: RE: [External] Mutual NDA - Project Atlas',
+  'Date: Mon, 6 May 2024 09:30:00 +0800',
+  'Message-ID: <atlas-123@acme-corp.com.sg>',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="outer"',
+  '',
+  '--outer',
+  'Content-Type: text/plain; charset=utf-8',
+  '',
+  'Please see the attached NDA.',
+  '--outer',
+  'Content-Type: application/rtf; name="Atlas_Mutual_NDA.rtf"',
+  'Content-Disposition: attachment; filename="Atlas_Mutual_NDA.rtf"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  rtfNda,
+  '--outer',
+  'Content-Type: text/plain; name="pricing.txt"',
+  'Content-Disposition: attachment; filename="pricing.txt"',
+  '',
+  'Unit prices for 2024.',
+  '--outer',
+  'Content-Type: message/rfc822',
+  'Content-Disposition: attachment; filename="forwarded.eml"',
+  '',
+  'From: counsel@atlas.example',
+  'Subject: Side letter',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="inner"',
+  '',
+  '--inner',
+  'Content-Type: text/html; name="side-letter.html"',
+  'Content-Disposition: attachment; filename="side-letter.html"',
+  '',
+  '<html><body><p>The Confidential Information shall not include trade secrets.</p></body></html>',
+  '--inner--',
+  '--outer--',
+  ''
+].join('\r\n');
+
+describe('detectEmailFormat', () => {
+  it('recognises .eml headers and rejects documents', () => {
+    expect(detectEmailFormat(Buffer.from(eml))).toBe('eml');
+    expect(detectEmailFormat(Buffer.from('Subject: notes\n\nFrom: memory'))).toBeNull();
+    expect(detectEmailFormat(Buffer.from('%PDF-1.7'))).toBeNull();
+  });
+});
+
+describe('parseEmail', () => {
+  it('reads the sender, subject and attachments of forwarded messages', async () => {
+    const email = await parseEmail(Buffer.from(eml));
+
+    expect(email).toMatchObject({
+      format: 'eml',
+      from: { name: 'Jane Tan', address: 'jane@legal.acme-corp.com.sg' },
+      subject: 'Fwd: RE: [External] Mutual NDA - Project Atlas',
+      date: '2024-05-06T01:30:00.000Z',
+      messageId: '<atlas-123@acme-corp.com.sg>'
+    });
+    expect(email.attachments.map(attachment => attachment.fileName)).toEqual([
+      'Atlas_Mutual_NDA.rtf',
+      'pricing.txt',
+      'side-letter.html'
+    ]);
+    expect(email.attachments[0].content.toString()).toContain('Confidential Information');
+  });
+});
+
+describe('NDA attachment selection and review defaults', () => {
+  it('picks NDAs by file name or content', () => {
+    expect(isLikelyNdaAttachment('Atlas_Mutual_NDA.rtf', '')).toBe(true);
+    expect(isLikelyNdaAttachment('side-letter.html', 'The Confidential Information shall not include')).toBe(true);
+    expect(isLikelyNdaAttachment('pricing.txt', 'Unit prices for 2024.')).toBe(false);
+  });
+
+  it('takes the client from the sender domain and the title from the subject', async () => {
+    const email = await parseEmail(Buffer.from(eml));
+
+    expect(emailReviewDefaults(email, 'Atlas_Mutual_NDA.rtf')).toEqual({
+      clientName: 'Acme Corp',
+      ndaTitle: 'Mutual NDA - Project Atlas'
+    });
+    expect(emailReviewDefaults({ ...email, from: { name: 'Sam Lee', address: 'sam@gmail.com' }, subject: 'Re: ' }, 'Atlas_Mutual_NDA.rtf'))
+      .toEqual({ clientName: 'Sam Lee', ndaTitle: 'Atlas Mutual NDA' });
+  });
+});
@@ -0,0 +1,51 @@
+// lib/__tests__/general-provisions.test.ts
+// General provisions completeness: presence and location of each boilerplate provision
+
+import { checkGeneralProvisions } from '../general-provisions';
+
+const boilerplate = `10.  GENERAL
+
+10.1 Nothing in this Agreement shall be construed as granting any licence under any patent or copyright of the Company.
+10.2 Neither party is obliged to proceed with the Transaction unless and until a definitive agreement has been executed.
+10.3 The Company makes no representation or warranty as to the accuracy or completeness of the Confidential Information.
+10.4 This Agreement constitutes the entire agreement between the parties and supersedes all prior understandings.
+10.5 The Recipient shall not assign this Agreement without the prior written consent of the Company.
+10.6 No amendment of this Agreement shall be effective unless in writing and signed by both parties.
+10.7 This Agreement may be executed in any number of counterparts.
+10.8 All notices under this Agreement shall be in writing and delivered to the addresses set out above.
+10.9 A person who is not a party has no right under the Contracts (Rights of Third Parties) Act to enforce any term.
+10.10 If any provision is held invalid, the remaining provisions shall continue in full force.`;
+
+describe('checkGeneralProvisions', () => {
+  it('finds every general provision with the line it is on', () => {
+    const checks = checkGeneralProvisions(boilerplate);
+
+    expect(checks.filter(check => !check.present)).toEqual([]);
+    const counterparts = checks.find(check => check.key === 'counterparts')!;
+    expect(counterparts.position?.line).toBe(9);
+    expect(boilerplate.slice(counterparts.position!.start, counterparts.position!.end))
+      .toBe('10.7 This Agreement may be executed in any number of counterparts.');
+  });
+
+  it('reports provisions that are absent', () => {
+    const checks = checkGeneralProvisions(
+      'This Agreement shall be governed by the laws of Singapore. This Agreement may be signed in counterparts.'
+    );
+
+    expect(checks.filter(check => check.present).map(check => check.key)).toEqual(['counterparts']);
+    expect(checks.find(check => check.key === 'entire_agreement')).toEqual({
+      key: 'entire_agreement',
+      label: 'Entire agreement',
+      present: false,
+      position: null
+    });
+  });
+
+  it('does not read a notice duty in a substantive clause as a notices provision', () => {
+    const checks = checkGeneralProvisions(
+      'If the Recipient is required by law to disclose Confidential Information, it shall give the Company prompt written notice.'
+    );
+
+    expect(checks.find(check => check.key === 'notices')?.present).toBe(false);
+  });
+});
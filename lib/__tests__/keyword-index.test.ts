@@ -0,0 +1,106 @@
+// lib/__tests__/keyword-index.test.ts
+// Keyword index: BK-tree lookups and score equivalence with the per-word Levenshtein scan
+
+import fs from 'fs';
+import path from 'path';
+import { BKTree, KeywordIndex, levenshteinDistance } from '../keyword-index';
+import { normalizeText } from '../text-normalization';
+import { getDetectionProfiles } from '../playbook/detection-profiles';
+
+/** The matcher's distance before the index: a full Levenshtein matrix */
+function legacyLevenshtein(str1: string, str2: string): number {
+  const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
+  for (let i = 0; i <= str1.length; i += 1) matrix[0][i] = i;
+  for (let j = 0; j <= str2.length; j += 1) matrix[j][0] = j;
+  for (let j = 1; j <= str2.length; j += 1) {
+    for (let i = 1; i <= str1.length; i += 1) {
+      const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
+      matrix[j][i] = Math.min(matrix[j][i - 1] + 1, matrix[j - 1][i] + 1, matrix[j - 1][i - 1] + indicator);
+    }
+  }
+  return matrix[str2.length][str1.length];
+}
+
+/** The matcher's scoring before the index: a distance check against every word of the text */
+function legacyScoreKeyword(normalizedText: string, normalizedKeyword: string): number {
+  if (normalizedText.includes(normalizedKeyword)) return 1.0;
+
+  if (normalizedKeyword.includes(' ')) {
+    const keywordWords = normalizedKeyword.split(' ');
+    const foundWords = keywordWords.filter(word =>
+      normalizedText.includes(word) ||
+      normalizedText.split(/\W+/).some(textWord =>
+        levenshteinDistance(textWord, word) <= Math.max(1, Math.floor(word.length * 0.15))
+      )
+    );
+    return foundWords.length >= keywordWords.length * 0.7 ? foundWords.length / keywordWords.length : 0;
+  }
+
+  for (const textWord of normalizedText.split(/\W+/)) {
+    if (textWord.length >= 3) {
+      const distance = levenshteinDistance(textWord, normalizedKeyword);
+      if (distance <= Math.max(1, Math.floor(normalizedKeyword.length * 0.2))) {
+        return 1 - (distance / normalizedKeyword.length);
+      }
+    }
+  }
+  return 0;
+}
+
+const corpusDir = path.join(__dirname, '../../test-documents');
+
+// Detection profile keywords plus every keyword of the seeded playbook rules
+function corpusKeywords(): string[] {
+  const keywords = new Set<string>();
+  getDetectionProfiles().forEach(profile => profile.keywords.forEach(keyword => keywords.add(keyword.toLowerCase())));
+
+  const seed = fs.readFileSync(path.join(__dirname, '../../database-setup.sql'), 'utf8');
+  const arrays = seed.match(/ARRAY\[[^\]]*\]/g) || [];
+  arrays.forEach(array => (array.match(/'([^']+)'/g) || []).forEach(quoted => keywords.add(quoted.slice(1, -1).toLowerCase())));
+  return Array.from(keywords);
+}
+
+describe('levenshteinDistance and BKTree', () => {
+  it('matches the full-matrix distance', () => {
+    const pairs: Array<[string, string]> = [['', 'law'], ['confidential', 'confidentail'], ['kitten', 'sitting'], ['year', 'years']];
+    pairs.forEach(([a, b]) => expect(levenshteinDistance(a, b)).toBe(legacyLevenshtein(a, b)));
+  });
+
+  it('finds every vocabulary word within the distance', () => {
+    const tree = new BKTree();
+    ['disclose', 'disclosed', 'discloses', 'closed', 'enclose', 'confidential'].forEach(word => tree.add(word));
+
+    expect(Array.from(tree.search('disclose', 1).entries()).sort()).toEqual([['disclose', 0], ['disclosed', 1], ['discloses', 1]]);
+  });
+});
+
+describe('KeywordIndex', () => {
+  it('scores the test-documents corpus exactly like the per-word scan', () => {
+    const keywords = corpusKeywords();
+    const files = fs.readdirSync(corpusDir).filter(file => file.endsWith('.md'));
+    expect(files.length).toBeGreaterThan(0);
+
+    files.forEach(file => {
+      const text = normalizeText(fs.readFileSync(path.join(corpusDir, file), 'utf8')).text;
+      const index = new KeywordIndex(text);
+      const segments = text.split(/\n\s*\n/).map(segment => segment.trim().toLowerCase()).filter(segment => segment.length >= 20);
+
+      segments.forEach(segment => {
+        keywords.forEach(keyword => {
+          const expected = legacyScoreKeyword(segment, keyword);
+          const actual = index.scoreKeyword(segment, keyword);
+          if (actual !== expected) {
+            throw new Error(`${file}: "${keyword}" scored ${actual}, expected ${expected} in "${segment.slice(0, 60)}"`);
+          }
+        });
+      });
+    });
+  });
+
+  it('scores text that is not part of the indexed document', () => {
+    const index = new KeywordIndex('The Receiving Party shall keep the information confidential.');
+
+    expect(index.scoreKeyword('obligations of confidentialty apply', 'confidential')).toBe(legacyScoreKeyword('obligations of confidentialty apply', 'confidential'));
+    expect(index.scoreKeyword('governed by the laws of england', 'laws of')).toBe(1);
+  });
+});
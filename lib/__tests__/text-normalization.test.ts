@@ -0,0 +1,77 @@
+// lib/__tests__/text-normalization.test.ts
+// Offset-preserving normalization and source location mapping
+
+import {
+  normalizeText,
+  toRawSpan,
+  buildPageBoundaries,
+  locateOffset,
+  findLowConfidencePages
+} from '../text-normalization';
+
+describe('normalizeText', () => {
+  it('collapses spaces but keeps paragraph breaks', () => {
+    const raw = '1.  DEFINITIONS\r\n\r\n\r\n\r\n"Confidential   Information"\tmeans\n  all information.  ';
+    const { text } = normalizeText(raw);
+    expect(text).toBe('1. DEFINITIONS\n\n"Confidential Information" means\nall information.');
+  });
+
+  it('removes page artifacts', () => {
+    const raw = 'The term is five years.\nPage 1 of 2\n\n\n2\n\nThis Agreement is governed by Singapore law.';
+    expect(normalizeText(raw).text).toBe('The term is five years.\n\nThis Agreement is governed by Singapore law.');
+  });
+
+  it('maps every normalized character back to the same raw character', () => {
+    const raw = '  Governing   law:\n\n\n   the   laws of  Singapore.  ';
+    const normalized = normalizeText(raw);
+    normalized.text.split('').forEach((char, index) => {
+      if (!/\s/.test(char)) {
+        expect(raw[normalized.offsets[index]]).toBe(char);
+      }
+    });
+  });
+
+  it('maps spans back to the raw text', () => {
+    const raw = 'Intro   text.\n\n\n\nThe obligations   survive for five (5)   years.';
+    const normalized = normalizeText(raw);
+    const phrase = 'survive for five (5) years';
+    const start = normalized.text.indexOf(phrase);
+    const span = toRawSpan(normalized, { start, end: start + phrase.length });
+    expect(raw.slice(span.start, span.end)).toBe('survive for five (5)   years');
+  });
+});
+
+describe('locateOffset', () => {
+  it('resolves page and line for paginated text', () => {
+    const pageTexts = ['Cover page\nParties', 'Clause one\nClause two\nGoverning law'];
+    const raw = pageTexts.map(page => `\n\n${page}`).join('');
+    const pages = buildPageBoundaries(pageTexts, '\n\n');
+
+    expect(raw.slice(pages[1].start, pages[1].end)).toBe(pageTexts[1]);
+    expect(locateOffset(raw, raw.indexOf('Governing'), pages)).toEqual({ page: 2, line: 3, column: 1 });
+  });
+
+  it('falls back to document lines when there are no pages', () => {
+    const raw = 'First line\nSecond line';
+    expect(locateOffset(raw, raw.indexOf('line', 12))).toEqual({ line: 2, column: 8 });
+  });
+});
+
+describe('findLowConfidencePages', () => {
+  const pages = [
+    { pageNumber: 1, start: 2, end: 40 },
+    { pageNumber: 2, start: 42, end: 90, ocrConfidence: 91 },
+    { pageNumber: 3, start: 92, end: 150, ocrConfidence: 48 },
+    { pageNumber: 4, start: 152, end: 200, ocrConfidence: 62 }
+  ];
+
+  it('lists OCR pages below the confidence threshold', () => {
+    expect(findLowConfidencePages(pages)).toEqual([3, 4]);
+    expect(findLowConfidencePages(undefined)).toEqual([]);
+  });
+
+  it('limits the pages to those a match falls on', () => {
+    expect(findLowConfidencePages(pages, [{ page: 2 }, { page: 3 }])).toEqual([3]);
+    expect(findLowConfidencePages(pages, [{ page: 1 }])).toEqual([]);
+  });
+});
@@ -0,0 +1,51 @@
+// lib/__tests__/text-scopes.test.ts
+// Negation, exclusion and qualifier scopes
+
+import { findTextScopes, hasScopeCue, maskScopes } from '../text-scopes';
+
+const scopedText = (text: string) => findTextScopes(text).map(scope => ({
+  kind: scope.kind,
+  cue: scope.cue,
+  text: text.slice(scope.start, scope.end).trim()
+}));
+
+describe('findTextScopes', () => {
+  it('scopes a negation to the phrase it modifies', () => {
+    expect(scopedText('Information not marked as confidential, if disclosed orally, is excluded.')).toEqual([
+      { kind: 'negation', cue: 'not', text: 'marked as confidential' }
+    ]);
+  });
+
+  it('reads "shall not include" as an exclusion running over a lettered list', () => {
+    const text = 'Confidential Information shall not include information that (a) is publicly available; or (b) is independently developed. The Receiving Party shall protect it.';
+    const [scope] = findTextScopes(text);
+
+    expect(scope).toMatchObject({ kind: 'exclusion', cue: 'shall not include' });
+    expect(text.slice(scope.start, scope.end).trim()).toBe('information that (a) is publicly available; or (b) is independently developed');
+  });
+
+  it('ends phrase scopes at the next cue and after a few words', () => {
+    const scopes = scopedText('The Receiving Party may use the information solely for the Purpose and to the extent reasonably necessary to evaluate the transaction with the other party today');
+
+    expect(scopes.map(scope => scope.kind)).toEqual(['qualifier', 'qualifier', 'qualifier']);
+    expect(scopes[0].text).toBe('for the Purpose and');
+    expect(scopes[1].text).toBe('');
+    expect(scopes[2].text).toBe('necessary to evaluate the transaction with the other');
+  });
+});
+
+describe('hasScopeCue and maskScopes', () => {
+  it('detects cues carried by keywords', () => {
+    expect(hasScopeCue('no exceptions', 'negation')).toBe(true);
+    expect(hasScopeCue('reasonable exceptions', 'qualifier')).toBe(true);
+    expect(hasScopeCue('standard exceptions', 'exclusion')).toBe(false);
+  });
+
+  it('blanks scoped phrases without moving offsets', () => {
+    const text = 'not marked as confidential';
+    const masked = maskScopes(text, findTextScopes(text));
+
+    expect(masked).toHaveLength(text.length);
+    expect(masked.trim()).toBe('not');
+  });
+});
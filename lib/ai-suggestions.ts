@@ -1,6 +1,8 @@
 import type { ClauseRule, PartyPerspective } from '@/types';
 import { getClauseRule } from './clause-matcher';
 import { supabase } from './supabase';
+import { findDetectionProfile, resolveDetectionProfile } from './playbook/detection-profiles';
+import { describeFeatureGaps, type ClauseFeatures } from './extractors';
 
 export interface AISuggestion {
   originalText: string;
@@ -24,6 +26,21 @@ export interface AISuggestionSuccess {
 
 export type AISuggestionResult = AISuggestionSuccess | AISuggestionError;
 
+/** What the analysis found in the clause, so suggestions can address specific gaps */
+export interface SuggestionContext {
+  clauseName: string;
+  features?: ClauseFeatures | null;
+}
+
+/**
+ * Gaps reported by the clause type's extractor for the party, e.g. missing standard exceptions
+ */
+function getSuggestionGaps(partyPerspective: PartyPerspective, context?: SuggestionContext): string[] {
+  if (!context?.features) return [];
+  const profile = findDetectionProfile(context.clauseName);
+  return profile ? describeFeatureGaps(profile.key, context.features, partyPerspective) : [];
+}
+
 /**
  * OpenAI API integration for generating contextual rewriting suggestions
  * Note: This is a placeholder for OpenAI integration - actual API key needed
@@ -31,7 +48,8 @@ export type AISuggestionResult = AISuggestionSuccess | AISuggestionError;
 async function generateOpenAISuggestion(
   originalText: string,
   rule: ClauseRule,
-  partyPerspective: PartyPerspective
+  partyPerspective: PartyPerspective,
+  gaps: string[] = []
 ): Promise<string> {
   // For MVP, we'll simulate OpenAI API call
   // In production, this would make actual API calls to OpenAI
@@ -50,7 +68,7 @@ Party perspective: ${partyPerspective}
 Rule type: ${rule.rule_type}
 Guidance: ${rule.guidance_notes}
 Example: ${rule.example_language}
-
+${gaps.length > 0 ? `Issues found in the clause: ${gaps.join('; ')}\n` : ''}
 Please provide a rewritten version that better aligns with the ${partyPerspective} party's interests according to the rule type "${rule.rule_type}".`;
 
   try {
@@ -101,11 +119,14 @@ Please provide a rewritten version that better aligns with the ${partyPerspectiv
 function generateTemplateSuggestion(
   originalText: string,
   rule: ClauseRule,
-  partyPerspective: PartyPerspective
+  partyPerspective: PartyPerspective,
+  gaps: string[] = []
 ): string {
+  const gapNote = gaps.length > 0 ? `\n\n${gaps.join('. ')}.` : '';
+
   // Use the example language from the rule as a fallback
   if (rule.example_language) {
-    return rule.example_language;
+    return rule.example_language + gapNote;
   }
 
   // Generic fallback suggestions based on party perspective and rule type
@@ -127,7 +148,7 @@ function generateTemplateSuggestion(
     }
   };
 
-  return templates[partyPerspective][rule.rule_type];
+  return templates[partyPerspective][rule.rule_type] + gapNote;
 }
 
 /**
@@ -137,8 +158,11 @@ export async function generateClauseSuggestion(
   originalText: string,
   ruleId: string,
   partyPerspective: PartyPerspective,
-  useAI: boolean = true
+  useAI: boolean = true,
+  context?: SuggestionContext
 ): Promise<AISuggestionResult> {
+  const gaps = getSuggestionGaps(partyPerspective, context);
+
   try {
     // Fetch the rule details
     const rule = await getClauseRule(ruleId);
@@ -158,7 +182,7 @@ export async function generateClauseSuggestion(
     try {
       if (useAI && process.env.OPENAI_API_KEY) {
         // Try AI-powered suggestion first
-        suggestedText = await generateOpenAISuggestion(originalText, rule, partyPerspective);
+        suggestedText = await generateOpenAISuggestion(originalText, rule, partyPerspective, gaps);
         reasoning = `AI-generated suggestion based on ${partyPerspective} party perspective and ${rule.rule_type} rule requirements. ${rule.guidance_notes}`;
         confidence = 0.85;
       } else {
@@ -167,7 +191,7 @@ export async function generateClauseSuggestion(
     } catch (aiError) {
       // Fallback to template-based suggestion
       console.log('Using template fallback:', aiError);
-      suggestedText = generateTemplateSuggestion(originalText, rule, partyPerspective);
+      suggestedText = generateTemplateSuggestion(originalText, rule, partyPerspective, gaps);
       reasoning = `Template-based suggestion for ${partyPerspective} party perspective. ${rule.guidance_notes}`;
       confidence = 0.65;
     }
@@ -193,7 +217,7 @@ export async function generateClauseSuggestion(
         rule_type: 'fallback',
         guidance_notes: 'General guidance',
         example_language: ''
-      } as ClauseRule, partyPerspective)
+      } as ClauseRule, partyPerspective, gaps)
     };
   }
 }
@@ -206,10 +230,10 @@ export async function generateMissingClauseSuggestion(
   partyPerspective: PartyPerspective
 ): Promise<AISuggestionResult> {
   try {
-    // Fetch the starting position rule for this clause and party perspective
+    // Fetch the starting position rules for this party perspective with their clauses
     const { data: rules, error } = await supabase
       .from('clause_rules')
-      .select('*')
+      .select('*, clauses(name, clause_key)')
       .eq('rule_type', 'starting_position')
       .eq('party_perspective', partyPerspective);
 
@@ -217,11 +241,12 @@ export async function generateMissingClauseSuggestion(
       throw new Error(`Failed to fetch rules: ${error.message}`);
     }
 
-    const relevantRule = rules.find((rule: any) => 
-      clauseName.toLowerCase().includes('definition') && rule.clause_id.includes('definition') ||
-      clauseName.toLowerCase().includes('duration') && rule.clause_id.includes('duration') ||
-      clauseName.toLowerCase().includes('governing') && rule.clause_id.includes('governing')
-    );
+    // Match the missing clause to a rule's clause by name, then by detection profile
+    const profileKey = findDetectionProfile(clauseName)?.key;
+    const relevantRule = rules.find((rule: any) => rule.clauses?.name === clauseName) ||
+      (profileKey && rules.find((rule: any) =>
+        rule.clauses && resolveDetectionProfile(rule.clauses)?.key === profileKey
+      ));
 
     if (!relevantRule) {
       return {
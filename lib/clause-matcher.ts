@@ -1,5 +1,28 @@
 import { supabase } from './supabase';
 import type { ClauseRule, PartyPerspective } from '@/types';
+import { parseOutline, flattenOutline, getNodeText } from './document-structure';
+import { normalizeText, toRawSpan, locateOffset, findLowConfidencePages, type PageBoundary } from './text-normalization';
+import {
+  resolveDetectionProfile,
+  compilePatterns,
+  DEFAULT_MAX_SEGMENT_LENGTH,
+  type ClauseProfileSource,
+  type DetectionProfile
+} from './playbook/detection-profiles';
+import { findRuleByCondition, getRuleCondition, type RuleCondition } from './playbook/rule-conditions';
+import { extractClauseFeatures, assessClauseRisk, isClauseCalledFor, getClauseDefinedTerms, type ClauseFeatures } from './extractors';
+import { buildDefinedTermsIndex, findTermDefinition, type DefinedTermsIndex, type TermDefinition } from './defined-terms';
+import { STANDARD_EXCEPTIONS } from './extractors/standard-exceptions';
+import { findTextScopes, hasScopeCue, maskScopes, type ScopeKind } from './text-scopes';
+import { KeywordIndex, type KeywordSpan } from './keyword-index';
+
+/** Span in the raw document text, with page and line when known */
+export interface MatchSpan {
+  start: number;
+  end: number;
+  page?: number;
+  line?: number;
+}
 
 export interface ClauseMatch {
   clauseId: string;
@@ -9,10 +32,58 @@ export interface ClauseMatch {
   matchedText: string;
   matchedKeywords: string[];
   confidenceScore: number;
-  position: {
-    start: number;
-    end: number;
-  };
+  /** Primary (best scoring) span of the match */
+  position: MatchSpan;
+  /** Every span that makes up the match in document order, for clauses split across sections */
+  spans?: MatchSpan[];
+  /** Structured values extracted from the clause text, for clause types with an extractor */
+  features?: ClauseFeatures;
+  /** Risk level (1-5) of the exposure found, for clause types that assess it; otherwise risk follows the rule type */
+  riskLevel?: number;
+  /** Why the clause was classified this way */
+  evidence?: ClassificationEvidence;
+  /** Pages of the match read by OCR with low confidence, where detection may be unreliable */
+  lowConfidencePages?: number[];
+}
+
+/** A rule keyword found in the clause, with where it matched */
+export interface KeywordEvidence {
+  keyword: string;
+  /** 1 for an exact phrase, less for fuzzy, partial or qualified matches */
+  score: number;
+  spans: MatchSpan[];
+}
+
+/** How one rule scored against the clause: ((keywordScore + ruleTextBonus) × typeWeight) + severityBonus */
+export interface RuleScoreBreakdown {
+  ruleId: string;
+  ruleType: 'starting_position' | 'fallback' | 'not_acceptable';
+  keywordScore: number;
+  matchedKeywords: KeywordEvidence[];
+  /** Words from the start of the rule text that also appear in the clause */
+  ruleTextMatches: string[];
+  ruleTextBonus: number;
+  /** Party-perspective weight for the rule type */
+  typeWeight: number;
+  severityBonus: number;
+  total: number;
+}
+
+export interface ClassificationEvidence {
+  /**
+   * condition: the rule's condition matched the extracted features
+   * keywords: the best keyword score won
+   * party_fallback: no rule scored above the threshold, so the party's preferred rule type was used
+   * default: nothing else applied
+   */
+  method: 'condition' | 'keywords' | 'party_fallback' | 'default';
+  selectedRuleId: string;
+  /** Keyword totals below this fall back to the party's preferred rule type */
+  fallbackThreshold: number;
+  /** Every rule with keywords, best first */
+  candidates: RuleScoreBreakdown[];
+  /** The condition that matched, when method is "condition" */
+  condition?: RuleCondition;
 }
 
 export interface AnalysisResult {
@@ -20,135 +91,137 @@ export interface AnalysisResult {
   missingClauses: string[];
   overallScore: number;
   partyPerspective: PartyPerspective;
+  /** Pages of the document read by OCR with low confidence */
+  lowConfidencePages?: number[];
 }
 
-/**
- * Calculate Levenshtein distance for fuzzy matching
- */
-function levenshteinDistance(str1: string, str2: string): number {
-  const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
-  
-  for (let i = 0; i <= str1.length; i += 1) {
-    matrix[0][i] = i;
-  }
-  
-  for (let j = 0; j <= str2.length; j += 1) {
-    matrix[j][0] = j;
-  }
-  
-  for (let j = 1; j <= str2.length; j += 1) {
-    for (let i = 1; i <= str1.length; i += 1) {
-      const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
-      matrix[j][i] = Math.min(
-        matrix[j][i - 1] + 1,
-        matrix[j - 1][i] + 1,
-        matrix[j - 1][i - 1] + indicator
-      );
-    }
-  }
-  
-  return matrix[str2.length][str1.length];
-}
+// Keywords that introduce an exception, or state one in the wording that grants it, are expected
+// inside exclusions ("excluding information that is publicly available"); the looser references
+// ("law", "court") are not, as they also name governing law and forum
+const EXCEPTION_KEYWORD = new RegExp(
+  [
+    '\\bexcept(?:ions?|ing)?\\b|\\b(?:does|do|shall|will)\\s+not\\s+(?:include|apply\\s+to)\\b',
+    ...STANDARD_EXCEPTIONS.map(exception => exception.pattern.source)
+  ].join('|'),
+  'i'
+);
+
+// Credit for a keyword found only inside a qualified phrase ("reasonable", "solely", "to the extent")
+const QUALIFIED_MATCH_WEIGHT = 0.5;
 
 /**
- * Enhanced keyword overlap calculation with fuzzy matching and phrase detection
+ * Enhanced keyword overlap calculation with fuzzy matching and phrase detection.
+ * Keywords used in the opposite sense do not count: a keyword inside a negated phrase
+ * ("not marked as confidential") or an exclusion ("other than oral disclosures") only
+ * matches when the keyword carries the same cue itself, and exclusions still match keywords
+ * that name a standard exception. Keywords found only in a qualified phrase get partial credit.
+ * With `scoped` false the text is matched as-is, for topical detection.
  */
-function calculateKeywordOverlap(text: string, keywords: string[]): {
+function calculateKeywordOverlap(text: string, keywords: string[], index: KeywordIndex, scoped: boolean = true): {
   matchedKeywords: string[];
   score: number;
+  /** Matched keywords with their score and spans in `text` */
+  keywordMatches: Array<{ keyword: string; score: number; spans: KeywordSpan[] }>;
 } {
   const normalizedText = text.toLowerCase();
+  const scopes = scoped ? findTextScopes(normalizedText) : [];
+  const views = new Map<string, string>();
+  const viewWithout = (masked: ScopeKind[]): string => {
+    const key = masked.join('|');
+    if (!views.has(key)) {
+      views.set(key, maskScopes(normalizedText, scopes.filter(scope => masked.includes(scope.kind))));
+    }
+    return views.get(key)!;
+  };
+
   const matchedKeywords: string[] = [];
+  const keywordMatches: Array<{ keyword: string; score: number; spans: KeywordSpan[] }> = [];
   let totalMatchScore = 0;
   
   for (const keyword of keywords) {
     const normalizedKeyword = keyword.toLowerCase();
-    let matched = false;
-    let matchScore = 0;
     
-    // Exact phrase matching (highest score)
-    if (normalizedText.includes(normalizedKeyword)) {
-      matchedKeywords.push(keyword);
-      matchScore = 1.0;
-      matched = true;
-    }
-    // Word-boundary matching for multi-word phrases
-    else if (normalizedKeyword.includes(' ')) {
-      const keywordWords = normalizedKeyword.split(' ');
-      const foundWords = keywordWords.filter(word => 
-        normalizedText.includes(word) || 
-        normalizedText.split(/\W+/).some(textWord => 
-          levenshteinDistance(textWord, word) <= Math.max(1, Math.floor(word.length * 0.15))
-        )
-      );
-      
-      if (foundWords.length >= keywordWords.length * 0.7) { // 70% of words must match
-        matchedKeywords.push(keyword);
-        matchScore = foundWords.length / keywordWords.length;
-        matched = true;
-      }
-    }
-    // Fuzzy matching for single words
-    else {
-      const textWords = normalizedText.split(/\W+/);
-      for (const textWord of textWords) {
-        if (textWord.length >= 3) { // Only fuzzy match words of reasonable length
-          const distance = levenshteinDistance(textWord, normalizedKeyword);
-          const maxDistance = Math.max(1, Math.floor(normalizedKeyword.length * 0.2)); // 20% error tolerance
-          
-          if (distance <= maxDistance) {
-            matchedKeywords.push(keyword);
-            matchScore = 1 - (distance / normalizedKeyword.length);
-            matched = true;
-            break;
-          }
-        }
-      }
+    // Scopes whose phrases cannot contain this keyword in the sense it is meant
+    const masked: ScopeKind[] = [];
+    if (!hasScopeCue(normalizedKeyword, 'negation')) masked.push('negation');
+    if (!hasScopeCue(normalizedKeyword, 'exclusion') && !EXCEPTION_KEYWORD.test(normalizedKeyword)) masked.push('exclusion');
+    
+    let match = index.matchKeyword(viewWithout(masked), normalizedKeyword);
+    if (match.score > 0 && !hasScopeCue(normalizedKeyword, 'qualifier')) {
+      const unqualified = index.matchKeyword(viewWithout([...masked, 'qualifier']), normalizedKeyword);
+      const qualifiedScore = match.score * QUALIFIED_MATCH_WEIGHT;
+      match = unqualified.score >= qualifiedScore ? unqualified : { score: qualifiedScore, spans: match.spans };
     }
     
-    totalMatchScore += matchScore;
+    if (match.score > 0) {
+      matchedKeywords.push(keyword);
+      keywordMatches.push({ keyword, score: match.score, spans: match.spans });
+    }
+    totalMatchScore += match.score;
   }
   
   // Weighted score considering both match count and match quality
   const score = keywords.length > 0 ? totalMatchScore / keywords.length : 0;
   
-  return { matchedKeywords: Array.from(new Set(matchedKeywords)), score };
+  return { matchedKeywords: Array.from(new Set(matchedKeywords)), score, keywordMatches };
 }
 
-/**
- * Enhanced text segmentation that better identifies clause boundaries
- */
-function findRelevantTextSegments(text: string, keywords: string[], maxSegmentLength = 800): Array<{
+interface TextSegment {
   text: string;
   position: { start: number; end: number };
   score: number;
-}> {
-  const segments: Array<{
-    text: string;
-    position: { start: number; end: number };
-    score: number;
-  }> = [];
-  
-  // Split by multiple delimiters that commonly separate clauses in legal documents
-  const clauseDelimiters = /(?:\n\s*\d+\.|\n\s*\([a-z]\)|\n\s*[A-Z][A-Z\s]+:|\n{2,}|\.(?=\s*[A-Z][a-z]+\s+[a-z]+)|;\s*(?=[A-Z]))/;
-  const potentialClauses = text.split(clauseDelimiters).filter(s => s.trim().length > 20);
+}
+
+// A clause split across sections is reported as at most this many spans
+const MAX_MATCH_SPANS = 3;
+// Related segments must score at least this fraction of the primary segment
+const RELATED_SEGMENT_RATIO = 0.8;
+
+/**
+ * Enhanced text segmentation that better identifies clause boundaries
+ */
+function findRelevantTextSegments(text: string, keywords: string[], index: KeywordIndex, maxSegmentLength = 800): TextSegment[] {
+  const segments: TextSegment[] = [];
+  
+  // Structural candidates: every article, section and sub-clause from the outline,
+  // falling back to blank-line paragraphs for documents without numbering
+  const outlineNodes = flattenOutline(parseOutline(text));
+  const structuralSegments: Array<{ text: string; start: number }> = [];
+  if (outlineNodes.length > 0) {
+    outlineNodes.forEach(node => structuralSegments.push({ text: getNodeText(text, node), start: node.start }));
+  } else {
+    const paragraphPattern = /[^\n]+(?:\n(?![ \t]*\n)[^\n]*)*/g;
+    let paragraph: RegExpExecArray | null;
+    while ((paragraph = paragraphPattern.exec(text)) !== null) {
+      structuralSegments.push({ text: paragraph[0], start: paragraph.index });
+    }
+  }
   
-  // Also split by sentences for finer granularity
-  const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 10);
+  // Also split by sentences for finer granularity, keeping each sentence's own offset
+  // so repeated sentences are not all attributed to the first occurrence.
+  // A period between digits ("4.9%", "Section 2.1") does not end a sentence.
+  const sentences: Array<{ text: string; start: number }> = [];
+  const sentencePattern = /(?:[^.!?]|\.(?=\d))+/g;
+  let sentence: RegExpExecArray | null;
+  while ((sentence = sentencePattern.exec(text)) !== null) {
+    if (sentence[0].trim().length > 10) {
+      sentences.push({ text: sentence[0], start: sentence.index });
+    }
+  }
   
   // Combine both approaches
-  const textSegments = [...potentialClauses, ...sentences];
+  const textSegments = [...structuralSegments, ...sentences];
   
-  for (const segmentText of textSegments) {
-    const cleanedSegment = segmentText.trim();
+  for (const segment of textSegments) {
+    const cleanedSegment = segment.text.trim();
     
     if (cleanedSegment.length < 20 || cleanedSegment.length > maxSegmentLength) continue;
     
-    const { matchedKeywords, score } = calculateKeywordOverlap(cleanedSegment, keywords);
+    // Detection is topical: a negated mention still shows the clause is there
+    const { matchedKeywords, score } = calculateKeywordOverlap(cleanedSegment, keywords, index, false);
     
     if (score > 0.2) { // Increased threshold for better precision
-      // Find more accurate position using word boundaries
-      const startIndex = text.toLowerCase().indexOf(cleanedSegment.toLowerCase());
+      const startIndex = segment.start + (segment.text.length - segment.text.trimStart().length);
       const endIndex = startIndex + cleanedSegment.length;
       
       // Check if this segment overlaps significantly with existing segments
@@ -165,7 +238,7 @@ function findRelevantTextSegments(text: string, keywords: string[], maxSegmentLe
       if (!hasSignificantOverlap) {
         segments.push({
           text: cleanedSegment,
-          position: { start: Math.max(0, startIndex), end: endIndex },
+          position: { start: startIndex, end: endIndex },
           score
         });
       } else {
@@ -181,7 +254,7 @@ function findRelevantTextSegments(text: string, keywords: string[], maxSegmentLe
         if (existingIndex !== -1 && score > segments[existingIndex].score) {
           segments[existingIndex] = {
             text: cleanedSegment,
-            position: { start: Math.max(0, startIndex), end: endIndex },
+            position: { start: startIndex, end: endIndex },
             score
           };
         }
@@ -212,6 +285,8 @@ async function fetchClauseRules(partyPerspective: PartyPerspective): Promise<Cla
       guidance_notes,
       example_language,
       rewriting_prompt,
+      criteria,
+      condition,
       created_at,
       updated_at
     `)
@@ -231,7 +306,7 @@ async function fetchClauseRules(partyPerspective: PartyPerspective): Promise<Cla
 async function fetchClauses() {
   const { data, error } = await supabase
     .from('clauses')
-    .select('id, name, category, display_order')
+    .select('id, name, category, display_order, clause_key, detection_profile')
     .eq('is_active', true)
     .order('display_order');
   
@@ -243,92 +318,73 @@ async function fetchClauses() {
 }
 
 /**
- * Enhanced detection keywords for each clause type (Phase 1: Detection)
- * Including synonyms, legal variations, and common phrasings
+ * Collect further segments belonging to the same clause when it is split across
+ * top-level sections (e.g. a term clause with a separate survival provision).
+ * Returns the primary segment plus any related ones, in document order.
  */
-const DETECTION_KEYWORDS = {
-  'definition': [
-    // Core terms
-    'confidential', 'information', 'define', 'proprietary', 'secret', 'disclosure',
-    // Legal variations
-    'confidentiality', 'proprietary information', 'trade secret', 'non-public',
-    'sensitive information', 'business information', 'technical information',
-    // Definition patterns
-    'shall mean', 'means', 'includes', 'defined as', 'refers to',
-    'confidential information shall include', 'for purposes of this agreement'
-  ],
-  'duration': [
-    // Time periods
-    'year', 'years', 'period', 'term', 'duration', 'survive', 'time', 'expir', 'effect',
-    // Legal duration patterns
-    'perpetuity', 'indefinite', 'until', 'from the date', 'effective date',
-    'termination', 'expiration', 'survival', 'continue in effect',
-    // Common durations
-    'three years', 'five years', 'seven years', 'ten years', 'two years'
-  ],
-  'governing': [
-    // Jurisdiction terms
-    'govern', 'governed', 'jurisdiction', 'court', 'law', 'dispute', 'forum', 'venue',
-    // Legal system references
-    'applicable law', 'laws of', 'under the laws', 'subject to the laws',
-    'federal court', 'state court', 'arbitration', 'mediation',
-    // Dispute resolution
-    'exclusive jurisdiction', 'submit to jurisdiction', 'waive objection'
-  ]
-};
+function collectRelatedSegments(text: string, primary: TextSegment, candidates: TextSegment[]): TextSegment[] {
+  const outline = parseOutline(text);
+  const sectionAt = (offset: number) => outline.find(node => offset >= node.start && offset < node.end);
+  
+  const primarySection = sectionAt(primary.position.start);
+  if (!primarySection) return [primary];
+  
+  const selected = [primary];
+  const usedSections = new Set([primarySection.path]);
+  
+  for (const candidate of candidates) {
+    if (selected.length >= MAX_MATCH_SPANS) break;
+    if (candidate.score < primary.score * RELATED_SEGMENT_RATIO) continue;
+    
+    const section = sectionAt(candidate.position.start);
+    if (!section || usedSections.has(section.path)) continue;
+    
+    const overlapsSelected = selected.some(existing =>
+      candidate.position.start < existing.position.end && existing.position.start < candidate.position.end
+    );
+    if (overlapsSelected) continue;
+    
+    selected.push(candidate);
+    usedSections.add(section.path);
+  }
+  
+  return selected.sort((a, b) => a.position.start - b.position.start);
+}
 
 /**
  * Enhanced clause detection with context awareness and multiple validation approaches
  */
-function detectClauseInDocument(text: string, clauseName: string): {
+function detectClauseInDocument(text: string, profile: DetectionProfile | null, index: KeywordIndex): {
   detected: boolean;
   bestText: string;
+  position: { start: number; end: number };
+  segments: TextSegment[];
   confidence: number;
 } {
-  const clauseKey = clauseName.toLowerCase().includes('definition') ? 'definition' :
-                   clauseName.toLowerCase().includes('duration') ? 'duration' :
-                   clauseName.toLowerCase().includes('governing') ? 'governing' : null;
-  
-  if (!clauseKey) {
-    return { detected: false, bestText: '', confidence: 0 };
+  if (!profile || profile.keywords.length === 0) {
+    return { detected: false, bestText: '', position: { start: 0, end: 0 }, segments: [], confidence: 0 };
   }
   
-  const keywords = DETECTION_KEYWORDS[clauseKey];
-  const segments = findRelevantTextSegments(text, keywords, 1000);
+  const segments = findRelevantTextSegments(text, profile.keywords, index, profile.maxSegmentLength || DEFAULT_MAX_SEGMENT_LENGTH);
   
   if (segments.length === 0) {
-    return { detected: false, bestText: '', confidence: 0 };
+    return { detected: false, bestText: '', position: { start: 0, end: 0 }, segments: [], confidence: 0 };
   }
   
-  // Apply context-specific validation for each clause type
-  const contextValidatedSegments = segments.filter(segment => {
-    
-    switch (clauseKey) {
-      case 'definition':
-        // Must contain definitional language patterns
-        return /(?:shall mean|means|includes?|defined as|refers to|for purposes of)/i.test(segment.text) ||
-               /confidential.*information.*(?:includes?|means|shall mean)/i.test(segment.text);
-      
-      case 'duration':
-        // Must contain time references with legal context
-        return /(?:\d+\s*years?|\d+\s*months?|perpetuity|indefinite|until|termination|expir|survival)/i.test(segment.text) &&
-               /(?:period|term|duration|effect|continue|survive|remain)/i.test(segment.text);
-      
-      case 'governing':
-        // Must contain jurisdiction or dispute resolution language
-        return /(?:govern|jurisdiction|applicable law|laws? of|dispute|court|forum|venue|arbitrat)/i.test(segment.text);
-      
-      default:
-        return true;
-    }
-  });
+  // Apply the profile's context validation: every pattern must match the segment
+  const contextPatterns = compilePatterns(profile.contextPatterns);
+  const contextValidatedSegments = segments.filter(segment =>
+    contextPatterns.every(pattern => pattern.test(segment.text))
+  );
   
   if (contextValidatedSegments.length === 0) {
     // Fallback to original segments if context validation is too strict
     const bestSegment = segments[0];
     return {
-      detected: bestSegment.score > 0.3, // Higher threshold for fallback
+      detected: bestSegment.score > profile.thresholds.unvalidated,
       bestText: bestSegment.text,
+      position: bestSegment.position,
+      segments: [bestSegment],
       confidence: bestSegment.score * 0.7 // Reduced confidence for non-validated matches
     };
   }
@@ -341,20 +397,119 @@ function detectClauseInDocument(text: string, clauseName: string): {
   const adjustedConfidence = Math.min(1.0, bestSegment.score + validationBonus);
   
   return {
-    detected: adjustedConfidence > 0.4, // Higher threshold for validated matches
+    detected: adjustedConfidence > profile.thresholds.validated,
     bestText: bestSegment.text,
+    position: bestSegment.position,
+    segments: collectRelatedSegments(text, bestSegment, contextValidatedSegments.slice(1)),
     confidence: adjustedConfidence
   };
 }
 
+// Rule type priority weighting based on party perspective
+const TYPE_WEIGHTS: Record<PartyPerspective, Record<ClauseRule['rule_type'], number>> = {
+  'receiving': { 'starting_position': 1.2, 'fallback': 1.0, 'not_acceptable': 0.8 },
+  'disclosing': { 'starting_position': 1.2, 'fallback': 1.0, 'not_acceptable': 1.1 },
+  'mutual': { 'starting_position': 1.1, 'fallback': 1.0, 'not_acceptable': 0.9 }
+};
+
+// Keyword totals below this fall back to the party's preferred rule type
+const PARTY_FALLBACK_THRESHOLD = 0.25;
+
+/**
+ * Score one rule against the clause, keeping every component of the score
+ */
+function scoreRuleForParty(
+  detectedText: string,
+  rule: ClauseRule,
+  partyPerspective: PartyPerspective,
+  index: KeywordIndex
+): RuleScoreBreakdown {
+  const { score, keywordMatches } = calculateKeywordOverlap(detectedText, rule.keywords, index);
+  
+  // Apply party-specific weighting and rule context
+  let weightedScore = score;
+  
+  // Bonus for rule text patterns in detected text
+  let ruleTextMatches: string[] = [];
+  let ruleTextBonus = 0;
+  if (rule.rule_text) {
+    const ruleTextWords = rule.rule_text.toLowerCase().split(/\s+/).slice(0, 10); // First 10 words
+    ruleTextMatches = ruleTextWords.filter(word => 
+      word.length > 3 && detectedText.toLowerCase().includes(word)
+    );
+    
+    if (ruleTextMatches.length > 0) {
+      ruleTextBonus = (ruleTextMatches.length / ruleTextWords.length) * 0.3; // Up to 30% bonus
+      weightedScore += ruleTextBonus;
+    }
+  }
+  
+  const typeWeight = TYPE_WEIGHTS[partyPerspective]?.[rule.rule_type] || 1.0;
+  weightedScore *= typeWeight;
+  
+  // Severity bonus (higher severity = more important rule)
+  const severityBonus = rule.severity ? (rule.severity - 1) * 0.1 : 0; // Up to 40% bonus for severity 5
+  weightedScore += severityBonus;
+  
+  return {
+    ruleId: rule.id,
+    ruleType: rule.rule_type,
+    keywordScore: score,
+    matchedKeywords: keywordMatches,
+    ruleTextMatches,
+    ruleTextBonus,
+    typeWeight,
+    severityBonus,
+    total: weightedScore
+  };
+}
+
 /**
- * Enhanced quality evaluation with party-perspective context and rule prioritisation
+ * Enhanced quality evaluation with party-perspective context and rule prioritisation.
+ * Returns the evidence for the decision along with it; keyword spans are offsets into `detectedText`.
  */
 function evaluateClauseForParty(
   detectedText: string,
   clauseRules: ClauseRule[],
-  partyPerspective: PartyPerspective
-): { ruleType: 'starting_position' | 'fallback' | 'not_acceptable'; confidence: number; bestRule: ClauseRule } | null {
+  partyPerspective: PartyPerspective,
+  index: KeywordIndex,
+  features: ClauseFeatures | null = null
+): {
+  ruleType: 'starting_position' | 'fallback' | 'not_acceptable';
+  confidence: number;
+  bestRule: ClauseRule;
+  evidence: ClassificationEvidence;
+} | null {
+  // Test against each rule with weighted scoring; kept in rule order so ties go to the first rule
+  const scoredRules = clauseRules
+    .filter(rule => rule.keywords && rule.keywords.length > 0)
+    .map(rule => ({ rule, breakdown: scoreRuleForParty(detectedText, rule, partyPerspective, index) }));
+  const candidates = scoredRules.map(scored => scored.breakdown);
+  const evidenceFor = (
+    method: ClassificationEvidence['method'],
+    rule: ClauseRule,
+    condition?: RuleCondition
+  ): ClassificationEvidence => ({
+    method,
+    selectedRuleId: rule.id,
+    fallbackThreshold: PARTY_FALLBACK_THRESHOLD,
+    candidates: candidates.slice().sort((a, b) => b.total - a.total),
+    ...(condition ? { condition } : {})
+  });
+
+  // Rules with a condition are evaluated exactly against the extracted features; keywords are the fallback
+  if (features) {
+    const conditionRule = findRuleByCondition(clauseRules, features);
+    if (conditionRule) {
+      return {
+        ruleType: conditionRule.rule_type,
+        confidence: 0.95,
+        bestRule: conditionRule,
+        evidence: evidenceFor('condition', conditionRule, getRuleCondition(conditionRule) || undefined)
+      };
+    }
+  }
+  
   let bestScore = 0;
   let bestRule: ClauseRule | null = null;
   let bestRuleType: 'starting_position' | 'fallback' | 'not_acceptable' = 'not_acceptable';
@@ -366,51 +521,16 @@ function evaluateClauseForParty(
     return acc;
   }, {} as Record<string, ClauseRule[]>);
   
-  // Test against each rule type with weighted scoring
-  for (const rule of clauseRules) {
-    if (!rule.keywords || rule.keywords.length === 0) continue;
-    
-    const { score } = calculateKeywordOverlap(detectedText, rule.keywords);
-    
-    // Apply party-specific weighting and rule context
-    let weightedScore = score;
-    
-    // Bonus for rule text patterns in detected text
-    if (rule.rule_text) {
-      const ruleTextWords = rule.rule_text.toLowerCase().split(/\s+/).slice(0, 10); // First 10 words
-      const ruleTextMatches = ruleTextWords.filter(word => 
-        word.length > 3 && detectedText.toLowerCase().includes(word)
-      ).length;
-      
-      if (ruleTextMatches > 0) {
-        weightedScore += (ruleTextMatches / ruleTextWords.length) * 0.3; // Up to 30% bonus
-      }
-    }
-    
-    // Rule type priority weighting based on party perspective
-    const typeWeights = {
-      'receiving': { 'starting_position': 1.2, 'fallback': 1.0, 'not_acceptable': 0.8 },
-      'disclosing': { 'starting_position': 1.2, 'fallback': 1.0, 'not_acceptable': 1.1 },
-      'mutual': { 'starting_position': 1.1, 'fallback': 1.0, 'not_acceptable': 0.9 }
-    };
-    
-    const typeWeight = typeWeights[partyPerspective]?.[rule.rule_type] || 1.0;
-    weightedScore *= typeWeight;
-    
-    // Severity bonus (higher severity = more important rule)
-    if (rule.severity) {
-      weightedScore += (rule.severity - 1) * 0.1; // Up to 40% bonus for severity 5
-    }
-    
-    if (weightedScore > bestScore) {
-      bestScore = weightedScore;
+  for (const { rule, breakdown } of scoredRules) {
+    if (breakdown.total > bestScore) {
+      bestScore = breakdown.total;
       bestRule = rule;
       bestRuleType = rule.rule_type;
     }
   }
   
   // Enhanced fallback logic with party perspective consideration
-  if (!bestRule || bestScore < 0.25) {
+  if (!bestRule || bestScore < PARTY_FALLBACK_THRESHOLD) {
     // Try to find the most appropriate rule based on party perspective
     const preferredRuleTypes = {
       'receiving': ['starting_position', 'fallback', 'not_acceptable'],
@@ -426,7 +546,8 @@ function evaluateClauseForParty(
         return {
           ruleType: ruleType as 'starting_position' | 'fallback' | 'not_acceptable',
           confidence: 0.4, // Moderate confidence for party-context fallback
-          bestRule: defaultRule
+          bestRule: defaultRule,
+          evidence: evidenceFor('party_fallback', defaultRule)
         };
       }
     }
@@ -436,14 +557,69 @@ function evaluateClauseForParty(
     return ultimateFallback ? {
       ruleType: 'not_acceptable', // Conservative default
       confidence: 0.2, // Low confidence for ultimate fallback
-      bestRule: ultimateFallback
+      bestRule: ultimateFallback,
+      evidence: evidenceFor('default', ultimateFallback)
     } : null;
   }
   
   return {
     ruleType: bestRuleType,
     confidence: Math.min(1.0, bestScore), // Cap at 100%
-    bestRule: bestRule
+    bestRule: bestRule,
+    evidence: evidenceFor('keywords', bestRule)
+  };
+}
+
+// Segments of a split clause are joined with this separator for evaluation
+const SEGMENT_SEPARATOR = '\n\n';
+
+/**
+ * Clause text for feature extraction: the detected text plus the definitions of the terms the
+ * clause type relies on, which often sit in a definitions section of their own
+ */
+function withTermDefinitions(clauseText: string, clauseKey: string, definedTerms: DefinedTermsIndex): string {
+  const definitions = getClauseDefinedTerms(clauseKey)
+    .map(term => findTermDefinition(definedTerms, term))
+    .filter((definition): definition is TermDefinition =>
+      definition !== null && clauseText.indexOf(definition.text) === -1);
+  return [clauseText, ...definitions.map(definition => definition.text)].join(SEGMENT_SEPARATOR);
+}
+
+/**
+ * Map a span of the joined clause text back to the analysed document
+ */
+function toDocumentSpan(segments: TextSegment[], span: KeywordSpan): { start: number; end: number } | null {
+  let offset = 0;
+  for (const segment of segments) {
+    const end = offset + segment.text.length;
+    if (span.start < end) {
+      if (span.start < offset) return null; // Inside the separator
+      return {
+        start: segment.position.start + (span.start - offset),
+        end: segment.position.start + (Math.min(span.end, end) - offset)
+      };
+    }
+    offset = end + SEGMENT_SEPARATOR.length;
+  }
+  return null;
+}
+
+/**
+ * Rewrite the keyword spans of classification evidence with a span mapper, dropping unmappable spans
+ */
+function mapEvidenceSpans(
+  evidence: ClassificationEvidence,
+  mapSpan: (span: KeywordSpan) => MatchSpan | null
+): ClassificationEvidence {
+  return {
+    ...evidence,
+    candidates: evidence.candidates.map(candidate => ({
+      ...candidate,
+      matchedKeywords: candidate.matchedKeywords.map(keyword => ({
+        ...keyword,
+        spans: keyword.spans.map(mapSpan).filter((span): span is MatchSpan => span !== null)
+      }))
+    }))
   };
 }
 
@@ -453,9 +629,19 @@ function evaluateClauseForParty(
  */
 export async function analyzeDocument(
   documentText: string, 
-  partyPerspective: PartyPerspective = 'receiving'
+  partyPerspective: PartyPerspective = 'receiving',
+  options: { pages?: PageBoundary[] } = {}
 ): Promise<AnalysisResult> {
   try {
+    // Analyse normalized text, but report positions in the raw document
+    const normalized = normalizeText(documentText);
+    const analysisText = normalized.text;
+    const toSourcePosition = (span: { start: number; end: number }) => {
+      const rawSpan = toRawSpan(normalized, span);
+      const location = locateOffset(documentText, rawSpan.start, options.pages);
+      return { ...rawSpan, page: location.page, line: location.line };
+    };
+    
     // Fetch rules and clauses
     const [rules, clauses] = await Promise.all([
       fetchClauseRules(partyPerspective),
@@ -465,6 +651,10 @@ export async function analyzeDocument(
     const matches: ClauseMatch[] = [];
     const missingClauses: string[] = [];
     
+    // One keyword index serves detection and evaluation of every clause
+    const keywordIndex = new KeywordIndex(analysisText);
+    const definedTerms = buildDefinedTermsIndex(documentText, options.pages);
+    
     // Group rules by clause for organized analysis
     const rulesByClause = rules.reduce((acc, rule) => {
       if (!acc[rule.clause_id]) {
@@ -479,29 +669,47 @@ export async function analyzeDocument(
       const clauseRules = rulesByClause[clause.id] || [];
       
       // PHASE 1: DETECTION - Does this clause exist in the document?
-      const detection = detectClauseInDocument(documentText, clause.name);
+      const profile = resolveDetectionProfile(clause);
+      const detection = detectClauseInDocument(analysisText, profile, keywordIndex);
       
       if (!detection.detected) {
-        // Truly missing clause
-        missingClauses.push(clause.name);
+        // Truly missing clause; optional clauses (e.g. non-solicit) are only reported when present
+        // or when the document calls for them
+        if (clause.category !== 'optional' || (profile && isClauseCalledFor(profile.key, analysisText))) {
+          missingClauses.push(clause.name);
+        }
         continue;
       }
       
       // PHASE 2: QUALITY ASSESSMENT - How good is this clause for the party?
-      const evaluation = evaluateClauseForParty(detection.bestText, clauseRules, partyPerspective);
+      // A clause split across sections is evaluated on all of its parts
+      const clauseText = detection.segments.map(segment => segment.text).join(SEGMENT_SEPARATOR);
+      const features = profile ? extractClauseFeatures(profile.key, withTermDefinitions(clauseText, profile.key, definedTerms)) : null;
+      const evaluation = evaluateClauseForParty(clauseText, clauseRules, partyPerspective, keywordIndex, features);
+      const riskLevel = profile && features ? assessClauseRisk(profile.key, features, partyPerspective) : null;
       
       if (evaluation) {
-        const { matchedKeywords } = calculateKeywordOverlap(detection.bestText, evaluation.bestRule.keywords || []);
+        const { matchedKeywords } = calculateKeywordOverlap(clauseText, evaluation.bestRule.keywords || [], keywordIndex);
         
+        const spans = detection.segments.map(segment => toSourcePosition(segment.position));
+        const lowConfidencePages = findLowConfidencePages(options.pages, spans);
         const match: ClauseMatch = {
           clauseId: clause.id,
           clauseName: clause.name,
           ruleId: evaluation.bestRule.id,
           ruleType: evaluation.ruleType,
-          matchedText: detection.bestText,
+          matchedText: clauseText,
           matchedKeywords,
           confidenceScore: evaluation.confidence,
-          position: { start: 0, end: detection.bestText.length } // Simplified position
+          position: toSourcePosition(detection.position),
+          spans,
+          ...(features ? { features } : {}),
+          ...(riskLevel !== null ? { riskLevel } : {}),
+          evidence: mapEvidenceSpans(evaluation.evidence, span => {
+            const documentSpan = toDocumentSpan(detection.segments, span);
+            return documentSpan ? toSourcePosition(documentSpan) : null;
+          }),
+          ...(lowConfidencePages.length > 0 ? { lowConfidencePages } : {})
         };
         
         matches.push(match);
@@ -511,8 +719,8 @@ export async function analyzeDocument(
       }
     }
     
-    // Calculate overall score based on risk assessment
-    const totalClauses = clauses.length;
+    // Calculate overall score based on risk assessment; absent optional clauses do not count
+    const totalClauses = matches.length + missingClauses.length;
     const foundClauses = matches.length;
     const avgConfidence = matches.length > 0 
       ? matches.reduce((sum, match) => sum + match.confidenceScore, 0) / matches.length 
@@ -525,7 +733,8 @@ export async function analyzeDocument(
       return risk; // starting_position adds no risk
     }, 0);
     
-    const overallScore = Math.max(0, (foundClauses / totalClauses) * 0.5 + avgConfidence * 0.3 + (1 - riskScore) * 0.2);
+    const coverage = totalClauses > 0 ? foundClauses / totalClauses : 1;
+    const overallScore = Math.max(0, coverage * 0.5 + avgConfidence * 0.3 + (1 - riskScore) * 0.2);
     
     return {
       matches: matches.sort((a, b) => {
@@ -538,7 +747,8 @@ export async function analyzeDocument(
       }),
       missingClauses,
       overallScore: Math.round(overallScore * 100) / 100,
-      partyPerspective
+      partyPerspective,
+      lowConfidencePages: findLowConfidencePages(options.pages)
     };
     
   } catch (error) {
@@ -547,6 +757,56 @@ export async function analyzeDocument(
   }
 }
 
+/** A clause found by detection alone, without classifying it against rules */
+export interface LocatedClause {
+  /** Detection profile key, which selects the extractor */
+  clauseKey: string;
+  text: string;
+  /** Primary span in the raw document text */
+  position: { start: number; end: number };
+  features: ClauseFeatures | null;
+}
+
+/**
+ * Find one clause in a document with its detection profile and extract its features.
+ * Used by analysis paths that classify clauses themselves (e.g. the advanced engine).
+ */
+export function locateClause(documentText: string, clause: ClauseProfileSource): LocatedClause | null {
+  const normalized = normalizeText(documentText);
+  const profile = resolveDetectionProfile(clause);
+  const detection = detectClauseInDocument(normalized.text, profile, new KeywordIndex(normalized.text));
+  if (!profile || !detection.detected) return null;
+
+  const text = detection.segments.map(segment => segment.text).join(SEGMENT_SEPARATOR);
+  return {
+    clauseKey: profile.key,
+    text,
+    position: toRawSpan(normalized, detection.position),
+    features: extractClauseFeatures(profile.key, withTermDefinitions(text, profile.key, buildDefinedTermsIndex(documentText)))
+  };
+}
+
+/**
+ * Find the part of a document where a rule's keywords score best, for clauses matched on
+ * keywords alone (no detection profile). Null when no section or sentence mentions enough of them.
+ */
+export function locateKeywordRegion(documentText: string, keywords: string[]): { text: string; position: { start: number; end: number } } | null {
+  if (keywords.length === 0) return null;
+  const normalized = normalizeText(documentText);
+  const [best] = findRelevantTextSegments(normalized.text, keywords, new KeywordIndex(normalized.text));
+  return best ? { text: best.text, position: toRawSpan(normalized, best.position) } : null;
+}
+
+/**
+ * Whether a missing clause should be reported: always for standard clauses, and for optional
+ * clauses only when the document calls for them
+ */
+export function isClauseExpected(documentText: string, clause: ClauseProfileSource & { category?: string | null }): boolean {
+  if (clause.category !== 'optional') return true;
+  const profile = resolveDetectionProfile(clause);
+  return profile ? isClauseCalledFor(profile.key, normalizeText(documentText).text) : false;
+}
+
 /**
  * Get specific clause rule by ID for detailed analysis
  */
@@ -0,0 +1,399 @@
+// lib/defined-terms.ts
+// Index of defined terms ("Confidential Information", "Purpose") with consistency checks
+
+import { normalizeText, toRawSpan, locateOffset, type PageBoundary } from './text-normalization';
+
+/**
+ * means: "Affiliate" means ..., Confidential Information shall mean ...
+ * parenthetical: ... a possible acquisition (the "Transaction"), ... referred to as the "Purpose"
+ */
+export type DefinitionStyle = 'means' | 'parenthetical';
+
+export interface TermPosition {
+  start: number;
+  end: number;
+  page?: number;
+  line: number;
+}
+
+export interface TermDefinition {
+  term: string;
+  style: DefinitionStyle;
+  /** The defining sentence (or list), in normalized text */
+  text: string;
+  /** Span of the defining text in the raw document */
+  position: TermPosition;
+}
+
+export interface DefinedTerm {
+  term: string;
+  definitions: TermDefinition[];
+  /** Uses outside the term's own definitions, counting plural and possessive forms */
+  usageCount: number;
+}
+
+/**
+ * undefined: a capitalised term is used but never defined
+ * unused: a term is defined but never used
+ * inconsistent_definition: a term is defined more than once, with different wording
+ * capitalisation_drift: a defined term also appears with different capitalisation
+ */
+export type DefinedTermIssueKind = 'undefined' | 'unused' | 'inconsistent_definition' | 'capitalisation_drift';
+
+export interface DefinedTermIssue {
+  kind: DefinedTermIssueKind;
+  term: string;
+  message: string;
+  /** Where the issue shows: the uses, the definitions or the drifting mentions */
+  positions: TermPosition[];
+}
+
+export interface DefinedTermsIndex {
+  terms: DefinedTerm[];
+  issues: DefinedTermIssue[];
+}
+
+const QUOTE_OPEN = '["“‘]';
+const QUOTE_CLOSE = '["”’]';
+// A defined term starts with a capital and stays on one line
+const QUOTED_TERM = `${QUOTE_OPEN}([A-Z0-9][^"“”‘’\\n]{0,58}?)${QUOTE_CLOSE}`;
+const MEANS_VERB = '(?:shall\\s+mean|means|shall\\s+have\\s+the\\s+meaning|has\\s+the\\s+meaning|shall\\s+include|includes?|shall\\s+refer\\s+to|refers\\s+to|is\\s+defined\\s+as|shall\\s+be\\s+defined\\s+as)\\b';
+
+// "Representatives" of any party means ...
+const QUOTED_MEANS_PATTERN = new RegExp(`${QUOTED_TERM},?\\s+(?:of\\s+(?:a|any|each|either|the)\\s+party\\s+)?(?:as\\s+used\\s+(?:herein|in\\s+this\\s+[Aa]greement),?\\s+)?${MEANS_VERB}`, 'g');
+// Unquoted terms only count after a line start, list number or clause break: "1.2 Affiliate means"
+const UNQUOTED_MEANS_PATTERN = /(^|\n|[.;:,][ \t]+)[ \t]*(?:(?:\d{1,3}(?:\.\d{1,3})*\.?|\([a-z0-9]{1,4}\)|[a-z]\))[ \t]+)?(?:[Tt]he[ \t]+(?:term|expression)[ \t]+)?((?:[A-Z][\w-]*)(?:[ \t]+[A-Z][\w-]*){0,4})[ \t]+(?:shall[ \t]+mean|means)\b/g;
+const PARENTHETICAL_PATTERN = /\(([^()\n]{1,200})\)/g;
+const REFERRED_AS_PATTERN = new RegExp(`\\b(?:referred\\s+to|defined)\\s+(?:herein\\s+|hereinafter\\s+|in\\s+this\\s+[Aa]greement\\s+)?as\\s+(?:the\\s+|a\\s+|an\\s+)?${QUOTED_TERM}`, 'g');
+// Words allowed around the quoted terms of a defining parenthetical: (each a "Party", together the "Parties")
+// Some drafts leave the label of a party unquoted: CloudServices Asia Pte Ltd (Service Provider)
+const UNQUOTED_LABEL_PATTERN = /^[ \t]*(?:the[ \t]+)?([A-Z][a-z][\w-]*(?:[ \t]+[A-Z][a-z][\w-]*){0,3})[ \t]*$/;
+const ENTITY_SUFFIX_PATTERN = /\b(?:Ltd|Limited|Inc|LLC|LLP|Pte|Pty|Corp|Corporation|GmbH|plc|Bhd|AG|SA|NV|BV)\.?,?[ \t]*$/;
+const PARENTHETICAL_FILLER = /^(?:[\s,;:]|the|each|a|an|and|or|together|collectively|individually|jointly|severally|hereinafter|herein|referred|to|as|its|their|such|with|any|all|of|them|this)*$/i;
+
+// Capitalised words that head proper names or references, not defined terms
+const NOT_TERMS = new Set([
+  'Agreement', 'Section', 'Sections', 'Clause', 'Clauses', 'Article', 'Articles', 'Schedule', 'Schedules', 'Annex',
+  'Appendix', 'Exhibit', 'Recital', 'Recitals', 'Paragraph', 'Part', 'United', 'States', 'Kingdom', 'Republic',
+  'European', 'Union', 'Court', 'Courts', 'Act', 'Code', 'Government', 'January', 'February', 'March', 'April',
+  'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December', 'Monday', 'Tuesday',
+  'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday', 'Centre', 'Center', 'Institute', 'Chamber', 'Commission',
+  'Tribunal', 'Exchange'
+]);
+// Place names used as adjectives are not terms: "the Singapore courts", "a Seoul corporation"
+const ATTRIBUTIVE_NOUN_PATTERN = /^[ \t]+(?:laws?|courts?|corporation|company|region|markets?|jurisdiction|time|dollars?|government|entity|citizens?|residents?)\b/;
+// Capitalised phrases after a determiner read as defined terms: "the Disclosing Party", "any Representative"
+const CANDIDATE_TERM_PATTERN = /\b(?:[Tt]he|[Ss]uch|[Aa]ny|[Ee]ach|[Aa]ll|[Ii]ts|[Tt]heir|[Tt]his|[Nn]o|[Oo]ther|[Aa]n?)[ \t]+([A-Z][a-z][\w-]*(?:[ \t]+[A-Z][a-z][\w-]*){0,3})\b/g;
+const SUB_ITEM_PATTERN = /^[ \t]*(?:\([a-z0-9]{1,4}\)|[a-z]\)|[ivx]{1,5}\))/;
+const ABBREVIATION_PATTERN = /\b(?:e\.g|i\.e|etc|No|Nos|Inc|Ltd|Co|Corp|Pte|Pty|Bhd|Mr|Ms|Dr|St|[A-Z])$/;
+
+/** A quoted label without the punctuation some drafts put inside the quotes: “Proprietary Information.” */
+function cleanTerm(label: string): string {
+  return label.replace(/[\s.,;:]+$/, '');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Singular and plural forms used interchangeably ("Representative" and "Representatives") */
+function termForms(term: string): string[] {
+  if (/ies$/.test(term)) return [term, `${term.slice(0, -3)}y`];
+  if (/[^aeiou]y$/.test(term)) return [term, `${term.slice(0, -1)}ies`];
+  if (/[^s]s$/.test(term) && term.length > 3) return [term, term.slice(0, -1)];
+  return /s$/.test(term) ? [term] : [term, `${term}s`];
+}
+
+/** Key shared by the singular and plural of a term, ignoring case */
+function termKey(term: string): string {
+  const singular = /ies$/.test(term) ? `${term.slice(0, -3)}y`
+    : /[^s]s$/.test(term) && term.length > 3 ? term.slice(0, -1)
+    : term;
+  return singular.toLowerCase();
+}
+
+/** End of the sentence containing `from`, not looking past `limit`; -1 when it runs on */
+function sentenceEnd(text: string, from: number, limit: number): number {
+  for (let index = from; index < limit; index++) {
+    if (text[index] !== '.' || (index + 1 < text.length && !/\s/.test(text[index + 1]))) continue;
+    if (ABBREVIATION_PATTERN.test(text.slice(Math.max(0, index - 6), index))) continue;
+    return index + 1;
+  }
+  return -1;
+}
+
+/**
+ * End of a "means" definition: its sentence, carried over line breaks while the definition
+ * continues as a list ("including:" followed by "(a) ...;" items)
+ */
+function definitionEnd(text: string, start: number): number {
+  let end = start;
+  for (;;) {
+    const lineEnd = text.indexOf('\n', end) === -1 ? text.length : text.indexOf('\n', end);
+    const stop = sentenceEnd(text, end, lineEnd);
+    if (stop !== -1) return stop;
+    end = lineEnd;
+
+    let next = lineEnd;
+    while (next < text.length && /\s/.test(text[next])) next++;
+    if (next >= text.length) return end;
+    const nextLine = text.slice(next, text.indexOf('\n', next) === -1 ? text.length : text.indexOf('\n', next));
+    const runsOn = /(?:[:;,]|\b(?:and|or))\s*$/.test(text.slice(start, end));
+    if (!runsOn && !SUB_ITEM_PATTERN.test(nextLine)) return end;
+    end = next;
+  }
+}
+
+/** The sentence around a parenthetical definition, within its line */
+function sentenceAround(text: string, start: number, end: number): { start: number; end: number } {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  let from = lineStart;
+  for (let index = start - 1; index > lineStart; index--) {
+    if (text[index] === '.' && /\s/.test(text[index + 1]) && !ABBREVIATION_PATTERN.test(text.slice(Math.max(0, index - 6), index))) {
+      from = index + 1;
+      break;
+    }
+  }
+  const lineEnd = text.indexOf('\n', end) === -1 ? text.length : text.indexOf('\n', end);
+  const stop = sentenceEnd(text, end, lineEnd);
+  while (from < start && /\s/.test(text[from])) from++;
+  return { start: from, end: stop === -1 ? lineEnd : stop };
+}
+
+interface FoundDefinition {
+  term: string;
+  style: DefinitionStyle;
+  start: number;
+  end: number;
+  /** Span of the term label itself, which is not a use of the term */
+  labelStart: number;
+  labelEnd: number;
+}
+
+function findDefinitions(text: string): FoundDefinition[] {
+  const found: FoundDefinition[] = [];
+  let match: RegExpExecArray | null;
+
+  QUOTED_MEANS_PATTERN.lastIndex = 0;
+  while ((match = QUOTED_MEANS_PATTERN.exec(text)) !== null) {
+    const labelStart = match.index + 1;
+    const term = cleanTerm(match[1]);
+    found.push({
+      term,
+      style: 'means',
+      start: match.index,
+      end: definitionEnd(text, match.index),
+      labelStart,
+      labelEnd: labelStart + term.length
+    });
+  }
+
+  UNQUOTED_MEANS_PATTERN.lastIndex = 0;
+  while ((match = UNQUOTED_MEANS_PATTERN.exec(text)) !== null) {
+    const term = match[2].replace(/^The[ \t]+/, '');
+    const labelStart = match.index + match[0].lastIndexOf(match[2]) + (match[2].length - term.length);
+    if (NOT_TERMS.has(term.split(/[ \t]+/)[0])) continue;
+    const start = sentenceAround(text, labelStart, labelStart).start;
+    found.push({ term, style: 'means', start, end: definitionEnd(text, labelStart), labelStart, labelEnd: labelStart + term.length });
+  }
+
+  PARENTHETICAL_PATTERN.lastIndex = 0;
+  while ((match = PARENTHETICAL_PATTERN.exec(text)) !== null) {
+    const inner = match[1];
+    const termPattern = new RegExp(QUOTED_TERM, 'g');
+    const terms: Array<{ term: string; offset: number }> = [];
+    let termMatch: RegExpExecArray | null;
+    let termsEnd = 0;
+    while ((termMatch = termPattern.exec(inner)) !== null) {
+      terms.push({ term: cleanTerm(termMatch[1]), offset: termMatch.index + 1 });
+      termsEnd = termPattern.lastIndex;
+    }
+    const unquoted = terms.length === 0 && ENTITY_SUFFIX_PATTERN.test(text.slice(Math.max(0, match.index - 12), match.index))
+      ? UNQUOTED_LABEL_PATTERN.exec(inner)
+      : null;
+    if (unquoted) {
+      if (NOT_TERMS.has(unquoted[1].split(/[ \t]+/)[0])) continue;
+      terms.push({ term: unquoted[1], offset: inner.indexOf(unquoted[1]) });
+    } else {
+      if (terms.length === 0 || !PARENTHETICAL_FILLER.test(inner.slice(0, termsEnd).replace(termPattern, ' '))) continue;
+      // Anything after the terms must be filler too, or follow a comma: (the "Company", 10 Toegye-ro, Seoul)
+      const after = inner.slice(termsEnd);
+      if (!PARENTHETICAL_FILLER.test(after) && !/^\s*,/.test(after)) continue;
+    }
+
+    const sentence = sentenceAround(text, match.index, match.index + match[0].length);
+    terms.forEach(({ term, offset }) => {
+      const labelStart = match!.index + 1 + offset;
+      found.push({ term, style: 'parenthetical', ...sentence, labelStart, labelEnd: labelStart + term.length });
+    });
+  }
+
+  REFERRED_AS_PATTERN.lastIndex = 0;
+  while ((match = REFERRED_AS_PATTERN.exec(text)) !== null) {
+    const labelStart = match.index + match[0].length - match[1].length - 1;
+    if (found.some(definition => definition.labelStart === labelStart)) continue;
+    const sentence = sentenceAround(text, match.index, match.index + match[0].length);
+    const term = cleanTerm(match[1]);
+    found.push({ term, style: 'parenthetical', ...sentence, labelStart, labelEnd: labelStart + term.length });
+  }
+
+  return found.sort((a, b) => a.labelStart - b.labelStart);
+}
+
+/**
+ * Whether the words split entirely into defined terms, as in "the Party Representatives";
+ * "the Disclosing Party" does not, so it is still reported when only "Party" is defined
+ */
+function isComposedOfDefinedTerms(words: string[], byKey: Map<string, FoundDefinition[]>): boolean {
+  // composed[i]: the first i words split into defined terms
+  const composed = [true];
+  for (let to = 1; to <= words.length; to++) {
+    composed[to] = false;
+    for (let from = 0; from < to && !composed[to]; from++) {
+      composed[to] = composed[from] && byKey.has(termKey(words.slice(from, to).join(' ')));
+    }
+  }
+  return composed[words.length];
+}
+
+/** Wording of a definition with its term label and punctuation removed, for comparing definitions */
+function definitionWording(text: string, definition: FoundDefinition): string {
+  return (text.slice(definition.start, definition.labelStart) + text.slice(definition.labelEnd, definition.end))
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Build the defined-terms index of a document: every definition with its location, how often
+ * each term is used, and the issues found (terms used but not defined, defined but not used,
+ * defined twice with different wording, or written with drifting capitalisation).
+ * Positions refer to the raw document, with pages when page boundaries are given.
+ */
+export function buildDefinedTermsIndex(documentText: string, pages?: PageBoundary[]): DefinedTermsIndex {
+  const normalized = normalizeText(documentText);
+  const text = normalized.text;
+  const toPosition = (start: number, end: number): TermPosition => {
+    const span = toRawSpan(normalized, { start, end });
+    const location = locateOffset(documentText, span.start, pages);
+    return { ...span, page: location.page, line: location.line };
+  };
+
+  const found = findDefinitions(text);
+  const byKey = new Map<string, FoundDefinition[]>();
+  found.forEach(definition => {
+    const key = termKey(definition.term);
+    byKey.set(key, (byKey.get(key) || []).concat(definition));
+  });
+
+  const terms: DefinedTerm[] = [];
+  const issues: DefinedTermIssue[] = [];
+  byKey.forEach(labels => {
+    const term = labels[0].term;
+    // One parenthetical can define both forms: (each a "Party", together the "Parties")
+    const definitions = labels.filter((label, index) =>
+      labels.findIndex(other => other.start === label.start && other.end === label.end) === index);
+    const forms = termForms(term).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+    const insideOwnDefinition = (index: number) =>
+      definitions.some(definition => definition.start <= index && index < definition.end);
+
+    // Exact uses, and mentions that differ only in case
+    const usePattern = new RegExp(`(^|[^\\w])(${forms})(?:'s|’s)?(?![\\w])`, 'gi');
+    let usageCount = 0;
+    const drift: Array<{ start: number; end: number; text: string }> = [];
+    let use: RegExpExecArray | null;
+    while ((use = usePattern.exec(text)) !== null) {
+      const start = use.index + use[1].length;
+      const mention = use[2];
+      if (labels.some(label => label.labelStart === start)) continue;
+      const exact = termForms(term).indexOf(mention) !== -1;
+      if (exact) {
+        if (!insideOwnDefinition(start)) usageCount++;
+        continue;
+      }
+      // All-caps headings and ordinary lower-case words ("the purpose of") are not drift
+      const allCaps = mention === mention.toUpperCase();
+      const multiWord = /\s/.test(term);
+      if (!allCaps && (multiWord || mention !== mention.toLowerCase())) drift.push({ start, end: start + mention.length, text: mention });
+    }
+
+    terms.push({
+      term,
+      definitions: definitions.map(definition => ({
+        term: definition.term,
+        style: definition.style,
+        text: text.slice(definition.start, definition.end).trim(),
+        position: toPosition(definition.start, definition.end)
+      })),
+      usageCount
+    });
+
+    if (usageCount === 0) {
+      issues.push({
+        kind: 'unused',
+        term,
+        message: `"${term}" is defined but never used`,
+        positions: definitions.map(definition => toPosition(definition.start, definition.end))
+      });
+    }
+
+    const wordings = definitions.map(definition => definitionWording(text, definition));
+    if (definitions.length > 1 && wordings.some(wording => wording !== wordings[0])) {
+      issues.push({
+        kind: 'inconsistent_definition',
+        term,
+        message: `"${term}" is defined ${definitions.length} times with different wording`,
+        positions: definitions.map(definition => toPosition(definition.start, definition.end))
+      });
+    }
+
+    if (drift.length > 0) {
+      const variants = drift.map(mention => mention.text).filter((variant, index, all) => all.indexOf(variant) === index);
+      issues.push({
+        kind: 'capitalisation_drift',
+        term,
+        message: `"${term}" also appears as ${variants.map(variant => `"${variant}"`).join(', ')} (${drift.length} ${drift.length === 1 ? 'time' : 'times'})`,
+        positions: drift.map(mention => toPosition(mention.start, mention.end))
+      });
+    }
+  });
+
+  // Capitalised phrases used like defined terms but never defined
+  const undefinedUses = new Map<string, { term: string; positions: Array<{ start: number; end: number }> }>();
+  let candidate: RegExpExecArray | null;
+  CANDIDATE_TERM_PATTERN.lastIndex = 0;
+  while ((candidate = CANDIDATE_TERM_PATTERN.exec(text)) !== null) {
+    const phrase = candidate[1];
+    const words = phrase.split(/[ \t]+/);
+    if (words.some(word => NOT_TERMS.has(word)) || isComposedOfDefinedTerms(words, byKey)) continue;
+    if (ATTRIBUTIVE_NOUN_PATTERN.test(text.slice(CANDIDATE_TERM_PATTERN.lastIndex, CANDIDATE_TERM_PATTERN.lastIndex + 20))) continue;
+    const start = candidate.index + candidate[0].length - phrase.length;
+    const key = termKey(phrase);
+    const entry = undefinedUses.get(key) || { term: phrase, positions: [] };
+    entry.positions.push({ start, end: start + phrase.length });
+    undefinedUses.set(key, entry);
+  }
+  undefinedUses.forEach(({ term, positions }) => {
+    issues.push({
+      kind: 'undefined',
+      term,
+      message: `"${term}" is used ${positions.length} ${positions.length === 1 ? 'time' : 'times'} but never defined`,
+      positions: positions.map(position => toPosition(position.start, position.end))
+    });
+  });
+
+  return {
+    terms: terms.sort((a, b) => a.definitions[0].position.start - b.definitions[0].position.start),
+    issues
+  };
+}
+
+/**
+ * The first definition of a term, matched case-insensitively and in singular or plural;
+ * null when the document does not define it
+ */
+export function findTermDefinition(index: DefinedTermsIndex, term: string): TermDefinition | null {
+  const key = termKey(term);
+  const entry = index.terms.find(candidate => termKey(candidate.term) === key);
+  return entry ? entry.definitions[0] : null;
+}
@@ -0,0 +1,456 @@
+// lib/document-formats.ts
+// Format detection from content bytes, and text conversion for RTF, HTML, Markdown, ODT and plain text
+
+import { DOMParser } from '@xmldom/xmldom';
+
+export type DocumentFormat = 'pdf' | 'docx' | 'doc' | 'odt' | 'rtf' | 'html' | 'markdown' | 'text';
+
+export const DOCUMENT_FORMAT_LABELS: Record<DocumentFormat, string> = {
+  pdf: 'PDF',
+  docx: 'DOCX',
+  doc: 'DOC',
+  odt: 'ODT',
+  rtf: 'RTF',
+  html: 'HTML',
+  markdown: 'Markdown',
+  text: 'plain text'
+};
+
+// Compound File (OLE2) container used by Word 97-2003 .doc files
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+function startsWithBytes(buffer: Buffer, bytes: number[]): boolean {
+  return buffer.length >= bytes.length && bytes.every((byte, index) => buffer[index] === byte);
+}
+
+/**
+ * Decode a text file: UTF-8 and UTF-16 byte order marks are honoured, invalid UTF-8 falls back to
+ * Windows-1252 (what most legacy plain-text contracts are saved in)
+ */
+export function decodeText(buffer: Buffer): string {
+  if (startsWithBytes(buffer, [0xef, 0xbb, 0xbf])) return buffer.subarray(3).toString('utf8');
+  if (startsWithBytes(buffer, [0xff, 0xfe])) return buffer.subarray(2).toString('utf16le');
+  if (startsWithBytes(buffer, [0xfe, 0xff])) {
+    const swapped = Buffer.from(buffer.subarray(2));
+    swapped.swap16();
+    return swapped.toString('utf16le');
+  }
+  const utf8 = buffer.toString('utf8');
+  // Invalid UTF-8 turns into replacement characters, which do not encode back to the same bytes
+  return Buffer.from(utf8, 'utf8').equals(buffer) ? utf8 : decodeWindows1252(buffer);
+}
+
+// Windows-1252 differs from Latin-1 only in 0x80-0x9F, where it puts curly quotes, dashes and the like
+const WINDOWS_1252_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+function decodeWindows1252(buffer: Buffer): string {
+  let text = '';
+  for (let index = 0; index < buffer.length; index++) {
+    const byte = buffer[index];
+    text += byte >= 0x80 && byte <= 0x9f ? WINDOWS_1252_HIGH[byte - 0x80] : String.fromCharCode(byte);
+  }
+  return text;
+}
+
+/** Text content has no NUL bytes and almost no other control characters */
+function looksLikeText(sample: string): boolean {
+  if (sample.indexOf('\u0000') !== -1) return false;
+  const controls = sample.replace(/[^\u0001-\u0008\u000b\u000e-\u001f]/g, '').length;
+  return controls <= sample.length * 0.01;
+}
+
+const HTML_SIGNAL = /^\s*(?:<!doctype\s+html|<html[\s>]|<\?xml[^>]*>\s*<html[\s>])|<(?:body|p|div|h[1-6]|ol|ul|table)[\s>][\s\S]*<\/(?:body|p|div|h[1-6]|ol|ul|table)>/i;
+const MARKDOWN_SIGNALS = [
+  /^#{1,6}[ \t]+\S/m,
+  /\*\*[^*\n]+\*\*|__[^_\n]+__/,
+  /\[[^\]\n]+\]\([^)\n]+\)/,
+  /^```/m,
+  /^\|.*\|[ \t]*$/m,
+  /^[ \t]*[-*+][ \t]+\S/m
+];
+
+/**
+ * Detect a document's format from its content bytes. The MIME type and extension are not
+ * trusted; the file name only tips a text file into Markdown when it shows a single Markdown signal.
+ * Returns null for binary content that is not a supported document.
+ */
+export function detectDocumentFormat(buffer: Buffer, fileName = ''): DocumentFormat | null {
+  // Some generators write a few junk bytes before the PDF header, which readers tolerate
+  if (buffer.subarray(0, 1024).indexOf('%PDF') !== -1) return 'pdf';
+
+  if (startsWithBytes(buffer, ZIP_SIGNATURE)) {
+    // ODF stores its MIME type uncompressed as the first entry; DOCX has a word/document.xml part
+    if (buffer.subarray(0, 200).indexOf('mimetypeapplication/vnd.oasis.opendocument.text') !== -1) return 'odt';
+    if (buffer.indexOf('word/document.xml') !== -1) return 'docx';
+    return null;
+  }
+
+  if (startsWithBytes(buffer, OLE_SIGNATURE)) {
+    // Directory entry names are UTF-16; Excel and PowerPoint files share the container
+    return buffer.indexOf(Buffer.from('WordDocument', 'utf16le')) !== -1 ? 'doc' : null;
+  }
+
+  const sample = decodeText(buffer.subarray(0, 8192));
+  if (/^\s*\{\\rtf/.test(sample)) return 'rtf';
+  if (!looksLikeText(sample)) return null;
+  if (HTML_SIGNAL.test(sample)) return 'html';
+
+  const signals = MARKDOWN_SIGNALS.filter(pattern => pattern.test(sample)).length;
+  const markdownName = /\.(?:md|markdown)$/i.test(fileName);
+  if (MARKDOWN_SIGNALS[0].test(sample) || signals >= 2 || (markdownName && signals >= 1)) return 'markdown';
+  return 'text';
+}
+
+/** Collapse runs of blank lines and trailing spaces left by the converters */
+function tidyText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// RTF groups whose content is not document text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'listtable', 'listoverridetable',
+  'rsidtbl', 'revtbl', 'filetbl', 'generator', 'xmlnstbl', 'themedata', 'colorschememapping',
+  'latentstyles', 'datastore', 'fldinst', 'pn', 'pntxta', 'pntxtb', 'header', 'headerl', 'headerr',
+  'headerf', 'footer', 'footerl', 'footerr', 'footerf', 'footnote', 'annotation', 'shppict', 'nonshppict'
+]);
+const RTF_SYMBOLS: Record<string, string> = {
+  par: '\n\n', sect: '\n\n', page: '\n\n', row: '\n\n', line: '\n', tab: '\t', cell: '\t',
+  emdash: '—', endash: '–', lquote: '‘', rquote: '’', ldblquote: '“',
+  rdblquote: '”', bullet: '•'
+};
+
+/**
+ * Convert RTF to text. Paragraphs are separated by blank lines and list numbers written by Word
+ * (\listtext and \pntext groups) are kept, so the outline parser sees "1.1" as in the original.
+ */
+export function rtfToText(rtf: string): string {
+  const output: string[] = [];
+  const stack: Array<{ skip: boolean; unicodeSkip: number }> = [];
+  let skip = false;
+  let unicodeSkip = 1; // characters after \uN that stand in for it in older readers
+  let pendingSkip = 0;
+
+  const emit = (text: string) => {
+    if (skip) return;
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    output.push(text);
+  };
+
+  let index = 0;
+  while (index < rtf.length) {
+    const char = rtf[index];
+    if (char === '{') {
+      stack.push({ skip, unicodeSkip });
+      pendingSkip = 0;
+      index++;
+    } else if (char === '}') {
+      const state = stack.pop();
+      if (state) ({ skip, unicodeSkip } = state);
+      pendingSkip = 0;
+      index++;
+    } else if (char === '\\') {
+      const next = rtf[index + 1];
+      if (next === '\\' || next === '{' || next === '}') {
+        emit(next);
+        index += 2;
+      } else if (next === "'") {
+        emit(decodeWindows1252(Buffer.from([parseInt(rtf.substr(index + 2, 2), 16)])));
+        index += 4;
+      } else if (next === '*') {
+        // Ignorable destination: content a reader may skip when it does not know the group
+        skip = true;
+        index += 2;
+      } else if (next === '\n' || next === '\r') {
+        emit('\n\n');
+        index += 2;
+      } else if (next === '~') {
+        emit(' ');
+        index += 2;
+      } else if (next === '_') {
+        emit('-');
+        index += 2;
+      } else {
+        const control = /^\\([a-zA-Z]{1,32})(-?\d{1,10})? ?/.exec(rtf.slice(index, index + 48));
+        if (!control) {
+          index += 2;
+          continue;
+        }
+        const word = control[1];
+        const parameter = control[2] !== undefined ? parseInt(control[2], 10) : null;
+        if (rtf[index - 1] === '{' && RTF_SKIPPED_DESTINATIONS.has(word)) {
+          skip = true;
+        } else if (word === 'u' && parameter !== null) {
+          emit(String.fromCharCode(parameter < 0 ? parameter + 65536 : parameter));
+          pendingSkip = unicodeSkip;
+        } else if (word === 'uc' && parameter !== null) {
+          unicodeSkip = parameter;
+        } else if (RTF_SYMBOLS[word]) {
+          emit(RTF_SYMBOLS[word]);
+        }
+        index += control[0].length;
+      }
+    } else {
+      // Raw line breaks in RTF source carry no meaning
+      if (char !== '\n' && char !== '\r') emit(char);
+      index++;
+    }
+  }
+
+  return tidyText(output.join(''));
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', sect: '§', para: '¶',
+  ldquo: '“', rdquo: '”', lsquo: '‘', rsquo: '’', mdash: '—', ndash: '–',
+  hellip: '…', copy: '©', reg: '®', trade: '™', bull: '•'
+};
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code < 0x110000 ? String.fromCodePoint(code) : entity;
+    }
+    const decoded = HTML_ENTITIES[name.toLowerCase()];
+    return decoded !== undefined ? decoded : entity;
+  });
+}
+
+const HTML_BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'aside', 'nav', 'blockquote', 'pre',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'table', 'tr', 'dl', 'dt', 'dd', 'ul', 'ol', 'li', 'hr', 'address', 'figure'
+]);
+
+/**
+ * Convert HTML to text. Block elements become paragraphs, table cells are separated by tabs,
+ * and list items are numbered like the rendered page ("1.", nested "1.1.") or marked "- ".
+ */
+export function htmlToText(html: string): string {
+  const body = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|head|template|noscript)\b[\s\S]*?<\/\1\s*>/gi, '');
+
+  const output: string[] = [];
+  const lists: Array<{ ordered: boolean; counter: number }> = [];
+  let preformatted = 0;
+
+  const tokenPattern = /<(\/?)([a-zA-Z][\w:-]*)([^>]*)>|([^<]+)/g;
+  let token: RegExpExecArray | null;
+  while ((token = tokenPattern.exec(body)) !== null) {
+    if (token[4] !== undefined) {
+      const text = decodeHtmlEntities(token[4]);
+      output.push(preformatted > 0 ? text : text.replace(/\s+/g, ' '));
+      continue;
+    }
+
+    const closing = token[1] === '/';
+    const tag = token[2].toLowerCase();
+    const attributes = token[3];
+    if (tag === 'br') {
+      output.push('\n');
+    } else if (tag === 'td' || tag === 'th') {
+      if (closing) output.push('\t');
+    } else if (HTML_BLOCK_TAGS.has(tag)) {
+      output.push('\n\n');
+      if (tag === 'pre') preformatted += closing ? -1 : 1;
+      if ((tag === 'ol' || tag === 'ul') && closing) {
+        lists.pop();
+      } else if (tag === 'ol' || tag === 'ul') {
+        const start = /\bstart\s*=\s*["']?(\d+)/i.exec(attributes);
+        lists.push({ ordered: tag === 'ol', counter: start ? parseInt(start[1], 10) - 1 : 0 });
+      } else if (tag === 'li' && !closing && lists.length > 0) {
+        const list = lists[lists.length - 1];
+        list.counter++;
+        const value = /\bvalue\s*=\s*["']?(\d+)/i.exec(attributes);
+        if (value) list.counter = parseInt(value[1], 10);
+        const numbers = lists.filter(entry => entry.ordered).map(entry => entry.counter);
+        output.push(list.ordered ? `${numbers.join('.')}. ` : '- ');
+      }
+    }
+  }
+
+  return tidyText(
+    output.join('')
+      .split('\n')
+      .map(line => line.replace(/^[ \t]*(?=\S)/, '').replace(/ +/g, ' '))
+      .join('\n')
+  );
+}
+
+const MARKDOWN_TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(?:\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+/** Strip inline Markdown: images, links, code spans and emphasis */
+function stripInlineMarkdown(line: string): string {
+  return line
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/(\*\*|__)(\S(?:[^\n]*?\S)?)\1/g, '$2')
+    .replace(/(^|[^\w*])\*(\S(?:[^*\n]*?\S)?)\*(?!\w)/g, '$1$2')
+    .replace(/(^|[^\w])_(\S(?:[^_\n]*?\S)?)_(?!\w)/g, '$1$2');
+}
+
+/**
+ * Convert Markdown to text. Heading markers and inline formatting are removed; list markers and
+ * numbers are kept as written, and table rows become tab-separated lines.
+ */
+export function markdownToText(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const output: string[] = [];
+  let fenced = false;
+
+  lines.forEach(line => {
+    if (/^\s*(?:```|~~~)/.test(line)) {
+      fenced = !fenced;
+      return;
+    }
+    if (fenced) {
+      output.push(line);
+      return;
+    }
+    // Setext underlines and horizontal rules
+    if (/^\s*(?:=+|-{3,}|\*{3,}|_{3,})\s*$/.test(line) || MARKDOWN_TABLE_SEPARATOR.test(line)) {
+      output.push('');
+      return;
+    }
+
+    const heading = /^\s*#{1,6}[ \t]+(.*?)[ \t]*#*[ \t]*$/.exec(line);
+    if (heading) {
+      output.push('', stripInlineMarkdown(heading[1]), '');
+      return;
+    }
+
+    let text = line.replace(/^\s*>[ \t]?/, '');
+    if (/^\s*\|.*\|\s*$/.test(text)) {
+      text = text.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim()).join('\t');
+    }
+    text = text.replace(/^(\s*)[*+][ \t]+/, '$1- ');
+    output.push(stripInlineMarkdown(text).replace(/[ \t]{2,}$/, ''));
+  });
+
+  return tidyText(output.join('\n'));
+}
+
+/** Plain text needs only line endings and blank runs tidied */
+export function plainTextToText(text: string): string {
+  return tidyText(text.replace(/\f/g, '\n\n'));
+}
+
+const ODF_TEXT_NS = 'urn:oasis:names:tc:opendocument:xmlns:text:1.0';
+const ODF_TABLE_NS = 'urn:oasis:names:tc:opendocument:xmlns:table:1.0';
+const ODF_STYLE_NS = 'urn:oasis:names:tc:opendocument:xmlns:style:1.0';
+
+
+function childElements(element: Element): Element[] {
+  const children: Element[] = [];
+  for (let node = element.firstChild; node; node = node.nextSibling) {
+    if (node.nodeType === 1) children.push(node as Element);
+  }
+  return children;
+}
+
+/**
+ * Convert the XML parts of an ODT package to text. List items get the number the list style
+ * would render ("1.", nested "1.1.") unless the file already stores it in <text:number>.
+ */
+export function odtXmlToText(contentXml: string, stylesXml = ''): string {
+  const parse = (xml: string) => new DOMParser({ errorHandler: { warning: () => undefined } }).parseFromString(xml, 'text/xml');
+  const content = parse(contentXml);
+  const documents = stylesXml ? [content, parse(stylesXml)] : [content];
+
+  // List styles say, level by level, whether items are numbered and where numbering starts
+  const listLevels = new Map<string, { numbered: boolean; start: number }>();
+  documents.forEach(document => {
+    const styles = document.getElementsByTagNameNS(ODF_TEXT_NS, 'list-style');
+    for (let index = 0; index < styles.length; index++) {
+      const style = styles[index];
+      const name = style.getAttributeNS(ODF_STYLE_NS, 'name');
+      childElements(style).forEach(level => {
+        const numbered = level.localName === 'list-level-style-number';
+        const start = parseInt(level.getAttributeNS(ODF_TEXT_NS, 'start-value') || '1', 10);
+        listLevels.set(`${name}/${level.getAttributeNS(ODF_TEXT_NS, 'level')}`, { numbered, start });
+      });
+    }
+  });
+
+  const inlineText = (element: Element): string => {
+    let text = '';
+    for (let node = element.firstChild; node; node = node.nextSibling) {
+      if (node.nodeType === 3) {
+        text += (node.nodeValue || '').replace(/\s+/g, ' ');
+        continue;
+      }
+      if (node.nodeType !== 1) continue;
+      const child = node as Element;
+      if (child.namespaceURI !== ODF_TEXT_NS) {
+        // Frames and drawings can hold text boxes; their paragraphs are read inline
+        text += inlineText(child);
+      } else if (child.localName === 's') {
+        text += ' '.repeat(parseInt(child.getAttributeNS(ODF_TEXT_NS, 'c') || '1', 10));
+      } else if (child.localName === 'tab') {
+        text += '\t';
+      } else if (child.localName === 'line-break') {
+        text += '\n';
+      } else if (child.localName !== 'note' && child.localName !== 'tracked-changes' && child.localName !== 'bookmark') {
+        text += inlineText(child);
+      }
+    }
+    return text;
+  };
+
+  const blocks: string[] = [];
+  const walk = (element: Element, list: { style: string; numbers: number[] } | null) => {
+    childElements(element).forEach(child => {
+      const name = child.localName;
+      if (child.namespaceURI === ODF_TEXT_NS && (name === 'p' || name === 'h')) {
+        blocks.push(inlineText(child));
+      } else if (child.namespaceURI === ODF_TEXT_NS && name === 'list') {
+        const style = child.getAttributeNS(ODF_TEXT_NS, 'style-name') || (list ? list.style : '');
+        const depth = list ? list.numbers.length + 1 : 1;
+        const level = listLevels.get(`${style}/${depth}`) || { numbered: false, start: 1 };
+        let counter = level.start - 1;
+        childElements(child).forEach(item => {
+          if (item.localName !== 'list-item' && item.localName !== 'list-header') return;
+          if (item.localName === 'list-item') counter++;
+          const numbers = list ? list.numbers.concat(counter) : [counter];
+          const before = blocks.length;
+          walk(item, { style, numbers });
+          if (item.localName === 'list-item' && blocks.length > before) {
+            const stored = childElements(item).some(paragraph =>
+              childElements(paragraph).some(part => part.localName === 'number'));
+            if (!stored) blocks[before] = `${level.numbered ? `${numbers.join('.')}.` : '-'} ${blocks[before]}`;
+          }
+        });
+      } else if (child.namespaceURI === ODF_TABLE_NS && name === 'table-row') {
+        blocks.push(childElements(child)
+          .filter(cell => cell.localName === 'table-cell')
+          .map(cell => childElements(cell).map(inlineText).join(' ').trim())
+          .join('\t'));
+      } else if (!(child.namespaceURI === ODF_TEXT_NS && name === 'tracked-changes')) {
+        walk(child, list);
+      }
+    });
+  };
+
+  const body = content.getElementsByTagNameNS('urn:oasis:names:tc:opendocument:xmlns:office:1.0', 'text')[0];
+  if (body) walk(body, null);
+  return tidyText(blocks.join('\n\n'));
+}
+
+/** Read the text of an ODT package */
+export async function odtToText(buffer: Buffer): Promise<string> {
+  const JSZip = (await import('jszip')).default;
+  const zip = await JSZip.loadAsync(buffer);
+  const content = zip.file('content.xml');
+  if (!content) throw new Error('ODT package has no content.xml');
+  const styles = zip.file('styles.xml');
+  return odtXmlToText(await content.async('string'), styles ? await styles.async('string') : '');
+}
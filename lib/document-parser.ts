@@ -1,13 +1,49 @@
 import pdfParse from 'pdf-parse';
 import mammoth from 'mammoth';
+import WordExtractor from 'word-extractor';
+import { parseOutline, getNodeText } from './document-structure';
+import { normalizeText, buildPageBoundaries, findLowConfidencePages, type PageBoundary } from './text-normalization';
+import { recognizePdfPages } from './ocr';
+import { readDocxMarkup, type DocxMarkup, type DocumentRevision, type DocumentComment } from './docx-revisions';
+import {
+  detectDocumentFormat,
+  decodeText,
+  rtfToText,
+  htmlToText,
+  markdownToText,
+  plainTextToText,
+  odtToText,
+  DOCUMENT_FORMAT_LABELS,
+  type DocumentFormat
+} from './document-formats';
 
 export interface ParsedDocument {
   text: string;
+  /** Page boundaries within `text`, for paginated formats such as PDF */
+  pages?: PageBoundary[];
+  /** Text before tracked changes, for DOCX files with tracked insertions or deletions */
+  originalText?: string;
+  /** Tracked insertions and deletions, positioned in `text` and `originalText` */
+  revisions?: DocumentRevision[];
+  /** Margin comments anchored to ranges of `text` */
+  comments?: DocumentComment[];
   metadata: {
     fileName: string;
     fileSize: number;
     pageCount?: number;
     wordCount: number;
+    /** Format detected from the file content */
+    format?: DocumentFormat;
+    /** Present when pages were read with OCR because the PDF had little or no text layer */
+    ocr?: {
+      pages: Array<{ pageNumber: number; confidence: number }>;
+      /** Pages whose confidence is below LOW_OCR_CONFIDENCE, including scanned pages left unread */
+      lowConfidencePages: number[];
+      /** Scanned pages not read because of MAX_OCR_PAGES or OCR_TIMEOUT_MS */
+      unreadPages?: number[];
+    };
+    /** Problems that did not stop parsing but may affect the text, such as a mismatched file type */
+    warnings?: string[];
   };
 }
 
@@ -25,31 +61,137 @@ export interface DocumentParsingSuccess {
 export type DocumentParsingResult = DocumentParsingSuccess | DocumentParsingError;
 
 /**
- * Parse PDF document and extract text content
+ * Render one PDF page to text, joining items on the same baseline
+ * (mirrors the default pdf-parse renderer)
+ */
+async function renderPageText(pageData: any): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false
+  });
+
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of textContent.items) {
+    text += lastY === item.transform[5] || !lastY ? item.str : `\n${item.str}`;
+    lastY = item.transform[5];
+  }
+  return text;
+}
+
+// Pages with less text than this are treated as scans (a text page has hundreds of characters)
+const SPARSE_PAGE_CHARACTERS = 40;
+
+// OCR takes seconds per page on the CPU, so a long scan is only read in part within an upload
+const MAX_OCR_PAGES = 20;
+const OCR_TIMEOUT_MS = 90 * 1000;
+
+function countCharacters(text: string): number {
+  return text.replace(/\s/g, '').length;
+}
+
+/**
+ * Replace the text of scanned pages with OCR output. Only sparse pages are read, so a text PDF
+ * with a scanned signature page keeps its text layer; a page keeps its original text when OCR
+ * finds nothing more on it. Returns the confidence of every page replaced, and the scanned pages
+ * beyond MAX_OCR_PAGES or not reached within OCR_TIMEOUT_MS.
+ */
+async function applyOcr(buffer: Buffer, pageTexts: string[]): Promise<{
+  pages: Array<{ pageNumber: number; confidence: number }>;
+  unreadPages: number[];
+}> {
+  const sparsePages = pageTexts
+    .map((pageText, index) => ({ pageNumber: index + 1, characters: countCharacters(pageText) }))
+    .filter(page => page.characters < SPARSE_PAGE_CHARACTERS)
+    .map(page => page.pageNumber);
+  if (sparsePages.length === 0) return { pages: [], unreadPages: [] };
+
+  const recognised = await recognizePdfPages(buffer, sparsePages.slice(0, MAX_OCR_PAGES), { timeoutMs: OCR_TIMEOUT_MS });
+  const pages = recognised
+    .filter(page => countCharacters(page.text) > countCharacters(pageTexts[page.pageNumber - 1]))
+    .map(page => {
+      pageTexts[page.pageNumber - 1] = page.text;
+      return { pageNumber: page.pageNumber, confidence: page.confidence };
+    });
+  const unreadPages = sparsePages.filter(pageNumber => !recognised.some(page => page.pageNumber === pageNumber));
+  return { pages, unreadPages };
+}
+
+/**
+ * Parse PDF document and extract text content.
+ * Scanned pages (no or almost no text layer) are read with local OCR.
  */
 async function parsePDF(buffer: Buffer, fileName: string): Promise<DocumentParsingResult> {
   try {
-    const data = await pdfParse(buffer);
+    // Capture each page's text so offsets can later be mapped back to pages
+    const pageTexts: string[] = [];
+    const data = await pdfParse(buffer, {
+      pagerender: async (pageData: any) => {
+        const pageText = await renderPageText(pageData);
+        pageTexts.push(pageText);
+        return pageText;
+      }
+    });
+
+    // Without one text per page the pages cannot be told apart, so a sparse document is read whole
+    const hasPageTexts = pageTexts.length === data.numrender;
+    const ocrTexts = hasPageTexts ? pageTexts
+      : countCharacters(data.text || '') < SPARSE_PAGE_CHARACTERS * data.numpages ? new Array<string>(data.numpages).fill('')
+      : [];
+
+    let ocrPages: Array<{ pageNumber: number; confidence: number }> = [];
+    let unreadPages: number[] = [];
+    try {
+      ({ pages: ocrPages, unreadPages } = await applyOcr(buffer, ocrTexts));
+    } catch (error) {
+      console.error('PDF OCR error:', error);
+    }
+
+    // pdf-parse prefixes every page with a blank line; OCR text is assembled the same way
+    const text = ocrPages.length > 0 ? ocrTexts.map(pageText => `\n\n${pageText}`).join('') : data.text;
     
-    if (!data.text || data.text.trim().length === 0) {
+    if (!text || text.trim().length === 0) {
       return {
         success: false,
         error: 'PDF appears to be empty or contains no extractable text',
-        details: 'This may be a scanned PDF that requires OCR processing'
+        details: 'No text was found in the text layer or by OCR'
       };
     }
 
-    const wordCount = data.text.trim().split(/\s+/).length;
+    const wordCount = text.trim().split(/\s+/).length;
+    // Unread scanned pages count as zero confidence, so anything found on them is flagged
+    const pages = hasPageTexts || ocrPages.length > 0
+      ? buildPageBoundaries(ocrPages.length > 0 ? ocrTexts : pageTexts, '\n\n').map(page => {
+        const ocrPage = ocrPages.find(candidate => candidate.pageNumber === page.pageNumber);
+        if (ocrPage) return { ...page, ocrConfidence: ocrPage.confidence };
+        return unreadPages.indexOf(page.pageNumber) !== -1 ? { ...page, ocrConfidence: 0 } : page;
+      })
+      : undefined;
+    const lowConfidencePages = findLowConfidencePages(pages)
+      .concat(unreadPages)
+      .filter((pageNumber, index, all) => all.indexOf(pageNumber) === index)
+      .sort((a, b) => a - b);
 
     return {
       success: true,
       data: {
-        text: data.text,
+        text,
+        pages,
         metadata: {
           fileName,
           fileSize: buffer.length,
           pageCount: data.numpages,
-          wordCount
+          wordCount,
+          ...(ocrPages.length > 0 || unreadPages.length > 0 ? {
+            ocr: {
+              pages: ocrPages,
+              lowConfidencePages,
+              ...(unreadPages.length > 0 ? { unreadPages } : {})
+            }
+          } : {}),
+          ...(unreadPages.length > 0 ? {
+            warnings: [`OCR stopped before reading scanned page(s) ${unreadPages.join(', ')}; their text may be missing`]
+          } : {})
         }
       }
     };
@@ -64,7 +206,9 @@ async function parsePDF(buffer: Buffer, fileName: string): Promise<DocumentParsi
 }
 
 /**
- * Parse DOCX document and extract text content
+ * Parse DOCX document and extract text content.
+ * When the file carries tracked changes or comments, the text is read from the WordprocessingML
+ * with the changes accepted, so revision and comment positions refer to it.
  */
 async function parseDOCX(buffer: Buffer, fileName: string): Promise<DocumentParsingResult> {
   try {
@@ -78,17 +222,27 @@ async function parseDOCX(buffer: Buffer, fileName: string): Promise<DocumentPars
       };
     }
 
-    const wordCount = result.value.trim().split(/\s+/).length;
-
     // Log any messages from mammoth (usually about unsupported features)
     if (result.messages && result.messages.length > 0) {
       console.log('DOCX parsing messages:', result.messages);
     }
 
+    // Revisions are extra detail: a document whose markup cannot be read is still parsed
+    let markup: DocxMarkup | null = null;
+    try {
+      markup = await readDocxMarkup(buffer);
+    } catch (error) {
+      console.error('DOCX revision reading error:', error);
+    }
+    const tracked = markup && (markup.revisions.length > 0 || markup.comments.length > 0) ? markup : null;
+    const text = tracked ? tracked.acceptedText : result.value;
+    const wordCount = text.trim().split(/\s+/).length;
+
     return {
       success: true,
       data: {
-        text: result.value,
+        text,
+        ...(tracked ? { originalText: tracked.originalText, revisions: tracked.revisions, comments: tracked.comments } : {}),
         metadata: {
           fileName,
           fileSize: buffer.length,
@@ -107,7 +261,127 @@ async function parseDOCX(buffer: Buffer, fileName: string): Promise<DocumentPars
 }
 
 /**
- * Main document parsing function that handles multiple file types
+ * Build the parsing result for a format that yields a single block of text
+ */
+function textResult(text: string, buffer: Buffer, fileName: string, format: DocumentFormat): DocumentParsingResult {
+  if (!text || text.trim().length === 0) {
+    return {
+      success: false,
+      error: `${DOCUMENT_FORMAT_LABELS[format]} document appears to be empty`,
+      details: 'No extractable text content found'
+    };
+  }
+
+  return {
+    success: true,
+    data: {
+      text,
+      metadata: {
+        fileName,
+        fileSize: buffer.length,
+        wordCount: text.trim().split(/\s+/).length
+      }
+    }
+  };
+}
+
+/**
+ * Parse a legacy Word 97-2003 (.doc) document and extract its body text.
+ * word-extractor returns paragraph text only, so numbers generated by automatic list numbering
+ * are lost; when no numbered section is left the result carries a warning to upload a DOCX instead.
+ */
+async function parseDOC(buffer: Buffer, fileName: string): Promise<DocumentParsingResult> {
+  try {
+    const document = await new WordExtractor().extract(buffer);
+    // Word separates paragraphs with single line breaks; blank lines match the other parsers
+    const text = document.getBody().replace(/\r\n?/g, '\n').replace(/\n+/g, '\n\n').trim();
+    const result = textResult(text, buffer, fileName, 'doc');
+    if (result.success && parseOutline(text).length === 0) {
+      result.data.metadata.warnings = [
+        'No numbered sections were found. Automatic numbering is not read from .doc files; upload a DOCX to keep section numbers.'
+      ];
+    }
+    return result;
+  } catch (error) {
+    console.error('DOC parsing error:', error);
+    return {
+      success: false,
+      error: 'Failed to parse DOC document',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Parse an OpenDocument text (.odt) document
+ */
+async function parseODT(buffer: Buffer, fileName: string): Promise<DocumentParsingResult> {
+  try {
+    return textResult(await odtToText(buffer), buffer, fileName, 'odt');
+  } catch (error) {
+    console.error('ODT parsing error:', error);
+    return {
+      success: false,
+      error: 'Failed to parse ODT document',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+// Converters for the formats stored as text
+const TEXT_CONVERTERS: Record<'rtf' | 'html' | 'markdown' | 'text', (source: string) => string> = {
+  rtf: rtfToText,
+  html: htmlToText,
+  markdown: markdownToText,
+  text: plainTextToText
+};
+
+/**
+ * Parse RTF, HTML, Markdown or plain text
+ */
+async function parseTextFormat(
+  buffer: Buffer,
+  fileName: string,
+  format: keyof typeof TEXT_CONVERTERS
+): Promise<DocumentParsingResult> {
+  try {
+    return textResult(TEXT_CONVERTERS[format](decodeText(buffer)), buffer, fileName, format);
+  } catch (error) {
+    console.error(`${DOCUMENT_FORMAT_LABELS[format]} parsing error:`, error);
+    return {
+      success: false,
+      error: `Failed to parse ${DOCUMENT_FORMAT_LABELS[format]} document`,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+const PARSERS: Record<DocumentFormat, (buffer: Buffer, fileName: string) => Promise<DocumentParsingResult>> = {
+  pdf: parsePDF,
+  docx: parseDOCX,
+  doc: parseDOC,
+  odt: parseODT,
+  rtf: (buffer, fileName) => parseTextFormat(buffer, fileName, 'rtf'),
+  html: (buffer, fileName) => parseTextFormat(buffer, fileName, 'html'),
+  markdown: (buffer, fileName) => parseTextFormat(buffer, fileName, 'markdown'),
+  text: (buffer, fileName) => parseTextFormat(buffer, fileName, 'text')
+};
+
+// What the upload claims to be, compared with the detected format for logging
+const DECLARED_FORMATS: Array<{ format: DocumentFormat; mimeTypes: string[]; extension: RegExp }> = [
+  { format: 'pdf', mimeTypes: ['application/pdf'], extension: /\.pdf$/i },
+  { format: 'docx', mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'], extension: /\.docx$/i },
+  { format: 'doc', mimeTypes: ['application/msword'], extension: /\.doc$/i },
+  { format: 'odt', mimeTypes: ['application/vnd.oasis.opendocument.text'], extension: /\.odt$/i },
+  { format: 'rtf', mimeTypes: ['application/rtf', 'text/rtf'], extension: /\.rtf$/i },
+  { format: 'html', mimeTypes: ['text/html', 'application/xhtml+xml'], extension: /\.x?html?$/i },
+  { format: 'markdown', mimeTypes: ['text/markdown', 'text/x-markdown'], extension: /\.(?:md|markdown)$/i },
+  { format: 'text', mimeTypes: ['text/plain'], extension: /\.txt$/i }
+];
+
+/**
+ * Main document parsing function that handles multiple file types.
+ * The format is detected from the content bytes rather than the MIME type or extension.
  */
 export async function parseDocument(
   file: File | Buffer, 
@@ -140,23 +414,29 @@ export async function parseDocument(
       };
     }
 
-    // Validate file type and parse accordingly
-    if (actualMimeType === 'application/pdf' || actualFileName.toLowerCase().endsWith('.pdf')) {
-      return await parsePDF(buffer, actualFileName);
-    } 
-    else if (
-      actualMimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || 
-      actualFileName.toLowerCase().endsWith('.docx')
-    ) {
-      return await parseDOCX(buffer, actualFileName);
-    }
-    else {
+    // The content decides the parser; a wrong MIME type or extension is only reported as a warning
+    const format = detectDocumentFormat(buffer, actualFileName);
+    if (!format) {
       return {
         success: false,
         error: 'Unsupported file type',
-        details: `Only PDF and DOCX files are supported. Received: ${actualMimeType}`
+        details: `Supported formats are PDF, DOCX, DOC, ODT, RTF, HTML, Markdown and plain text. Received: ${actualMimeType}`
       };
     }
+    const declared = DECLARED_FORMATS.find(entry =>
+      entry.mimeTypes.indexOf(actualMimeType) !== -1 || entry.extension.test(actualFileName)
+    );
+    const result = await PARSERS[format](buffer, actualFileName);
+    if (result.success) {
+      result.data.metadata.format = format;
+      if (declared && declared.format !== format) {
+        result.data.metadata.warnings = [
+          `File was declared as ${DOCUMENT_FORMAT_LABELS[declared.format]} but read as ${DOCUMENT_FORMAT_LABELS[format]}`,
+          ...(result.data.metadata.warnings || [])
+        ];
+      }
+    }
+    return result;
 
   } catch (error) {
     console.error('Document parsing error:', error);
@@ -170,91 +450,27 @@ export async function parseDocument(
 
 /**
  * Preprocess extracted text for analysis
- * - Normalize whitespace
- * - Remove excessive line breaks
- * - Clean up common PDF artifacts
+ * - Normalize whitespace while keeping paragraph breaks
+ * - Remove common PDF artifacts like page numbers
+ *
+ * Use `normalizeText` directly when offsets must be mapped back to the raw text.
  */
 export function preprocessText(text: string): string {
-  return text
-    // Normalize whitespace - replace multiple spaces with single space
-    .replace(/\s+/g, ' ')
-    // Remove excessive line breaks but preserve paragraph structure
-    .replace(/\n\s*\n\s*\n/g, '\n\n')
-    // Remove common PDF artifacts like page numbers and headers
-    .replace(/Page \d+ of \d+/gi, '')
-    .replace(/^\d+\s*$/gm, '') // Remove standalone page numbers
-    // Clean up bullet points and list formatting
-    .replace(/•\s+/g, '• ')
-    .replace(/◦\s+/g, '◦ ')
-    // Trim and ensure consistent spacing
-    .trim();
+  return normalizeText(text).text;
 }
 
 /**
- * Extract potential clause sections from text
- * This is a simple heuristic-based approach for MVP
+ * Extract clause sections from text using the document outline.
+ * Returns one entry per top-level article, section or schedule with exact offsets.
  */
 export function extractClauseSections(text: string): Array<{
   title: string;
   content: string;
   position: { start: number; end: number };
 }> {
-  const sections: Array<{
-    title: string;
-    content: string;
-    position: { start: number; end: number };
-  }> = [];
-
-  // Common section headers in NDAs
-  const sectionPatterns = [
-    /(\d+\.?\s*)?confidential\s+information/gi,
-    /(\d+\.?\s*)?definition\s+of\s+confidential/gi,
-    /(\d+\.?\s*)?duration\s+of\s+confidentiality/gi,
-    /(\d+\.?\s*)?term\s+of\s+agreement/gi,
-    /(\d+\.?\s*)?governing\s+law/gi,
-    /(\d+\.?\s*)?jurisdiction/gi,
-    /(\d+\.?\s*)?dispute\s+resolution/gi,
-  ];
-
-  for (const pattern of sectionPatterns) {
-    let match;
-    const matches: RegExpExecArray[] = [];
-    while ((match = pattern.exec(text)) !== null) {
-      matches.push(match);
-      // Reset pattern to avoid infinite loop
-      pattern.lastIndex = 0;
-      break; // Only get first match for each pattern
-    }
-    
-    for (const match of matches) {
-      if (match.index !== undefined) {
-        const start = match.index;
-        const title = match[0].trim();
-        
-        // Find the end of this section (next section or end of document)
-        let end = text.length;
-        const remainingText = text.slice(start + match[0].length);
-        
-        // Look for next section header
-        for (const nextPattern of sectionPatterns) {
-          const nextMatch = remainingText.search(nextPattern);
-          if (nextMatch !== -1 && nextMatch < end - start) {
-            end = start + match[0].length + nextMatch;
-          }
-        }
-        
-        // Extract content (limit to reasonable length)
-        const maxSectionLength = 1000;
-        const content = text.slice(start, Math.min(end, start + maxSectionLength)).trim();
-        
-        sections.push({
-          title,
-          content,
-          position: { start, end: Math.min(end, start + maxSectionLength) }
-        });
-      }
-    }
-  }
-
-  return sections;
-}
\ No newline at end of file
+  return parseOutline(text).map(node => ({
+    title: node.heading ? `${node.numbering} ${node.heading}` : node.numbering,
+    content: getNodeText(text, node),
+    position: { start: node.start, end: node.end }
+  }));
+}
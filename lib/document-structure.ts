@@ -0,0 +1,481 @@
+/**
+ * Structural outline parser for NDA documents.
+ *
+ * Turns the plain text returned by `parseDocument` into a tree of articles,
+ * numbered sections, sub-clauses and schedules. Every node carries the exact
+ * character offsets of the source text so callers can slice the original
+ * document without re-searching for it.
+ */
+
+export type OutlineNodeKind = 'article' | 'section' | 'subclause' | 'schedule';
+
+export type NumberingStyle =
+  | 'article'
+  | 'schedule'
+  | 'decimal'
+  | 'lower-alpha'
+  | 'upper-alpha'
+  | 'lower-roman'
+  | 'upper-roman'
+  | 'paren-decimal';
+
+export interface OutlineNode {
+  /** Stable, human-readable path such as "3.2(a)(iv)" or "Schedule 1" */
+  path: string;
+  kind: OutlineNodeKind;
+  style: NumberingStyle;
+  /** Numbering exactly as written in the document, e.g. "1.2", "(a)", "Schedule 1" */
+  numbering: string;
+  heading: string | null;
+  /** Depth in the tree, starting at 0 for top-level nodes */
+  level: number;
+  /** Offset of the numbering marker */
+  start: number;
+  /** Exclusive end offset, covering all children (trailing whitespace trimmed) */
+  end: number;
+  /** Offset where the body text starts (after marker and heading) */
+  bodyStart: number;
+  /** True when the marker appeared mid-paragraph, e.g. "including: (a) ...; (b) ..." */
+  inline: boolean;
+  children: OutlineNode[];
+}
+
+interface MarkerCandidate {
+  kind: OutlineNodeKind;
+  style: NumberingStyle;
+  /** Key used to decide sibling vs child relationships */
+  styleKey: string;
+  numbering: string;
+  /** Label without decoration: "1.2", "a", "iv", "1", "A" */
+  label: string;
+  start: number;
+  markerEnd: number;
+  lineEnd: number;
+}
+
+const ROMAN_VALUES: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100, d: 500, m: 1000 };
+
+function romanToNumber(value: string): number | null {
+  const lower = value.toLowerCase();
+  if (!/^[ivxlcdm]+$/.test(lower)) return null;
+
+  let total = 0;
+  for (let i = 0; i < lower.length; i++) {
+    const current = ROMAN_VALUES[lower[i]];
+    const next = ROMAN_VALUES[lower[i + 1]] || 0;
+    total += current < next ? -current : current;
+  }
+
+  // Reject malformed numerals such as "iiii" or "vx"
+  return numberToRoman(total) === lower ? total : null;
+}
+
+function numberToRoman(value: number): string {
+  const table: Array<[number, string]> = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']
+  ];
+  let remaining = value;
+  let result = '';
+  for (const [amount, numeral] of table) {
+    while (remaining >= amount) {
+      result += numeral;
+      remaining -= amount;
+    }
+  }
+  return result;
+}
+
+/**
+ * Ordinal value of a label within its numbering style (a = 1, iv = 4, ...)
+ */
+function labelOrdinal(label: string, style: NumberingStyle): number | null {
+  switch (style) {
+    case 'lower-alpha':
+    case 'upper-alpha':
+      return label.length === 1 ? label.toLowerCase().charCodeAt(0) - 96 : null;
+    case 'lower-roman':
+    case 'upper-roman':
+    case 'article':
+      return /^\d+$/.test(label) ? parseInt(label, 10) : romanToNumber(label);
+    case 'schedule':
+      if (/^\d+$/.test(label)) return parseInt(label, 10);
+      if (/^[A-Z]$/i.test(label)) return label.toLowerCase().charCodeAt(0) - 96;
+      return romanToNumber(label);
+    default: {
+      const parts = label.split('.');
+      return parseInt(parts[parts.length - 1], 10);
+    }
+  }
+}
+
+/**
+ * Resolve "(i)", "(v)", "(x)" etc. which may be either alphabetic or roman
+ */
+function resolveLetterStyle(label: string, stack: OutlineNode[]): NumberingStyle {
+  const isUpper = label === label.toUpperCase();
+  const alphaStyle: NumberingStyle = isUpper ? 'upper-alpha' : 'lower-alpha';
+  const romanStyle: NumberingStyle = isUpper ? 'upper-roman' : 'lower-roman';
+
+  if (romanToNumber(label) === null) return alphaStyle;
+  if (label.length > 1) return romanStyle;
+
+  // A single roman letter continues an alphabetic run when it is the next letter
+  const alphaSibling = [...stack].reverse().find(node => node.style === alphaStyle);
+  if (alphaSibling) {
+    const previous = labelOrdinal(alphaSibling.numbering.replace(/[()]/g, ''), alphaStyle);
+    const current = labelOrdinal(label, alphaStyle);
+    if (previous !== null && current === previous + 1) return alphaStyle;
+  }
+  return romanStyle;
+}
+
+const LINE_PREFIX = /^[ \t]*(?:#{1,6}[ \t]+)?(?:\*\*|__)?[ \t]*/;
+const ARTICLE_MARKER = /^(article|art\.)[ \t]+(\d{1,3}|[IVXLC]{1,7})\b\.?/i;
+const SCHEDULE_MARKER = /^(schedule|annex|appendix|exhibit)[ \t]+(\d{1,2}|[A-Z]|[IVX]{1,5})\b\.?/i;
+const SECTION_WORD_MARKER = /^(?:section|clause)[ \t]+(\d{1,3}(?:\.\d{1,3})*)\.?(?=[ \t]|$)/i;
+const DECIMAL_MARKER = /^(\d{1,3}(?:\.\d{1,3})*)(\.|\))?(?=[ \t]|$)/;
+const PAREN_MARKER = /^\(([a-z]{1,2}|[ivxlc]{1,6}|[A-Z]|[IVXLC]{1,6}|\d{1,2})\)(?=[ \t]|$)/;
+const HALF_PAREN_MARKER = /^([a-z]|[ivx]{1,5})\)(?=[ \t]|$)/;
+
+/**
+ * Recognise a numbering marker at the start of a line
+ */
+function matchLineMarker(
+  line: string,
+  lineStart: number,
+  stack: OutlineNode[]
+): MarkerCandidate | null {
+  const prefix = line.match(LINE_PREFIX)?.[0] ?? '';
+  const rest = line.slice(prefix.length);
+  const start = lineStart + prefix.length;
+  const lineEnd = lineStart + line.length;
+
+  let match = rest.match(ARTICLE_MARKER);
+  if (match) {
+    return {
+      kind: 'article', style: 'article', styleKey: 'article',
+      numbering: match[0].replace(/\.$/, ''), label: match[2],
+      start, markerEnd: start + match[0].length, lineEnd
+    };
+  }
+
+  match = rest.match(SCHEDULE_MARKER);
+  if (match && rest.length - match[0].length <= 100) {
+    return {
+      kind: 'schedule', style: 'schedule', styleKey: 'schedule',
+      numbering: match[0].replace(/\.$/, ''), label: match[2],
+      start, markerEnd: start + match[0].length, lineEnd
+    };
+  }
+
+  match = rest.match(SECTION_WORD_MARKER) || rest.match(DECIMAL_MARKER);
+  if (match) {
+    const label = match[1];
+    const depth = label.split('.').length;
+    // A bare integer needs a terminator ("1." / "1)") or a tab to count as numbering
+    const hasTerminator = Boolean(match[2]) || depth > 1 || /^(?:section|clause)/i.test(match[0]) ||
+      rest.charAt(match[0].length) === '\t';
+    if (hasTerminator && /\S/.test(rest.slice(match[0].length))) {
+      return {
+        kind: 'section', style: 'decimal', styleKey: `decimal-${depth}`,
+        numbering: label, label,
+        start, markerEnd: start + match[0].length, lineEnd
+      };
+    }
+  }
+
+  match = rest.match(PAREN_MARKER) || rest.match(HALF_PAREN_MARKER);
+  if (match) {
+    const label = match[1];
+    const style: NumberingStyle = /^\d+$/.test(label) ? 'paren-decimal' : resolveLetterStyle(label, stack);
+    return {
+      kind: 'subclause', style, styleKey: style,
+      numbering: match[0].startsWith('(') ? match[0] : `(${label})`, label,
+      start, markerEnd: start + match[0].length, lineEnd
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Check that a marker continues the numbering already on the stack.
+ * This filters out dates, amounts and cross-references that happen to start a line.
+ */
+function isPlausibleSequence(candidate: MarkerCandidate, stack: OutlineNode[], lastTopDecimal: number | null): boolean {
+  if (candidate.style === 'decimal') {
+    const parts = candidate.label.split('.').map(part => parseInt(part, 10));
+    if (parts.length === 1) {
+      return lastTopDecimal === null ? parts[0] <= 3 : parts[0] === lastTopDecimal + 1;
+    }
+    // "2.1" must sit under section 2 when section 2 exists
+    return lastTopDecimal === null || parts[0] === lastTopDecimal;
+  }
+
+  if (candidate.kind !== 'subclause') return true;
+
+  const ordinal = labelOrdinal(candidate.label, candidate.style);
+  if (ordinal === null) return false;
+  if (ordinal === 1) return true;
+
+  const sibling = [...stack].reverse().find(node => node.style === candidate.style && !node.inline);
+  if (!sibling) return false;
+  const previous = labelOrdinal(sibling.numbering.replace(/[()]/g, ''), sibling.style);
+  return previous !== null && ordinal === previous + 1;
+}
+
+/**
+ * Extract a heading that follows a numbering marker on the same line
+ */
+function extractHeading(text: string, candidate: MarkerCandidate): { heading: string | null; bodyStart: number } {
+  const lineRest = text.slice(candidate.markerEnd, candidate.lineEnd);
+  const leading = lineRest.match(/^[ \t]*(?:[-–—:.][ \t]*)?/)?.[0] ?? '';
+  const rawRest = lineRest.slice(leading.length);
+  const cleanRest = rawRest.replace(/(?:\*\*|__)\s*$/, '').replace(/^(?:\*\*|__)/, '').trim();
+  const contentStart = candidate.markerEnd + leading.length;
+
+  const skipToBody = (from: number) => {
+    const following = text.slice(from).match(/^(?:\*\*|__)?[ \t]*(?:\r?\n[ \t]*)*/)?.[0] ?? '';
+    return from + following.length;
+  };
+
+  if (!cleanRest) {
+    return { heading: null, bodyStart: skipToBody(candidate.lineEnd) };
+  }
+
+  // Whole line is an all-caps title: "1. DEFINITION OF CONFIDENTIAL INFORMATION"
+  const isAllCaps = /[A-Z]/.test(cleanRest) && cleanRest === cleanRest.toUpperCase() && cleanRest.length <= 100;
+  // Short unterminated line: "2. Term and Duration"
+  const isShortTitle = cleanRest.length <= 80 && !/[.;:,]$/.test(cleanRest) &&
+    cleanRest.split(/\s+/).length <= 10 && /^[A-Z"“]/.test(cleanRest);
+
+  if (isAllCaps || isShortTitle) {
+    return { heading: cleanRest.replace(/[.:]$/, ''), bodyStart: skipToBody(candidate.lineEnd) };
+  }
+
+  // Run-in heading: "4. Confidentiality. The Recipient shall ..."
+  const runIn = rawRest.match(
+    /^(?:\*\*|__)?([A-Z][\w'’\-]*(?:[ \t]+(?:[A-Z][\w'’\-]*|of|and|the|to|in|for|on|or|&)){0,7})(?:\*\*|__)?[.:](?:\*\*|__)?[ \t]+(?=["“(A-Z])/
+  );
+  if (runIn) {
+    return { heading: runIn[1], bodyStart: contentStart + runIn[0].length };
+  }
+
+  return { heading: null, bodyStart: contentStart };
+}
+
+/**
+ * Find inline enumerations such as "including: (a) ...; (b) ...; and (c) ..."
+ * Only consecutive runs of at least two items starting at (a), (i) or (1) are accepted.
+ */
+function findInlineEnumerations(
+  text: string,
+  from: number,
+  to: number,
+  parentPath: string,
+  level: number
+): OutlineNode[] {
+  const region = text.slice(from, to);
+  const pattern = /(^|[\s:;,—–-])\(([a-z]|[ivx]{1,5}|\d{1,2})\)(?=\s)/g;
+  const hits: Array<{ label: string; start: number; markerEnd: number }> = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(region)) !== null) {
+    const markerStart = from + match.index + match[1].length;
+    // Line-start markers are handled by the line pass
+    const lineStart = text.lastIndexOf('\n', markerStart - 1) + 1;
+    if (/^[ \t]*(?:[-*][ \t]+)?$/.test(text.slice(lineStart, markerStart))) continue;
+    hits.push({ label: match[2], start: markerStart, markerEnd: markerStart + match[2].length + 2 });
+  }
+
+  const styles: NumberingStyle[] = ['lower-alpha', 'lower-roman', 'paren-decimal'];
+  for (const style of styles) {
+    const run: typeof hits = [];
+    for (const hit of hits) {
+      const ordinal = style === 'paren-decimal'
+        ? (/^\d+$/.test(hit.label) ? parseInt(hit.label, 10) : null)
+        : labelOrdinal(hit.label, style);
+      if (ordinal === null) continue;
+      if (style === 'lower-alpha' && hit.label.length > 1) continue;
+      if (ordinal === run.length + 1) run.push(hit);
+    }
+
+    if (run.length >= 2) {
+      // Last item runs to the end of its paragraph
+      const paragraphEnd = text.slice(run[run.length - 1].markerEnd, to).search(/\n[ \t]*\n/);
+      const lastEnd = paragraphEnd === -1 ? to : run[run.length - 1].markerEnd + paragraphEnd;
+
+      return run.map((hit, index) => {
+        const rawEnd = index + 1 < run.length ? run[index + 1].start : lastEnd;
+        const bodyStart = hit.markerEnd + (text.slice(hit.markerEnd).match(/^\s*/)?.[0].length ?? 0);
+        return {
+          path: `${parentPath}(${hit.label})`,
+          kind: 'subclause' as const,
+          style,
+          numbering: `(${hit.label})`,
+          heading: null,
+          level,
+          start: hit.start,
+          end: trimEnd(text, hit.start, rawEnd),
+          bodyStart,
+          inline: true,
+          children: []
+        };
+      });
+    }
+  }
+
+  return [];
+}
+
+function trimEnd(text: string, start: number, end: number): number {
+  let trimmed = end;
+  while (trimmed > start && /[\s;,]/.test(text[trimmed - 1])) trimmed--;
+  // Drop a dangling conjunction left before the next item ("...; and (c)")
+  const tail = text.slice(start, trimmed).match(/[;,]?\s+(?:and|or)$/);
+  if (tail) trimmed -= tail[0].length;
+  return Math.max(trimmed, start);
+}
+
+function buildPath(candidate: MarkerCandidate, parent: OutlineNode | undefined): string {
+  if (candidate.kind === 'subclause') {
+    return `${parent ? parent.path : ''}(${candidate.label})`;
+  }
+  return candidate.numbering;
+}
+
+/**
+ * Parse document text into an outline tree with exact source offsets
+ */
+export function parseOutline(text: string): OutlineNode[] {
+  const roots: OutlineNode[] = [];
+  const stack: OutlineNode[] = [];
+  const allNodes: OutlineNode[] = [];
+  let lastTopDecimal: number | null = null;
+
+  const lineRegex = /[^\n]*(?:\n|$)/g;
+  let lineMatch: RegExpExecArray | null;
+
+  while ((lineMatch = lineRegex.exec(text)) !== null) {
+    if (lineMatch[0].length === 0) break;
+    const lineStart = lineMatch.index;
+    const line = lineMatch[0].replace(/\r?\n$/, '');
+
+    const candidate = matchLineMarker(line, lineStart, stack);
+    if (!candidate || !isPlausibleSequence(candidate, stack, lastTopDecimal)) continue;
+
+    // Schedules and articles always start a new top-level branch
+    if (candidate.kind === 'schedule' || candidate.kind === 'article') {
+      stack.length = 0;
+    } else {
+      const siblingIndex = stack.map(node => styleKeyOf(node)).lastIndexOf(candidate.styleKey);
+      if (siblingIndex !== -1) {
+        stack.length = siblingIndex;
+      } else if (candidate.style === 'decimal') {
+        // A deeper decimal ("2.1") nests under the closest shallower decimal
+        const depth = candidate.label.split('.').length;
+        while (stack.length > 0) {
+          const top = stack[stack.length - 1];
+          if (top.style === 'decimal' && top.numbering.split('.').length < depth) break;
+          if (top.kind === 'article' || top.kind === 'schedule') break;
+          stack.pop();
+        }
+      }
+    }
+
+    if (candidate.style === 'decimal' && candidate.label.split('.').length === 1) {
+      lastTopDecimal = parseInt(candidate.label, 10);
+    }
+
+    const parent = stack[stack.length - 1];
+    const { heading, bodyStart } = extractHeading(text, candidate);
+    const node: OutlineNode = {
+      path: buildPath(candidate, parent),
+      kind: candidate.kind,
+      style: candidate.style,
+      numbering: candidate.numbering,
+      heading,
+      level: stack.length,
+      start: candidate.start,
+      end: text.length,
+      bodyStart,
+      inline: false,
+      children: []
+    };
+
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+    stack.push(node);
+    allNodes.push(node);
+  }
+
+  assignEnds(text, roots, text.length);
+
+  // Second pass: inline enumerations inside each node's own body text
+  for (const node of allNodes) {
+    const ownBodyEnd = node.children.length > 0 ? node.children[0].start : node.end;
+    const inlineChildren = findInlineEnumerations(text, node.bodyStart, ownBodyEnd, node.path, node.level + 1);
+    if (inlineChildren.length > 0) {
+      node.children = [...inlineChildren, ...node.children];
+    }
+  }
+
+  return roots;
+}
+
+function styleKeyOf(node: OutlineNode): string {
+  return node.style === 'decimal' ? `decimal-${node.numbering.split('.').length}` : node.style;
+}
+
+function assignEnds(text: string, nodes: OutlineNode[], parentEnd: number): void {
+  nodes.forEach((node, index) => {
+    const rawEnd = index + 1 < nodes.length ? nodes[index + 1].start : parentEnd;
+    node.end = trimEnd(text, node.start, rawEnd);
+    assignEnds(text, node.children, node.end);
+  });
+}
+
+/**
+ * Depth-first list of all nodes in document order
+ */
+export function flattenOutline(nodes: OutlineNode[]): OutlineNode[] {
+  const result: OutlineNode[] = [];
+  const visit = (list: OutlineNode[]) => {
+    for (const node of list) {
+      result.push(node);
+      visit(node.children);
+    }
+  };
+  visit(nodes);
+  return result;
+}
+
+/**
+ * Deepest node containing the given offset
+ */
+export function findNodeAt(nodes: OutlineNode[], offset: number): OutlineNode | null {
+  for (const node of nodes) {
+    if (offset >= node.start && offset < node.end) {
+      return findNodeAt(node.children, offset) || node;
+    }
+  }
+  return null;
+}
+
+/**
+ * Full text of a node, including its marker, heading and children
+ */
+export function getNodeText(text: string, node: OutlineNode): string {
+  return text.slice(node.start, node.end);
+}
+
+/**
+ * Body text of a node (without marker and heading), including children
+ */
+export function getNodeBody(text: string, node: OutlineNode): string {
+  return text.slice(node.bodyStart, Math.max(node.bodyStart, node.end));
+}
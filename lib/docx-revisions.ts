@@ -0,0 +1,188 @@
+// lib/docx-revisions.ts
+// Tracked changes and margin comments read from the WordprocessingML of a DOCX file
+
+import JSZip from 'jszip';
+import { DOMParser } from '@xmldom/xmldom';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/** One tracked insertion or deletion */
+export interface DocumentRevision {
+  id: string;
+  type: 'insertion' | 'deletion';
+  author: string | null;
+  /** Date recorded by Word (ISO 8601), when present */
+  date: string | null;
+  text: string;
+  /** Span in the accepted text; empty for a deletion, at the point where the text was removed */
+  position: { start: number; end: number };
+  /** Span in the original text; empty for an insertion, at the point where the text was added */
+  originalPosition: { start: number; end: number };
+}
+
+/** A margin comment and the text range it is anchored to */
+export interface DocumentComment {
+  id: string;
+  author: string | null;
+  date: string | null;
+  text: string;
+  /** Commented range in the accepted text; empty when the comment marks a single point */
+  position: { start: number; end: number };
+  /** Accepted text within the commented range */
+  anchorText: string;
+}
+
+export interface DocxMarkup {
+  /** Text with all tracked changes accepted */
+  acceptedText: string;
+  /** Text with all tracked changes rejected, as it stood before the revisions */
+  originalText: string;
+  revisions: DocumentRevision[];
+  comments: DocumentComment[];
+}
+
+// Property blocks and field codes hold no document text
+const SKIPPED_ELEMENTS = new Set([
+  'pPr', 'rPr', 'sectPr', 'tblPr', 'tblGrid', 'trPr', 'tcPr', 'instrText', 'delInstrText',
+  'pPrChange', 'rPrChange', 'sectPrChange', 'tblPrChange', 'footnoteReference', 'endnoteReference'
+]);
+
+function childElements(element: Element): Element[] {
+  const children: Element[] = [];
+  for (let node = element.firstChild; node; node = node.nextSibling) {
+    if (node.nodeType === 1) children.push(node as Element);
+  }
+  return children;
+}
+
+function attribute(element: Element, name: string): string | null {
+  return element.getAttributeNS(W_NS, name) || null;
+}
+
+/** Whether a paragraph mark was itself inserted or deleted (paragraphs split or joined) */
+function paragraphMarkChange(paragraph: Element): 'insertion' | 'deletion' | null {
+  const properties = childElements(paragraph).find(child => child.localName === 'pPr');
+  const runProperties = properties && childElements(properties).find(child => child.localName === 'rPr');
+  if (!runProperties) return null;
+  const change = childElements(runProperties).find(child => child.localName === 'ins' || child.localName === 'del');
+  return change ? (change.localName === 'ins' ? 'insertion' : 'deletion') : null;
+}
+
+/** Plain text of a comment body, one line per paragraph */
+function commentText(comment: Element): string {
+  const paragraphs = comment.getElementsByTagNameNS(W_NS, 'p');
+  const lines: string[] = [];
+  for (let index = 0; index < paragraphs.length; index++) {
+    const runs = paragraphs[index].getElementsByTagNameNS(W_NS, 't');
+    let line = '';
+    for (let run = 0; run < runs.length; run++) line += runs[run].textContent || '';
+    lines.push(line);
+  }
+  return lines.join('\n').trim();
+}
+
+/**
+ * Read the document body twice over in one pass: the accepted text takes insertions and drops
+ * deletions, the original text does the opposite. Paragraphs end with a blank line, as in
+ * mammoth's raw text, so offsets line up with the rest of the parser output.
+ */
+export function readDocxMarkupXml(documentXml: string, commentsXml = ''): DocxMarkup {
+  const parse = (xml: string) => new DOMParser({ errorHandler: { warning: () => undefined } }).parseFromString(xml, 'text/xml');
+  let acceptedText = '';
+  let originalText = '';
+  const revisions: DocumentRevision[] = [];
+  const commentRanges = new Map<string, { start: number; end: number }>();
+
+  const append = (text: string, mode: 'insertion' | 'deletion' | null) => {
+    if (mode !== 'deletion') acceptedText += text;
+    if (mode !== 'insertion') originalText += text;
+  };
+
+  const walk = (element: Element, mode: 'insertion' | 'deletion' | null) => {
+    childElements(element).forEach(child => {
+      const name = child.localName;
+      if (child.namespaceURI !== W_NS) {
+        // Drawings can hold text boxes; mc:Fallback repeats the mc:Choice content for older readers
+        if (name !== 'Fallback') walk(child, mode);
+        return;
+      }
+      if (SKIPPED_ELEMENTS.has(name)) return;
+
+      if (name === 'p') {
+        walk(child, mode);
+        append('\n\n', paragraphMarkChange(child) || mode);
+      } else if (name === 'ins' || name === 'moveTo' || name === 'del' || name === 'moveFrom') {
+        const type = name === 'ins' || name === 'moveTo' ? 'insertion' : 'deletion';
+        const start = acceptedText.length;
+        const originalStart = originalText.length;
+        walk(child, type);
+        const text = type === 'insertion' ? acceptedText.slice(start) : originalText.slice(originalStart);
+        if (text.length > 0) {
+          revisions.push({
+            id: attribute(child, 'id') || String(revisions.length),
+            type,
+            author: attribute(child, 'author'),
+            date: attribute(child, 'date'),
+            text,
+            position: { start, end: acceptedText.length },
+            originalPosition: { start: originalStart, end: originalText.length }
+          });
+        }
+      } else if (name === 't' || name === 'delText') {
+        append(child.textContent || '', mode);
+      } else if (name === 'tab') {
+        append('\t', mode);
+      } else if (name === 'br' || name === 'cr') {
+        append('\n', mode);
+      } else if (name === 'noBreakHyphen') {
+        append('-', mode);
+      } else if (name === 'commentRangeStart') {
+        const id = attribute(child, 'id') || '';
+        commentRanges.set(id, { start: acceptedText.length, end: acceptedText.length });
+      } else if (name === 'commentRangeEnd') {
+        const range = commentRanges.get(attribute(child, 'id') || '');
+        if (range) range.end = acceptedText.length;
+      } else if (name === 'commentReference') {
+        // A comment without a range is anchored where its reference mark sits
+        const id = attribute(child, 'id') || '';
+        if (!commentRanges.has(id)) commentRanges.set(id, { start: acceptedText.length, end: acceptedText.length });
+      } else {
+        walk(child, mode);
+      }
+    });
+  };
+
+  const body = parse(documentXml).getElementsByTagNameNS(W_NS, 'body')[0];
+  if (body) walk(body, null);
+
+  const comments: DocumentComment[] = [];
+  if (commentsXml) {
+    const entries = parse(commentsXml).getElementsByTagNameNS(W_NS, 'comment');
+    for (let index = 0; index < entries.length; index++) {
+      const id = attribute(entries[index], 'id') || '';
+      const position = commentRanges.get(id);
+      // Comments on headers, footers or deleted content have no anchor in the body text
+      if (!position) continue;
+      comments.push({
+        id,
+        author: attribute(entries[index], 'author'),
+        date: attribute(entries[index], 'date'),
+        text: commentText(entries[index]),
+        position,
+        anchorText: acceptedText.slice(position.start, position.end)
+      });
+    }
+    comments.sort((a, b) => a.position.start - b.position.start);
+  }
+
+  return { acceptedText, originalText, revisions, comments };
+}
+
+/** Read tracked changes and comments from a DOCX file */
+export async function readDocxMarkup(buffer: Buffer): Promise<DocxMarkup> {
+  const zip = await JSZip.loadAsync(buffer);
+  const document = zip.file('word/document.xml');
+  if (!document) throw new Error('DOCX package has no word/document.xml');
+  const comments = zip.file('word/comments.xml');
+  return readDocxMarkupXml(await document.async('string'), comments ? await comments.async('string') : '');
+}
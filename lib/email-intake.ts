@@ -0,0 +1,161 @@
+// lib/email-intake.ts
+// Email intake: reads .eml and .msg messages, picks out NDA attachments and derives review details
+
+export type EmailFormat = 'eml' | 'msg';
+
+export interface EmailAttachment {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+  /** Shown in the message body (signature logos and the like) rather than attached */
+  inline: boolean;
+}
+
+export interface ParsedEmail {
+  format: EmailFormat;
+  from: { name: string | null; address: string | null };
+  subject: string;
+  /** Sent date, ISO 8601 */
+  date: string | null;
+  messageId: string | null;
+  /** Attachments, including those of forwarded messages */
+  attachments: EmailAttachment[];
+}
+
+// Compound File (OLE2) container; Outlook stores message properties in __substg1.0_ streams
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+// Forwarded messages are unpacked this many levels deep
+const MAX_FORWARD_DEPTH = 3;
+
+/**
+ * Detect an email from its content: Outlook .msg by its container and property streams,
+ * .eml by a header block that has From and one of the headers every sent message carries
+ */
+export function detectEmailFormat(buffer: Buffer): EmailFormat | null {
+  if (OLE_SIGNATURE.every((byte, index) => buffer[index] === byte)) {
+    return buffer.indexOf(Buffer.from('__substg1.0_', 'utf16le')) !== -1 ? 'msg' : null;
+  }
+
+  const head = buffer.subarray(0, 16384).toString('latin1').replace(/\r\n/g, '\n');
+  const headerEnd = head.indexOf('\n\n');
+  const headers = headerEnd === -1 ? head : head.slice(0, headerEnd);
+  if (!/^[\x21-\x39\x3b-\x7e]+:/.test(headers)) return null;
+  return /^from:/im.test(headers) && /^(?:subject|date|message-id|mime-version|received):/im.test(headers) ? 'eml' : null;
+}
+
+async function parseEml(buffer: Buffer, depth: number): Promise<ParsedEmail> {
+  const { simpleParser } = await import('mailparser');
+  const message = await simpleParser(buffer);
+  const from = message.from && message.from.value[0];
+
+  const attachments: EmailAttachment[] = [];
+  for (const attachment of message.attachments) {
+    const fileName = attachment.filename || 'attachment';
+    if (attachment.contentType === 'message/rfc822' && depth < MAX_FORWARD_DEPTH) {
+      attachments.push(...(await parseEml(attachment.content, depth + 1)).attachments);
+      continue;
+    }
+    attachments.push({
+      fileName,
+      contentType: attachment.contentType,
+      content: attachment.content,
+      // Only parts referenced from the HTML body; some clients mark real attachments inline too
+      inline: attachment.related === true
+    });
+  }
+
+  return {
+    format: 'eml',
+    from: { name: (from && from.name) || null, address: (from && from.address) || null },
+    subject: message.subject || '',
+    date: message.date ? message.date.toISOString() : null,
+    messageId: message.messageId || null,
+    attachments
+  };
+}
+
+async function parseMsg(buffer: Buffer, depth: number): Promise<ParsedEmail> {
+  const { default: MsgReader } = await import('@kenjiuno/msgreader');
+  const reader = new MsgReader(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length) as ArrayBuffer);
+  const message = reader.getFileData();
+  if (message.error) throw new Error(message.error);
+
+  const attachments: EmailAttachment[] = [];
+  for (const entry of message.attachments || []) {
+    const attachment = reader.getAttachment(entry);
+    const content = Buffer.from(attachment.content);
+    if (entry.innerMsgContent && depth < MAX_FORWARD_DEPTH) {
+      attachments.push(...(await parseMsg(content, depth + 1)).attachments);
+      continue;
+    }
+    attachments.push({
+      fileName: attachment.fileName || entry.fileName || 'attachment',
+      contentType: entry.attachMimeTag || 'application/octet-stream',
+      content,
+      inline: entry.attachmentHidden === true
+    });
+  }
+
+  // Outlook keeps the Internet headers of received mail, which carry the Message-ID
+  const messageId = message.headers ? /^message-id:\s*(<[^>\r\n]+>)/im.exec(message.headers) : null;
+  const sent = message.clientSubmitTime || message.messageDeliveryTime;
+  // Exchange senders have an X.500 address in senderEmail; only SMTP addresses are kept
+  const address = message.senderSmtpAddress || (message.senderEmail && message.senderEmail.indexOf('@') !== -1 ? message.senderEmail : null);
+  return {
+    format: 'msg',
+    from: { name: message.senderName || null, address },
+    subject: message.subject || '',
+    date: sent ? new Date(sent).toISOString() : null,
+    messageId: messageId ? messageId[1] : null,
+    attachments
+  };
+}
+
+/** Read the sender, subject and attachments of an .eml or .msg message */
+export async function parseEmail(buffer: Buffer): Promise<ParsedEmail> {
+  const format = detectEmailFormat(buffer);
+  if (!format) throw new Error('Not an .eml or .msg message');
+  return format === 'msg' ? parseMsg(buffer, 0) : parseEml(buffer, 0);
+}
+
+const NDA_NAME_PATTERN = /\b(?:m?nda|cda|non\s?disclosure|confidentiality|confidential\s+disclosure|secrecy)\b/i;
+// What an NDA says about itself, whatever its file is called
+const NDA_CONTENT_PATTERN = /\bconfidential\s+information\b|\bnon-?disclosure\s+agreement\b|\bconfidentiality\s+agreement\b/i;
+
+/**
+ * Whether a parsed attachment is likely an NDA: its file name says so, or its text uses the
+ * terms every NDA defines. Only the opening of the text is read, where those terms are introduced.
+ */
+export function isLikelyNdaAttachment(fileName: string, text: string): boolean {
+  return NDA_NAME_PATTERN.test(fileName.replace(/[_.\-]+/g, ' ')) || NDA_CONTENT_PATTERN.test(text.slice(0, 20000));
+}
+
+// Webmail domains say nothing about the sender's organisation
+const PERSONAL_EMAIL_DOMAINS = new Set([
+  'gmail', 'googlemail', 'outlook', 'hotmail', 'live', 'msn', 'yahoo', 'icloud', 'me', 'aol', 'proton', 'protonmail', 'gmx'
+]);
+
+/** Organisation name from a sender address: "legal@acme-corp.co.uk" gives "Acme Corp" */
+function organisationFromAddress(address: string): string | null {
+  const labels = address.slice(address.lastIndexOf('@') + 1).toLowerCase().split('.');
+  if (labels.length < 2) return null;
+  labels.pop();
+  // Second-level registries such as co.uk and com.sg
+  if (labels.length > 1 && /^(?:co|com|org|net|gov|ac|edu)$/.test(labels[labels.length - 1])) labels.pop();
+  const name = labels[labels.length - 1];
+  if (PERSONAL_EMAIL_DOMAINS.has(name)) return null;
+  return name.split(/[-_]+/).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+/**
+ * Client name and NDA title for a review created from an email attachment. The client is the
+ * sender's organisation (from the address domain), else the sender's name; the title is the
+ * subject without reply and forward prefixes, else the attachment name.
+ */
+export function emailReviewDefaults(email: ParsedEmail, attachmentName: string): { clientName: string; ndaTitle: string } {
+  const organisation = email.from.address ? organisationFromAddress(email.from.address) : null;
+  const clientName = organisation || email.from.name || email.from.address || 'Unknown sender';
+  const subject = email.subject.replace(/^(?:\s*(?:re|fwd?|aw|wg|tr)\s*:|\s*\[[^\]]*\])+\s*/i, '').trim();
+  const fileTitle = attachmentName.replace(/\.[a-z0-9]{1,5}$/i, '').replace(/[_]+/g, ' ').trim();
+  return { clientName: clientName.slice(0, 255), ndaTitle: (subject || fileTitle || 'NDA').slice(0, 255) };
+}
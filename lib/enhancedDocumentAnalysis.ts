@@ -5,7 +5,9 @@
 import { analyzeDocument as originalAnalyzeDocument } from './clause-matcher';
 import { advancedAnalysisEngine, type DocumentAnalysisResult, type AdvancedAnalysisResult } from './services/advancedAnalysisEngine';
 import { semanticIntegration } from './services/semanticIntegration';
-import type { AnalysisResult, ClauseMatch } from './clause-matcher';
+import type { AnalysisResult, ClauseMatch, MatchSpan } from './clause-matcher';
+import { locateOffset, findLowConfidencePages, type PageBoundary } from './text-normalization';
+import { getDetectionProfiles, getDetectionProfile } from './playbook/detection-profiles';
 import type { PartyPerspective } from '@/types';
 
 export interface EnhancedAnalysisResult extends AnalysisResult {
@@ -39,6 +41,7 @@ export async function analyzeDocumentWithSemantic(
     useHierarchicalRules?: boolean;
     enableMLScoring?: boolean;
     useAdvancedEngine?: boolean;
+    pages?: PageBoundary[];
   } = {}
 ): Promise<EnhancedAnalysisResult> {
   const startTime = Date.now();
@@ -48,7 +51,8 @@ export async function analyzeDocumentWithSemantic(
     fallbackToOriginal = true,
     useHierarchicalRules = true,
     enableMLScoring = true,
-    useAdvancedEngine = true
+    useAdvancedEngine = true,
+    pages
   } = options;
   
   let semanticDetectionUsed = false;
@@ -75,7 +79,7 @@ export async function analyzeDocumentWithSemantic(
         );
         
         // Convert to legacy format for backward compatibility
-        const legacyResult = await convertAdvancedToLegacy(advancedResult, documentText, partyPerspective);
+        const legacyResult = await convertAdvancedToLegacy(advancedResult, documentText, partyPerspective, pages);
         
         // Add enhanced metadata
         legacyResult.hierarchicalRulesUsed = true;
@@ -115,7 +119,7 @@ export async function analyzeDocumentWithSemantic(
         await semanticIntegration.initialize();
         
         // First try semantic analysis
-        const originalResult = await originalAnalyzeDocument(documentText, partyPerspective);
+        const originalResult = await originalAnalyzeDocument(documentText, partyPerspective, { pages });
         
         // Enhance the matches with semantic similarity
         const enhancedMatches = await semanticIntegration.enhanceClauseMatches(
@@ -125,10 +129,9 @@ export async function analyzeDocumentWithSemantic(
         );
         
         // Check for additional missing clauses using semantic detection
-        const expectedClauseTypes = [
-          'definition', 'duration', 'governing', 'permitted_use', 
-          'non_disclosure', 'return_of_info', 'no_license'
-        ];
+        const expectedClauseTypes = getDetectionProfiles()
+          .filter(profile => profile.semantic)
+          .map(profile => profile.key);
         
         const missingClauseDetection = await semanticIntegration.findMissingClauses(
           documentText,
@@ -156,7 +159,8 @@ export async function analyzeDocumentWithSemantic(
               // This is a new semantic detection
               additionalMatches.push({
                 clauseId: `semantic-${detection.clauseType}`,
-                clauseName: detection.clauseType.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
+                clauseName: getDetectionProfile(detection.clauseType)?.name ||
+                  detection.clauseType.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
                 ruleId: 'semantic-rule',
                 ruleType: 'starting_position' as const,
                 matchedText: 'Detected via semantic analysis',
@@ -190,6 +194,7 @@ export async function analyzeDocumentWithSemantic(
           missingClauses: updatedMissingClauses,
           overallScore: calculateEnhancedOverallScore(enhancedMatches, updatedMissingClauses.length),
           partyPerspective,
+          lowConfidencePages: originalResult.lowConfidencePages,
           semanticDetectionUsed,
           processingTime,
           semanticConfidenceScores,
@@ -201,21 +206,21 @@ export async function analyzeDocumentWithSemantic(
         
         if (fallbackToOriginal) {
           console.log('Falling back to original keyword-based analysis');
-          return await fallbackToOriginalAnalysis(documentText, partyPerspective, startTime);
+          return await fallbackToOriginalAnalysis(documentText, partyPerspective, startTime, pages);
         } else {
           throw semanticError;
         }
       }
     } else {
       // Use original analysis directly
-      return await fallbackToOriginalAnalysis(documentText, partyPerspective, startTime);
+      return await fallbackToOriginalAnalysis(documentText, partyPerspective, startTime, pages);
     }
   } catch (error) {
     console.error('Enhanced document analysis failed:', error);
     
     if (fallbackToOriginal) {
       console.log('Falling back to original analysis due to error');
-      return await fallbackToOriginalAnalysis(documentText, partyPerspective, startTime);
+      return await fallbackToOriginalAnalysis(documentText, partyPerspective, startTime, pages);
     } else {
       throw error;
     }
@@ -228,9 +233,10 @@ export async function analyzeDocumentWithSemantic(
 async function fallbackToOriginalAnalysis(
   documentText: string,
   partyPerspective: PartyPerspective,
-  startTime: number
+  startTime: number,
+  pages?: PageBoundary[]
 ): Promise<EnhancedAnalysisResult> {
-  const originalResult = await originalAnalyzeDocument(documentText, partyPerspective);
+  const originalResult = await originalAnalyzeDocument(documentText, partyPerspective, { pages });
   const processingTime = Date.now() - startTime;
   
   const semanticConfidenceScores: Record<string, number> = {};
@@ -290,13 +296,14 @@ function calculateEnhancedOverallScore(matches: any[], missingClausesCount: numb
  */
 export async function analyzeDocument(
   documentText: string, 
-  partyPerspective: PartyPerspective = 'receiving'
+  partyPerspective: PartyPerspective = 'receiving',
+  options: { pages?: PageBoundary[] } = {}
 ): Promise<AnalysisResult> {
   try {
     const enhancedResult = await analyzeDocumentWithSemantic(
       documentText, 
       partyPerspective, 
-      { fallbackToOriginal: true }
+      { fallbackToOriginal: true, pages: options.pages }
     );
     
     // Return in original format for backward compatibility
@@ -309,15 +316,21 @@ export async function analyzeDocument(
         matchedText: match.matchedText,
         matchedKeywords: match.matchedKeywords || [],
         confidenceScore: match.confidenceScore,
-        position: match.position
+        position: match.position,
+        spans: match.spans,
+        features: match.features,
+        riskLevel: match.riskLevel,
+        evidence: match.evidence,
+        lowConfidencePages: match.lowConfidencePages
       })),
       missingClauses: enhancedResult.missingClauses,
       overallScore: enhancedResult.overallScore,
-      partyPerspective: enhancedResult.partyPerspective
+      partyPerspective: enhancedResult.partyPerspective,
+      lowConfidencePages: enhancedResult.lowConfidencePages
     };
   } catch (error) {
     console.error('Enhanced analysis failed, using original:', error);
-    return await originalAnalyzeDocument(documentText, partyPerspective);
+    return await originalAnalyzeDocument(documentText, partyPerspective, options);
   }
 }
 
@@ -327,7 +340,8 @@ export async function analyzeDocument(
 async function convertAdvancedToLegacy(
   advancedResult: DocumentAnalysisResult,
   documentText: string,
-  partyPerspective: PartyPerspective
+  partyPerspective: PartyPerspective,
+  pages?: PageBoundary[]
 ): Promise<AnalysisResult> {
   const matches: ClauseMatch[] = [];
   const missingClauses: string[] = [];
@@ -336,6 +350,13 @@ async function convertAdvancedToLegacy(
     if (clause.match_type === 'missing') {
       missingClauses.push(clause.clause_name);
     } else {
+      let position: MatchSpan = { start: 0, end: 0 };
+      if (clause.detected_span) {
+        const location = locateOffset(documentText, clause.detected_span.start, pages);
+        position = { ...clause.detected_span, page: location.page, line: location.line };
+      }
+      const lowConfidencePages = findLowConfidencePages(pages, [position]);
+      
       matches.push({
         clauseId: clause.clause_id,
         clauseName: clause.clause_name,
@@ -344,7 +365,12 @@ async function convertAdvancedToLegacy(
         matchedText: clause.detected_text || 'Detected via advanced analysis',
         matchedKeywords: [], // Would need to extract from rule
         confidenceScore: clause.confidence_score,
-        position: { start: 0, end: 0 } // Would need to calculate from detected_text
+        position,
+        spans: clause.detected_span ? [position] : undefined,
+        ...(clause.extracted_features ? { features: clause.extracted_features } : {}),
+        // The engine already assessed exposure for clause types that support it
+        riskLevel: clause.risk_level,
+        ...(lowConfidencePages.length > 0 ? { lowConfidencePages } : {})
       });
     }
   });
@@ -353,7 +379,8 @@ async function convertAdvancedToLegacy(
     matches,
     missingClauses,
     overallScore: Math.round(advancedResult.overall_confidence * 100),
-    partyPerspective
+    partyPerspective,
+    lowConfidencePages: findLowConfidencePages(pages)
   };
 }
 
@@ -0,0 +1,63 @@
+// lib/extractors/__tests__/compelled-disclosure.test.ts
+// Compelled disclosure: notice, legal qualifier, protective order, minimum disclosure and regulatory carve-out
+
+import { extractCompelledDisclosure } from '../compelled-disclosure';
+import { describeFeatureGaps } from '..';
+
+const BANK_CLAUSE =
+  'If the Recipient is required by law, regulation, subpoena or court order to disclose any Confidential Information, it shall, ' +
+  'to the extent legally permitted, give the Company prompt written notice so that the Company may seek a protective order, and ' +
+  'shall disclose only that portion of the Confidential Information which it is legally required to disclose. Notwithstanding ' +
+  'the foregoing, no notice shall be required for disclosure to a banking regulator in the course of a routine supervisory ' +
+  'examination not targeted at the Company.';
+
+describe('extractCompelledDisclosure', () => {
+  it('finds every safeguard in a bank-friendly clause', () => {
+    expect(extractCompelledDisclosure(BANK_CLAUSE)).toEqual({
+      elements: {
+        prior_notice: true,
+        legally_permitted: true,
+        protective_order: true,
+        minimum_disclosure: true,
+        regulatory_carve_out: true
+      },
+      elementCount: 5,
+      missingElements: [],
+      cooperationAtDisclosersExpense: false
+    });
+  });
+
+  it('does not read a waiver of notice as a notice requirement', () => {
+    const features = extractCompelledDisclosure(
+      'The Recipient may disclose Confidential Information to any regulatory authority without notice to the Company.'
+    );
+
+    expect(features.elements.prior_notice).toBe(false);
+    expect(features.elements.regulatory_carve_out).toBe(true);
+  });
+
+  it('reads cooperation at the discloser\'s expense', () => {
+    const features = extractCompelledDisclosure(
+      'The Recipient shall promptly notify the Company of any such request and shall, at the Company\'s expense, cooperate ' +
+      'with the Company to resist or narrow the scope of the disclosure.'
+    );
+
+    expect(features.elements).toMatchObject({ prior_notice: true, legally_permitted: false, protective_order: true });
+    expect(features.cooperationAtDisclosersExpense).toBe(true);
+  });
+});
+
+describe('compelled disclosure gaps', () => {
+  it('reports the safeguards each party needs', () => {
+    const features = extractCompelledDisclosure(
+      'If the Recipient is required by law to disclose Confidential Information, it shall give the Company prompt written notice.'
+    );
+
+    expect(describeFeatureGaps('compelled_disclosure', { ...features }, 'disclosing')).toEqual([
+      'Missing compelled-disclosure safeguards: protective order cooperation, minimum disclosure'
+    ]);
+    expect(describeFeatureGaps('compelled_disclosure', { ...features }, 'receiving')).toEqual([
+      'Missing compelled-disclosure safeguards: "to the extent legally permitted" qualifier, regulatory examination carve-out'
+    ]);
+  });
+});
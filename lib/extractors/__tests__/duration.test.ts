@@ -0,0 +1,62 @@
+// lib/extractors/__tests__/duration.test.ts
+// Duration extraction: periods, triggers, survival and carve-outs
+
+import { extractDuration } from '../duration';
+
+describe('extractDuration', () => {
+  it('parses numbers written as words with numerals in brackets', () => {
+    const features = extractDuration(
+      'The obligations of the Receiving Party shall survive termination of this Agreement and continue for a period of five (5) years from the date of disclosure.'
+    );
+
+    expect(features).toMatchObject({
+      kind: 'fixed',
+      durationValue: 5,
+      durationUnit: 'years',
+      durationMonths: 60,
+      trigger: 'disclosure',
+      survivesTermination: true
+    });
+  });
+
+  it('normalizes months and picks the effective date trigger', () => {
+    const features = extractDuration('This Agreement remains in force for twenty-four (24) months from the Effective Date.');
+    expect(features).toMatchObject({ kind: 'fixed', durationValue: 24, durationUnit: 'months', durationMonths: 24, trigger: 'effective_date' });
+  });
+
+  it('detects perpetual and until-termination terms', () => {
+    expect(extractDuration('Confidentiality obligations shall continue in perpetuity.').kind).toBe('perpetual');
+    expect(extractDuration('The obligations remain in effect indefinitely.').kind).toBe('perpetual');
+
+    const untilTermination = extractDuration('This Agreement shall remain in effect until the termination of the business relationship.');
+    expect(untilTermination).toMatchObject({ kind: 'until_event', trigger: 'termination' });
+  });
+
+  it('prefers the confidentiality period over the agreement term', () => {
+    const features = extractDuration(
+      'This Agreement remains in force for two (2) years from the Effective Date. The confidentiality obligations shall survive for a period of three (3) years following termination.'
+    );
+    expect(features).toMatchObject({ durationMonths: 36, trigger: 'termination', survivesTermination: true });
+  });
+
+  it('reports trade secret carve-outs separately from the main term', () => {
+    const features = extractDuration(
+      'Confidentiality obligations shall continue for 7 years, except for trade secrets which shall remain confidential indefinitely.'
+    );
+
+    expect(features.durationMonths).toBe(84);
+    expect(features.tradeSecretsIndefinite).toBe(true);
+    expect(features.carveOuts).toEqual([
+      expect.objectContaining({ subject: 'trade_secrets', kind: 'perpetual', durationMonths: null })
+    ]);
+  });
+
+  it('returns unspecified when no term is stated', () => {
+    expect(extractDuration('The Receiving Party shall protect the Confidential Information.')).toMatchObject({
+      kind: 'unspecified',
+      durationMonths: null,
+      trigger: null,
+      carveOuts: []
+    });
+  });
+});
@@ -0,0 +1,66 @@
+// lib/extractors/__tests__/governing-law.test.ts
+// Governing law and forum extraction with canonical jurisdiction ids
+
+import { extractGoverningLaw } from '../governing-law';
+import { findJurisdiction } from '../jurisdictions';
+
+describe('findJurisdiction', () => {
+  it('normalizes names to canonical ids, preferring the most specific', () => {
+    expect(findJurisdiction('the State of New York, United States')?.id).toBe('US-NY');
+    expect(findJurisdiction('England and Wales')?.id).toBe('GB-ENG');
+    expect(findJurisdiction('the Republic of Singapore')?.id).toBe('SG');
+    expect(findJurisdiction('the parties')).toBeNull();
+  });
+});
+
+describe('extractGoverningLaw', () => {
+  it('extracts law, courts and exclusivity', () => {
+    const features = extractGoverningLaw(
+      'This Agreement shall be governed by and construed in accordance with the laws of the State of New York. ' +
+      'The parties submit to the exclusive jurisdiction of the state and federal courts located in New York County.'
+    );
+
+    expect(features).toMatchObject({
+      governingLaw: 'US-NY',
+      forumType: 'courts',
+      courtJurisdiction: 'US-NY',
+      jurisdictionExclusivity: 'exclusive',
+      arbitralInstitution: null
+    });
+  });
+
+  it('extracts arbitration institution, seat and tribunal size', () => {
+    const features = extractGoverningLaw(
+      'This Agreement is governed by Singapore law. Any dispute shall be finally resolved by arbitration administered by ' +
+      'the Singapore International Arbitration Centre. The seat of arbitration shall be Singapore. ' +
+      'The tribunal shall consist of three (3) arbitrators.'
+    );
+
+    expect(features).toMatchObject({
+      governingLaw: 'SG',
+      forumType: 'arbitration',
+      arbitralInstitution: 'SIAC',
+      arbitrationSeat: 'SG',
+      arbitratorCount: 3
+    });
+  });
+
+  it('keeps tiered dispute resolution in order and reads non-exclusive jurisdiction', () => {
+    const tiered = extractGoverningLaw(
+      'The parties shall first attempt mediation. Failing settlement, disputes shall be resolved by arbitration under the ICC Rules ' +
+      'by a sole arbitrator seated in Hong Kong. Hong Kong law shall govern this Agreement.'
+    );
+    expect(tiered).toMatchObject({
+      governingLaw: 'HK',
+      forumTypes: ['mediation', 'arbitration'],
+      arbitralInstitution: 'ICC',
+      arbitrationSeat: 'HK',
+      arbitratorCount: 1
+    });
+
+    const english = extractGoverningLaw(
+      'This Agreement shall be governed by the laws of England and Wales and the parties submit to the non-exclusive jurisdiction of the English courts.'
+    );
+    expect(english).toMatchObject({ governingLaw: 'GB-ENG', courtJurisdiction: 'GB-ENG', jurisdictionExclusivity: 'non_exclusive' });
+  });
+});
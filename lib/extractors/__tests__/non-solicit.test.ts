@@ -0,0 +1,57 @@
+// lib/extractors/__tests__/non-solicit.test.ts
+// Non-solicitation and no-hire covenants: period, covered people and carve-outs
+
+import { extractNonSolicit } from '../non-solicit';
+
+describe('extractNonSolicit', () => {
+  it('extracts a narrow covenant with standard carve-outs', () => {
+    const features = extractNonSolicit(
+      'For a period of eighteen (18) months from the date of this Agreement, the Recipient shall not, directly or indirectly, ' +
+      'solicit for employment or hire any officer or key employee of the Company with whom the Recipient first had contact ' +
+      'in connection with its evaluation of the Transaction; provided, however, that the foregoing shall not restrict general ' +
+      'solicitations of employment not specifically directed at such persons, or the hiring of any person who contacts the ' +
+      'Recipient on his or her own initiative, or any person whose employment with the Company was terminated at least six (6) months prior.'
+    );
+
+    expect(features).toMatchObject({
+      covenants: ['non_solicit', 'no_hire'],
+      durationMonths: 18,
+      coveredPersons: 'due_diligence_contacts',
+      carveOuts: { general_advertisement: true, unsolicited_approach: true, terminated_employees: true },
+      carveOutCount: 3,
+      missingCarveOuts: []
+    });
+  });
+
+  it('reads "any employee, officer or director" as all employees', () => {
+    const features = extractNonSolicit(
+      'The Receiving Party shall not, for two years, solicit, induce or encourage any employee, officer or director of the ' +
+      'Disclosing Party to leave its employment, whether solicited or unsolicited.'
+    );
+
+    expect(features).toMatchObject({
+      hasNonSolicit: true,
+      hasNoHire: false,
+      durationMonths: 24,
+      coveredPersons: 'all_employees',
+      carveOutCount: 0
+    });
+  });
+
+  it('limits coverage to key employees and leaves the period unset when none is stated', () => {
+    const features = extractNonSolicit('The Recipient shall not hire any senior management employee of the Company.');
+
+    expect(features).toMatchObject({ hasNoHire: true, coveredPersons: 'key_employees', durationMonths: null });
+  });
+
+  it('does not take the period from a carve-out', () => {
+    const features = extractNonSolicit(
+      'Neither party shall solicit any of the other party\'s employees during the term of this Agreement, ' +
+      'except any person who ceased to be employed by that party at least six (6) months earlier.'
+    );
+
+    expect(features.durationMonths).toBeNull();
+    expect(features.coveredPersons).toBe('all_employees');
+    expect(features.carveOuts.terminated_employees).toBe(true);
+  });
+});
@@ -0,0 +1,72 @@
+// lib/extractors/__tests__/personal-data.test.ts
+// Personal data scope, data-protection regimes and obligations, and the no-terms mismatch
+
+import { extractPersonalData } from '../personal-data';
+import { describeFeatureGaps } from '..';
+
+describe('extractPersonalData', () => {
+  it('finds regimes, obligations and the breach notification deadline', () => {
+    const features = extractPersonalData(
+      'The Recipient shall process personal data only on the documented instructions of the Company and in compliance ' +
+      'with the PDPA and the GDPR. The Recipient shall implement appropriate technical and organisational measures to ' +
+      'protect such personal data and shall not transfer it outside Singapore without prior written consent. The ' +
+      'Recipient shall notify the Company within seventy-two (72) hours of becoming aware of any personal data breach.'
+    );
+
+    expect(features.personalDataInScope).toBe(true);
+    expect(features.regimes).toEqual({ pdpa: true, gdpr: true, ccpa: false, data_protection_laws: false });
+    expect(features.obligationCount).toBe(4);
+    expect(features.breachNotificationHours).toBe(72);
+    expect(features.protectionMismatch).toBe(false);
+  });
+
+  it('converts a breach notice period in days to hours', () => {
+    const features = extractPersonalData(
+      'Each party shall comply with applicable data protection laws and shall inform the other party of any ' +
+      'unauthorised access to personal data within two (2) days.'
+    );
+
+    expect(features.regimes.data_protection_laws).toBe(true);
+    expect(features.obligations.breach_notification).toBe(true);
+    expect(features.breachNotificationHours).toBe(48);
+    expect(features.missingObligations).toEqual(['security_measures', 'transfer_restrictions', 'processor_terms']);
+  });
+
+  it('flags personal data in scope with no data-protection terms', () => {
+    const features = extractPersonalData(
+      'Confidential Information includes employee records, payroll information and customer details of the Company.'
+    );
+
+    expect(features.personalDataInScope).toBe(true);
+    expect(features.protectionMismatch).toBe(true);
+    expect(describeFeatureGaps('personal_data', { ...features }, 'receiving'))
+      .toEqual(['Personal data is in scope but no data-protection terms apply']);
+  });
+
+  it('does not treat people or information categories named in passing as personal data', () => {
+    [
+      'The Recipient may disclose Confidential Information only to its employees who need to know the Confidential Information.',
+      'Confidential Information includes customer, supplier, employee, and strategic information.',
+      'Confidential Information includes employee information and business plans.'
+    ].forEach(text => {
+      const features = extractPersonalData(text);
+      expect(features.personalDataInScope).toBe(false);
+      expect(features.protectionMismatch).toBe(false);
+    });
+  });
+
+  it('treats PII or a named regime as personal data in scope', () => {
+    expect(extractPersonalData('Confidential Information includes PII of the Company\'s users.').personalDataInScope).toBe(true);
+    expect(extractPersonalData('Each party shall comply with the GDPR in handling Confidential Information.').personalDataInScope).toBe(true);
+  });
+
+  it('keeps excluded personal data and related customer records out of scope', () => {
+    const features = extractPersonalData(
+      'Customer data limited to transaction volumes (excluding personally identifiable information).'
+    );
+
+    expect(features.personalDataInScope).toBe(false);
+    expect(features.personalDataExcluded).toBe(true);
+    expect(features.protectionMismatch).toBe(false);
+  });
+});
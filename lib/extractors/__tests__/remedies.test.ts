@@ -0,0 +1,68 @@
+// lib/extractors/__tests__/remedies.test.ts
+// Remedies and liability: indemnities, liquidated damages, liability limits, injunctive relief and their risk per party
+
+import { extractRemedies, assessRemediesRisk } from '../remedies';
+
+describe('extractRemedies', () => {
+  it('classifies an indemnity with unlimited liability and injunctive relief without bond', () => {
+    const features = extractRemedies(
+      'The Recipient shall indemnify and hold harmless the Company from any loss arising from a breach of this Agreement, ' +
+      'and the Recipient\'s liability under this Agreement shall not be limited. The Recipient acknowledges that a breach would ' +
+      'cause irreparable harm and that the Company shall be entitled to injunctive relief without the necessity of posting a bond.'
+    );
+
+    expect(features).toMatchObject({
+      indemnity: true,
+      indemnityBy: 'recipient',
+      liabilityCap: 'uncapped',
+      injunctiveRelief: true,
+      injunctionWithoutBond: true,
+      irreparableHarmAcknowledged: true,
+      exposures: ['recipient_indemnity', 'uncapped_liability', 'injunction_without_bond']
+    });
+  });
+
+  it('reads liquidated damages and a liability cap with their amounts', () => {
+    const features = extractRemedies(
+      'In the event of any unauthorised disclosure the Recipient shall pay liquidated damages of USD 250,000 per breach. ' +
+      'The aggregate liability of either party under this Agreement shall not exceed $1 million, and in no event shall either ' +
+      'party be liable for indirect or consequential loss.'
+    );
+
+    expect(features).toMatchObject({
+      liquidatedDamages: true,
+      liquidatedDamagesAmount: 250000,
+      liabilityCap: 'capped',
+      liabilityCapAmount: 1000000,
+      consequentialDamagesExcluded: true,
+      injunctiveRelief: false
+    });
+  });
+
+  it('names the indemnifying party in mutual and passive wording', () => {
+    expect(extractRemedies('Each party shall indemnify the other against losses from its breach.').indemnityBy).toBe('mutual');
+    expect(extractRemedies('The Recipient shall be indemnified by the Disclosing Party against third-party claims.').indemnityBy).toBe('discloser');
+  });
+});
+
+describe('assessRemediesRisk', () => {
+  it('scores the same provisions differently for each party', () => {
+    const features = extractRemedies(
+      'The Recipient shall indemnify the Company against all losses. The Recipient shall pay liquidated damages of $100,000 for each breach.'
+    );
+
+    expect(assessRemediesRisk(features, 'receiving')).toBe(5);
+    expect(assessRemediesRisk(features, 'disclosing')).toBe(3);
+    expect(assessRemediesRisk(features, 'mutual')).toBe(5);
+  });
+
+  it('rates a plain injunctive relief acknowledgement as low risk for both sides', () => {
+    const features = extractRemedies(
+      'Each party acknowledges that damages may not be an adequate remedy and that the other party may seek injunctive relief.'
+    );
+
+    expect(features.exposureCount).toBe(0);
+    expect(assessRemediesRisk(features, 'receiving')).toBe(1);
+    expect(assessRemediesRisk(features, 'disclosing')).toBe(1);
+  });
+});
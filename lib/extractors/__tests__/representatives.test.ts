@@ -0,0 +1,62 @@
+// lib/extractors/__tests__/representatives.test.ts
+// Representatives and permitted disclosees: categories and the conditions attached to each
+
+import { extractRepresentatives } from '../representatives';
+
+describe('extractRepresentatives', () => {
+  it('lists permitted categories with their conditions', () => {
+    const features = extractRepresentatives(
+      '"Representatives" means the Recipient\'s affiliates and its and their directors, officers, employees, legal, financial ' +
+      'and accounting advisers and, with the prior written consent of the Company, its financing sources, in each case who ' +
+      'need to know the Confidential Information for the Purpose. The Recipient shall be responsible for any breach of this ' +
+      'Agreement by its Representatives.'
+    );
+
+    expect(features.permittedCategories).toEqual(['personnel', 'affiliates', 'advisers', 'financing_sources']);
+    expect(features.missingCategories).toEqual(['co_investors', 'insurers']);
+    expect(features.categories.financing_sources).toEqual({
+      permitted: true,
+      needToKnow: true,
+      writtenUndertaking: false,
+      consentRequired: true,
+      recipientLiable: true
+    });
+    expect(features.categories.advisers.consentRequired).toBe(false);
+    expect(features.recipientLiable).toBe(true);
+  });
+
+  it('reads "other than" after a prohibition as permission', () => {
+    const features = extractRepresentatives(
+      'The Recipient shall not disclose any Confidential Information to any person other than its advisers and insurers, ' +
+      'each of whom shall first sign a written confidentiality undertaking.'
+    );
+
+    expect(features.permittedCategories).toEqual(['advisers', 'insurers']);
+    expect(features.categories.advisers.writtenUndertaking).toBe(true);
+    expect(features.categories.insurers.writtenUndertaking).toBe(true);
+  });
+
+  it('does not permit excluded or prohibited categories', () => {
+    const features = extractRepresentatives(
+      'Representatives means the directors, officers and advisers of the Recipient, excluding any co-investors. ' +
+      'The Recipient shall not disclose Confidential Information to lenders.'
+    );
+
+    expect(features.categories.co_investors.permitted).toBe(false);
+    expect(features.categories.financing_sources.permitted).toBe(false);
+    expect(features.permittedCategories).toEqual(['personnel', 'advisers']);
+  });
+
+  it('returns nothing permitted for empty text', () => {
+    const features = extractRepresentatives('');
+
+    expect(features.permittedCount).toBe(0);
+    expect(features.categories.affiliates).toEqual({
+      permitted: false,
+      needToKnow: false,
+      writtenUndertaking: false,
+      consentRequired: false,
+      recipientLiable: false
+    });
+  });
+});
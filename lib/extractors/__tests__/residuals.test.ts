@@ -0,0 +1,58 @@
+// lib/extractors/__tests__/residuals.test.ts
+// Residuals clauses: unaided memory, general skills and the limits that narrow them
+
+import { extractResiduals, assessResidualsRisk } from '../residuals';
+import { describeFeatureGaps } from '..';
+
+describe('extractResiduals', () => {
+  it('extracts an unaided-memory residuals clause with every limit', () => {
+    const features = extractResiduals(
+      'Nothing in this Agreement shall restrict the Recipient from using Residuals, meaning information retained in the unaided ' +
+      'memory of its employees, provided that no person shall intentionally memorize Confidential Information for the purpose of ' +
+      'retaining it. This section does not grant any license under any patents or copyrights of the Company, does not apply to ' +
+      'source code, and shall not permit the Recipient to disclose the source of any Residuals.'
+    );
+
+    expect(features).toEqual({
+      hasResiduals: true,
+      unaidedMemory: true,
+      generalSkills: false,
+      limits: { no_patent_licence: true, no_source_code: true, no_deliberate_memorisation: true, no_disclosure: true },
+      limitCount: 4,
+      missingLimits: []
+    });
+    expect(assessResidualsRisk(features, 'disclosing')).toBe(3);
+  });
+
+  it('recognises the general skills and know-how variant without limits', () => {
+    const features = extractResiduals(
+      'The Recipient shall be free to use the general skills, know-how and experience acquired by its personnel during the evaluation.'
+    );
+
+    expect(features).toMatchObject({ hasResiduals: true, generalSkills: true, unaidedMemory: false, limitCount: 0 });
+    expect(assessResidualsRisk(features, 'disclosing')).toBe(5);
+    expect(assessResidualsRisk(features, 'receiving')).toBe(1);
+    expect(assessResidualsRisk(features, 'mutual')).toBe(3);
+  });
+
+  it('does not read ordinary confidentiality text as residuals', () => {
+    const features = extractResiduals(
+      'The Recipient shall hold the Confidential Information in confidence and shall not use it for any purpose other than the Transaction.'
+    );
+
+    expect(features.hasResiduals).toBe(false);
+    expect(features.missingLimits).toHaveLength(4);
+    expect(describeFeatureGaps('residuals', { ...features }, 'disclosing')).toEqual([]);
+  });
+
+  it('reports missing limits to the disclosing party only', () => {
+    const features = extractResiduals(
+      'Either party may use Residuals retained in the unaided memory of its personnel, but this does not apply to source code.'
+    );
+
+    expect(describeFeatureGaps('residuals', { ...features }, 'disclosing')).toEqual([
+      'Missing residuals limits: no patent or copyright licence, no deliberate memorisation, no disclosure of residuals'
+    ]);
+    expect(describeFeatureGaps('residuals', { ...features }, 'receiving')).toEqual([]);
+  });
+});
@@ -0,0 +1,69 @@
+// lib/extractors/__tests__/return-of-info.test.ts
+// Return-or-destroy obligations: triggers, deadline, certification and retention carve-outs
+
+import { extractReturnOfInfo } from '../return-of-info';
+
+describe('extractReturnOfInfo', () => {
+  it('extracts a recipient-friendly clause with every retention carve-out', () => {
+    const features = extractReturnOfInfo(
+      'Upon the written request of the Company, or if the Recipient decides not to proceed with the Transaction, the Recipient ' +
+      'shall within ten (10) business days return or destroy all Confidential Information and certify such destruction in writing. ' +
+      'Notwithstanding the foregoing, the Recipient may retain copies to the extent required by applicable law or regulation, ' +
+      'need not delete electronic copies created pursuant to automatic back-up procedures, and may retain board papers ' +
+      'that reflect Confidential Information.'
+    );
+
+    expect(features).toEqual({
+      obligation: 'return_or_destroy',
+      triggers: { on_request: true, on_termination: false, deal_abandonment: true },
+      triggerCount: 2,
+      deadlineDays: 10,
+      certificationRequired: true,
+      retentionCarveOuts: { automatic_backups: true, legal_retention: true, board_papers: true },
+      retentionCarveOutCount: 3,
+      missingRetentionCarveOuts: []
+    });
+  });
+
+  it('extracts a strict return obligation on termination', () => {
+    const features = extractReturnOfInfo(
+      'Upon termination of services, all confidential information and copies thereof shall be returned to RegionalBank within thirty (30) days.'
+    );
+
+    expect(features).toMatchObject({
+      obligation: 'return',
+      triggers: { on_request: false, on_termination: true, deal_abandonment: false },
+      deadlineDays: 30,
+      certificationRequired: false,
+      retentionCarveOutCount: 0,
+      missingRetentionCarveOuts: ['automatic_backups', 'legal_retention', 'board_papers']
+    });
+  });
+
+  it('reads the end of discussions as deal abandonment, not termination', () => {
+    const features = extractReturnOfInfo(
+      'Following the termination of discussions regarding the Transaction, the Recipient shall promptly destroy all Evaluation Material.'
+    );
+
+    expect(features.obligation).toBe('destroy');
+    expect(features.triggers).toEqual({ on_request: false, on_termination: false, deal_abandonment: true });
+    expect(features.deadlineDays).toBeNull();
+  });
+
+  it('converts a deadline in weeks to days and ignores periods that are not deadlines', () => {
+    const features = extractReturnOfInfo(
+      'Within two weeks after the Company so requests, the Recipient shall return all materials, and this obligation shall survive for three years.'
+    );
+
+    expect(features.deadlineDays).toBe(14);
+    expect(features.triggers.on_request).toBe(true);
+  });
+
+  it('does not treat a waived certification as required', () => {
+    const features = extractReturnOfInfo(
+      'The Recipient shall destroy the Confidential Information on request but shall not be required to certify such destruction.'
+    );
+
+    expect(features.certificationRequired).toBe(false);
+  });
+});
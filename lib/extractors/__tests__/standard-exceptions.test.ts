@@ -0,0 +1,59 @@
+// lib/extractors/__tests__/standard-exceptions.test.ts
+// Standard exceptions checklist: granted, narrowed, negated and missing exceptions
+
+import { extractStandardExceptions } from '../standard-exceptions';
+import { describeFeatureGaps } from '..';
+
+const FULL_EXCEPTIONS =
+  '"Confidential Information" shall not include information that: (a) is or becomes publicly available through no fault of the Receiving Party; ' +
+  '(b) was already known to the Receiving Party prior to disclosure as evidenced by written records; ' +
+  '(c) is independently developed by the Receiving Party without use of the Confidential Information; ' +
+  '(d) is rightfully received from a third party without restriction; or ' +
+  '(e) is required to be disclosed by law, provided that the Receiving Party gives prompt notice so that the Disclosing Party may seek a protective order.';
+
+describe('extractStandardExceptions', () => {
+  it('reports each exception individually, with inline and proviso narrowing', () => {
+    const features = extractStandardExceptions(FULL_EXCEPTIONS);
+
+    expect(features.exceptions).toEqual({
+      public_domain: 'present',
+      already_known: 'narrowed',
+      independently_developed: 'present',
+      third_party: 'present',
+      compelled_by_law: 'narrowed'
+    });
+    expect(features).toMatchObject({ presentCount: 5, missingCount: 0, missing: [], narrowed: ['already_known', 'compelled_by_law'] });
+  });
+
+  it('narrows an exception that a later proviso limits', () => {
+    const features = extractStandardExceptions(
+      'Confidential Information excludes information that is in the public domain or independently developed, ' +
+      'provided that information shall not be deemed public merely because individual features are publicly available.'
+    );
+
+    expect(features.exceptions.public_domain).toBe('narrowed');
+    expect(features.exceptions.independently_developed).toBe('present');
+    expect(features.missing).toEqual(['already_known', 'third_party', 'compelled_by_law']);
+  });
+
+  it('treats exceptions pulled back into the definition as negated', () => {
+    const features = extractStandardExceptions(
+      'All information disclosed, whether or not publicly available, shall be deemed Confidential Information, ' +
+      'including information independently developed by the Receiving Party.'
+    );
+
+    expect(features.exceptions.public_domain).toBe('negated');
+    expect(features.exceptions.independently_developed).toBe('negated');
+    expect(features.presentCount).toBe(0);
+  });
+
+  it('lists missing and narrowed exceptions as suggestion gaps', () => {
+    const features = extractStandardExceptions('Confidential Information does not include information that is publicly available as evidenced by written records.');
+
+    expect(describeFeatureGaps('definition', { ...features })).toEqual([
+      'Missing standard exceptions: already known, independently developed, received from a third party, compelled by law',
+      'Narrowed standard exceptions: public domain'
+    ]);
+    expect(describeFeatureGaps('duration', { ...features })).toEqual([]);
+  });
+});
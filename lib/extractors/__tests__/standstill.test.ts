@@ -0,0 +1,64 @@
+// lib/extractors/__tests__/standstill.test.ts
+// Standstill provisions: period, ownership cap, fall-away triggers and "don't ask, don't waive"
+
+import { extractStandstill } from '../standstill';
+
+describe('extractStandstill', () => {
+  it('extracts a buyer-friendly standstill with both fall-aways', () => {
+    const features = extractStandstill(
+      'For a period of twelve (12) months from the date of this Agreement, the Recipient shall not, directly or indirectly, ' +
+      '(i) acquire or offer to acquire beneficial ownership of more than 4.9% of the outstanding voting securities of the Company; ' +
+      'or (ii) commence any tender offer or exchange offer for securities of the Company. The restrictions in this Section shall ' +
+      'terminate if (a) any third party commences a tender offer for more than 50% of the outstanding voting securities of the ' +
+      'Company, or (b) the Company enters into a definitive agreement with a third party providing for a merger or sale of all or ' +
+      'substantially all of its assets. Notwithstanding the foregoing, the Recipient may make a confidential proposal to the Board of Directors of the Company.'
+    );
+
+    expect(features).toMatchObject({
+      durationMonths: 12,
+      ownershipThresholdPercent: 4.9,
+      fallAway: { third_party_offer: true, sale_agreement: true },
+      fallAwayCount: 2,
+      dontAskDontWaive: false,
+      privateProposalsAllowed: true
+    });
+  });
+
+  it('detects "don\'t ask, don\'t waive" language without fall-aways', () => {
+    const features = extractStandstill(
+      'For two (2) years, the Recipient shall not acquire any securities of the Company, solicit proxies, or request the Company ' +
+      'or its Board of Directors, directly or indirectly, to amend or waive any provision of this paragraph.'
+    );
+
+    expect(features).toMatchObject({
+      durationMonths: 24,
+      ownershipThresholdPercent: null,
+      fallAwayCount: 0,
+      dontAskDontWaive: true,
+      privateProposalsAllowed: false
+    });
+  });
+
+  it('does not count a third-party offer without fall-away wording', () => {
+    const features = extractStandstill(
+      'For eighteen months the Recipient shall not, alone or as part of a group, make any tender offer for the securities of the ' +
+      'Company or assist any third party to make a proposal to acquire the Company.'
+    );
+
+    expect(features.durationMonths).toBe(18);
+    expect(features.fallAway).toEqual({ third_party_offer: false, sale_agreement: false });
+  });
+
+  it('returns empty features for empty text', () => {
+    expect(extractStandstill('')).toEqual({
+      durationValue: null,
+      durationUnit: null,
+      durationMonths: null,
+      ownershipThresholdPercent: null,
+      fallAway: { third_party_offer: false, sale_agreement: false },
+      fallAwayCount: 0,
+      dontAskDontWaive: false,
+      privateProposalsAllowed: false
+    });
+  });
+});
@@ -0,0 +1,75 @@
+// lib/extractors/compelled-disclosure.ts
+// Structured extraction of compelled (legal or regulatory) disclosure provisions
+
+/**
+ * Safeguards a compelled-disclosure clause can contain:
+ * prior_notice: the recipient must tell the discloser before disclosing
+ * legally_permitted: the notice duty applies only to the extent the law allows it
+ * protective_order: the recipient must cooperate in seeking a protective order or other remedy
+ * minimum_disclosure: only the part of the information legally required may be disclosed
+ * regulatory_carve_out: routine regulatory examinations need no notice
+ */
+export type CompelledDisclosureElement =
+  | 'prior_notice'
+  | 'legally_permitted'
+  | 'protective_order'
+  | 'minimum_disclosure'
+  | 'regulatory_carve_out';
+
+export interface CompelledDisclosureFeatures {
+  /** Whether each element is present, for rule conditions such as "elements.prior_notice" */
+  elements: Record<CompelledDisclosureElement, boolean>;
+  elementCount: number;
+  missingElements: CompelledDisclosureElement[];
+  /** The recipient cooperates at the discloser's cost */
+  cooperationAtDisclosersExpense: boolean;
+}
+
+export const COMPELLED_DISCLOSURE_ELEMENTS: Array<{ key: CompelledDisclosureElement; label: string }> = [
+  { key: 'prior_notice', label: 'Prior notice' },
+  { key: 'legally_permitted', label: '"To the extent legally permitted" qualifier' },
+  { key: 'protective_order', label: 'Protective order cooperation' },
+  { key: 'minimum_disclosure', label: 'Minimum disclosure' },
+  { key: 'regulatory_carve_out', label: 'Regulatory examination carve-out' }
+];
+
+const NOTICE_PATTERN = /\b(?:prompt|prior|advance|immediate|timely)\s+(?:written\s+)?notice\b|\bnotify\s+(?:the\s+)?(?:\w+\s+){0,3}?(?:promptly|immediately|in\s+writing|prior\s+to|before)|\b(?:promptly|immediately)\s+(?:notify|inform|advise)\b|\b(?:give|provide)\s+(?:the\s+\w+(?:\s+party)?\s+)?(?:written\s+)?notice\b/i;
+const NO_NOTICE_PATTERN = /\b(?:without|no)\s+(?:prior\s+|such\s+|advance\s+)?notice|\bnot\s+(?:be\s+)?(?:required|obliged|obligated)\s+to\s+(?:give\s+|provide\s+)?(?:\w+\s+)?(?:notice|notify|inform)|\bneed\s+not\s+(?:give\s+|provide\s+)?(?:notice|notify|inform)/i;
+const LEGALLY_PERMITTED_PATTERN = /\bto\s+the\s+extent\s+(?:(?:reasonably\s+)?practicable\s+and\s+)?(?:legally\s+|lawfully\s+)?(?:permitted|allowed|possible)|\bunless\s+(?:such\s+notice\s+is\s+)?(?:legally\s+)?(?:prohibited|restricted|not\s+permitted)|\bwhere\s+(?:legally\s+)?(?:permitted|lawful)\b|\b(?:if|where)\s+(?:and\s+to\s+the\s+extent\s+)?(?:legally|lawfully)\s+(?:permitted|able)|\bsave\s+where\s+(?:prohibited|not\s+permitted)/i;
+const PROTECTIVE_ORDER_PATTERN = /\bprotective\s+order\b|\b(?:seek|obtain)\s+(?:a\s+|an\s+)?(?:appropriate\s+)?(?:remedy|injunction|confidential\s+treatment)|\bcooperat\w+\s+(?:\w+\s+){0,6}?(?:resist|contest|narrow|limit|seek|oppos)\w*/i;
+const MINIMUM_DISCLOSURE_PATTERN = /\bonly\s+(?:that\s+|such\s+)?(?:portion|part|information)\s+(?:of\s+(?:the\s+)?(?:confidential\s+)?information\s+)?(?:that|which|as)\s+(?:it\s+)?(?:is\s+)?(?:legally\s+)?(?:required|necessary|compelled)|\bminimum\s+(?:amount\s+)?(?:of\s+)?(?:confidential\s+)?(?:information\s+)?(?:necessary|required)|\bno\s+more\s+than\s+(?:is\s+)?(?:legally\s+)?(?:required|necessary)|\blimit\w*\s+(?:such\s+|the\s+)?disclosure\s+to\s+(?:that\s+|the\s+)?(?:\w+\s+){0,3}?(?:required|necessary)/i;
+
+// Routine supervision of a bank, as opposed to a demand aimed at the discloser's information
+const EXAMINATION_PATTERN = /\b(?:regulatory|supervisory|bank(?:ing)?)\s+(?:authorit\w+|examin\w+|inspect\w+|audit\w*|review|bod\w+)|\b(?:examin\w+|inspect\w+|audit\w*)\s+(?:by|of)\s+(?:a\s+|any\s+|the\s+)?(?:\w+\s+){0,2}?(?:regulat\w+|supervis\w+|banking)/i;
+const CARVE_OUT_CUE = /\broutine\b|\bordinary\s+course\b|\bnot\s+(?:specifically\s+)?(?:targeted|directed|referencing)|\bshall\s+not\s+apply\b|\bnotwithstanding\b/i;
+
+const DISCLOSER_EXPENSE_PATTERN = /\bat\s+the\s+(?:\w+\s+){0,2}?(?:disclos\w+\s+party'?s|company'?s|discloser'?s)\s+(?:sole\s+)?(?:cost|expense)|\bat\s+(?:the\s+)?(?:cost|expense)\s+of\s+the\s+(?:disclos\w+\s+party|company|discloser)/i;
+
+/**
+ * Extract the notice, qualifier, cooperation, minimum-disclosure and regulatory carve-out elements.
+ * Sentences carving out regulatory examinations or waiving notice do not count as a notice requirement.
+ */
+export function extractCompelledDisclosure(text: string): CompelledDisclosureFeatures {
+  const sentences = text.split(/[.;]\s+/).map(sentence => sentence.trim()).filter(sentence => sentence.length > 0);
+
+  const regulatoryCarveOut = sentences.some(sentence =>
+    EXAMINATION_PATTERN.test(sentence) && (CARVE_OUT_CUE.test(sentence) || NO_NOTICE_PATTERN.test(sentence))
+  );
+  const priorNotice = sentences.some(sentence => NOTICE_PATTERN.test(sentence) && !NO_NOTICE_PATTERN.test(sentence));
+
+  const elements: Record<CompelledDisclosureElement, boolean> = {
+    prior_notice: priorNotice,
+    legally_permitted: LEGALLY_PERMITTED_PATTERN.test(text),
+    protective_order: PROTECTIVE_ORDER_PATTERN.test(text),
+    minimum_disclosure: MINIMUM_DISCLOSURE_PATTERN.test(text),
+    regulatory_carve_out: regulatoryCarveOut
+  };
+  const missingElements = COMPELLED_DISCLOSURE_ELEMENTS.filter(({ key }) => !elements[key]).map(({ key }) => key);
+
+  return {
+    elements,
+    elementCount: COMPELLED_DISCLOSURE_ELEMENTS.length - missingElements.length,
+    missingElements,
+    cooperationAtDisclosersExpense: elements.protective_order && DISCLOSER_EXPENSE_PATTERN.test(text)
+  };
+}
@@ -0,0 +1,187 @@
+// lib/extractors/duration.ts
+// Structured extraction of confidentiality duration terms
+
+export type DurationUnit = 'days' | 'weeks' | 'months' | 'years';
+
+export type DurationTrigger = 'disclosure' | 'effective_date' | 'termination' | 'expiration';
+
+export interface DurationCarveOut {
+  /** What the carve-out covers, e.g. trade secrets */
+  subject: 'trade_secrets' | 'personal_data';
+  kind: 'fixed' | 'perpetual';
+  durationMonths: number | null;
+  text: string;
+}
+
+export interface DurationFeatures {
+  /** fixed: a stated period; until_event: runs until termination/expiration; unspecified: no term found */
+  kind: 'fixed' | 'perpetual' | 'until_event' | 'unspecified';
+  durationValue: number | null;
+  durationUnit: DurationUnit | null;
+  /** Duration normalized to months, for threshold rules */
+  durationMonths: number | null;
+  /** Event the period runs from */
+  trigger: DurationTrigger | null;
+  survivesTermination: boolean;
+  /** Trade secrets stay protected for as long as they remain trade secrets */
+  tradeSecretsIndefinite: boolean;
+  carveOuts: DurationCarveOut[];
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60,
+  'twenty-four': 24, 'thirty-six': 36, 'forty-eight': 48
+};
+
+const MONTHS_PER_UNIT: Record<DurationUnit, number> = {
+  days: 12 / 365,
+  weeks: 12 / 52,
+  months: 1,
+  years: 12
+};
+
+// Longer words first so "twenty-four" wins over "twenty"
+const NUMBER_WORD_PATTERN = Object.keys(NUMBER_WORDS).sort((a, b) => b.length - a.length).join('|');
+
+// "5 years", "five (5) years", "5 (five) years", "a three-year period", "twenty-four (24) months"
+const DURATION_PATTERN = new RegExp(
+  `\\b(\\d+(?:\\.\\d+)?|${NUMBER_WORD_PATTERN}|an?)(?:\\s*\\(\\s*(?:\\d+|${NUMBER_WORD_PATTERN})\\s*\\))?[\\s-]*(year|month|week|day)s?\\b`,
+  'gi'
+);
+
+const PERPETUAL_PATTERN = /\b(?:in perpetuity|perpetual(?:ly)?|indefinite(?:ly)?|without (?:any )?(?:limit(?:ation)? (?:of|in|as to) time|time limit)|no (?:fixed )?(?:time limit|expiration date)|for so long as|until (?:such )?(?:(?:confidential )?information|it|they) (?:becomes?|ceases?|no longer))/i;
+
+const UNTIL_EVENT_PATTERN = /\buntil (?:the )?(?:termination|expiration|expiry)\b/i;
+
+const SURVIVAL_PATTERN = /\bsurviv\w*\s+(?:the\s+|any\s+)?(?:termination|expiration|expiry)|\b(?:after|following|beyond)\s+(?:the\s+|any\s+)?(?:termination|expiration|expiry)/i;
+
+const TRIGGER_PATTERNS: Array<{ trigger: DurationTrigger; pattern: RegExp }> = [
+  { trigger: 'disclosure', pattern: /\b(?:date of (?:the )?(?:each |first |initial )?disclosure|(?:from|after|following) (?:the )?(?:each |first |initial )?disclosure)/i },
+  { trigger: 'effective_date', pattern: /\beffective date|date (?:of this agreement|hereof)|execution of this agreement/i },
+  { trigger: 'termination', pattern: /\btermination/i },
+  { trigger: 'expiration', pattern: /\b(?:expiration|expiry)/i }
+];
+
+const CARVE_OUT_SUBJECTS: Array<{ subject: DurationCarveOut['subject']; pattern: RegExp }> = [
+  { subject: 'trade_secrets', pattern: /\btrade secrets?\b/i },
+  { subject: 'personal_data', pattern: /\bpersonal (?:data|information)\b/i }
+];
+
+// Sentence parts are split where a carve-out typically starts
+const SUBCLAUSE_SPLIT = /[.;]\s+|,?\s+(?=\b(?:except|provided(?:,)? (?:that|however)|save (?:that|for)|other than|and for|whereas)\b)/i;
+
+export interface DurationMention {
+  value: number;
+  unit: DurationUnit;
+  months: number;
+  index: number;
+}
+
+function parseNumber(token: string): number {
+  const lower = token.toLowerCase();
+  if (lower === 'a' || lower === 'an') return 1;
+  return NUMBER_WORDS[lower] ?? parseFloat(lower);
+}
+
+/**
+ * Every stated period in the text ("5 years", "twenty-four (24) months"), in order of appearance
+ */
+export function findDurations(text: string): DurationMention[] {
+  const mentions: DurationMention[] = [];
+  const pattern = new RegExp(DURATION_PATTERN.source, DURATION_PATTERN.flags);
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const value = parseNumber(match[1]);
+    if (!isFinite(value) || value <= 0) continue;
+    const unit = `${match[2].toLowerCase()}s` as DurationUnit;
+    mentions.push({ value, unit, months: roundMonths(value * MONTHS_PER_UNIT[unit]), index: match.index });
+  }
+  return mentions;
+}
+
+function roundMonths(months: number): number {
+  return Math.round(months * 100) / 100;
+}
+
+function findTrigger(text: string): DurationTrigger | null {
+  let best: { trigger: DurationTrigger; index: number } | null = null;
+  for (const { trigger, pattern } of TRIGGER_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match && (!best || match.index < best.index)) {
+      best = { trigger, index: match.index };
+    }
+  }
+  return best ? best.trigger : null;
+}
+
+function splitSubclauses(text: string): string[] {
+  return text.split(SUBCLAUSE_SPLIT).map(part => part.trim()).filter(part => part.length > 0);
+}
+
+/**
+ * Extract the confidentiality term from duration clause text.
+ * Periods stated for trade secrets or personal data are reported as carve-outs;
+ * the main term is taken from the remaining text, preferring parts that talk
+ * about the confidentiality obligations rather than the agreement itself.
+ */
+export function extractDuration(text: string): DurationFeatures {
+  const carveOuts: DurationCarveOut[] = [];
+  const mainParts: string[] = [];
+
+  for (const part of splitSubclauses(text)) {
+    const subject = CARVE_OUT_SUBJECTS.find(candidate => candidate.pattern.test(part));
+    const durations = findDurations(part);
+    const perpetual = PERPETUAL_PATTERN.test(part);
+
+    if (subject && (perpetual || durations.length > 0)) {
+      carveOuts.push({
+        subject: subject.subject,
+        kind: perpetual ? 'perpetual' : 'fixed',
+        durationMonths: perpetual ? null : durations[0].months,
+        text: part
+      });
+    } else {
+      mainParts.push(part);
+    }
+  }
+
+  // Pick the main duration, preferring parts about confidentiality obligations
+  let mainDuration: { mention: DurationMention; part: string } | null = null;
+  let bestRelevance = -1;
+  for (const part of mainParts) {
+    const relevance = /confidential|obligation|surviv|non-disclosure/i.test(part) ? 1 : 0;
+    const mention = findDurations(part)[0];
+    if (mention && relevance > bestRelevance) {
+      mainDuration = { mention, part };
+      bestRelevance = relevance;
+    }
+  }
+
+  const perpetualPart = mainParts.find(part => PERPETUAL_PATTERN.test(part));
+  const untilEventPart = mainParts.find(part => UNTIL_EVENT_PATTERN.test(part));
+
+  let kind: DurationFeatures['kind'] = 'unspecified';
+  let triggerSource: string | null = null;
+  if (mainDuration) {
+    kind = 'fixed';
+    triggerSource = mainDuration.part.slice(mainDuration.mention.index);
+  } else if (perpetualPart) {
+    kind = 'perpetual';
+  } else if (untilEventPart) {
+    kind = 'until_event';
+    triggerSource = untilEventPart.slice(untilEventPart.search(UNTIL_EVENT_PATTERN));
+  }
+
+  return {
+    kind,
+    durationValue: mainDuration ? mainDuration.mention.value : null,
+    durationUnit: mainDuration ? mainDuration.mention.unit : null,
+    durationMonths: mainDuration ? mainDuration.mention.months : null,
+    trigger: triggerSource ? findTrigger(triggerSource) : null,
+    survivesTermination: SURVIVAL_PATTERN.test(text),
+    tradeSecretsIndefinite: carveOuts.some(carveOut => carveOut.subject === 'trade_secrets' && carveOut.kind === 'perpetual'),
+    carveOuts
+  };
+}
@@ -0,0 +1,114 @@
+// lib/extractors/governing-law.ts
+// Governing law and dispute forum extraction with normalized jurisdictions
+
+import { findJurisdiction } from './jurisdictions';
+
+export type ForumType = 'courts' | 'arbitration' | 'mediation';
+
+export type ArbitralInstitution = 'SIAC' | 'ICC' | 'LCIA' | 'HKIAC' | 'ICDR' | 'AAA' | 'JAMS' | 'SCC';
+
+export interface GoverningLawFeatures {
+  /** Canonical jurisdiction id of the governing law, e.g. "SG" or "US-NY" */
+  governingLaw: string | null;
+  /** Binding forum: arbitration when agreed, otherwise courts; mediation only when it is the sole mechanism */
+  forumType: ForumType | null;
+  /** Every dispute mechanism mentioned, in order of appearance (e.g. mediation then arbitration) */
+  forumTypes: ForumType[];
+  /** Canonical jurisdiction id of the courts */
+  courtJurisdiction: string | null;
+  jurisdictionExclusivity: 'exclusive' | 'non_exclusive' | null;
+  arbitralInstitution: ArbitralInstitution | null;
+  /** Canonical jurisdiction id of the seat of arbitration */
+  arbitrationSeat: string | null;
+  arbitratorCount: number | null;
+}
+
+const INSTITUTIONS: Array<{ id: ArbitralInstitution; pattern: RegExp }> = [
+  { id: 'SIAC', pattern: /\bSIAC\b|singapore international arbitration cent(?:re|er)/i },
+  { id: 'HKIAC', pattern: /\bHKIAC\b|hong kong international arbitration cent(?:re|er)/i },
+  { id: 'LCIA', pattern: /\bLCIA\b|london court of international arbitration/i },
+  { id: 'ICC', pattern: /\bICC\b|international chamber of commerce/i },
+  { id: 'ICDR', pattern: /\bICDR\b|international cent(?:re|er) for dispute resolution/i },
+  { id: 'AAA', pattern: /\bAAA\b|american arbitration association/i },
+  { id: 'JAMS', pattern: /\bJAMS\b/ },
+  { id: 'SCC', pattern: /\bSCC\b|stockholm chamber of commerce/i }
+];
+
+const FORUM_PATTERNS: Array<{ type: ForumType; pattern: RegExp }> = [
+  { type: 'courts', pattern: /\bcourts?\b/i },
+  { type: 'arbitration', pattern: /\barbitra(?:tion|l|tor)/i },
+  { type: 'mediation', pattern: /\bmediat(?:ion|or|ed)/i }
+];
+
+// Phrases introducing the governing law; the jurisdiction follows within the captured fragment
+const GOVERNING_LAW_PATTERNS: RegExp[] = [
+  /\b(?:governed|construed|interpreted)\b[^.;]*?\b(?:laws?|law) of\s+([^.;]{0,80})/i,
+  /\b(?:laws?|law) of\s+([^.;]{0,80}?)\s+(?:shall|will)\s+govern/i,
+  /\b([A-Za-z][A-Za-z .&']{0,40}?)\s+law\s+(?:shall|will)\s+(?:govern|apply)/i,
+  /\b(?:governed|construed)\s+(?:by|under|in accordance with)\s+([A-Za-z][A-Za-z .&']{0,40}?)\s+law\b/i,
+  /\bsubject to\s+(?:the\s+)?([A-Za-z][A-Za-z .&']{0,40}?)\s+law\b/i
+];
+
+const COURT_PATTERNS: RegExp[] = [
+  /\bcourts?\s+(?:of|in|located in|sitting in|situated in)\s+([^.;]{0,80})/i,
+  /\b([A-Za-z][A-Za-z .&']{0,40}?)\s+courts\b/i
+];
+
+const SEAT_PATTERNS: RegExp[] = [
+  /\b(?:seat|place|venue)\s+of\s+(?:the\s+)?arbitration\s+(?:shall|will)\s+be\s+([^.;]{0,60})/i,
+  /\bseated\s+in\s+([^.;]{0,60})/i,
+  /\barbitration\s+(?:shall\s+be\s+|will\s+be\s+)?(?:held|conducted|take place)\s+in\s+([^.;]{0,60})/i,
+  /\barbitration\s+in\s+([^.;]{0,60})/i
+];
+
+const ARBITRATOR_COUNT_PATTERN = /\b(sole|single|one|1|three|3|five|5)\s*(?:\(\s*\d\s*\)\s*)?arbitrators?\b/i;
+
+const ARBITRATOR_COUNTS: Record<string, number> = { sole: 1, single: 1, one: 1, '1': 1, three: 3, '3': 3, five: 5, '5': 5 };
+
+function findJurisdictionAfter(text: string, patterns: RegExp[]): string | null {
+  for (const pattern of patterns) {
+    const match = pattern.exec(text);
+    if (match) {
+      const jurisdiction = findJurisdiction(match[1]);
+      if (jurisdiction) return jurisdiction.id;
+    }
+  }
+  return null;
+}
+
+function findForumTypes(text: string): ForumType[] {
+  return FORUM_PATTERNS
+    .map(({ type, pattern }) => ({ type, index: text.search(pattern) }))
+    .filter(forum => forum.index !== -1)
+    .sort((a, b) => a.index - b.index)
+    .map(forum => forum.type);
+}
+
+/**
+ * Extract governing law and dispute resolution terms from clause text
+ */
+export function extractGoverningLaw(text: string): GoverningLawFeatures {
+  const forumTypes = findForumTypes(text);
+  const forumType: ForumType | null = forumTypes.includes('arbitration') ? 'arbitration'
+    : forumTypes.includes('courts') ? 'courts'
+    : forumTypes.includes('mediation') ? 'mediation'
+    : null;
+
+  const exclusivity = /\bnon[-\s]?exclusive\s+jurisdiction/i.test(text) ? 'non_exclusive'
+    : /\b(?:exclusive|sole)\s+jurisdiction|\bexclusively\b/i.test(text) ? 'exclusive'
+    : null;
+
+  const institution = INSTITUTIONS.find(candidate => candidate.pattern.test(text));
+  const arbitratorMatch = ARBITRATOR_COUNT_PATTERN.exec(text);
+
+  return {
+    governingLaw: findJurisdictionAfter(text, GOVERNING_LAW_PATTERNS),
+    forumType,
+    forumTypes,
+    courtJurisdiction: forumTypes.includes('courts') ? findJurisdictionAfter(text, COURT_PATTERNS) : null,
+    jurisdictionExclusivity: exclusivity,
+    arbitralInstitution: institution ? institution.id : null,
+    arbitrationSeat: forumTypes.includes('arbitration') ? findJurisdictionAfter(text, SEAT_PATTERNS) : null,
+    arbitratorCount: arbitratorMatch ? ARBITRATOR_COUNTS[arbitratorMatch[1].toLowerCase()] : null
+  };
+}
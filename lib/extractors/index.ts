@@ -0,0 +1,402 @@
+// lib/extractors/index.ts
+// Registry of structured clause extractors, keyed by detection profile key
+
+import { extractDuration, type DurationFeatures } from './duration';
+import { extractGoverningLaw, type GoverningLawFeatures } from './governing-law';
+import { getJurisdictionName } from './jurisdictions';
+import { extractNonSolicit, NON_SOLICIT_CARVE_OUTS, type NonSolicitFeatures, type CoveredPersons } from './non-solicit';
+import { extractStandstill, FALL_AWAY_TRIGGERS, type StandstillFeatures } from './standstill';
+import { extractReturnOfInfo, RETURN_TRIGGERS, RETENTION_CARVE_OUTS, type ReturnOfInfoFeatures } from './return-of-info';
+import { extractRepresentatives, DISCLOSEE_CATEGORIES, type RepresentativesFeatures, type DiscloseeScope } from './representatives';
+import {
+  extractCompelledDisclosure,
+  COMPELLED_DISCLOSURE_ELEMENTS,
+  type CompelledDisclosureFeatures,
+  type CompelledDisclosureElement
+} from './compelled-disclosure';
+import { extractRemedies, assessRemediesRisk, type RemediesFeatures, type RemedyExposure } from './remedies';
+import { extractResiduals, assessResidualsRisk, RESIDUALS_LIMITS, type ResidualsFeatures } from './residuals';
+import {
+  extractPersonalData,
+  DATA_PROTECTION_REGIMES,
+  DATA_OBLIGATIONS,
+  type PersonalDataFeatures
+} from './personal-data';
+import { extractStandardExceptions, type StandardExceptionFeatures, type ExceptionStatus } from './standard-exceptions';
+import type { PartyPerspective } from '@/types';
+
+/** Structured values extracted from clause text, keyed by feature name */
+export type ClauseFeatures = Record<string, unknown>;
+
+/** A feature formatted for display next to the matched text */
+export interface FeatureSummaryItem {
+  label: string;
+  value: string;
+}
+
+/** Extraction, display and assessment for one clause type, typed by the features it extracts */
+interface ClauseExtractor<F> {
+  extract: (text: string) => F;
+  describe: (features: F) => FeatureSummaryItem[];
+  /** Shortcomings worth raising in suggestions, e.g. missing standard exceptions; some depend on the party */
+  gaps?: (features: F, perspective?: PartyPerspective) => string[];
+  /** Risk level (1-5) of the exposure found, for clause types whose risk is not just the matched rule type */
+  risk?: (features: F, perspective: PartyPerspective) => number;
+  /** Whether a document that lacks this optional clause should have it, judged from the whole text */
+  calledFor?: (documentText: string) => boolean;
+  /** Defined terms whose definitions belong to the clause wherever they sit in the document */
+  definedTerms?: string[];
+}
+
+/**
+ * Register an extractor, type-checked against its own features. Features are stored and passed
+ * around as plain ClauseFeatures, so each one only comes back to the extractor that produced it.
+ */
+function registerExtractor<F>(extractor: ClauseExtractor<F>): ClauseExtractor<ClauseFeatures> {
+  return extractor as unknown as ClauseExtractor<ClauseFeatures>;
+}
+
+const TRIGGER_LABELS: Record<string, string> = {
+  disclosure: 'date of disclosure',
+  effective_date: 'effective date',
+  termination: 'termination',
+  expiration: 'expiration'
+};
+
+function describeDuration(features: DurationFeatures): FeatureSummaryItem[] {
+  const items: FeatureSummaryItem[] = [];
+  if (features.kind === 'fixed' && features.durationValue !== null) {
+    items.push({ label: 'Term', value: `${features.durationValue} ${features.durationUnit}` });
+  } else if (features.kind === 'perpetual') {
+    items.push({ label: 'Term', value: 'Indefinite' });
+  } else if (features.kind === 'until_event') {
+    items.push({ label: 'Term', value: 'Until an event' });
+  }
+  if (features.trigger) items.push({ label: 'Runs from', value: TRIGGER_LABELS[features.trigger] });
+  if (features.survivesTermination) items.push({ label: 'Survives termination', value: 'Yes' });
+  features.carveOuts.forEach(carveOut => {
+    items.push({
+      label: carveOut.subject === 'trade_secrets' ? 'Trade secrets' : 'Personal data',
+      value: carveOut.kind === 'perpetual' ? 'Indefinite' : `${carveOut.durationMonths} months`
+    });
+  });
+  return items;
+}
+
+function describeGoverningLaw(features: GoverningLawFeatures): FeatureSummaryItem[] {
+  const items: FeatureSummaryItem[] = [];
+  if (features.governingLaw) items.push({ label: 'Governing law', value: getJurisdictionName(features.governingLaw) });
+  if (features.forumTypes.length > 0) items.push({ label: 'Forum', value: features.forumTypes.join(', then ') });
+  if (features.courtJurisdiction) items.push({ label: 'Courts', value: getJurisdictionName(features.courtJurisdiction) });
+  if (features.jurisdictionExclusivity) {
+    items.push({ label: 'Jurisdiction', value: features.jurisdictionExclusivity === 'exclusive' ? 'Exclusive' : 'Non-exclusive' });
+  }
+  if (features.arbitralInstitution) items.push({ label: 'Institution', value: features.arbitralInstitution });
+  if (features.arbitrationSeat) items.push({ label: 'Seat', value: getJurisdictionName(features.arbitrationSeat) });
+  if (features.arbitratorCount) items.push({ label: 'Arbitrators', value: String(features.arbitratorCount) });
+  return items;
+}
+
+const COVERED_PERSON_LABELS: Record<CoveredPersons, string> = {
+  all_employees: 'All employees',
+  key_employees: 'Key employees',
+  due_diligence_contacts: 'Employees met during due diligence'
+};
+
+function describeNonSolicit(features: NonSolicitFeatures): FeatureSummaryItem[] {
+  const items: FeatureSummaryItem[] = [];
+  const covenants = [features.hasNonSolicit && 'Non-solicit', features.hasNoHire && 'No-hire'].filter(Boolean);
+  if (covenants.length > 0) items.push({ label: 'Covenants', value: covenants.join(', ') });
+  if (features.durationValue !== null) items.push({ label: 'Term', value: `${features.durationValue} ${features.durationUnit}` });
+  if (features.coveredPersons) items.push({ label: 'Covers', value: COVERED_PERSON_LABELS[features.coveredPersons] });
+  const carveOuts = NON_SOLICIT_CARVE_OUTS.filter(({ key }) => features.carveOuts[key]).map(({ label }) => label);
+  items.push({ label: 'Carve-outs', value: carveOuts.length > 0 ? carveOuts.join(', ') : 'None' });
+  return items;
+}
+
+function describeStandstill(features: StandstillFeatures): FeatureSummaryItem[] {
+  const items: FeatureSummaryItem[] = [];
+  if (features.durationValue !== null) items.push({ label: 'Standstill period', value: `${features.durationValue} ${features.durationUnit}` });
+  if (features.ownershipThresholdPercent !== null) items.push({ label: 'Ownership cap', value: `${features.ownershipThresholdPercent}%` });
+  const triggers = FALL_AWAY_TRIGGERS.filter(({ key }) => features.fallAway[key]).map(({ label }) => label);
+  items.push({ label: 'Fall-away', value: triggers.length > 0 ? triggers.join(', ') : 'None' });
+  items.push({ label: "Don't ask, don't waive", value: features.dontAskDontWaive ? 'Yes' : 'No' });
+  if (features.privateProposalsAllowed) items.push({ label: 'Private proposals', value: 'Allowed' });
+  return items;
+}
+
+const OBLIGATION_LABELS: Record<string, string> = {
+  return: 'Return',
+  destroy: 'Destroy',
+  return_or_destroy: 'Return or destroy'
+};
+
+function describeReturnOfInfo(features: ReturnOfInfoFeatures): FeatureSummaryItem[] {
+  const items: FeatureSummaryItem[] = [];
+  if (features.obligation) items.push({ label: 'Obligation', value: OBLIGATION_LABELS[features.obligation] });
+  const triggers = RETURN_TRIGGERS.filter(({ key }) => features.triggers[key]).map(({ label }) => label);
+  if (triggers.length > 0) items.push({ label: 'Triggered', value: triggers.join(', ') });
+  if (features.deadlineDays !== null) items.push({ label: 'Deadline', value: `${features.deadlineDays} days` });
+  items.push({ label: 'Written certification', value: features.certificationRequired ? 'Required' : 'Not required' });
+  RETENTION_CARVE_OUTS.forEach(({ key, label }) => {
+    items.push({ label, value: features.retentionCarveOuts[key] ? 'May be retained' : 'No carve-out' });
+  });
+  return items;
+}
+
+function findRetentionGaps(features: ReturnOfInfoFeatures): string[] {
+  const missing = RETENTION_CARVE_OUTS
+    .filter(({ key }) => features.missingRetentionCarveOuts.includes(key))
+    .map(({ label }) => label.toLowerCase());
+  return missing.length > 0 ? [`Missing retention carve-outs: ${missing.join(', ')}`] : [];
+}
+
+const DISCLOSEE_CONDITION_LABELS: Array<{ key: keyof DiscloseeScope; label: string }> = [
+  { key: 'needToKnow', label: 'need to know' },
+  { key: 'writtenUndertaking', label: 'written undertaking' },
+  { key: 'consentRequired', label: 'prior consent' },
+  { key: 'recipientLiable', label: 'recipient liable' }
+];
+
+function describeRepresentatives(features: RepresentativesFeatures): FeatureSummaryItem[] {
+  const items: FeatureSummaryItem[] = [];
+  DISCLOSEE_CATEGORIES.forEach(({ key, label }) => {
+    const scope = features.categories[key];
+    if (!scope.permitted) return;
+    const conditions = DISCLOSEE_CONDITION_LABELS.filter(condition => scope[condition.key]).map(condition => condition.label);
+    items.push({ label, value: conditions.length > 0 ? `Permitted (${conditions.join(', ')})` : 'Permitted' });
+  });
+  const missing = DISCLOSEE_CATEGORIES.filter(({ key }) => !features.categories[key].permitted).map(({ label }) => label);
+  if (missing.length > 0) items.push({ label: 'Not permitted', value: missing.join(', ') });
+  return items;
+}
+
+function findDiscloseeGaps(features: RepresentativesFeatures): string[] {
+  const missing = DISCLOSEE_CATEGORIES
+    .filter(({ key }) => features.missingCategories.includes(key))
+    .map(({ label }) => label.toLowerCase());
+  return missing.length > 0 ? [`Disclosure not permitted to: ${missing.join(', ')}`] : [];
+}
+
+// The safeguards each party negotiates for: disclosers want warning and a chance to resist,
+// recipients (e.g. regulated banks) want notice qualified by law and routine examinations carved out
+const COMPELLED_DISCLOSURE_PRIORITIES: Record<PartyPerspective, CompelledDisclosureElement[]> = {
+  disclosing: ['prior_notice', 'protective_order', 'minimum_disclosure'],
+  receiving: ['legally_permitted', 'regulatory_carve_out'],
+  mutual: ['prior_notice', 'legally_permitted', 'protective_order', 'minimum_disclosure', 'regulatory_carve_out']
+};
+
+function describeCompelledDisclosure(features: CompelledDisclosureFeatures): FeatureSummaryItem[] {
+  const items = COMPELLED_DISCLOSURE_ELEMENTS.map(({ key, label }) => ({ label, value: features.elements[key] ? 'Yes' : 'No' }));
+  if (features.elements.protective_order) {
+    items.push({ label: 'Cooperation cost', value: features.cooperationAtDisclosersExpense ? 'Disclosing party' : 'Not allocated' });
+  }
+  return items;
+}
+
+function findCompelledDisclosureGaps(features: CompelledDisclosureFeatures, perspective?: PartyPerspective): string[] {
+  const wanted = perspective ? COMPELLED_DISCLOSURE_PRIORITIES[perspective] : COMPELLED_DISCLOSURE_ELEMENTS.map(({ key }) => key);
+  const missing = COMPELLED_DISCLOSURE_ELEMENTS
+    .filter(({ key }) => wanted.includes(key) && features.missingElements.includes(key))
+    // A qualifier on the notice duty only matters when there is a notice duty
+    .filter(({ key }) => key !== 'legally_permitted' || features.elements.prior_notice)
+    .map(({ label }) => label.toLowerCase());
+
+  const gaps = missing.length > 0 ? [`Missing compelled-disclosure safeguards: ${missing.join(', ')}`] : [];
+  if (perspective === 'receiving' && features.elements.protective_order && !features.cooperationAtDisclosersExpense) {
+    gaps.push('Protective order cooperation is not at the disclosing party\'s expense');
+  }
+  return gaps;
+}
+
+const EXPOSURE_LABELS: Record<RemedyExposure, string> = {
+  recipient_indemnity: 'Indemnity by the recipient',
+  discloser_indemnity: 'Indemnity by the discloser',
+  mutual_indemnity: 'Mutual indemnity',
+  liquidated_damages: 'Liquidated damages',
+  uncapped_liability: 'Unlimited liability',
+  liability_cap: 'Liability cap',
+  consequential_exclusion: 'Consequential loss excluded',
+  injunction_without_bond: 'Injunction without bond'
+};
+
+function describeRemedies(features: RemediesFeatures): FeatureSummaryItem[] {
+  const items: FeatureSummaryItem[] = features.exposures.map(exposure => ({ label: EXPOSURE_LABELS[exposure], value: 'Yes' }));
+  if (features.liquidatedDamagesAmount !== null) {
+    items.push({ label: 'Liquidated damages amount', value: features.liquidatedDamagesAmount.toLocaleString('en-US') });
+  }
+  if (features.liabilityCapAmount !== null) {
+    items.push({ label: 'Liability cap amount', value: features.liabilityCapAmount.toLocaleString('en-US') });
+  }
+  items.push({ label: 'Injunctive relief', value: features.injunctiveRelief ? 'Available' : 'Not mentioned' });
+  return items;
+}
+
+function findRemedyGaps(features: RemediesFeatures): string[] {
+  const exposures = features.exposures
+    .filter(exposure => exposure !== 'injunction_without_bond')
+    .map(exposure => EXPOSURE_LABELS[exposure].toLowerCase());
+  return exposures.length > 0 ? [`Liability exposure: ${exposures.join(', ')}`] : [];
+}
+
+function describeResiduals(features: ResidualsFeatures): FeatureSummaryItem[] {
+  if (!features.hasResiduals) return [{ label: 'Residuals', value: 'None' }];
+  const items: FeatureSummaryItem[] = [
+    { label: 'Residuals', value: features.unaidedMemory ? 'Unaided memory' : features.generalSkills ? 'General skills and know-how' : 'Yes' }
+  ];
+  RESIDUALS_LIMITS.forEach(({ key, label }) => items.push({ label, value: features.limits[key] ? 'Yes' : 'No' }));
+  return items;
+}
+
+function findResidualsGaps(features: ResidualsFeatures, perspective?: PartyPerspective): string[] {
+  // Limits on residuals protect the discloser; a recipient loses nothing without them
+  if (!features.hasResiduals || perspective === 'receiving') return [];
+  const missing = RESIDUALS_LIMITS
+    .filter(({ key }) => features.missingLimits.includes(key))
+    .map(({ label }) => label.toLowerCase());
+  return missing.length > 0 ? [`Missing residuals limits: ${missing.join(', ')}`] : [];
+}
+
+function describePersonalData(features: PersonalDataFeatures): FeatureSummaryItem[] {
+  const regimes = DATA_PROTECTION_REGIMES.filter(({ key }) => features.regimes[key]).map(({ label }) => label);
+  const items: FeatureSummaryItem[] = [
+    { label: 'Personal data in scope', value: features.personalDataInScope ? 'Yes' : features.personalDataExcluded ? 'Excluded' : 'No' },
+    { label: 'Data protection regimes', value: regimes.length > 0 ? regimes.join(', ') : 'None' }
+  ];
+  DATA_OBLIGATIONS.forEach(({ key, label }) => items.push({ label, value: features.obligations[key] ? 'Yes' : 'No' }));
+  if (features.breachNotificationHours !== null) {
+    items.push({ label: 'Breach notification deadline', value: `${features.breachNotificationHours} hours` });
+  }
+  return items;
+}
+
+function findDataProtectionGaps(features: PersonalDataFeatures, perspective?: PartyPerspective): string[] {
+  if (features.protectionMismatch) return ['Personal data is in scope but no data-protection terms apply'];
+  // A recipient gains nothing from taking on data-protection obligations it does not already have by law
+  if (!features.personalDataInScope || perspective === 'receiving') return [];
+  const missing = DATA_OBLIGATIONS
+    .filter(({ key }) => features.missingObligations.includes(key))
+    .map(({ label }) => label.toLowerCase());
+  return missing.length > 0 ? [`Missing data-protection obligations: ${missing.join(', ')}`] : [];
+}
+
+const EXCEPTION_STATUS_LABELS: Record<ExceptionStatus, string> = {
+  present: 'Present',
+  narrowed: 'Narrowed',
+  negated: 'Negated',
+  missing: 'Missing'
+};
+
+function describeStandardExceptions(features: StandardExceptionFeatures): FeatureSummaryItem[] {
+  return features.checklist.map(item => ({ label: item.label, value: EXCEPTION_STATUS_LABELS[item.status] }));
+}
+
+function findExceptionGaps(features: StandardExceptionFeatures): string[] {
+  const gaps: string[] = [];
+  const labelsWith = (statuses: ExceptionStatus[]) => features.checklist
+    .filter(item => statuses.includes(item.status))
+    .map(item => item.label.toLowerCase());
+
+  const missing = labelsWith(['missing', 'negated']);
+  const narrowed = labelsWith(['narrowed']);
+  if (missing.length > 0) gaps.push(`Missing standard exceptions: ${missing.join(', ')}`);
+  if (narrowed.length > 0) gaps.push(`Narrowed standard exceptions: ${narrowed.join(', ')}`);
+  return gaps;
+}
+
+const EXTRACTORS: Record<string, ClauseExtractor<ClauseFeatures>> = {
+  definition: registerExtractor({
+    extract: extractStandardExceptions,
+    describe: describeStandardExceptions,
+    gaps: findExceptionGaps,
+    definedTerms: ['Confidential Information', 'Proprietary Information', 'Evaluation Material']
+  }),
+  duration: registerExtractor({ extract: extractDuration, describe: describeDuration }),
+  governing: registerExtractor({ extract: extractGoverningLaw, describe: describeGoverningLaw }),
+  non_solicit: registerExtractor({ extract: extractNonSolicit, describe: describeNonSolicit }),
+  standstill: registerExtractor({ extract: extractStandstill, describe: describeStandstill }),
+  return_of_info: registerExtractor({ extract: extractReturnOfInfo, describe: describeReturnOfInfo, gaps: findRetentionGaps }),
+  representatives: registerExtractor({
+    extract: extractRepresentatives,
+    describe: describeRepresentatives,
+    gaps: findDiscloseeGaps,
+    definedTerms: ['Representatives']
+  }),
+  remedies: registerExtractor({
+    extract: extractRemedies,
+    describe: describeRemedies,
+    gaps: findRemedyGaps,
+    risk: assessRemediesRisk
+  }),
+  compelled_disclosure: registerExtractor({
+    extract: extractCompelledDisclosure,
+    describe: describeCompelledDisclosure,
+    gaps: findCompelledDisclosureGaps
+  }),
+  residuals: registerExtractor({
+    extract: extractResiduals,
+    describe: describeResiduals,
+    gaps: findResidualsGaps,
+    risk: assessResidualsRisk
+  }),
+  personal_data: registerExtractor({
+    extract: extractPersonalData,
+    describe: describePersonalData,
+    gaps: findDataProtectionGaps,
+    calledFor: text => extractPersonalData(text).personalDataInScope
+  })
+};
+
+/**
+ * Check whether a clause type has a structured extractor
+ */
+export function hasExtractor(clauseKey: string): boolean {
+  return Object.prototype.hasOwnProperty.call(EXTRACTORS, clauseKey);
+}
+
+/**
+ * Run the extractor for a clause type; null when the clause type has none
+ */
+export function extractClauseFeatures(clauseKey: string, text: string): ClauseFeatures | null {
+  return hasExtractor(clauseKey) ? EXTRACTORS[clauseKey].extract(text) : null;
+}
+
+/**
+ * Format extracted features for display; empty when the clause type has no extractor
+ */
+export function describeClauseFeatures(clauseKey: string, features: ClauseFeatures): FeatureSummaryItem[] {
+  return hasExtractor(clauseKey) ? EXTRACTORS[clauseKey].describe(features) : [];
+}
+
+/**
+ * List the gaps an extractor found in the clause, for one party when given; empty when the clause type reports none
+ */
+export function describeFeatureGaps(clauseKey: string, features: ClauseFeatures, perspective?: PartyPerspective): string[] {
+  const gaps = hasExtractor(clauseKey) ? EXTRACTORS[clauseKey].gaps : undefined;
+  return gaps ? gaps(features, perspective) : [];
+}
+
+/**
+ * Risk level (1-5) of the exposure in a clause for one party; null when the clause type leaves risk to the rule type
+ */
+export function assessClauseRisk(clauseKey: string, features: ClauseFeatures, perspective: PartyPerspective): number | null {
+  const risk = hasExtractor(clauseKey) ? EXTRACTORS[clauseKey].risk : undefined;
+  return risk ? risk(features, perspective) : null;
+}
+
+/**
+ * Whether a document calls for a clause it does not contain, e.g. personal data in scope calls for
+ * data-protection terms; false when the clause type does not say
+ */
+export function isClauseCalledFor(clauseKey: string, documentText: string): boolean {
+  const calledFor = hasExtractor(clauseKey) ? EXTRACTORS[clauseKey].calledFor : undefined;
+  return calledFor ? calledFor(documentText) : false;
+}
+
+/**
+ * Defined terms whose definitions an extractor should see, e.g. "Confidential Information" for
+ * the definition clause; empty when the clause type names none
+ */
+export function getClauseDefinedTerms(clauseKey: string): string[] {
+  return (hasExtractor(clauseKey) && EXTRACTORS[clauseKey].definedTerms) || [];
+}
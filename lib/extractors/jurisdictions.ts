@@ -0,0 +1,79 @@
+// lib/extractors/jurisdictions.ts
+// Canonical jurisdiction identifiers (ISO 3166 country / subdivision codes)
+
+export interface Jurisdiction {
+  /** Canonical identifier, e.g. "SG", "US-NY", "GB-ENG" */
+  id: string;
+  name: string;
+  /** Lowercase phrases that refer to the jurisdiction */
+  aliases: string[];
+}
+
+// Sub-national entries come before their country so the most specific match wins
+export const JURISDICTIONS: Jurisdiction[] = [
+  { id: 'US-NY', name: 'New York', aliases: ['state of new york', 'new york'] },
+  { id: 'US-DE', name: 'Delaware', aliases: ['state of delaware', 'delaware'] },
+  { id: 'US-CA', name: 'California', aliases: ['state of california', 'california'] },
+  { id: 'US-TX', name: 'Texas', aliases: ['state of texas', 'texas'] },
+  { id: 'US-IL', name: 'Illinois', aliases: ['state of illinois', 'illinois'] },
+  { id: 'US-MA', name: 'Massachusetts', aliases: ['commonwealth of massachusetts', 'massachusetts'] },
+  { id: 'US-WA', name: 'Washington', aliases: ['state of washington'] },
+  { id: 'US', name: 'United States', aliases: ['united states of america', 'united states', 'u.s.a.', 'usa', 'u.s.'] },
+  { id: 'GB-ENG', name: 'England and Wales', aliases: ['england and wales', 'england & wales', 'england', 'english'] },
+  { id: 'GB-SCT', name: 'Scotland', aliases: ['scotland', 'scottish'] },
+  { id: 'GB', name: 'United Kingdom', aliases: ['united kingdom', 'u.k.'] },
+  { id: 'CA-ON', name: 'Ontario', aliases: ['province of ontario', 'ontario'] },
+  { id: 'CA-BC', name: 'British Columbia', aliases: ['province of british columbia', 'british columbia'] },
+  { id: 'CA', name: 'Canada', aliases: ['canada', 'canadian'] },
+  { id: 'AU-NSW', name: 'New South Wales', aliases: ['new south wales', 'nsw'] },
+  { id: 'AU-VIC', name: 'Victoria', aliases: ['state of victoria'] },
+  { id: 'AU', name: 'Australia', aliases: ['commonwealth of australia', 'australia', 'australian'] },
+  { id: 'SG', name: 'Singapore', aliases: ['republic of singapore', 'singapore', 'singaporean'] },
+  { id: 'HK', name: 'Hong Kong', aliases: ['hong kong special administrative region', 'hong kong sar', 'hong kong'] },
+  { id: 'CN', name: 'China', aliases: ["people's republic of china", 'prc', 'mainland china', 'china', 'chinese'] },
+  { id: 'JP', name: 'Japan', aliases: ['japan', 'japanese'] },
+  { id: 'IN', name: 'India', aliases: ['republic of india', 'india', 'indian'] },
+  { id: 'MY', name: 'Malaysia', aliases: ['malaysia', 'malaysian'] },
+  { id: 'AE-DU', name: 'Dubai', aliases: ['dubai international financial centre', 'difc', 'dubai'] },
+  { id: 'IE', name: 'Ireland', aliases: ['republic of ireland', 'ireland', 'irish'] },
+  { id: 'DE', name: 'Germany', aliases: ['federal republic of germany', 'germany', 'german'] },
+  { id: 'FR', name: 'France', aliases: ['france', 'french'] },
+  { id: 'NL', name: 'Netherlands', aliases: ['the netherlands', 'netherlands', 'dutch'] },
+  { id: 'CH', name: 'Switzerland', aliases: ['switzerland', 'swiss'] },
+  { id: 'SE', name: 'Sweden', aliases: ['sweden', 'swedish'] }
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const ALIAS_PATTERNS: Array<{ jurisdiction: Jurisdiction; pattern: RegExp }> = [];
+JURISDICTIONS.forEach(jurisdiction => {
+  jurisdiction.aliases.forEach(alias => {
+    // Aliases ending in "." (u.s.) cannot use a trailing word boundary
+    const boundary = /\w$/.test(alias) ? '\\b' : '';
+    ALIAS_PATTERNS.push({ jurisdiction, pattern: new RegExp(`(?:^|[^a-z])${escapeRegExp(alias)}${boundary}`, 'i') });
+  });
+});
+
+/**
+ * Find the jurisdiction mentioned earliest in a phrase.
+ * At the same position the more specific entry wins ("State of New York" over "United States").
+ */
+export function findJurisdiction(text: string): Jurisdiction | null {
+  let best: { jurisdiction: Jurisdiction; index: number } | null = null;
+  for (const { jurisdiction, pattern } of ALIAS_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match && (!best || match.index < best.index)) {
+      best = { jurisdiction, index: match.index };
+    }
+  }
+  return best ? best.jurisdiction : null;
+}
+
+/**
+ * Display name for a canonical jurisdiction identifier
+ */
+export function getJurisdictionName(id: string): string {
+  return JURISDICTIONS.find(jurisdiction => jurisdiction.id === id)?.name || id;
+}
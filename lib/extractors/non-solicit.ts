@@ -0,0 +1,115 @@
+// lib/extractors/non-solicit.ts
+// Structured extraction of non-solicitation and no-hire covenants
+
+import { findDurations, type DurationUnit } from './duration';
+
+export type RestrictiveCovenant = 'non_solicit' | 'no_hire';
+
+/**
+ * Who the covenant protects, from broadest to narrowest:
+ * all_employees: any employee of the company
+ * key_employees: officers, senior or otherwise named key staff
+ * due_diligence_contacts: people the recipient met or learned of through the transaction
+ */
+export type CoveredPersons = 'all_employees' | 'key_employees' | 'due_diligence_contacts';
+
+export type NonSolicitCarveOutKey = 'general_advertisement' | 'unsolicited_approach' | 'terminated_employees';
+
+export interface NonSolicitFeatures {
+  covenants: RestrictiveCovenant[];
+  hasNonSolicit: boolean;
+  hasNoHire: boolean;
+  durationValue: number | null;
+  durationUnit: DurationUnit | null;
+  /** Restricted period normalized to months, for threshold rules */
+  durationMonths: number | null;
+  /** Narrowest group the covenant is limited to; null when the clause does not say */
+  coveredPersons: CoveredPersons | null;
+  /** Whether each carve-out is present, for rule conditions such as "carveOuts.general_advertisement" */
+  carveOuts: Record<NonSolicitCarveOutKey, boolean>;
+  carveOutCount: number;
+  missingCarveOuts: NonSolicitCarveOutKey[];
+}
+
+const NON_SOLICIT_PATTERN = /\bnon-?solicit|\b(?:solicit|entice|induce|encourage|recruit)\w*\b[^.;]{0,120}?\b(?:employ|personnel|staff|officers?|directors?|leave|terminate|resign)/i;
+
+// "employ" as a verb only: the word boundary keeps "employee" and "employed" out
+const NO_HIRE_PATTERN = /\bno-?hire\b|\b(?:hire|employ|offer\s+(?:employment|to\s+employ)|engage\s+(?:the\s+services\s+of|as\s+an?\s+(?:employee|consultant)))\b/i;
+
+// Checked in order; the first group found decides coveredPersons. Transaction contacts come first
+// because they narrow any group; "any employee, officer or director" is all employees, not key staff.
+const COVERED_PERSON_PATTERNS: Array<{ group: CoveredPersons; pattern: RegExp }> = [
+  {
+    group: 'due_diligence_contacts',
+    pattern: /\b(?:met|introduced|(?:first\s+)?(?:had|has|have)\s+(?:any\s+)?(?:contact|dealings)|contacted|became\s+aware|identified)\b[^.;]{0,100}?\b(?:due\s+diligence|evaluation|(?:proposed\s+)?transaction|discussions|this\s+agreement|confidential\s+information)/i
+  },
+  {
+    group: 'all_employees',
+    pattern: /\b(?:any|all)\s+(?:of\s+(?:the|its)\s+)?(?:(?:officers?|directors?|consultants?)\s*(?:,|or|and|\/)\s*)*(?:employees?|personnel|staff)\b|\b(?:its|their)\s+employees\b|'s\s+employees\b|\bemployees\s+of\s+the\s+(?:company|disclosing\s+party)\b/i
+  },
+  {
+    group: 'key_employees',
+    pattern: /\b(?:key|senior|executive|management)\s+(?:employees?|personnel|staff|officers?)|\bofficers?\b|\bdirectors?\b|\bvice\s+president|\b(?:annual\s+)?(?:base\s+)?(?:salary|compensation)\s+(?:of|in\s+excess\s+of|above|exceeding)/i
+  }
+];
+
+export const NON_SOLICIT_CARVE_OUTS: Array<{ key: NonSolicitCarveOutKey; label: string; pattern: RegExp }> = [
+  {
+    key: 'general_advertisement',
+    label: 'General advertisements',
+    pattern: /\bgeneral\s+(?:solicitations?|advertis\w*|job\s+(?:postings?|advertis\w*)|recruit\w*)|\b(?:advertisements?|solicitations?|postings?)\s+(?:that\s+(?:are|is)\s+)?not\s+(?:specifically\s+)?(?:targeted|directed|aimed)|\b(?:search|recruitment|recruiting)\s+(?:firms?|agenc(?:y|ies))|\bpublic\s+(?:job\s+)?(?:advertis\w*|postings?)/i
+  },
+  {
+    key: 'unsolicited_approach',
+    label: 'Unsolicited approaches',
+    pattern: /\bunsolicited\b|\bown\s+initiative\b|\b(?:first\s+)?(?:approaches|contacts|initiates\s+(?:contact|discussions)\s+with)\s+[^.;]{0,40}?without\s+(?:any\s+)?(?:prior\s+)?solicitation/i
+  },
+  {
+    key: 'terminated_employees',
+    label: 'Former employees',
+    pattern: /\bemployment\s+(?:\w+\s+){0,4}?(?:terminated|ended|ceased)|\bceased?\s+to\s+be\s+(?:employed|an?\s+employee)|\bno\s+longer\s+(?:employed|an?\s+employee)|\bformer\s+(?:employees?|personnel)/i
+  }
+];
+
+// Wording that names unsolicited approaches only to keep them inside the covenant
+const SOLICITATION_EITHER_WAY = /\b(?:whether\s+)?solicited\s+or\s+unsolicited\b|\bwhether\s+or\s+not\s+solicited\b/gi;
+
+const FRAGMENT_SPLIT = /[.;]\s+|,?\s+(?=\b(?:provided(?:,)?\s+(?:that|however)|except|other\s+than|save\s+(?:that|for)|nothing\s+in\s+this)\b)/i;
+
+/**
+ * Extract the covenants, restricted period, covered people and carve-outs from non-solicit / no-hire text
+ */
+export function extractNonSolicit(text: string): NonSolicitFeatures {
+  const cleaned = text.replace(SOLICITATION_EITHER_WAY, ' ');
+  const fragments = cleaned.split(FRAGMENT_SPLIT).map(part => part.trim()).filter(part => part.length > 0);
+
+  const carveOuts = {} as Record<NonSolicitCarveOutKey, boolean>;
+  NON_SOLICIT_CARVE_OUTS.forEach(({ key, pattern }) => { carveOuts[key] = pattern.test(cleaned); });
+
+  // The restricted period is stated in the covenant, not in a carve-out ("terminated at least six months earlier")
+  const covenantParts = fragments.filter(fragment => !NON_SOLICIT_CARVE_OUTS.some(({ pattern }) => pattern.test(fragment)));
+  const covenantText = covenantParts.length > 0 ? covenantParts.join('. ') : cleaned;
+  const duration = findDurations(covenantText)[0] || null;
+  const covered = COVERED_PERSON_PATTERNS.find(({ pattern }) => pattern.test(covenantText));
+
+  const hasNonSolicit = NON_SOLICIT_PATTERN.test(cleaned);
+  const hasNoHire = NO_HIRE_PATTERN.test(covenantText);
+  const covenants: RestrictiveCovenant[] = [];
+  if (hasNonSolicit) covenants.push('non_solicit');
+  if (hasNoHire) covenants.push('no_hire');
+
+  const missingCarveOuts = NON_SOLICIT_CARVE_OUTS.filter(({ key }) => !carveOuts[key]).map(({ key }) => key);
+
+  return {
+    covenants,
+    hasNonSolicit,
+    hasNoHire,
+    durationValue: duration ? duration.value : null,
+    durationUnit: duration ? duration.unit : null,
+    durationMonths: duration ? duration.months : null,
+    coveredPersons: covered ? covered.group : null,
+    carveOuts,
+    carveOutCount: NON_SOLICIT_CARVE_OUTS.length - missingCarveOuts.length,
+    missingCarveOuts
+  };
+}
@@ -0,0 +1,130 @@
+// lib/extractors/personal-data.ts
+// Structured extraction of personal data scope and data-protection obligations
+
+import { findTextScopes, maskScopes } from '../text-scopes';
+import { findDurations } from './duration';
+
+export type DataProtectionRegime = 'pdpa' | 'gdpr' | 'ccpa' | 'data_protection_laws';
+
+/**
+ * Obligations that apply to personal data shared under the NDA:
+ * security_measures: appropriate technical and organisational measures
+ * breach_notification: notice of a data breach to the discloser
+ * transfer_restrictions: limits on transfers out of the country or region
+ * processor_terms: the recipient acts as processor, on the discloser's instructions
+ */
+export type DataObligation = 'security_measures' | 'breach_notification' | 'transfer_restrictions' | 'processor_terms';
+
+export interface PersonalDataFeatures {
+  /** Personal data is part of the information disclosed */
+  personalDataInScope: boolean;
+  /** Personal data is mentioned only to exclude it */
+  personalDataExcluded: boolean;
+  /** Whether each regime is referenced, for rule conditions such as "regimes.gdpr" */
+  regimes: Record<DataProtectionRegime, boolean>;
+  regimeCount: number;
+  /** Whether each obligation is present, for rule conditions such as "obligations.breach_notification" */
+  obligations: Record<DataObligation, boolean>;
+  obligationCount: number;
+  missingObligations: DataObligation[];
+  /** Deadline for notifying a breach, in hours */
+  breachNotificationHours: number | null;
+  /** Personal data is in scope but no regime or obligation covers it */
+  protectionMismatch: boolean;
+}
+
+const PERSONAL_DATA_PATTERN = /\bpersonal\s+(?:data|information)\b|\bpersonally\s+identifiable\b|\bPII\b|\bdata\s+subjects?\b/i;
+// Records about people that usually contain personal data, unless the NDA says otherwise. The record
+// noun must follow directly ("customer details"), so "employees who need to know" or a list ending in
+// "employee information" does not count
+const PERSONAL_RECORDS_PATTERN = /\b(?:employee|personnel|staff|customer|patient|payroll)s?'?\s+(?:(?:contact|health|medical|personnel)\s+)?(?:data|records|files|details)\b/i;
+
+export const DATA_PROTECTION_REGIMES: Array<{ key: DataProtectionRegime; label: string; pattern: RegExp }> = [
+  { key: 'pdpa', label: 'PDPA', pattern: /\bPDPA\b|\bpersonal\s+data\s+protection\s+act\b/i },
+  { key: 'gdpr', label: 'GDPR', pattern: /\b(?:UK\s+|EU\s+)?GDPR\b|\bgeneral\s+data\s+protection\s+regulation\b|\b2016\/679\b/i },
+  { key: 'ccpa', label: 'CCPA', pattern: /\bCCPA\b|\bCPRA\b|\bcalifornia\s+consumer\s+privacy\s+act\b/i },
+  {
+    key: 'data_protection_laws',
+    label: 'Data protection laws',
+    pattern: /\b(?:data\s+protection|data\s+privacy|privacy)\s+(?:laws?|legislation|regulations?|requirements)\b/i
+  }
+];
+
+export const DATA_OBLIGATIONS: Array<{ key: DataObligation; label: string; pattern: RegExp }> = [
+  {
+    key: 'security_measures',
+    label: 'Security measures',
+    pattern: /\b(?:appropriate|reasonable|adequate)\s+(?:technical\s+and\s+organi[sz]ational\s+|security\s+)?(?:measures|safeguards)\b|\btechnical\s+and\s+organi[sz]ational\s+measures\b|\bagainst\s+(?:any\s+)?(?:unauthori[sz]ed|unlawful|accidental)\s+(?:access|processing|loss)|\bencrypt\w*/i
+  },
+  {
+    key: 'breach_notification',
+    label: 'Breach notification',
+    // Checked per sentence: a breach or incident and a duty to tell the discloser about it
+    pattern: /\b(?:data|security|personal\s+data)\s+(?:breach|incident)\b|\bunauthori[sz]ed\s+(?:access|disclosure|processing)\b/i
+  },
+  {
+    key: 'transfer_restrictions',
+    label: 'Cross-border transfer restrictions',
+    pattern: /\b(?:transfer|export)\w*\b[^.;]{0,60}?\b(?:outside|out\s+of)\b|\bcross-?\s?border\s+transfers?\b|\bstandard\s+contractual\s+clauses\b|\badequa(?:te|cy)\s+(?:level\s+of\s+protection|decision)/i
+  },
+  {
+    key: 'processor_terms',
+    label: 'Data processor terms',
+    pattern: /\bdata\s+processors?\b|\bact\w*\s+as\s+(?:a\s+|the\s+)?(?:\w+\s+)?processor\b|\bdata\s+processing\s+(?:agreement|addendum)\b|\b(?:documented\s+)?instructions\s+of\s+the\s+(?:\w+\s+)?(?:controller|disclos\w+\s+party|company)\b|\bon\s+behalf\s+of\s+the\s+(?:\w+\s+)?controller\b/i
+  }
+];
+
+const NOTIFY_PATTERN = /\bnotif\w*|\binform\w*|\b(?:give|provide)\s+(?:\w+\s+){0,3}?notice\b/i;
+// "within 72 hours", "within seventy-two (72) hours", "no later than 24 hours"
+const HOURS_PATTERN = /\b(?:within|no\s+later\s+than|not\s+later\s+than|not\s+more\s+than)\s+(?:[a-z-]+\s+)?\(?\s*(\d+)\s*\)?\s*hours?\b|\b(?:within|no\s+later\s+than|not\s+later\s+than)\s+(twenty-four|forty-eight|seventy-two)\s+hours?\b/i;
+const HOUR_WORDS: Record<string, number> = { 'twenty-four': 24, 'forty-eight': 48, 'seventy-two': 72 };
+
+function findBreachNotificationHours(sentence: string): number | null {
+  const hours = HOURS_PATTERN.exec(sentence);
+  if (hours) return hours[1] ? parseInt(hours[1], 10) : HOUR_WORDS[hours[2].toLowerCase()];
+  const days = findDurations(sentence).find(mention => mention.unit === 'days');
+  return days ? days.value * 24 : null;
+}
+
+/**
+ * Extract whether personal data is in scope and which data-protection terms apply. It is in scope when
+ * the NDA names personal data, PII or a data-protection regime, or lists records such as "customer details".
+ * Personal data mentioned only in a negated or excluded phrase ("excluding personally identifiable
+ * information") is not in scope, and that exclusion also takes customer or employee records out of scope.
+ */
+export function extractPersonalData(text: string): PersonalDataFeatures {
+  const scopes = findTextScopes(text).filter(scope => scope.kind === 'exclusion' || scope.kind === 'negation');
+  const unscoped = maskScopes(text, scopes);
+  const regimes = {} as Record<DataProtectionRegime, boolean>;
+  DATA_PROTECTION_REGIMES.forEach(({ key, pattern }) => { regimes[key] = pattern.test(text); });
+  const regimeCount = DATA_PROTECTION_REGIMES.filter(({ key }) => regimes[key]).length;
+
+  const namedInScope = PERSONAL_DATA_PATTERN.test(unscoped) ||
+    DATA_PROTECTION_REGIMES.some(({ pattern }) => pattern.test(unscoped));
+  const personalDataExcluded = !namedInScope && PERSONAL_DATA_PATTERN.test(text);
+  const personalDataInScope = namedInScope || (!personalDataExcluded && PERSONAL_RECORDS_PATTERN.test(unscoped));
+
+  const sentences = text.split(/[.;]\s+/);
+  const breachSentence = sentences.find(sentence =>
+    DATA_OBLIGATIONS[1].pattern.test(sentence) && NOTIFY_PATTERN.test(sentence)
+  );
+
+  const obligations = {} as Record<DataObligation, boolean>;
+  DATA_OBLIGATIONS.forEach(({ key, pattern }) => {
+    obligations[key] = key === 'breach_notification' ? breachSentence !== undefined : pattern.test(text);
+  });
+  const missingObligations = DATA_OBLIGATIONS.filter(({ key }) => !obligations[key]).map(({ key }) => key);
+  const obligationCount = DATA_OBLIGATIONS.length - missingObligations.length;
+
+  return {
+    personalDataInScope,
+    personalDataExcluded,
+    regimes,
+    regimeCount,
+    obligations,
+    obligationCount,
+    missingObligations,
+    breachNotificationHours: breachSentence ? findBreachNotificationHours(breachSentence) : null,
+    protectionMismatch: personalDataInScope && regimeCount === 0 && obligationCount === 0
+  };
+}
@@ -0,0 +1,185 @@
+// lib/extractors/remedies.ts
+// Structured extraction of remedies and liability provisions, with the risk each exposure carries per party
+
+import type { PartyPerspective } from '@/types';
+
+export type IndemnityGiver = 'recipient' | 'discloser' | 'mutual';
+
+/**
+ * Provisions that shift or enlarge liability for a breach:
+ * recipient_indemnity / discloser_indemnity / mutual_indemnity: who indemnifies whom
+ * liquidated_damages: a fixed sum payable on breach
+ * uncapped_liability: liability stated to be unlimited
+ * liability_cap: liability limited to an amount
+ * consequential_exclusion: no liability for indirect or consequential loss
+ * injunction_without_bond: injunctive relief available without posting a bond or proving damages
+ */
+export type RemedyExposure =
+  | 'recipient_indemnity'
+  | 'discloser_indemnity'
+  | 'mutual_indemnity'
+  | 'liquidated_damages'
+  | 'uncapped_liability'
+  | 'liability_cap'
+  | 'consequential_exclusion'
+  | 'injunction_without_bond';
+
+export interface RemediesFeatures {
+  indemnity: boolean;
+  /** Who gives the indemnity; null when there is none or the giver is not named */
+  indemnityBy: IndemnityGiver | null;
+  liquidatedDamages: boolean;
+  /** Stated liquidated damages sum, in the currency of the agreement */
+  liquidatedDamagesAmount: number | null;
+  /** uncapped: liability stated to be unlimited; capped: limited to an amount; null when the clause does not say */
+  liabilityCap: 'uncapped' | 'capped' | null;
+  liabilityCapAmount: number | null;
+  consequentialDamagesExcluded: boolean;
+  injunctiveRelief: boolean;
+  /** Relief available without posting a bond or other security */
+  injunctionWithoutBond: boolean;
+  /** Relief available without proof of actual damages */
+  injunctionWithoutProofOfDamages: boolean;
+  /** The parties acknowledge that a breach would cause irreparable harm */
+  irreparableHarmAcknowledged: boolean;
+  /** Every exposure found, for rule conditions and risk */
+  exposures: RemedyExposure[];
+  exposureCount: number;
+}
+
+const INDEMNITY_PATTERN = /\bindemnif\w*|\bhold\s+(?:\w+\s+){0,3}?harmless\b/i;
+const PASSIVE_INDEMNITY_PATTERN = /\bindemnified\s+(?:and\s+held\s+harmless\s+)?by\s+(?:the\s+)?([^,.;]{1,60})/i;
+const INDEMNITY_GIVERS: Array<{ giver: IndemnityGiver; pattern: RegExp }> = [
+  { giver: 'mutual', pattern: /\b(?:each|either)\s+(?:of\s+the\s+)?part(?:y|ies)\b|\bthe\s+parties\b|\bmutual\w*/gi },
+  { giver: 'recipient', pattern: /\brecipient\b|\breceiving\s+party\b|\b(?:buyer|purchaser|acquirer|bidder|investor)\b/gi },
+  { giver: 'discloser', pattern: /\bdisclos\w+\s+party\b|\bdiscloser\b|\b(?:company|seller|vendor|target)\b/gi }
+];
+// The indemnifying party is named shortly before "shall indemnify"
+const INDEMNITY_SUBJECT_WINDOW = 80;
+
+const LIQUIDATED_DAMAGES_PATTERN = /\bliquidated\s+damages\b|\bpay\s+(?:to\s+the\s+\w+(?:\s+party)?\s+)?(?:a\s+|the\s+)?(?:fixed\s+|agreed\s+)?(?:sum|amount|penalty)\s+of\b|\bpenalty\s+of\b/i;
+const UNCAPPED_PATTERN = /\bunlimited\s+liability\b|\buncapped\b|\bliability\s+(?:\w+\s+){0,6}?(?:shall|will)\s+not\s+be\s+(?:limited|capped)\b|\bno\s+(?:limitation|limit|cap)\s+(?:on|of|to)\s+(?:\w+\s+)?liability\b|\bwithout\s+(?:any\s+)?(?:limitation|limit|cap)\s+(?:as\s+to\s+amount|of\s+liability|on\s+liability)|\bliable\s+(?:\w+\s+){0,3}?without\s+limit(?:ation)?\b/i;
+const CAP_PATTERN = /\b(?:liability|liable)\b[^.;]{0,100}?\b(?:shall\s+not\s+exceed|not\s+exceeding|limited\s+to|capped\s+at|in\s+excess\s+of)\b/i;
+const CONSEQUENTIAL_PATTERN = /\b(?:not\s+be\s+liable|no\s+liability|exclud\w*|waive\w*|in\s+no\s+event)\b[^.;]{0,120}?\b(?:indirect|consequential|special|punitive|exemplary)\b|\blost\s+profits\b[^.;]{0,40}\bexclud\w*/i;
+
+const INJUNCTION_PATTERN = /\binjunct\w*|\bspecific\s+performance\b|\bequitable\s+relief\b/i;
+const WITHOUT_BOND_PATTERN = /\bwithout\s+(?:the\s+)?(?:necessity|need|requirement)\s+(?:of\s+|to\s+|for\s+)?(?:post(?:ing)?|furnish(?:ing)?|provid(?:e|ing))\s+(?:a\s+|any\s+)?(?:bond|security|undertaking\s+in\s+damages)|\bwithout\s+(?:posting|furnishing|providing)\s+(?:a\s+|any\s+)?(?:bond|security)|\bwaive\w*\s+(?:any\s+)?(?:requirement\s+(?:for|of|to)\s+)?(?:the\s+)?(?:post(?:ing)?\s+(?:of\s+)?)?(?:a\s+|any\s+)?bond\b|\bno\s+bond\b/i;
+const WITHOUT_PROOF_PATTERN = /\bwithout\s+(?:the\s+)?(?:necessity\s+of\s+|need\s+(?:for|to)\s+|requirement\s+(?:of|to)\s+)?(?:proof|proving|showing|demonstrating)\s+(?:of\s+)?(?:actual\s+)?(?:damages?|loss|harm)/i;
+const IRREPARABLE_PATTERN = /\birreparabl\w*\s+(?:harm|damage|injury|loss)\b/i;
+
+// "$500,000", "USD 1,000,000", "£2 million", "EUR 250.000"
+const AMOUNT_PATTERN = /(?:[$£€]|\b(?:USD|US\$|EUR|GBP|SGD|CHF)\s?)\s?(\d{1,3}(?:[,.]\d{3})+|\d+(?:\.\d+)?)\s*(million|m\b|thousand|k\b)?/i;
+const AMOUNT_MULTIPLIERS: Record<string, number> = { million: 1000000, m: 1000000, thousand: 1000, k: 1000 };
+
+/**
+ * Risk of each exposure for each perspective (1 low - 5 high). The recipient carries indemnities,
+ * liquidated damages and unlimited liability; the discloser is hurt by anything that limits its recovery.
+ */
+const EXPOSURE_RISK: Record<RemedyExposure, Record<PartyPerspective, number>> = {
+  recipient_indemnity: { receiving: 5, disclosing: 1, mutual: 4 },
+  discloser_indemnity: { receiving: 1, disclosing: 4, mutual: 4 },
+  mutual_indemnity: { receiving: 4, disclosing: 3, mutual: 3 },
+  liquidated_damages: { receiving: 4, disclosing: 2, mutual: 4 },
+  uncapped_liability: { receiving: 4, disclosing: 1, mutual: 3 },
+  liability_cap: { receiving: 1, disclosing: 4, mutual: 2 },
+  consequential_exclusion: { receiving: 1, disclosing: 3, mutual: 1 },
+  injunction_without_bond: { receiving: 2, disclosing: 1, mutual: 2 }
+};
+
+// A discloser whose remedies clause gives it no route to injunctive relief
+const NO_INJUNCTION_RISK = 3;
+
+function parseAmount(text: string): number | null {
+  const match = AMOUNT_PATTERN.exec(text);
+  if (!match) return null;
+  // "250.000" and "250,000" group thousands; "2.5 million" is a decimal
+  const digits = /[,.]\d{3}(?:[,.]|$)/.test(match[1]) ? match[1].replace(/[,.]/g, '') : match[1];
+  const value = parseFloat(digits);
+  if (!isFinite(value)) return null;
+  return match[2] ? value * AMOUNT_MULTIPLIERS[match[2].toLowerCase()] : value;
+}
+
+/**
+ * The sentence around a match, for reading amounts stated with the provision
+ */
+function sentenceAt(text: string, index: number): string {
+  const start = Math.max(text.lastIndexOf('.', index - 1), text.lastIndexOf(';', index - 1)) + 1;
+  const ends = [text.indexOf('.', index), text.indexOf(';', index)].filter(end => end >= 0);
+  return text.slice(start, ends.length > 0 ? Math.min(...ends) : text.length);
+}
+
+function findIndemnityGiver(text: string, index: number): IndemnityGiver | null {
+  // "the Disclosing Party shall be indemnified by the Recipient" names the giver after the verb
+  const passive = PASSIVE_INDEMNITY_PATTERN.exec(text.slice(index));
+  const sentenceStart = Math.max(text.lastIndexOf('.', index - 1), text.lastIndexOf(';', index - 1)) + 1;
+  const subject = passive && passive.index === 0
+    ? passive[1]
+    : text.slice(Math.max(sentenceStart, index - INDEMNITY_SUBJECT_WINDOW), index);
+
+  let best: { giver: IndemnityGiver; distance: number } | null = null;
+  for (const { giver, pattern } of INDEMNITY_GIVERS) {
+    const regex = new RegExp(pattern.source, pattern.flags);
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(subject)) !== null) {
+      // The actor closest to the verb wins; in passive text the first one after "by"
+      const distance = passive && passive.index === 0 ? match.index : subject.length - match.index;
+      if (!best || distance < best.distance) best = { giver, distance };
+    }
+  }
+  return best ? best.giver : null;
+}
+
+/**
+ * Extract indemnities, liquidated damages, liability limits and injunctive relief from remedies text
+ */
+export function extractRemedies(text: string): RemediesFeatures {
+  const indemnityMatch = INDEMNITY_PATTERN.exec(text);
+  const indemnityBy = indemnityMatch ? findIndemnityGiver(text, indemnityMatch.index) : null;
+
+  const liquidatedMatch = LIQUIDATED_DAMAGES_PATTERN.exec(text);
+  const capMatch = CAP_PATTERN.exec(text);
+  const liabilityCap = UNCAPPED_PATTERN.test(text) ? 'uncapped' : capMatch ? 'capped' : null;
+
+  const injunctiveRelief = INJUNCTION_PATTERN.test(text);
+  const injunctionWithoutBond = injunctiveRelief && WITHOUT_BOND_PATTERN.test(text);
+  const injunctionWithoutProofOfDamages = injunctiveRelief && WITHOUT_PROOF_PATTERN.test(text);
+  const consequentialDamagesExcluded = CONSEQUENTIAL_PATTERN.test(text);
+
+  const exposures: RemedyExposure[] = [];
+  // An indemnity that names no giver is read as the recipient's, as it almost always is in an NDA
+  if (indemnityMatch) exposures.push(`${indemnityBy || 'recipient'}_indemnity` as RemedyExposure);
+  if (liquidatedMatch) exposures.push('liquidated_damages');
+  if (liabilityCap === 'uncapped') exposures.push('uncapped_liability');
+  if (liabilityCap === 'capped') exposures.push('liability_cap');
+  if (consequentialDamagesExcluded) exposures.push('consequential_exclusion');
+  if (injunctionWithoutBond || injunctionWithoutProofOfDamages) exposures.push('injunction_without_bond');
+
+  return {
+    indemnity: indemnityMatch !== null,
+    indemnityBy,
+    liquidatedDamages: liquidatedMatch !== null,
+    liquidatedDamagesAmount: liquidatedMatch ? parseAmount(sentenceAt(text, liquidatedMatch.index)) : null,
+    liabilityCap,
+    liabilityCapAmount: liabilityCap === 'capped' && capMatch ? parseAmount(sentenceAt(text, capMatch.index)) : null,
+    consequentialDamagesExcluded,
+    injunctiveRelief,
+    injunctionWithoutBond,
+    injunctionWithoutProofOfDamages,
+    irreparableHarmAcknowledged: IRREPARABLE_PATTERN.test(text),
+    exposures,
+    exposureCount: exposures.length
+  };
+}
+
+/**
+ * Risk level (1-5) of the remedies found, for one party: the highest single exposure,
+ * one level higher when two or more high exposures stack (e.g. an indemnity with unlimited liability)
+ */
+export function assessRemediesRisk(features: RemediesFeatures, perspective: PartyPerspective): number {
+  const risks = features.exposures.map(exposure => EXPOSURE_RISK[exposure][perspective]);
+  if (perspective === 'disclosing' && !features.injunctiveRelief) risks.push(NO_INJUNCTION_RISK);
+
+  const highest = risks.length > 0 ? Math.max(...risks) : 1;
+  const stacked = risks.filter(risk => risk >= 4).length >= 2;
+  return Math.min(5, stacked ? highest + 1 : highest);
+}
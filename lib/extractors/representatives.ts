@@ -0,0 +1,180 @@
+// lib/extractors/representatives.ts
+// Structured extraction of the "Representatives" definition and permitted-disclosure scope
+
+import { findTextScopes } from '../text-scopes';
+
+/**
+ * Who the recipient may share Confidential Information with:
+ * personnel: its own directors, officers and employees
+ * affiliates: group companies
+ * advisers: legal, financial and accounting advisers
+ * financing_sources: actual or potential lenders and other debt or equity financing providers
+ * co_investors: equity co-investors, consortium members and limited partners
+ * insurers: insurers and insurance brokers (e.g. W&I)
+ */
+export type DiscloseeCategory = 'personnel' | 'affiliates' | 'advisers' | 'financing_sources' | 'co_investors' | 'insurers';
+
+export interface DiscloseeScope {
+  permitted: boolean;
+  /** Only those who need to know for the purpose */
+  needToKnow: boolean;
+  /** Must sign a confidentiality undertaking or agree in writing to be bound */
+  writtenUndertaking: boolean;
+  /** Only with the discloser's prior consent */
+  consentRequired: boolean;
+  /** The recipient answers for breaches by these disclosees */
+  recipientLiable: boolean;
+}
+
+export interface RepresentativesFeatures {
+  /** Scope per category, for rule conditions such as "categories.financing_sources.permitted" */
+  categories: Record<DiscloseeCategory, DiscloseeScope>;
+  permittedCategories: DiscloseeCategory[];
+  permittedCount: number;
+  missingCategories: DiscloseeCategory[];
+  /** The recipient is responsible for any breach by its Representatives */
+  recipientLiable: boolean;
+}
+
+export const DISCLOSEE_CATEGORIES: Array<{ key: DiscloseeCategory; label: string; pattern: RegExp }> = [
+  {
+    key: 'personnel',
+    label: 'Directors, officers and employees',
+    pattern: /\b(?:directors?|officers?|employees?|personnel|staff)\b/i
+  },
+  {
+    key: 'affiliates',
+    label: 'Affiliates',
+    pattern: /\baffiliat\w*|\bsubsidiar\w*|\bparent\s+compan\w*|\bgroup\s+compan\w*/i
+  },
+  {
+    key: 'advisers',
+    label: 'Advisers',
+    pattern: /\badvis[eo]rs?\b|\bcounsel\b|\battorneys?\b|\blawyers?\b|\baccountants?\b|\bauditors?\b|\bconsultants?\b|\b(?:investment\s+)?bankers\b/i
+  },
+  {
+    key: 'financing_sources',
+    label: 'Financing sources',
+    pattern: /\bfinanc\w*\s+(?:sources?|providers?|parties|banks?)\b|\blenders?\b|\b(?:debt|equity)\s+financ\w*|\bsources?\s+of\s+(?:debt\s+|equity\s+)?financ\w*|\bfinanciers?\b/i
+  },
+  {
+    key: 'co_investors',
+    label: 'Co-investors',
+    pattern: /\bco-?\s?investors?\b|\bconsortium\s+(?:members?|partners?)\b|\blimited\s+partners\b|\bco-?\s?bidders?\b|\bequity\s+partners?\b/i
+  },
+  {
+    key: 'insurers',
+    label: 'Insurers',
+    pattern: /\b(?:re)?insurers?\b|\binsurance\s+(?:providers?|brokers?|carriers?|underwriters?)\b|\bw&i\b/i
+  }
+];
+
+const NEED_TO_KNOW_PATTERN = /\bneed(?:s)?[\s-]+to[\s-]+know\b|\b(?:reasonably\s+)?(?:require|need)s?\s+(?:such\s+|the\s+)?(?:confidential\s+)?(?:information|access)\s+(?:for|in\s+(?:order|connection)\s+(?:to|with))/i;
+const UNDERTAKING_PATTERN = /\bwritten\s+(?:undertaking|confidentiality\s+(?:agreement|undertaking)|acknowledg\w+)|\b(?:sign|execut|enter)\w*\s+(?:into\s+)?(?:a\s+|an\s+)?(?:written\s+)?(?:confidentiality|non-?disclosure|joinder|accession)\s+(?:agreement|undertaking|letter)|\bundertak\w*\s+in\s+writing|\bagree\w*\s+in\s+writing\s+to\s+be\s+bound/i;
+const CONSENT_PATTERN = /\bprior\s+(?:written\s+)?consent\b|\bwith\s+the\s+(?:prior\s+)?(?:written\s+)?(?:consent|approval)\b|\bapproved\s+in\s+writing\b/i;
+const LIABILITY_PATTERN = /\b(?:responsible|liable)\s+for\s+(?:any\s+)?(?:breach|non-?compliance|failure|(?:the\s+)?(?:acts|actions|omissions|conduct|compliance))|\bresponsib\w*\s+for\s+(?:its|their)\s+representatives/i;
+
+// Consent and undertakings usually qualify the category named right next to them
+const CONDITION_REACH = 120;
+
+// "with the prior consent of the Company, its financing sources": the condition qualifies what follows
+const LEADING_CONDITION = /\b(?:with|subject\s+to|upon|after(?:\s+obtaining)?)\s+(?:the\s+)?$/i;
+// "..., each of whom shall sign an undertaking": the condition qualifies every category in the sentence
+const COLLECTIVE_CONDITION = /\b(?:each|all)\s+of\s+whom\b|\bin\s+each\s+case\b/i;
+
+interface CategoryMention {
+  key: DiscloseeCategory;
+  start: number;
+  end: number;
+}
+
+/**
+ * Categories a condition cue applies to: the closest mention on the side the cue qualifies,
+ * the closest on either side when none is there, and all of them when none is near the cue
+ * or the cue is stated for each of them
+ */
+function qualifiedBy(sentence: string, pattern: RegExp, mentions: CategoryMention[]): DiscloseeCategory[] {
+  const cue = pattern.exec(sentence);
+  if (!cue) return [];
+  if (COLLECTIVE_CONDITION.test(sentence.slice(Math.max(0, cue.index - 60), cue.index))) return mentions.map(mention => mention.key);
+  const cueEnd = cue.index + cue[0].length;
+  const distance = (mention: CategoryMention) =>
+    mention.end <= cue.index ? cue.index - mention.end : Math.max(0, mention.start - cueEnd);
+  const nearest = (candidates: CategoryMention[]) => candidates
+    .filter(mention => distance(mention) <= CONDITION_REACH)
+    .sort((a, b) => distance(a) - distance(b))[0];
+
+  const leading = LEADING_CONDITION.test(sentence.slice(Math.max(0, cue.index - 30), cue.index)) || /^with\b/i.test(cue[0]);
+  const qualified = nearest(mentions.filter(mention => (leading ? mention.start >= cueEnd : mention.end <= cue.index))) ||
+    nearest(mentions);
+  return qualified ? [qualified.key] : mentions.map(mention => mention.key);
+}
+
+/**
+ * Extract which categories of disclosee are permitted and on what conditions.
+ * Conditions stated with a category apply to it; conditions in sentences naming no category
+ * (e.g. "Representatives who need to know") apply to every permitted category. A category named
+ * only inside an exclusion, or a negation without a consent condition, is not permitted.
+ */
+export function extractRepresentatives(text: string): RepresentativesFeatures {
+  const sentences = text.split(/[.;]\s+/).map(sentence => sentence.trim()).filter(sentence => sentence.length > 0);
+
+  const categories = {} as Record<DiscloseeCategory, DiscloseeScope>;
+  DISCLOSEE_CATEGORIES.forEach(({ key }) => {
+    categories[key] = { permitted: false, needToKnow: false, writtenUndertaking: false, consentRequired: false, recipientLiable: false };
+  });
+
+  const general = { needToKnow: false, writtenUndertaking: false, recipientLiable: false };
+
+  sentences.forEach(sentence => {
+    const needToKnow = NEED_TO_KNOW_PATTERN.test(sentence);
+    const recipientLiable = LIABILITY_PATTERN.test(sentence);
+
+    const mentions: CategoryMention[] = [];
+    DISCLOSEE_CATEGORIES.forEach(({ key, pattern }) => {
+      const mention = pattern.exec(sentence);
+      if (mention) mentions.push({ key, start: mention.index, end: mention.index + mention[0].length });
+    });
+    if (mentions.length === 0) {
+      general.needToKnow = general.needToKnow || needToKnow;
+      general.writtenUndertaking = general.writtenUndertaking || UNDERTAKING_PATTERN.test(sentence);
+      general.recipientLiable = general.recipientLiable || recipientLiable;
+      return;
+    }
+
+    const withUndertaking = qualifiedBy(sentence, UNDERTAKING_PATTERN, mentions);
+    const withConsent = qualifiedBy(sentence, CONSENT_PATTERN, mentions);
+    const scopes = findTextScopes(sentence);
+
+    mentions.forEach(({ key, start }) => {
+      // "other than its advisers" after a prohibition permits them; a bare exclusion or prohibition does not
+      const scope = scopes.find(candidate => start >= candidate.start && start < candidate.end);
+      const prohibitedBefore = scope ? scopes.some(candidate => candidate.kind === 'negation' && candidate.start < scope.start) : false;
+      const excluded = scope?.kind === 'exclusion' ? !prohibitedBefore : scope?.kind === 'negation' && !withConsent.includes(key);
+      if (excluded) return;
+
+      const entry = categories[key];
+      entry.permitted = true;
+      entry.needToKnow = entry.needToKnow || needToKnow;
+      entry.writtenUndertaking = entry.writtenUndertaking || withUndertaking.includes(key);
+      entry.consentRequired = entry.consentRequired || withConsent.includes(key);
+      entry.recipientLiable = entry.recipientLiable || recipientLiable;
+    });
+  });
+
+  const permittedCategories = DISCLOSEE_CATEGORIES.filter(({ key }) => categories[key].permitted).map(({ key }) => key);
+  permittedCategories.forEach(key => {
+    const entry = categories[key];
+    entry.needToKnow = entry.needToKnow || general.needToKnow;
+    entry.writtenUndertaking = entry.writtenUndertaking || general.writtenUndertaking;
+    entry.recipientLiable = entry.recipientLiable || general.recipientLiable;
+  });
+
+  return {
+    categories,
+    permittedCategories,
+    permittedCount: permittedCategories.length,
+    missingCategories: DISCLOSEE_CATEGORIES.filter(({ key }) => !categories[key].permitted).map(({ key }) => key),
+    recipientLiable: general.recipientLiable || permittedCategories.some(key => categories[key].recipientLiable)
+  };
+}
@@ -0,0 +1,85 @@
+// lib/extractors/residuals.ts
+// Structured extraction of residuals clauses (use of information retained in unaided memory)
+
+import type { PartyPerspective } from '@/types';
+
+/**
+ * Limits that narrow a residuals right:
+ * no_patent_licence: no licence under the discloser's patents, copyrights or other IP
+ * no_source_code: source code is outside the residuals right
+ * no_deliberate_memorisation: information memorised on purpose does not count as residuals
+ * no_disclosure: residuals may be used but not disclosed
+ */
+export type ResidualsLimit = 'no_patent_licence' | 'no_source_code' | 'no_deliberate_memorisation' | 'no_disclosure';
+
+export interface ResidualsFeatures {
+  hasResiduals: boolean;
+  /** The right is limited to what is retained in unaided memory */
+  unaidedMemory: boolean;
+  /** The "general skills, know-how and experience" variant */
+  generalSkills: boolean;
+  /** Whether each limit is present, for rule conditions such as "limits.no_source_code" */
+  limits: Record<ResidualsLimit, boolean>;
+  limitCount: number;
+  missingLimits: ResidualsLimit[];
+}
+
+export const RESIDUALS_LIMITS: Array<{ key: ResidualsLimit; label: string; pattern: RegExp }> = [
+  {
+    key: 'no_patent_licence',
+    label: 'No patent or copyright licence',
+    pattern: /\b(?:no|not\s+(?:\w+\s+){0,3}?(?:grant|confer|constitute))\w*\b[^.;]{0,60}?\blicen[cs]e\b[^.;]{0,60}?\b(?:patents?|copyrights?|intellectual\s+property)|\b(?:patents?|copyrights?|intellectual\s+property)\b[^.;]{0,80}?\b(?:not\s+(?:be\s+)?(?:licen[cs]ed|granted)|excluded|no\s+licen[cs]e)|\bshall\s+not\s+(?:\w+\s+){0,3}?(?:infring\w*|exploit\w*\s+(?:\w+\s+){0,2}?patents?)/i
+  },
+  {
+    key: 'no_source_code',
+    label: 'Source code excluded',
+    pattern: /\b(?:not|exclud\w*|except|other\s+than|excepting)\b[^.;]{0,80}?\bsource\s+code\b|\bsource\s+code\b[^.;]{0,60}?\b(?:excluded|shall\s+not|is\s+not|does\s+not)/i
+  },
+  {
+    key: 'no_deliberate_memorisation',
+    label: 'No deliberate memorisation',
+    pattern: /\b(?:intentional|deliberate|purposeful|conscious)\w*\s+(?:\w+\s+){0,2}?memori[sz]\w*|\bmemori[sz]\w*\s+(?:\w+\s+){0,4}?(?:for\s+the\s+(?:purpose|intent)\s+of|in\s+order\s+to|with\s+the\s+intent)|\bnot\s+(?:\w+\s+){0,2}?(?:intentionally|deliberately|purposely|purposefully)\s+(?:\w+\s+){0,2}?memori[sz]\w*/i
+  },
+  {
+    key: 'no_disclosure',
+    label: 'No disclosure of residuals',
+    pattern: /\b(?:shall\s+not|does\s+not|nothing\s+(?:\w+\s+){0,4}?shall)\b[^.;]{0,60}?\b(?:permit|authori[sz]e|entitle|allow|relieve)\w*\b[^.;]{0,60}?\bdisclos\w*|\bwithout\s+disclosing\b/i
+  }
+];
+
+const RESIDUALS_PATTERN = /\bresiduals\b|\bresidual\s+(?:knowledge|information|rights?)\b|\bunaided\s+memor\w*|\bretained\s+in\s+(?:the\s+)?(?:unaided\s+)?memor\w*/i;
+const UNAIDED_MEMORY_PATTERN = /\bunaided\s+memor\w*|\b(?:retained|remembered)\s+in\s+(?:the\s+)?(?:\w+\s+)?memor\w*|\bwithout\s+(?:reference\s+to|use\s+of|the\s+aid\s+of)\s+(?:any\s+)?(?:\w+\s+)?(?:documents?|records?|materials?|notes)\b/i;
+const GENERAL_SKILLS_PATTERN = /\bgeneral\s+(?:skills|knowledge|know-how|experience)\b|\bskills,?\s+(?:general\s+)?know-how,?\s+(?:and|or)\s+experience\b|\bideas,?\s+concepts,?\s+know-how,?\s+(?:and|or)\s+techniques\b/i;
+// "general skills and experience" only grants residuals when it is about using what was learned
+const GENERAL_SKILLS_USE_PATTERN = /\b(?:use|using|exploit\w*|employ\w*|free\s+to|restrict\w*|prevent\w*|limit\w*)\b/i;
+
+/**
+ * Extract a residuals right, its memory qualifier and the limits on it
+ */
+export function extractResiduals(text: string): ResidualsFeatures {
+  const generalSkills = GENERAL_SKILLS_PATTERN.test(text);
+  const hasResiduals = RESIDUALS_PATTERN.test(text) || (generalSkills && GENERAL_SKILLS_USE_PATTERN.test(text));
+
+  const limits = {} as Record<ResidualsLimit, boolean>;
+  RESIDUALS_LIMITS.forEach(({ key, pattern }) => { limits[key] = hasResiduals && pattern.test(text); });
+  const missingLimits = RESIDUALS_LIMITS.filter(({ key }) => !limits[key]).map(({ key }) => key);
+
+  return {
+    hasResiduals,
+    unaidedMemory: hasResiduals && UNAIDED_MEMORY_PATTERN.test(text),
+    generalSkills: hasResiduals && generalSkills,
+    limits,
+    limitCount: RESIDUALS_LIMITS.length - missingLimits.length,
+    missingLimits
+  };
+}
+
+/**
+ * Risk level (1-5) of a residuals right for one party. It takes information out of the NDA,
+ * so the discloser's risk is high and falls only as limits are added; the recipient carries none.
+ */
+export function assessResidualsRisk(features: ResidualsFeatures, perspective: PartyPerspective): number {
+  if (!features.hasResiduals || perspective === 'receiving') return 1;
+  if (perspective === 'mutual') return features.limitCount >= 3 ? 2 : 3;
+  return features.limitCount >= 3 ? 3 : features.limitCount >= 1 ? 4 : 5;
+}
@@ -0,0 +1,113 @@
+// lib/extractors/return-of-info.ts
+// Structured extraction of return-or-destroy obligations and retention carve-outs
+
+import { findDurations, type DurationUnit } from './duration';
+
+/**
+ * Events that oblige the recipient to return or destroy the information:
+ * on_request: whenever the discloser asks
+ * on_termination: when the agreement or relationship ends
+ * deal_abandonment: when the recipient decides not to proceed or discussions end
+ */
+export type ReturnTrigger = 'on_request' | 'on_termination' | 'deal_abandonment';
+
+export type RetentionCarveOut = 'automatic_backups' | 'legal_retention' | 'board_papers';
+
+export interface ReturnOfInfoFeatures {
+  /** What the recipient must do with the information; null when the clause does not say */
+  obligation: 'return' | 'destroy' | 'return_or_destroy' | null;
+  /** Whether each trigger is present, for rule conditions such as "triggers.on_request" */
+  triggers: Record<ReturnTrigger, boolean>;
+  triggerCount: number;
+  /** Deadline for returning or destroying the information, in days */
+  deadlineDays: number | null;
+  /** Return or destruction must be certified or confirmed in writing */
+  certificationRequired: boolean;
+  /** Whether each retention carve-out is present, for rule conditions such as "retentionCarveOuts.automatic_backups" */
+  retentionCarveOuts: Record<RetentionCarveOut, boolean>;
+  retentionCarveOutCount: number;
+  missingRetentionCarveOuts: RetentionCarveOut[];
+}
+
+const RETURN_PATTERN = /\b(?:return|returned|returning|deliver\s+(?:up|back))\b/i;
+const DESTROY_PATTERN = /\b(?:destroy\w*|destruction|delet(?:e|ed|ion)|eras(?:e|ed|ure)|expunge\w*|purge\w*)\b/i;
+
+export const RETURN_TRIGGERS: Array<{ key: ReturnTrigger; label: string; pattern: RegExp }> = [
+  {
+    key: 'on_request',
+    label: 'On request',
+    pattern: /\b(?:request|demand)(?:ed|s)?\b|\b(?:direction|directed)\s+(?:of|by)\b/i
+  },
+  {
+    key: 'on_termination',
+    label: 'On termination',
+    // "termination of discussions" ends the deal, not the agreement
+    pattern: /\b(?:termination|expiration|expiry)\b(?!\s+of\s+(?:the\s+|any\s+)?(?:discussions|negotiations|(?:proposed\s+)?transaction|evaluation))|\bend\s+of\s+(?:the\s+)?(?:term|engagement|services|relationship)\b/i
+  },
+  {
+    key: 'deal_abandonment',
+    label: 'Deal abandoned',
+    pattern: /\b(?:decides?|determines?|elects?)\s+not\s+to\s+proceed\b|\babandon\w*|\b(?:termination|conclusion|end)\s+of\s+(?:the\s+|any\s+)?(?:discussions|negotiations|(?:proposed\s+)?transaction|evaluation)|\b(?:discussions|negotiations|(?:proposed\s+)?transaction)\s+(?:is|are)\s+(?:terminated|discontinued|not\s+consummated)|\bnot\s+(?:to\s+)?(?:proceed|enter)\s+(?:with|into)\s+(?:the\s+|a\s+)?(?:proposed\s+)?(?:transaction|acquisition)/i
+  }
+];
+
+// "within thirty (30) days", "no later than ten business days", "not more than two weeks"
+const DEADLINE_CUE = /\b(?:within|no\s+later\s+than|not\s+later\s+than|not\s+more\s+than|not\s+exceeding)\s+$/i;
+const DEADLINE_CUE_WINDOW = 30;
+const DAYS_PER_UNIT: Record<DurationUnit, number> = { days: 1, weeks: 7, months: 30, years: 365 };
+
+const CERTIFICATION_PATTERN = /\bcertif(?:y|ies|ied|ication|icate)\b|\bconfirm\w*\s+(?:\w+\s+){0,3}?in\s+writing\b|\bwritten\s+confirmation\b|\bconfirm\w*\s+(?:such\s+|the\s+)?(?:return|destruction)/i;
+const NO_CERTIFICATION_PATTERN = /\bnot\s+(?:be\s+)?(?:required|obliged|obligated)\s+to\s+(?:certify|confirm)|\bno\s+(?:written\s+)?(?:certification|certificate|confirmation)\b/i;
+
+export const RETENTION_CARVE_OUTS: Array<{ key: RetentionCarveOut; label: string; pattern: RegExp }> = [
+  {
+    key: 'automatic_backups',
+    label: 'Automatic backups',
+    pattern: /\bback-?\s?ups?\b|\bdisaster\s+recovery\b|\b(?:automatic(?:ally)?|routine(?:ly)?)\s+(?:\w+\s+){0,2}?(?:back\w*|archiv\w*|stor\w*|sav\w*|retain\w*|creat\w*)|\belectronic\s+(?:archiv\w*|records?\s+retention)|\barchiv(?:e|es|al|ing)\b/i
+  },
+  {
+    key: 'legal_retention',
+    label: 'Legal or regulatory retention',
+    pattern: /\b(?:required|requires?|necessary)\s+(?:\w+\s+){0,4}?(?:by|under|to\s+comply\s+with)\s+(?:any\s+)?(?:applicable\s+)?(?:law|laws|regulation|regulations|rules?|regulatory|professional\s+standards|legal)|\bregulat\w*\s+(?:\w+\s+)?(?:requirements?|purposes|obligations?|authorit\w+)|\b(?:record|document)[-\s]retention\b|\bcompliance\s+(?:purposes|policies|requirements)|\blegal\s+hold\b/i
+  },
+  {
+    key: 'board_papers',
+    label: 'Board papers',
+    pattern: /\b(?:board|committee)\s+(?:papers|minutes|materials|presentations|memoranda|packs?|submissions)\b|\b(?:minutes|materials|papers|presentations)\s+(?:of|prepared\s+for|presented\s+to|submitted\s+to)\s+(?:its\s+|the\s+)?(?:board|investment\s+committee|credit\s+committee|committee)/i
+  }
+];
+
+function findDeadlineDays(text: string): number | null {
+  // "ten (10) business days" reads as ten days
+  const cleaned = text.replace(/\b(?:business|working|calendar)\s+(?=days?\b)/gi, '');
+  const deadline = findDurations(cleaned).find(mention =>
+    DEADLINE_CUE.test(cleaned.slice(Math.max(0, mention.index - DEADLINE_CUE_WINDOW), mention.index))
+  );
+  return deadline ? deadline.value * DAYS_PER_UNIT[deadline.unit] : null;
+}
+
+/**
+ * Extract the obligation, triggers, deadline, certification and retention carve-outs from return-or-destroy text
+ */
+export function extractReturnOfInfo(text: string): ReturnOfInfoFeatures {
+  const returns = RETURN_PATTERN.test(text);
+  const destroys = DESTROY_PATTERN.test(text);
+
+  const triggers = {} as Record<ReturnTrigger, boolean>;
+  RETURN_TRIGGERS.forEach(({ key, pattern }) => { triggers[key] = pattern.test(text); });
+
+  const retentionCarveOuts = {} as Record<RetentionCarveOut, boolean>;
+  RETENTION_CARVE_OUTS.forEach(({ key, pattern }) => { retentionCarveOuts[key] = pattern.test(text); });
+  const missingRetentionCarveOuts = RETENTION_CARVE_OUTS.filter(({ key }) => !retentionCarveOuts[key]).map(({ key }) => key);
+
+  return {
+    obligation: returns && destroys ? 'return_or_destroy' : returns ? 'return' : destroys ? 'destroy' : null,
+    triggers,
+    triggerCount: RETURN_TRIGGERS.filter(({ key }) => triggers[key]).length,
+    deadlineDays: findDeadlineDays(text),
+    certificationRequired: CERTIFICATION_PATTERN.test(text) && !NO_CERTIFICATION_PATTERN.test(text),
+    retentionCarveOuts,
+    retentionCarveOutCount: RETENTION_CARVE_OUTS.length - missingRetentionCarveOuts.length,
+    missingRetentionCarveOuts
+  };
+}
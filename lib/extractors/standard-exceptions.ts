@@ -0,0 +1,151 @@
+// lib/extractors/standard-exceptions.ts
+// Checklist of the standard exceptions to the Confidential Information definition
+
+export type StandardExceptionKey =
+  | 'public_domain'
+  | 'already_known'
+  | 'independently_developed'
+  | 'third_party'
+  | 'compelled_by_law';
+
+/**
+ * present: the exception is granted
+ * narrowed: granted, but limited by a qualifier or proviso ("provided that ... shall not be deemed public")
+ * negated: mentioned only to bring the information back in ("whether or not publicly available")
+ * missing: not mentioned
+ */
+export type ExceptionStatus = 'present' | 'narrowed' | 'negated' | 'missing';
+
+export interface StandardExceptionCheck {
+  key: StandardExceptionKey;
+  label: string;
+  status: ExceptionStatus;
+  /** Fragment that grants (or negates) the exception */
+  text: string | null;
+}
+
+export interface StandardExceptionFeatures {
+  /** Status per exception, for rule criteria such as "exceptions.public_domain" */
+  exceptions: Record<StandardExceptionKey, ExceptionStatus>;
+  checklist: StandardExceptionCheck[];
+  /** Exceptions present or narrowed */
+  presentCount: number;
+  /** Exceptions missing or negated */
+  missingCount: number;
+  missing: StandardExceptionKey[];
+  narrowed: StandardExceptionKey[];
+}
+
+interface ExceptionDefinition {
+  key: StandardExceptionKey;
+  label: string;
+  /** Wording that grants the exception */
+  pattern: RegExp;
+  /** Looser wording used to tell which exception a proviso refers to */
+  reference: RegExp;
+}
+
+export const STANDARD_EXCEPTIONS: ExceptionDefinition[] = [
+  {
+    key: 'public_domain',
+    label: 'Public domain',
+    pattern: /\b(?:public(?:ly)?\s+(?:domain|available|known)|generally\s+(?:available|known)\s+to\s+the\s+public|(?:becomes?|made)\s+public|in\s+the\s+public\s+domain)\b/i,
+    reference: /\bpublic/i
+  },
+  {
+    key: 'already_known',
+    label: 'Already known',
+    pattern: /\b(?:already\s+(?:known|in\s+(?:the\s+|its\s+)?possession)|previously\s+known|prior\s+knowledge|pre-?existing\s+knowledge|(?:known\s+to|in\s+the\s+possession\s+of)\s+the\s+receiving\s+party\s+(?:prior|before))\b/i,
+    reference: /\b(?:already\s+known|previously\s+known|prior\s+knowledge|possession)/i
+  },
+  {
+    key: 'independently_developed',
+    label: 'Independently developed',
+    pattern: /\b(?:independently\s+(?:developed|derived|created|conceived)|developed\s+independently)\b/i,
+    reference: /\bindependent/i
+  },
+  {
+    key: 'third_party',
+    label: 'Received from a third party',
+    pattern: /\b(?:received|obtained|acquired|disclosed)\b[^.;]{0,60}?\bfrom\s+(?:a\s+|any\s+)?third\s+part(?:y|ies)\b/i,
+    reference: /\bthird\s+part/i
+  },
+  {
+    key: 'compelled_by_law',
+    label: 'Compelled by law',
+    pattern: /\b(?:required|compelled|obligated)\b[^.;]{0,40}?\bby\s+(?:applicable\s+)?(?:law|regulation|statute|court|order|legal\s+process)|\bpursuant\s+to\s+(?:a\s+|an\s+)?(?:court\s+order|subpoena|legal\s+process|applicable\s+law)|\blegally\s+(?:required|compelled)\b/i,
+    reference: /\b(?:law|legal|court|order|regulat|subpoena|compelled)/i
+  }
+];
+
+// Fragments break at sentence ends, semicolons, list markers "(a)" / "(ii)" and before provisos
+const FRAGMENT_SPLIT = /[.;]\s+|\s+(?=\((?:[a-h]|i{1,3}|iv|vi{0,3})\)\s)|,?\s+(?=provided\b|save\s+that\b)/i;
+
+// A fragment that limits exceptions stated elsewhere rather than granting one
+const PROVISO_CUE = /^provided\b|^save\s+that\b|\bmerely\s+because\b|\bshall\s+not\s+be\s+deemed\b/i;
+
+// Inline qualifiers that keep the exception but limit it
+const QUALIFIER_CUE = /\b(?:as\s+(?:evidenced|shown|demonstrated)\s+by|(?:contemporaneous\s+)?written\s+records|solely|to\s+the\s+(?:minimum\s+)?extent\s+strictly)\b/i;
+
+// Wording before the mention that pulls the information back into the definition
+const NEGATION_CUE = /\b(?:whether\s+or\s+not|regardless\s+of\s+whether|irrespective\s+of\s+whether|even\s+(?:if|though)|notwithstanding(?:\s+that|\s+the\s+fact\s+that)?)\b[^;]*$/i;
+
+const INCLUSION_CUE = /\b(not\s+|n't\s+)?includ(?:e|es|ing)\b[^,;()]{0,40}$/i;
+
+function splitFragments(text: string): string[] {
+  return text.split(FRAGMENT_SPLIT).map(fragment => fragment.trim()).filter(fragment => fragment.length > 0);
+}
+
+function isNegated(prefix: string): boolean {
+  if (NEGATION_CUE.test(prefix)) return true;
+  const inclusion = INCLUSION_CUE.exec(prefix);
+  return inclusion !== null && !inclusion[1];
+}
+
+function checkException(definition: ExceptionDefinition, fragments: string[]): StandardExceptionCheck {
+  const check = (status: ExceptionStatus, text: string | null): StandardExceptionCheck =>
+    ({ key: definition.key, label: definition.label, status, text });
+
+  const provisos = fragments.filter(fragment => PROVISO_CUE.test(fragment));
+  let granted: string | null = null;
+  let negated: string | null = null;
+
+  for (const fragment of fragments) {
+    if (PROVISO_CUE.test(fragment)) continue;
+    const match = definition.pattern.exec(fragment);
+    if (!match) continue;
+    if (isNegated(fragment.slice(0, match.index))) {
+      negated = negated || fragment;
+    } else {
+      granted = fragment;
+      break;
+    }
+  }
+
+  if (!granted) return negated ? check('negated', negated) : check('missing', null);
+
+  const narrowed = QUALIFIER_CUE.test(granted) || provisos.some(proviso => definition.reference.test(proviso));
+  return check(narrowed ? 'narrowed' : 'present', granted);
+}
+
+/**
+ * Check the Confidential Information definition for each standard exception
+ */
+export function extractStandardExceptions(text: string): StandardExceptionFeatures {
+  const fragments = splitFragments(text);
+  const checklist = STANDARD_EXCEPTIONS.map(definition => checkException(definition, fragments));
+
+  const exceptions = {} as Record<StandardExceptionKey, ExceptionStatus>;
+  checklist.forEach(item => { exceptions[item.key] = item.status; });
+
+  const missing = checklist.filter(item => item.status === 'missing' || item.status === 'negated').map(item => item.key);
+
+  return {
+    exceptions,
+    checklist,
+    presentCount: checklist.length - missing.length,
+    missingCount: missing.length,
+    missing,
+    narrowed: checklist.filter(item => item.status === 'narrowed').map(item => item.key)
+  };
+}
@@ -0,0 +1,82 @@
+// lib/extractors/standstill.ts
+// Structured extraction of standstill provisions in M&A NDAs
+
+import { findDurations, type DurationUnit } from './duration';
+
+/**
+ * Events that end the standstill early:
+ * third_party_offer: a third party launches or announces a tender offer or acquisition proposal
+ * sale_agreement: the company agrees to a sale or merger with someone else
+ */
+export type FallAwayTrigger = 'third_party_offer' | 'sale_agreement';
+
+export interface StandstillFeatures {
+  durationValue: number | null;
+  durationUnit: DurationUnit | null;
+  /** Standstill period normalized to months, for threshold rules */
+  durationMonths: number | null;
+  /** Share-ownership cap in percent ("more than 4.9% of the outstanding voting securities") */
+  ownershipThresholdPercent: number | null;
+  /** Whether each fall-away trigger is present, for rule conditions such as "fallAway.third_party_offer" */
+  fallAway: Record<FallAwayTrigger, boolean>;
+  fallAwayCount: number;
+  /** The recipient may not even ask for the standstill to be waived or amended */
+  dontAskDontWaive: boolean;
+  /** Confidential proposals to the board remain allowed */
+  privateProposalsAllowed: boolean;
+}
+
+// Percentages are read only where they talk about ownership
+const OWNERSHIP_PATTERN = /(\d+(?:\.\d+)?)\s*(?:%|percent\b|per\s+cent\b)(?:\s*\)\s*)?[^.;]{0,80}?\b(?:voting|outstanding|securities|shares|stock|equity|capital)/i;
+
+// Wording that ends the restrictions early; triggers only count when one of these is present
+const FALL_AWAY_CUE = /\b(?:shall|will)\s+(?:automatically\s+)?(?:terminate|cease\s+to\s+(?:apply|be\s+(?:of\s+any|in)\s+(?:\w+\s+)?(?:effect|force))|fall\s+away|no\s+longer\s+apply|be\s+of\s+no\s+further\s+(?:force|effect)|lapse)|\bfall-?\s?away\b|\bshall\s+not\s+apply\s+(?:if|in\s+the\s+event|following|after)/i;
+
+export const FALL_AWAY_TRIGGERS: Array<{ key: FallAwayTrigger; label: string; pattern: RegExp }> = [
+  {
+    key: 'third_party_offer',
+    label: 'Third-party offer',
+    pattern: /\b(?:tender|exchange)\s+offer\b[^.;]{0,120}?\b(?:third\s+part(?:y|ies)|person|group|other\s+than)|\b(?:third\s+part(?:y|ies)|any\s+person|any\s+group)\b[^.;]{0,120}?\b(?:tender\s+offer|exchange\s+offer|(?:publicly\s+)?announces?\s+(?:an?\s+)?(?:offer|proposal|intention)|makes?\s+(?:an?\s+)?(?:bona\s+fide\s+)?(?:offer|proposal)|acquires?\s+(?:beneficial\s+ownership|more\s+than))/i
+  },
+  {
+    key: 'sale_agreement',
+    label: 'Sale agreement with another party',
+    pattern: /\benters?\s+into\s+(?:a|an|any)\s+(?:definitive\s+|binding\s+)?(?:written\s+)?agreement\b[^.;]{0,160}?\b(?:merger|acquisition|sale|business\s+combination|consolidation|acquire)|\b(?:approves?|recommends?)\s+(?:a|an|any)\s+(?:transaction|merger|sale|offer)\b[^.;]{0,80}?\bthird\s+part/i
+  }
+];
+
+const DONT_ASK_PATTERN = /\bdon'?t\s+ask\b|\b(?:request|seek|ask|propose)\w*\b[^.;]{0,120}?\b(?:waive|waiver|amend\w*|release|modif\w*|terminat\w*)\b[^.;]{0,80}?\b(?:this|the\s+foregoing|such)\s+(?:section|paragraph|clause|provision|restrictions?|standstill|agreement|obligations?)/i;
+
+const PRIVATE_PROPOSAL_PATTERN = /\b(?:confidential(?:ly)?|private(?:ly)?|non-?public(?:ly)?)\s+(?:\w+\s+){0,2}?(?:proposals?|requests?|offers?|approach\w*|communicat\w*)\b[^.;]{0,80}?\b(?:board|chief\s+executive|ceo|management)/i;
+
+// Sentences that grant an exception to the standstill rather than restrict
+const EXCEPTION_CUE = /\bprovided\b|\bnotwithstanding\b|\bnothing\s+in\s+this\b|\bshall\s+not\s+(?:prevent|prohibit|restrict)\b/i;
+
+/**
+ * Extract the standstill period, ownership cap, fall-away triggers and "don't ask, don't waive" language
+ */
+export function extractStandstill(text: string): StandstillFeatures {
+  const sentences = text.split(/[.;]\s+/).map(sentence => sentence.trim()).filter(sentence => sentence.length > 0);
+
+  const duration = findDurations(text)[0] || null;
+  const ownership = OWNERSHIP_PATTERN.exec(text);
+
+  const hasFallAway = FALL_AWAY_CUE.test(text);
+  const fallAway = {} as Record<FallAwayTrigger, boolean>;
+  FALL_AWAY_TRIGGERS.forEach(({ key, pattern }) => { fallAway[key] = hasFallAway && pattern.test(text); });
+
+  // A carve-out that lets the recipient ask privately is the opposite of "don't ask"
+  const privateProposalsAllowed = sentences.some(sentence => EXCEPTION_CUE.test(sentence) && PRIVATE_PROPOSAL_PATTERN.test(sentence));
+  const dontAskDontWaive = sentences.some(sentence => DONT_ASK_PATTERN.test(sentence) && !PRIVATE_PROPOSAL_PATTERN.test(sentence));
+
+  return {
+    durationValue: duration ? duration.value : null,
+    durationUnit: duration ? duration.unit : null,
+    durationMonths: duration ? duration.months : null,
+    ownershipThresholdPercent: ownership ? parseFloat(ownership[1]) : null,
+    fallAway,
+    fallAwayCount: FALL_AWAY_TRIGGERS.filter(({ key }) => fallAway[key]).length,
+    dontAskDontWaive,
+    privateProposalsAllowed
+  };
+}
@@ -0,0 +1,112 @@
+// lib/general-provisions.ts
+// Completeness check for the general provisions (boilerplate) of an NDA
+
+import { normalizeText, toRawSpan, locateOffset, type PageBoundary } from './text-normalization';
+
+export type GeneralProvisionKey =
+  | 'no_license'
+  | 'no_obligation_to_proceed'
+  | 'no_representation'
+  | 'entire_agreement'
+  | 'assignment'
+  | 'amendments'
+  | 'counterparts'
+  | 'notices'
+  | 'third_party_rights'
+  | 'severability';
+
+/** One general provision and where it was found */
+export interface GeneralProvisionCheck {
+  key: GeneralProvisionKey;
+  label: string;
+  present: boolean;
+  /** Sentence containing the provision, in the raw document; null when absent */
+  position: { start: number; end: number; page?: number; line: number } | null;
+}
+
+export const GENERAL_PROVISIONS: Array<{ key: GeneralProvisionKey; label: string; pattern: RegExp }> = [
+  {
+    key: 'no_license',
+    label: 'No licence',
+    pattern: /\bno\s+(?:\w+\s+){0,2}?licen[cs]e\b|\bnothing\b[^.;]{0,80}?\b(?:grant|confer|convey|construed\s+as\s+granting)\w*\b[^.;]{0,60}?\blicen[cs]e\b|\bnot\s+(?:\w+\s+){0,3}?(?:grant|confer|convey)\w*\b[^.;]{0,60}?\blicen[cs]e\b/i
+  },
+  {
+    key: 'no_obligation_to_proceed',
+    label: 'No obligation to proceed',
+    pattern: /\bno\s+obligation\s+to\s+(?:proceed|enter|negotiate|consummate|continue|complete)|\bnot\s+(?:\w+\s+){0,3}?(?:obliged|obligated|required|bound)\s+(?:\w+\s+){0,3}?to\s+(?:proceed|enter\s+into|negotiate|consummate|complete)|\bunless\s+and\s+until\s+(?:a\s+)?(?:final\s+)?definitive\s+agreement/i
+  },
+  {
+    key: 'no_representation',
+    label: 'No representation as to accuracy',
+    pattern: /\b(?:representations?|warrant(?:y|ies))\b[^.;]{0,80}?\b(?:accuracy|completeness)\b|\b(?:accuracy|completeness)\b[^.;]{0,80}?\b(?:representations?|warrant(?:y|ies))\b|\bprovided\s+["“]?as\s+is\b/i
+  },
+  {
+    key: 'entire_agreement',
+    label: 'Entire agreement',
+    pattern: /\bentire\s+(?:agreement|understanding)\b|\bsupersedes?\s+(?:all\s+)?(?:prior|previous|earlier)\b/i
+  },
+  {
+    key: 'assignment',
+    label: 'Assignment',
+    pattern: /\b(?:shall|may)\s+not\s+(?:\w+\s+){0,3}?assign\w*|\bassign\w*\s+(?:\w+\s+){0,6}?(?:rights|obligations|this\s+agreement)\b|\bsuccessors\s+and\s+(?:permitted\s+)?assigns\b/i
+  },
+  {
+    key: 'amendments',
+    label: 'Amendments in writing',
+    pattern: /\b(?:amend\w*|modif\w*|variation|vary|varied)\b[^.;]{0,80}?\b(?:in\s+writing|written|signed)\b/i
+  },
+  {
+    key: 'counterparts',
+    label: 'Counterparts',
+    pattern: /\bcounterparts\b/i
+  },
+  {
+    key: 'notices',
+    label: 'Notices',
+    pattern: /\bnotices?\s+(?:\w+\s+){0,6}?(?:under|pursuant\s+to|in\s+connection\s+with)\s+this\s+agreement\b[^.;]{0,120}?\b(?:writing|delivered|sent|given|addressed|e-?mail|post|courier)\b|\bnotices?\s+shall\s+be\s+(?:in\s+writing|sent|delivered|given|addressed)\b/i
+  },
+  {
+    key: 'third_party_rights',
+    label: 'Third-party rights',
+    pattern: /\bthird[\s-]part(?:y|ies)\s+rights\b|\brights\s+of\s+third\s+parties\b|\bthird[\s-]party\s+beneficiar\w*|\bno\s+(?:person|third\s+party)\s+(?:\w+\s+){0,6}?(?:right|entitled)\s+(?:\w+\s+){0,3}?to\s+enforce\b/i
+  },
+  {
+    key: 'severability',
+    label: 'Severability',
+    pattern: /\bsever(?:ability|able|ed)\b|\b(?:invalid|illegal|unenforceable)\b[^.;]{0,120}?\b(?:remaining|remainder|other)\s+(?:of\s+the\s+)?provisions\b/i
+  }
+];
+
+/**
+ * Expand a match to the sentence around it, stopping at line breaks and at full stops followed by
+ * a space (so clause numbers like "10.7" stay in the sentence)
+ */
+function sentenceAround(text: string, start: number, end: number): { start: number; end: number } {
+  const endsSentence = (index: number) =>
+    text[index] === '\n' || (text[index] === '.' && (index + 1 >= text.length || /\s/.test(text[index + 1])));
+
+  let from = start;
+  while (from > 0 && !endsSentence(from - 1)) from--;
+  let to = end;
+  while (to < text.length && !endsSentence(to)) to++;
+  if (to < text.length && text[to] === '.') to++;
+  while (from < to && /\s/.test(text[from])) from++;
+  return { start: from, end: to };
+}
+
+/**
+ * Report each general provision as present or absent, with the sentence it was found in.
+ * Positions refer to the raw document, with pages when page boundaries are given.
+ */
+export function checkGeneralProvisions(documentText: string, pages?: PageBoundary[]): GeneralProvisionCheck[] {
+  const normalized = normalizeText(documentText);
+
+  return GENERAL_PROVISIONS.map(({ key, label, pattern }) => {
+    const match = pattern.exec(normalized.text);
+    if (!match) return { key, label, present: false, position: null };
+
+    const span = toRawSpan(normalized, sentenceAround(normalized.text, match.index, match.index + match[0].length));
+    const location = locateOffset(documentText, span.start, pages);
+    return { key, label, present: true, position: { ...span, page: location.page, line: location.line } };
+  });
+}
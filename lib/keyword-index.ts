@@ -0,0 +1,261 @@
+/**
+ * Inverted keyword index for fuzzy clause matching.
+ *
+ * Keyword matching used to run a full Levenshtein matrix between every keyword
+ * and every word of every candidate segment. The index is built once per
+ * analysis: the document's vocabulary goes into a BK-tree, so each keyword is
+ * compared against the vocabulary once, and each text that is scored keeps an
+ * inverted index of its own tokens so a fuzzy lookup is a few hash probes.
+ *
+ * Scores are identical to the per-word scan, so tokens are the same `\W+`
+ * split of lowercased text and are not stemmed: a stemmer would merge forms
+ * ("disclosure" / "disclosing") that the edit-distance rule keeps apart.
+ */
+
+/** Tokens of lowercased text, split exactly like the matcher always has (may contain empty strings) */
+export function tokenize(normalizedText: string): string[] {
+  return normalizedText.split(/\W+/);
+}
+
+/** Tokens with the offset each one starts at */
+function tokenizeWithOffsets(normalizedText: string): Array<{ token: string; offset: number }> {
+  const tokens: Array<{ token: string; offset: number }> = [];
+  const separator = /\W+/g;
+  let offset = 0;
+  let match: RegExpExecArray | null;
+  while ((match = separator.exec(normalizedText)) !== null) {
+    tokens.push({ token: normalizedText.slice(offset, match.index), offset });
+    offset = match.index + match[0].length;
+  }
+  tokens.push({ token: normalizedText.slice(offset), offset });
+  return tokens;
+}
+
+/**
+ * Levenshtein distance between two strings, using two rows instead of a full matrix
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = new Array<number>(b.length + 1);
+  let current = new Array<number>(b.length + 1);
+  for (let j = 0; j <= b.length; j += 1) previous[j] = j;
+
+  for (let i = 1; i <= a.length; i += 1) {
+    current[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return previous[b.length];
+}
+
+interface BKNode {
+  word: string;
+  children: Map<number, BKNode>;
+}
+
+/**
+ * BK-tree over a vocabulary: finds every word within an edit distance without comparing against all of them
+ */
+export class BKTree {
+  private root: BKNode | null = null;
+
+  add(word: string): void {
+    if (!this.root) {
+      this.root = { word, children: new Map() };
+      return;
+    }
+
+    let node = this.root;
+    for (;;) {
+      const distance = levenshteinDistance(word, node.word);
+      if (distance === 0) return;
+      const child = node.children.get(distance);
+      if (!child) {
+        node.children.set(distance, { word, children: new Map() });
+        return;
+      }
+      node = child;
+    }
+  }
+
+  /**
+   * Every word within `maxDistance` of the query, with its distance
+   */
+  search(query: string, maxDistance: number): Map<string, number> {
+    const results = new Map<string, number>();
+    const pending = this.root ? [this.root] : [];
+
+    while (pending.length > 0) {
+      const node = pending.pop()!;
+      const distance = levenshteinDistance(query, node.word);
+      if (distance <= maxDistance) results.set(node.word, distance);
+
+      // Triangle inequality: only children at distance d ± maxDistance can be close enough
+      node.children.forEach((child, childDistance) => {
+        if (childDistance >= distance - maxDistance && childDistance <= distance + maxDistance) {
+          pending.push(child);
+        }
+      });
+    }
+
+    return results;
+  }
+}
+
+/** Inverted index of one text's tokens: first occurrence by token order and character offset */
+interface TokenView {
+  text: string;
+  firstPosition: Map<string, { position: number; offset: number }>;
+  /** Tokens missing from the document vocabulary (e.g. created by masking), compared directly */
+  unknownTokens: string[];
+}
+
+/** Character range of a keyword match within the scored text */
+export interface KeywordSpan {
+  start: number;
+  end: number;
+}
+
+export interface KeywordMatch {
+  score: number;
+  /** Where the keyword (or, for partial phrase matches, each found word) first occurs */
+  spans: KeywordSpan[];
+}
+
+interface TokenMatch {
+  position: number;
+  offset: number;
+  token: string;
+  distance: number;
+}
+
+// Fuzzy tolerances: single keywords allow 20% edits, words of a multi-word phrase 15%
+const SINGLE_WORD_TOLERANCE = 0.2;
+const PHRASE_WORD_TOLERANCE = 0.15;
+// Single keywords are only fuzzy-matched against words of reasonable length
+const MIN_FUZZY_TOKEN_LENGTH = 3;
+// Multi-word keywords match when this share of their words is found
+const PHRASE_MATCH_RATIO = 0.7;
+
+/**
+ * Keyword matcher over one document. Build it once per analysis and score any text taken from the document.
+ */
+export class KeywordIndex {
+  private readonly vocabulary = new Set<string>();
+  private readonly tree = new BKTree();
+  private readonly neighbours = new Map<string, Map<string, number>>();
+  private readonly views = new Map<string, TokenView>();
+
+  constructor(documentText: string) {
+    tokenize(documentText.toLowerCase()).forEach(token => {
+      if (!this.vocabulary.has(token)) {
+        this.vocabulary.add(token);
+        this.tree.add(token);
+      }
+    });
+  }
+
+  /**
+   * Score a keyword against text: 1 for an exact phrase, partial for fuzzy matches, 0 for none
+   */
+  scoreKeyword(normalizedText: string, normalizedKeyword: string): number {
+    return this.matchKeyword(normalizedText, normalizedKeyword).score;
+  }
+
+  /**
+   * Score a keyword against text and report where it matched
+   */
+  matchKeyword(normalizedText: string, normalizedKeyword: string): KeywordMatch {
+    // Exact phrase matching (highest score)
+    const exactIndex = normalizedText.indexOf(normalizedKeyword);
+    if (exactIndex !== -1) {
+      return { score: 1.0, spans: [{ start: exactIndex, end: exactIndex + normalizedKeyword.length }] };
+    }
+
+    const view = this.getView(normalizedText);
+
+    // Word-boundary matching for multi-word phrases
+    if (normalizedKeyword.includes(' ')) {
+      const keywordWords = normalizedKeyword.split(' ');
+      const spans: KeywordSpan[] = [];
+      keywordWords.forEach(word => {
+        const wordIndex = normalizedText.indexOf(word);
+        if (wordIndex !== -1) {
+          spans.push({ start: wordIndex, end: wordIndex + word.length });
+          return;
+        }
+        const match = this.findFirstMatch(view, word, Math.max(1, Math.floor(word.length * PHRASE_WORD_TOLERANCE)), 0);
+        if (match) spans.push({ start: match.offset, end: match.offset + match.token.length });
+      });
+
+      return spans.length >= keywordWords.length * PHRASE_MATCH_RATIO
+        ? { score: spans.length / keywordWords.length, spans: spans.sort((a, b) => a.start - b.start) }
+        : { score: 0, spans: [] };
+    }
+
+    // Fuzzy matching for single words: the first close enough word in the text decides the score
+    const maxDistance = Math.max(1, Math.floor(normalizedKeyword.length * SINGLE_WORD_TOLERANCE));
+    const match = this.findFirstMatch(view, normalizedKeyword, maxDistance, MIN_FUZZY_TOKEN_LENGTH);
+    return match
+      ? { score: 1 - (match.distance / normalizedKeyword.length), spans: [{ start: match.offset, end: match.offset + match.token.length }] }
+      : { score: 0, spans: [] };
+  }
+
+  private getView(normalizedText: string): TokenView {
+    let view = this.views.get(normalizedText);
+    if (!view) {
+      const firstPosition = new Map<string, { position: number; offset: number }>();
+      const unknownTokens: string[] = [];
+      tokenizeWithOffsets(normalizedText).forEach(({ token, offset }, position) => {
+        if (firstPosition.has(token)) return;
+        firstPosition.set(token, { position, offset });
+        if (!this.vocabulary.has(token)) unknownTokens.push(token);
+      });
+      view = { text: normalizedText, firstPosition, unknownTokens };
+      this.views.set(normalizedText, view);
+    }
+    return view;
+  }
+
+  private getNeighbours(word: string, maxDistance: number): Map<string, number> {
+    const key = `${maxDistance}:${word}`;
+    let neighbours = this.neighbours.get(key);
+    if (!neighbours) {
+      neighbours = this.tree.search(word, maxDistance);
+      this.neighbours.set(key, neighbours);
+    }
+    return neighbours;
+  }
+
+  /**
+   * Earliest token of the text within `maxDistance` of the word
+   */
+  private findFirstMatch(
+    view: TokenView,
+    word: string,
+    maxDistance: number,
+    minTokenLength: number
+  ): TokenMatch | null {
+    let best: TokenMatch | null = null;
+    const consider = (token: string, distance: number) => {
+      const first = view.firstPosition.get(token);
+      if (first === undefined || token.length < minTokenLength) return;
+      if (!best || first.position < best.position) best = { ...first, token, distance };
+    };
+
+    this.getNeighbours(word, maxDistance).forEach((distance, token) => consider(token, distance));
+    view.unknownTokens.forEach(token => {
+      const distance = levenshteinDistance(token, word);
+      if (distance <= maxDistance) consider(token, distance);
+    });
+
+    return best;
+  }
+}
@@ -0,0 +1,127 @@
+// lib/ocr.ts
+// Local OCR for scanned PDF pages: pdf.js renders each page, Tesseract reads it on the CPU
+
+/** Text recognised on one PDF page */
+export interface OcrPage {
+  /** 1-based page number */
+  pageNumber: number;
+  text: string;
+  /** Mean word confidence reported by Tesseract, 0-100 */
+  confidence: number;
+}
+
+export interface OcrOptions {
+  /** Stop after this many milliseconds and return the pages read so far */
+  timeoutMs?: number;
+}
+
+// Tesseract reads 300 dpi scans best; pdf.js renders at 72 dpi at scale 1
+const RENDER_SCALE = 300 / 72;
+
+interface CanvasAndContext {
+  canvas: import('@napi-rs/canvas').Canvas | null;
+  context: import('@napi-rs/canvas').SKRSContext2D | null;
+}
+
+/**
+ * Load pdf.js with the Node canvas it needs for rendering. pdf.js looks for DOMMatrix and Path2D
+ * when it loads, so they are installed from @napi-rs/canvas first.
+ */
+async function loadRenderer() {
+  const canvas = await import('@napi-rs/canvas');
+  const globals = globalThis as Record<string, unknown>;
+  if (!globals.DOMMatrix) globals.DOMMatrix = canvas.DOMMatrix;
+  if (!globals.Path2D) globals.Path2D = canvas.Path2D;
+
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.js');
+  // pdf.js creates scratch canvases (e.g. for images) through this factory
+  const canvasFactory = {
+    create(width: number, height: number): CanvasAndContext {
+      const created = canvas.createCanvas(Math.ceil(width), Math.ceil(height));
+      return { canvas: created, context: created.getContext('2d') };
+    },
+    reset(entry: CanvasAndContext, width: number, height: number) {
+      entry.canvas!.width = Math.ceil(width);
+      entry.canvas!.height = Math.ceil(height);
+    },
+    destroy(entry: CanvasAndContext) {
+      entry.canvas!.width = 0;
+      entry.canvas!.height = 0;
+      entry.canvas = null;
+      entry.context = null;
+    }
+  };
+  return { pdfjs, canvasFactory };
+}
+
+/**
+ * Resolve with the promise's value, or null when it takes longer than `ms`
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>(resolve => { timer = setTimeout(() => resolve(null), ms); });
+  // A page abandoned on timeout fails when the worker is terminated; that is expected
+  promise.catch(() => undefined);
+  return Promise.race([promise, timeout]).then(
+    value => { clearTimeout(timer); return value; },
+    error => { clearTimeout(timer); throw error; }
+  );
+}
+
+/**
+ * Recognise the text of PDF pages with OCR. Runs entirely locally: the English language data is
+ * bundled with @tesseract.js-data/eng and nothing is downloaded or cached.
+ * `pageNumbers` limits recognition to some pages; all pages are read by default. With a timeout,
+ * only the pages finished in time are returned.
+ */
+export async function recognizePdfPages(
+  buffer: Buffer,
+  pageNumbers?: number[],
+  options: OcrOptions = {}
+): Promise<OcrPage[]> {
+  const deadline = options.timeoutMs !== undefined ? Date.now() + options.timeoutMs : Infinity;
+  const { pdfjs, canvasFactory } = await loadRenderer();
+  const { createWorker } = await import('tesseract.js');
+  const { default: languageData } = await import('@tesseract.js-data/eng');
+
+  const document = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    canvasFactory,
+    disableFontFace: true,
+    isEvalSupported: false,
+    verbosity: 0
+  }).promise;
+  const worker = await createWorker(languageData.code, 1, {
+    langPath: languageData.langPath,
+    gzip: languageData.gzip,
+    cacheMethod: 'none'
+  });
+
+  try {
+    const numbers = pageNumbers || Array.from({ length: document.numPages }, (_, index) => index + 1);
+    const pages: OcrPage[] = [];
+    const readPage = async (pageNumber: number): Promise<OcrPage> => {
+      const page = await document.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
+      const target = canvasFactory.create(viewport.width, viewport.height);
+      await page.render({ canvasContext: target.context as unknown as CanvasRenderingContext2D, viewport }).promise;
+
+      const { data } = await worker.recognize(target.canvas!.toBuffer('image/png'));
+      canvasFactory.destroy(target);
+      page.cleanup();
+      return { pageNumber, text: data.text, confidence: Math.round(data.confidence) };
+    };
+
+    for (const pageNumber of numbers) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) break;
+      const page = await withTimeout(readPage(pageNumber), remaining);
+      if (!page) break;
+      pages.push(page);
+    }
+    return pages;
+  } finally {
+    await worker.terminate();
+    await document.destroy();
+  }
+}
@@ -0,0 +1,60 @@
+// lib/playbook/__tests__/detection-profiles.test.ts
+// Playbook detection profiles: lookup, database overrides and pattern validity
+
+import {
+  getDetectionProfiles,
+  findDetectionProfile,
+  resolveDetectionProfile,
+  getClauseTypeForName,
+  compilePatterns
+} from '../detection-profiles';
+
+describe('detection profiles', () => {
+  it('compiles every pattern in the playbook', () => {
+    for (const profile of getDetectionProfiles()) {
+      expect(() => compilePatterns(profile.contextPatterns)).not.toThrow();
+      expect(() => compilePatterns(profile.semantic?.patterns || [], 'gi')).not.toThrow();
+      expect(() => compilePatterns(profile.semantic?.headerPatterns || [])).not.toThrow();
+    }
+  });
+
+  it('finds profiles by exact name and by alias', () => {
+    expect(findDetectionProfile('Governing Law and Jurisdictions')?.key).toBe('governing');
+    expect(findDetectionProfile('Term and Duration')?.key).toBe('duration');
+    expect(findDetectionProfile('Indemnification')?.key).toBe('remedies');
+    expect(findDetectionProfile('Exclusivity')).toBeUndefined();
+    expect(findDetectionProfile('Non-Solicitation')?.key).toBe('non_solicit');
+    expect(getClauseTypeForName('Duration of Confidentiality Obligations')).toBe('duration');
+  });
+
+  it('prefers clause_key over the clause name', () => {
+    const profile = resolveDetectionProfile({ name: 'Applicable Law', clause_key: 'governing' });
+    expect(profile?.key).toBe('governing');
+  });
+
+  it('merges database overrides over the playbook profile', () => {
+    const profile = resolveDetectionProfile({
+      name: 'Duration of Confidentiality Obligations',
+      clause_key: 'duration',
+      detection_profile: { keywords: ['survive'], thresholds: { validated: 0.6 } }
+    });
+
+    expect(profile?.keywords).toEqual(['survive']);
+    expect(profile?.thresholds).toEqual({ validated: 0.6, unvalidated: 0.3 });
+    expect(profile?.contextPatterns.length).toBeGreaterThan(0);
+  });
+
+  it('builds a profile for a clause defined only in the database', () => {
+    expect(resolveDetectionProfile({ name: 'Exclusivity' })).toBeNull();
+
+    const profile = resolveDetectionProfile({
+      name: 'Exclusivity',
+      detection_profile: { keywords: ['exclusive', 'negotiations'], contextPatterns: ['exclusiv'] }
+    });
+    expect(profile).toMatchObject({
+      key: 'exclusivity',
+      keywords: ['exclusive', 'negotiations'],
+      thresholds: { validated: 0.4, unvalidated: 0.3 }
+    });
+  });
+});
@@ -0,0 +1,94 @@
+// lib/playbook/__tests__/rule-conditions.test.ts
+// Rule condition evaluation and validation
+
+import {
+  evaluateCondition,
+  findRuleByCondition,
+  getRuleCondition,
+  validateRuleCondition,
+  type RuleCondition
+} from '../rule-conditions';
+import type { RuleCriteria } from '../rule-criteria';
+
+const features = { kind: 'fixed', durationMonths: 36, trigger: 'disclosure', carveOuts: [] };
+
+describe('rule conditions', () => {
+  it('combines feature tests with all, any and not', () => {
+    const shortFromDisclosure: RuleCondition = {
+      all: [
+        { feature: 'durationMonths', op: 'lte', value: 36 },
+        { feature: 'trigger', op: 'eq', value: 'disclosure' }
+      ]
+    };
+    expect(evaluateCondition(shortFromDisclosure, features)).toBe(true);
+    expect(evaluateCondition(shortFromDisclosure, { ...features, trigger: 'termination' })).toBe(false);
+
+    const perpetualOrLong: RuleCondition = {
+      any: [
+        { feature: 'kind', op: 'eq', value: 'perpetual' },
+        { feature: 'durationMonths', op: 'gt', value: 60 }
+      ]
+    };
+    expect(evaluateCondition(perpetualOrLong, features)).toBe(false);
+    expect(evaluateCondition({ not: perpetualOrLong }, features)).toBe(true);
+    expect(evaluateCondition({ all: [] }, features)).toBe(false);
+  });
+
+  it('reads legacy criteria as an "all" condition', () => {
+    const criteria: RuleCriteria = [{ feature: 'durationMonths', op: 'lte', value: 36 }];
+    expect(getRuleCondition({ criteria })).toEqual({ all: criteria });
+    expect(getRuleCondition({ criteria: [] })).toBeNull();
+
+    const condition: RuleCondition = { feature: 'kind', op: 'eq', value: 'fixed' };
+    expect(getRuleCondition({ condition, criteria })).toBe(condition);
+  });
+
+  it('picks the most specific matching rule and skips keyword-only rules', () => {
+    const rules = [
+      { id: 'broad', severity: 5, condition: { feature: 'durationMonths', op: 'lte', value: 60 } as RuleCondition },
+      { id: 'specific', severity: 2, condition: {
+        all: [
+          { feature: 'durationMonths', op: 'lte', value: 36 },
+          { not: { feature: 'trigger', op: 'eq', value: 'termination' } }
+        ]
+      } as RuleCondition },
+      { id: 'legacy', severity: 1, criteria: [{ feature: 'kind', op: 'eq', value: 'perpetual' }] as RuleCriteria },
+      { id: 'keywords-only', severity: 5 }
+    ];
+
+    expect(findRuleByCondition(rules, features)?.id).toBe('specific');
+    expect(findRuleByCondition(rules, { durationMonths: 48 })?.id).toBe('broad');
+    expect(findRuleByCondition(rules, { kind: 'perpetual' })?.id).toBe('legacy');
+    expect(findRuleByCondition(rules, { durationMonths: 120 })).toBeNull();
+  });
+});
+
+describe('rule condition validation', () => {
+  it('accepts well-formed conditions', () => {
+    expect(validateRuleCondition({
+      all: [
+        { feature: 'durationMonths', op: 'lte', value: 36 },
+        { any: [{ feature: 'trigger', op: 'in', value: ['disclosure', 'effective_date'] }, { not: { feature: 'trigger', op: 'exists' } }] }
+      ]
+    }, 'duration')).toEqual([]);
+    expect(validateRuleCondition({ feature: 'exceptions.public_domain', op: 'eq', value: 'present' }, 'definition')).toEqual([]);
+  });
+
+  it('reports malformed nodes with their path', () => {
+    expect(validateRuleCondition({ all: [{ feature: 'durationMonths', op: 'lte', value: '36' }] }, 'duration'))
+      .toEqual([{ path: 'all[0].value', message: '"lte" needs a number' }]);
+    expect(validateRuleCondition({ all: [{ feature: 'durationMonths', op: 'between', value: 36 }] })[0].path).toBe('all[0].op');
+    expect(validateRuleCondition({ any: [] })).toEqual([{ path: 'any', message: '"any" needs a non-empty list of conditions' }]);
+    expect(validateRuleCondition({ not: { feature: 'trigger', op: 'in', value: 'disclosure' } })[0].path).toBe('not.value');
+    expect(validateRuleCondition({ all: [], any: [] })[0].path).toBe('condition');
+    expect(validateRuleCondition({ feature: 'kind', op: 'eq', value: 'fixed', weight: 2 })[0].message).toBe('Unknown keys: weight');
+    expect(validateRuleCondition('durationMonths <= 36')).toEqual([{ path: 'condition', message: 'Condition must be an object' }]);
+  });
+
+  it('checks feature names against the clause extractor', () => {
+    expect(validateRuleCondition({ feature: 'durationYears', op: 'lte', value: 3 }, 'duration'))
+      .toEqual([{ path: 'feature', message: 'Unknown feature "durationYears" for this clause type' }]);
+    // Clause types without an extractor cannot check feature names
+    expect(validateRuleCondition({ feature: 'durationYears', op: 'lte', value: 3 }, 'term')).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+// lib/playbook/__tests__/rule-criteria.test.ts
+// Exact rule criteria against extracted clause features
+
+import { evaluateCriterion, evaluateRuleCriteria, findRuleByCriteria, type RuleCriteria } from '../rule-criteria';
+
+const features = { kind: 'fixed', durationMonths: 36, trigger: 'disclosure', carveOuts: [], nested: { count: 2 } };
+
+describe('rule criteria', () => {
+  it('evaluates comparison, membership and existence operators', () => {
+    expect(evaluateCriterion({ feature: 'durationMonths', op: 'lte', value: 36 }, features)).toBe(true);
+    expect(evaluateCriterion({ feature: 'durationMonths', op: 'lt', value: 36 }, features)).toBe(false);
+    expect(evaluateCriterion({ feature: 'trigger', op: 'in', value: ['disclosure', 'effective_date'] }, features)).toBe(true);
+    expect(evaluateCriterion({ feature: 'trigger', op: 'not_in', value: ['termination'] }, features)).toBe(true);
+    expect(evaluateCriterion({ feature: 'nested.count', op: 'eq', value: 2 }, features)).toBe(true);
+    expect(evaluateCriterion({ feature: 'missing', op: 'exists', value: false }, features)).toBe(true);
+    expect(evaluateCriterion({ feature: 'missing', op: 'gte', value: 0 }, features)).toBe(false);
+  });
+
+  it('requires every criterion and rejects empty criteria', () => {
+    const criteria: RuleCriteria = [
+      { feature: 'kind', op: 'eq', value: 'fixed' },
+      { feature: 'durationMonths', op: 'lte', value: 36 }
+    ];
+    expect(evaluateRuleCriteria(criteria, features)).toBe(true);
+    expect(evaluateRuleCriteria([...criteria, { feature: 'trigger', op: 'eq', value: 'termination' }], features)).toBe(false);
+    expect(evaluateRuleCriteria([], features)).toBe(false);
+  });
+
+  it('picks the most specific matching rule, then the most severe', () => {
+    const rules = [
+      { id: 'broad', severity: 5, criteria: [{ feature: 'durationMonths', op: 'lte', value: 60 }] as RuleCriteria },
+      { id: 'specific', severity: 2, criteria: [
+        { feature: 'durationMonths', op: 'lte', value: 36 },
+        { feature: 'trigger', op: 'eq', value: 'disclosure' }
+      ] as RuleCriteria },
+      { id: 'keywords-only', severity: 5, criteria: null }
+    ];
+
+    expect(findRuleByCriteria(rules, features)?.id).toBe('specific');
+    expect(findRuleByCriteria(rules, { durationMonths: 48 })?.id).toBe('broad');
+    expect(findRuleByCriteria(rules, { kind: 'perpetual' })).toBeNull();
+  });
+});
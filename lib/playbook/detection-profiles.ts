@@ -0,0 +1,122 @@
+// lib/playbook/detection-profiles.ts
+// Data-driven clause detection profiles loaded from the versioned playbook file
+
+import playbook from './detection-profiles.json';
+
+export interface DetectionThresholds {
+  /** Minimum confidence for a segment that passed context validation */
+  validated: number;
+  /** Minimum keyword score when no segment passed context validation */
+  unvalidated: number;
+}
+
+export interface SemanticProfile {
+  /** Reference clause text used to build the embedding template */
+  template: string;
+  /** Regex sources for keyword detection, matched case-insensitively */
+  patterns: string[];
+  keywords: string[];
+  /** Regex sources for section headings that boost confidence */
+  headerPatterns: string[];
+  /** Where the clause usually appears in an NDA */
+  position?: 'early' | 'late';
+}
+
+export interface DetectionProfile {
+  key: string;
+  /** Canonical clause name */
+  name: string;
+  /** Lowercase fragments that identify the clause by name */
+  aliases: string[];
+  /** Phase 1 detection keywords, including synonyms and common phrasings */
+  keywords: string[];
+  /** Regex sources that must all match a segment for it to count as this clause */
+  contextPatterns: string[];
+  thresholds: DetectionThresholds;
+  /** Longest section or sentence considered as one candidate, for clauses that usually run long */
+  maxSegmentLength?: number;
+  semantic?: SemanticProfile;
+}
+
+/** Per-clause override of a detection profile; thresholds may be overridden one at a time */
+export type DetectionProfileOverride = Partial<Omit<DetectionProfile, 'thresholds'>> & {
+  thresholds?: Partial<DetectionThresholds>;
+};
+
+/** Clause row fields that select or override a detection profile */
+export interface ClauseProfileSource {
+  name: string;
+  clause_key?: string | null;
+  detection_profile?: DetectionProfileOverride | null;
+}
+
+export const PLAYBOOK_VERSION: string = playbook.version;
+
+const DEFAULT_THRESHOLDS: DetectionThresholds = { validated: 0.4, unvalidated: 0.3 };
+
+export const DEFAULT_MAX_SEGMENT_LENGTH = 1000;
+
+const profiles: DetectionProfile[] = playbook.profiles as DetectionProfile[];
+
+/**
+ * All detection profiles in playbook order
+ */
+export function getDetectionProfiles(): DetectionProfile[] {
+  return profiles;
+}
+
+/**
+ * Look up a detection profile by key
+ */
+export function getDetectionProfile(key: string): DetectionProfile | undefined {
+  return profiles.find(profile => profile.key === key);
+}
+
+/**
+ * Find the profile for a clause name: exact name first, then the first alias contained in the name
+ */
+export function findDetectionProfile(clauseName: string): DetectionProfile | undefined {
+  const normalizedName = clauseName.toLowerCase();
+  return profiles.find(profile => profile.name.toLowerCase() === normalizedName) ||
+    profiles.find(profile => profile.aliases.some(alias => normalizedName.includes(alias)));
+}
+
+/**
+ * Resolve the detection profile for a clause row.
+ * `clause_key` selects a playbook profile (falling back to name matching) and
+ * `detection_profile` overrides its fields, so a clause defined only in the
+ * database can still be detected.
+ */
+export function resolveDetectionProfile(clause: ClauseProfileSource): DetectionProfile | null {
+  const base = (clause.clause_key && getDetectionProfile(clause.clause_key)) || findDetectionProfile(clause.name);
+  const override = clause.detection_profile;
+
+  if (!override) return base || null;
+
+  if (!base && !override.keywords?.length) return null;
+
+  return {
+    aliases: [],
+    keywords: [],
+    contextPatterns: [],
+    ...base,
+    ...override,
+    key: clause.clause_key || base?.key || clause.name.toLowerCase().replace(/\W+/g, '_'),
+    name: clause.name,
+    thresholds: { ...DEFAULT_THRESHOLDS, ...base?.thresholds, ...override.thresholds }
+  };
+}
+
+/**
+ * Map a clause name to its profile key, used as the semantic clause type
+ */
+export function getClauseTypeForName(clauseName: string): string {
+  return findDetectionProfile(clauseName)?.key || clauseName.toLowerCase().replace(/\s+/g, '_');
+}
+
+/**
+ * Compile regex sources from a profile
+ */
+export function compilePatterns(sources: string[], flags = 'i'): RegExp[] {
+  return sources.map(source => new RegExp(source, flags));
+}
@@ -0,0 +1,164 @@
+// lib/playbook/rule-conditions.ts
+// Typed condition language for clause rules, evaluated against extracted clause features
+
+import { extractClauseFeatures, type ClauseFeatures } from '../extractors';
+import {
+  evaluateCriterion,
+  getFeatureValue,
+  type CriterionOperator,
+  type RuleCriteria,
+  type RuleCriterion
+} from './rule-criteria';
+
+/**
+ * A rule condition: a feature test or a combination of conditions, e.g.
+ * { "all": [
+ *   { "feature": "durationMonths", "op": "lte", "value": 36 },
+ *   { "feature": "trigger", "op": "eq", "value": "disclosure" }
+ * ] }
+ */
+export type RuleCondition =
+  | RuleCriterion
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition };
+
+export interface ConditionValidationError {
+  /** JSON path to the offending node, e.g. "all[1].value" */
+  path: string;
+  message: string;
+}
+
+interface ConditionRule {
+  condition?: RuleCondition | null;
+  criteria?: RuleCriteria | null;
+  severity?: number;
+}
+
+const OPERATORS: CriterionOperator[] = ['eq', 'neq', 'lt', 'lte', 'gt', 'gte', 'in', 'not_in', 'exists'];
+const NUMERIC_OPERATORS: CriterionOperator[] = ['lt', 'lte', 'gt', 'gte'];
+const LIST_OPERATORS: CriterionOperator[] = ['in', 'not_in'];
+
+// Deeply nested conditions are almost certainly generated by mistake
+const MAX_CONDITION_DEPTH = 8;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isScalar(value: unknown): boolean {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+/**
+ * The condition a rule is evaluated with: its own condition, or its legacy criteria list read as "all"
+ */
+export function getRuleCondition(rule: ConditionRule): RuleCondition | null {
+  if (rule.condition) return rule.condition;
+  return rule.criteria && rule.criteria.length > 0 ? { all: rule.criteria } : null;
+}
+
+/**
+ * Evaluate a condition against extracted features
+ */
+export function evaluateCondition(condition: RuleCondition, features: ClauseFeatures): boolean {
+  if ('all' in condition) return condition.all.length > 0 && condition.all.every(child => evaluateCondition(child, features));
+  if ('any' in condition) return condition.any.some(child => evaluateCondition(child, features));
+  if ('not' in condition) return !evaluateCondition(condition.not, features);
+  return evaluateCriterion(condition, features);
+}
+
+/**
+ * Number of feature tests in a condition, used to prefer the most specific matching rule
+ */
+export function countConditionTerms(condition: RuleCondition): number {
+  if ('all' in condition) return condition.all.reduce((sum, child) => sum + countConditionTerms(child), 0);
+  if ('any' in condition) return condition.any.reduce((sum, child) => sum + countConditionTerms(child), 0);
+  if ('not' in condition) return countConditionTerms(condition.not);
+  return 1;
+}
+
+/**
+ * Find the rule whose condition matches the features.
+ * When several match, the most specific rule (most feature tests) wins, then the highest severity.
+ */
+export function findRuleByCondition<T extends ConditionRule>(rules: T[], features: ClauseFeatures): T | null {
+  const matching = rules
+    .map(rule => ({ rule, condition: getRuleCondition(rule) }))
+    .filter((entry): entry is { rule: T; condition: RuleCondition } =>
+      entry.condition !== null && evaluateCondition(entry.condition, features)
+    );
+  if (matching.length === 0) return null;
+
+  return matching.sort((a, b) =>
+    (countConditionTerms(b.condition) - countConditionTerms(a.condition)) ||
+    ((b.rule.severity || 1) - (a.rule.severity || 1))
+  )[0].rule;
+}
+
+function validateCriterion(node: Record<string, unknown>, path: string, features: ClauseFeatures | null): ConditionValidationError[] {
+  const errors: ConditionValidationError[] = [];
+  const at = (key: string) => (path ? `${path}.${key}` : key);
+  const unknownKeys = Object.keys(node).filter(key => !['feature', 'op', 'value'].includes(key));
+  if (unknownKeys.length > 0) errors.push({ path, message: `Unknown keys: ${unknownKeys.join(', ')}` });
+
+  if (typeof node.feature !== 'string' || node.feature.trim() === '') {
+    errors.push({ path: at('feature'), message: 'Feature must be a non-empty string' });
+  } else if (features && getFeatureValue(features, node.feature) === undefined) {
+    errors.push({ path: at('feature'), message: `Unknown feature "${node.feature}" for this clause type` });
+  }
+
+  const op = node.op as CriterionOperator;
+  if (!OPERATORS.includes(op)) {
+    errors.push({ path: at('op'), message: `Operator must be one of ${OPERATORS.join(', ')}` });
+    return errors;
+  }
+
+  const { value } = node;
+  if (NUMERIC_OPERATORS.includes(op) && (typeof value !== 'number' || !isFinite(value))) {
+    errors.push({ path: at('value'), message: `"${op}" needs a number` });
+  } else if (LIST_OPERATORS.includes(op) && (
+    !Array.isArray(value) || value.length === 0 || !value.every(item => typeof item === 'string' || typeof item === 'number')
+  )) {
+    errors.push({ path: at('value'), message: `"${op}" needs a non-empty list of strings or numbers` });
+  } else if (op === 'exists' && value !== undefined && typeof value !== 'boolean') {
+    errors.push({ path: at('value'), message: '"exists" takes true, false or no value' });
+  } else if ((op === 'eq' || op === 'neq') && (value === undefined || !isScalar(value))) {
+    errors.push({ path: at('value'), message: `"${op}" needs a string, number, boolean or null` });
+  }
+
+  return errors;
+}
+
+function validateNode(node: unknown, path: string, depth: number, features: ClauseFeatures | null): ConditionValidationError[] {
+  const label = path || 'condition';
+  if (!isObject(node)) return [{ path: label, message: 'Condition must be an object' }];
+  if (depth > MAX_CONDITION_DEPTH) return [{ path: label, message: `Conditions may be nested at most ${MAX_CONDITION_DEPTH} deep` }];
+
+  const combinators = ['all', 'any', 'not'].filter(key => key in node);
+  if (combinators.length === 0) return validateCriterion(node, path, features);
+  if (combinators.length > 1 || Object.keys(node).length > 1) {
+    return [{ path: label, message: 'A combinator node must have exactly one of "all", "any" or "not"' }];
+  }
+
+  const key = combinators[0];
+  const childPath = path ? `${path}.${key}` : key;
+  if (key === 'not') return validateNode(node.not, childPath, depth + 1, features);
+
+  const children = node[key];
+  if (!Array.isArray(children) || children.length === 0) {
+    return [{ path: childPath, message: `"${key}" needs a non-empty list of conditions` }];
+  }
+  const errors: ConditionValidationError[] = [];
+  children.forEach((child, index) => errors.push(...validateNode(child, `${childPath}[${index}]`, depth + 1, features)));
+  return errors;
+}
+
+/**
+ * Validate a condition before it is saved with a rule.
+ * With a clause key that has an extractor, feature names are checked against the features it produces.
+ */
+export function validateRuleCondition(condition: unknown, clauseKey?: string | null): ConditionValidationError[] {
+  const features = clauseKey ? extractClauseFeatures(clauseKey, '') : null;
+  return validateNode(condition, '', 1, features);
+}
@@ -0,0 +1,89 @@
+// lib/playbook/rule-criteria.ts
+// Exact evaluation of clause rules against features extracted from the clause text
+
+import type { ClauseFeatures } from '../extractors';
+
+export type CriterionOperator = 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte' | 'in' | 'not_in' | 'exists';
+
+export type CriterionValue = string | number | boolean | null | Array<string | number>;
+
+/**
+ * A single test on an extracted feature, e.g.
+ * { "feature": "durationMonths", "op": "lte", "value": 36 }
+ */
+export interface RuleCriterion {
+  /** Feature name; dotted paths reach into nested values */
+  feature: string;
+  op: CriterionOperator;
+  value?: CriterionValue;
+}
+
+/** All criteria must hold for the rule to match */
+export type RuleCriteria = RuleCriterion[];
+
+interface CriteriaRule {
+  criteria?: RuleCriteria | null;
+  severity?: number;
+}
+
+/**
+ * Read a feature value by name or dotted path
+ */
+export function getFeatureValue(features: ClauseFeatures, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || value === undefined || typeof value !== 'object') return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, features);
+}
+
+/**
+ * Evaluate one criterion. Missing features only satisfy `neq`, `not_in` and `exists: false`.
+ */
+export function evaluateCriterion(criterion: RuleCriterion, features: ClauseFeatures): boolean {
+  const actual = getFeatureValue(features, criterion.feature);
+  const expected = criterion.value;
+  const isMissing = actual === undefined || actual === null;
+
+  switch (criterion.op) {
+    case 'exists':
+      return expected === false ? isMissing : !isMissing;
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    case 'lt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual < expected;
+    case 'lte':
+      return typeof actual === 'number' && typeof expected === 'number' && actual <= expected;
+    case 'gt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual > expected;
+    case 'gte':
+      return typeof actual === 'number' && typeof expected === 'number' && actual >= expected;
+    case 'in':
+      return Array.isArray(expected) && (expected as unknown[]).includes(actual);
+    case 'not_in':
+      return Array.isArray(expected) && !(expected as unknown[]).includes(actual);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check whether every criterion of a rule holds for the extracted features
+ */
+export function evaluateRuleCriteria(criteria: RuleCriteria, features: ClauseFeatures): boolean {
+  return criteria.length > 0 && criteria.every(criterion => evaluateCriterion(criterion, features));
+}
+
+/**
+ * Find the rule whose criteria match the features.
+ * When several match, the most specific rule (most criteria) wins, then the highest severity.
+ */
+export function findRuleByCriteria<T extends CriteriaRule>(rules: T[], features: ClauseFeatures): T | null {
+  const matching = rules.filter(rule => rule.criteria && evaluateRuleCriteria(rule.criteria, features));
+  if (matching.length === 0) return null;
+
+  return matching.sort((a, b) =>
+    (b.criteria!.length - a.criteria!.length) || ((b.severity || 1) - (a.severity || 1))
+  )[0];
+}
@@ -4,12 +4,25 @@
 import { hierarchicalRulesEngine, type HierarchicalRule, type RuleMatchResult } from './hierarchicalRulesEngine';
 import { semanticIntegration } from './semanticIntegration';
 import { supabaseAdmin } from '../supabase';
+import { locateClause, locateKeywordRegion, isClauseExpected } from '../clause-matcher';
+import { assessClauseRisk, describeFeatureGaps, type ClauseFeatures } from '../extractors';
 import type { PartyPerspective, ClauseMatch } from '@/types';
 
+interface EngineClause {
+  id: string;
+  name: string;
+  category?: string | null;
+  clause_key?: string | null;
+  detection_profile?: Record<string, any> | null;
+}
+
 export interface AdvancedAnalysisResult {
   clause_id: string;
   clause_name: string;
   detected_text: string | null;
+  detected_span: { start: number; end: number } | null;
+  /** Structured values extracted from the clause text, for clause types with an extractor */
+  extracted_features: ClauseFeatures | null;
   match_type: 'starting_position' | 'fallback' | 'not_acceptable' | 'missing';
   confidence_score: number;
   risk_level: number;
@@ -89,7 +102,7 @@ export class AdvancedAnalysisEngine {
       // Get all clause types
       const { data: clauses, error: clausesError } = await supabaseAdmin
         .from('clauses')
-        .select('id, name, category')
+        .select('id, name, category, clause_key, detection_profile')
         .eq('is_active', true)
         .order('display_order');
         
@@ -124,8 +137,7 @@ export class AdvancedAnalysisEngine {
         // Perform multi-method analysis
         const result = await this.analyzeClause(
           documentText,
-          clause.id,
-          clause.name,
+          clause,
           partyPerspective,
           {
             useSemanticDetection,
@@ -137,6 +149,9 @@ export class AdvancedAnalysisEngine {
           }
         );
         
+        // Optional clauses (e.g. standstill) are only reported when present
+        if (!result) continue;
+        
         clauseResults.push(result);
         
         // Update detection summary
@@ -190,12 +205,12 @@ export class AdvancedAnalysisEngine {
   }
   
   /**
-   * Analyze individual clause using multiple detection methods
+   * Analyze individual clause using multiple detection methods.
+   * Returns null for an optional clause that is not in the document.
    */
   private async analyzeClause(
     documentText: string,
-    clauseId: string,
-    clauseName: string,
+    clause: EngineClause,
     partyPerspective: PartyPerspective,
     options: {
       useSemanticDetection: boolean;
@@ -205,7 +220,8 @@ export class AdvancedAnalysisEngine {
       includePerformanceMetrics: boolean;
       processingStartTime: number;
     }
-  ): Promise<AdvancedAnalysisResult> {
+  ): Promise<AdvancedAnalysisResult | null> {
+    const { id: clauseId, name: clauseName } = clause;
     const {
       useSemanticDetection,
       useHierarchicalRules,
@@ -221,8 +237,22 @@ export class AdvancedAnalysisEngine {
     let performanceMetrics = null;
     
     try {
+      // Locate the clause with its detection profile and extract its features
+      const located = locateClause(documentText, clause);
+      if (!located && !isClauseExpected(documentText, clause)) return null;
+      const features = located?.features || null;
+      
+      // Rule conditions are evaluated exactly against the extracted features
+      if (useHierarchicalRules && features) {
+        bestMatch = await hierarchicalRulesEngine.findConditionMatch(clauseId, partyPerspective, features);
+        if (bestMatch) {
+          detectionMethod = 'hierarchical';
+          mlConfidence = bestMatch.confidence;
+        }
+      }
+      
       // Try hierarchical rules first (most advanced)
-      if (useHierarchicalRules) {
+      if (useHierarchicalRules && !bestMatch) {
         const hierarchicalMatches = await hierarchicalRulesEngine.findBestMatches(
           documentText,
           clauseId,
@@ -283,13 +313,20 @@ export class AdvancedAnalysisEngine {
       const processingTime = Date.now() - processingStartTime;
       
       if (bestMatch) {
+        const exposureRisk = located && features ? assessClauseRisk(located.clauseKey, features, partyPerspective) : null;
+        const gaps = located && features ? describeFeatureGaps(located.clauseKey, features, partyPerspective) : [];
+        const extracted = located
+          ? { text: located.text, span: located.position }
+          : this.extractClauseText(documentText, bestMatch);
         return {
           clause_id: clauseId,
           clause_name: clauseName,
-          detected_text: this.extractClauseText(documentText, bestMatch),
+          detected_text: extracted.text,
+          detected_span: extracted.span,
+          extracted_features: features,
           match_type: bestMatch.rule.rule_type,
           confidence_score: bestMatch.confidence,
-          risk_level: this.calculateRiskLevel(bestMatch.rule.rule_type, bestMatch.confidence),
+          risk_level: exposureRisk ?? this.calculateRiskLevel(bestMatch.rule.rule_type, bestMatch.confidence),
           recommended_action: this.generateRecommendedAction(bestMatch, partyPerspective),
           detection_method: detectionMethod,
           rule_hierarchy_path: bestMatch.hierarchy_path,
@@ -297,7 +334,7 @@ export class AdvancedAnalysisEngine {
           performance_metrics: performanceMetrics,
           suggested_text: bestMatch.rule.rewriting_prompt ? 
             await this.generateAISuggestion(bestMatch, partyPerspective) : null,
-          negotiation_guidance: bestMatch.rule.negotiation_guidance,
+          negotiation_guidance: this.buildNegotiationGuidance(bestMatch.rule, gaps),
           fallback_options: this.generateFallbackOptions(bestMatch.rule),
           processing_time_ms: processingTime,
           cache_hit: false,
@@ -309,6 +346,8 @@ export class AdvancedAnalysisEngine {
           clause_id: clauseId,
           clause_name: clauseName,
           detected_text: null,
+          detected_span: null,
+          extracted_features: null,
           match_type: 'missing',
           confidence_score: 0,
           risk_level: this.calculateRiskLevel('missing', 0),
@@ -334,6 +373,8 @@ export class AdvancedAnalysisEngine {
         clause_id: clauseId,
         clause_name: clauseName,
         detected_text: null,
+        detected_span: null,
+        extracted_features: null,
         match_type: 'missing',
         confidence_score: 0,
         risk_level: 5,
@@ -384,20 +425,17 @@ export class AdvancedAnalysisEngine {
   }
   
   /**
-   * Extract relevant clause text from document
+   * Extract the clause text a keyword match was made on: the section or sentence where the
+   * rule's keywords score best, not the first mention of a keyword
    */
-  private extractClauseText(documentText: string, match: RuleMatchResult): string {
-    // Simple extraction - in production this would be more sophisticated
-    const searchText = match.rule.keywords[0] || match.rule.rule_type;
-    const index = documentText.toLowerCase().indexOf(searchText.toLowerCase());
-    
-    if (index !== -1) {
-      const start = Math.max(0, index - 100);
-      const end = Math.min(documentText.length, index + 300);
-      return documentText.substring(start, end).trim();
-    }
+  private extractClauseText(
+    documentText: string,
+    match: RuleMatchResult
+  ): { text: string; span: { start: number; end: number } | null } {
+    const region = locateKeywordRegion(documentText, match.rule.keywords);
+    if (region) return { text: region.text, span: region.position };
     
-    return 'Clause text not found in document';
+    return { text: 'Clause text not found in document', span: null };
   }
   
   /**
@@ -435,6 +473,16 @@ export class AdvancedAnalysisEngine {
     return `Review recommended - clause may need adjustment for ${partyPerspective} party`;
   }
   
+  /**
+   * Negotiation guidance from the matched rule, followed by the gaps the clause's extractor found for the party
+   */
+  private buildNegotiationGuidance(rule: HierarchicalRule, gaps: string[]): string | null {
+    const parts = [rule.negotiation_guidance, ...gaps]
+      .filter((part): part is string => Boolean(part))
+      .map(part => part.trim().replace(/\.$/, ''));
+    return parts.length > 0 ? `${parts.join('. ')}.` : null;
+  }
+  
   /**
    * Generate AI-powered suggestion text
    */
@@ -581,6 +629,10 @@ export class AdvancedAnalysisEngine {
         clause_id: result.clause_id,
         detected_text: result.detected_text,
         match_type: result.match_type,
+        position_start: result.detected_span?.start ?? null,
+        position_end: result.detected_span?.end ?? null,
+        match_spans: result.detected_span ? [result.detected_span] : null,
+        extracted_features: result.extracted_features,
         confidence_score: result.confidence_score,
         risk_level: result.risk_level,
         recommended_action: result.recommended_action,
@@ -3,6 +3,9 @@
 
 import { supabaseAdmin } from '../supabase';
 import type { PartyPerspective } from '@/types';
+import { findRuleByCondition, type RuleCondition } from '../playbook/rule-conditions';
+import type { RuleCriteria } from '../playbook/rule-criteria';
+import type { ClauseFeatures } from '../extractors';
 
 export interface HierarchicalRule {
   id: string;
@@ -15,6 +18,8 @@ export interface HierarchicalRule {
   guidance_notes: string;
   example_language: string;
   rewriting_prompt: string;
+  condition?: RuleCondition | null;
+  criteria?: RuleCriteria | null;
   
   // New hierarchical fields
   parent_rule_id: string | null;
@@ -121,6 +126,8 @@ export class HierarchicalRulesEngine {
         guidance_notes: ruleData.guidance_notes,
         example_language: ruleData.example_language,
         rewriting_prompt: ruleData.rewriting_prompt,
+        condition: ruleData.condition,
+        criteria: ruleData.criteria,
         parent_rule_id: ruleData.parent_rule_id,
         rule_level: ruleData.rule_level || 1,
         confidence_score: parseFloat(ruleData.confidence_score) || 0.70,
@@ -226,6 +233,41 @@ export class HierarchicalRulesEngine {
     return matches.slice(0, maxResults);
   }
   
+  /**
+   * Find the rule whose condition matches a clause's extracted features, anywhere in the hierarchy
+   */
+  async findConditionMatch(
+    clauseId: string,
+    partyPerspective: PartyPerspective,
+    features: ClauseFeatures
+  ): Promise<RuleMatchResult | null> {
+    const rules = await this.getRuleHierarchy(clauseId, partyPerspective);
+    
+    const paths = new Map<HierarchicalRule, string[]>();
+    const flatten = (rules: HierarchicalRule[], path: string[] = []) => {
+      rules.forEach(rule => {
+        const currentPath = [...path, rule.rule_type];
+        paths.set(rule, currentPath);
+        if (rule.children && rule.children.length > 0) {
+          flatten(rule.children, currentPath);
+        }
+      });
+    };
+    flatten(rules);
+    
+    const rule = findRuleByCondition(Array.from(paths.keys()), features);
+    if (!rule) return null;
+    
+    return {
+      rule,
+      confidence: 0.95,
+      match_type: 'exact',
+      reasoning: 'Rule condition matched the extracted clause features',
+      suggested_improvements: rule.negotiation_guidance ? [rule.negotiation_guidance] : [],
+      hierarchy_path: paths.get(rule)!
+    };
+  }
+  
   /**
    * Evaluate how well a rule matches the document text
    */
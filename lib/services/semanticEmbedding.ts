@@ -3,6 +3,8 @@
 
 import { pipeline } from '@xenova/transformers';
 import crypto from 'crypto';
+import { parseOutline, flattenOutline, getNodeText, type OutlineNode } from '../document-structure';
+import { getDetectionProfiles, getDetectionProfile, compilePatterns } from '../playbook/detection-profiles';
 
 // Lazy-load supabase to avoid build-time initialization issues
 let _supabase: any = null;
@@ -79,25 +81,20 @@ export class SemanticClauseDetector {
       });
     }
     
-    // If no templates exist, create default ones
-    if (this.clauseTemplates.size === 0) {
-      await this.createDefaultTemplates();
-    }
+    // Create default templates for playbook clause types that have none yet
+    await this.createDefaultTemplates();
   }
   
   /**
-   * Create default clause templates for common NDA clauses
+   * Create default clause templates from the playbook detection profiles
    */
   private async createDefaultTemplates(): Promise<void> {
-    const defaultTemplates = {
-      definition: "Confidential Information means any and all information disclosed by the Disclosing Party to the Receiving Party, whether orally, in writing, or in any other form, including but not limited to proprietary information, trade secrets, and know-how.",
-      duration: "The obligations of the Receiving Party under this Agreement shall survive termination of this Agreement and continue for a period of five (5) years from the date of disclosure.",
-      governing: "This Agreement shall be governed by and construed in accordance with the laws of the jurisdiction, without regard to its conflict of law provisions.",
-      permitted_use: "The Receiving Party agrees to use the Confidential Information solely for the purpose of evaluating a potential business relationship between the parties.",
-      non_disclosure: "The Receiving Party agrees not to disclose any Confidential Information to third parties without the prior written consent of the Disclosing Party.",
-      return_of_info: "Upon termination of this Agreement or upon request by the Disclosing Party, the Receiving Party shall promptly return or destroy all Confidential Information.",
-      no_license: "Nothing in this Agreement grants the Receiving Party any license or rights to the Confidential Information except as expressly set forth herein."
-    };
+    const defaultTemplates: Record<string, string> = {};
+    getDetectionProfiles().forEach(profile => {
+      if (profile.semantic && !this.clauseTemplates.has(profile.key)) {
+        defaultTemplates[profile.key] = profile.semantic.template;
+      }
+    });
     
     for (const [type, text] of Object.entries(defaultTemplates)) {
       const embedding = await this.generateEmbedding(text);
@@ -177,8 +174,8 @@ export class SemanticClauseDetector {
     threshold: number,
     maxSegments: number
   ): Promise<DetectionResult> {
-    // Extract sliding windows from text
-    const windows = this.extractSlidingWindows(text, 256, 64);
+    // Prefer real clauses from the document outline; fall back to sliding windows
+    const windows = this.extractClauseWindows(text, 256, 64);
     
     // Get template embedding
     const templateEmbedding = this.clauseTemplates.get(clauseType);
@@ -306,6 +303,51 @@ export class SemanticClauseDetector {
     };
   }
   
+  /**
+   * Extract clause-aligned windows using the document outline.
+   * Sections that fit the window are used whole; longer ones are split
+   * into their sub-clauses, or into sliding windows when they have none.
+   */
+  private extractClauseWindows(
+    text: string,
+    windowSize: number,
+    stride: number
+  ): ClauseSegment[] {
+    const outline = parseOutline(text);
+    if (flattenOutline(outline).length < 2) {
+      return this.extractSlidingWindows(text, windowSize, stride);
+    }
+    
+    const windows: ClauseSegment[] = [];
+    const collect = (nodes: OutlineNode[]) => {
+      for (const node of nodes) {
+        const nodeText = getNodeText(text, node);
+        const wordCount = nodeText.split(/\s+/).length;
+        
+        if (wordCount <= windowSize) {
+          if (nodeText.trim().length >= 20) {
+            windows.push({ text: nodeText, position: { start: node.start, end: node.end } });
+          }
+        } else if (node.children.length > 0) {
+          collect(node.children);
+        } else {
+          this.extractSlidingWindows(nodeText, windowSize, stride).forEach(window => {
+            windows.push({
+              text: window.text,
+              position: {
+                start: node.start + window.position.start,
+                end: node.start + window.position.end
+              }
+            });
+          });
+        }
+      }
+    };
+    
+    collect(outline);
+    return windows.length > 0 ? windows : this.extractSlidingWindows(text, windowSize, stride);
+  }
+  
   /**
    * Extract sliding windows from text for embedding
    */
@@ -439,13 +481,13 @@ export class SemanticClauseDetector {
       confidence *= 1.1;
     }
     
-    // Position boost for definition clauses (usually early)
-    if (clauseType === 'definition' && segments[0].position.start < fullText.length * 0.3) {
+    // Position boost for clauses that usually appear early (definitions) or late (governing law)
+    const expectedPosition = getDetectionProfile(clauseType)?.semantic?.position;
+    if (expectedPosition === 'early' && segments[0].position.start < fullText.length * 0.3) {
       confidence *= 1.15;
     }
     
-    // Position boost for governing law (usually late)
-    if (clauseType === 'governing' && segments[0].position.start > fullText.length * 0.7) {
+    if (expectedPosition === 'late' && segments[0].position.start > fullText.length * 0.7) {
       confidence *= 1.1;
     }
     
@@ -460,23 +502,7 @@ export class SemanticClauseDetector {
    * Check for relevant section headers
    */
   private checkSectionHeaders(text: string, clauseType: string): number {
-    const headerPatterns: Record<string, RegExp[]> = {
-      definition: [
-        /\n\s*\d+\.?\s*definitions?\s*\n/i,
-        /\n\s*(?:article|section)\s+\w+\.?\s*definitions?\s*\n/i
-      ],
-      duration: [
-        /\n\s*\d+\.?\s*term\s*\n/i,
-        /\n\s*\d+\.?\s*duration\s*\n/i
-      ],
-      governing: [
-        /\n\s*\d+\.?\s*governing\s+law\s*\n/i,
-        /\n\s*\d+\.?\s*applicable\s+law\s*\n/i
-      ]
-    };
-    
-    const patterns = headerPatterns[clauseType];
-    if (!patterns) return 1.0;
+    const patterns = compilePatterns(getDetectionProfile(clauseType)?.semantic?.headerPatterns || []);
     
     for (const pattern of patterns) {
       if (pattern.test(text)) {
@@ -491,60 +517,14 @@ export class SemanticClauseDetector {
    * Get clause-specific patterns
    */
   private getClausePatterns(clauseType: string): RegExp[] {
-    const patterns: Record<string, RegExp[]> = {
-      definition: [
-        /confidential\s+information\s+(?:means|includes|shall\s+mean)[^.]+\./gi,
-        /"confidential\s+information"\s+(?:means|includes)[^.]+\./gi,
-        /for\s+purposes\s+of\s+this\s+agreement[^.]*confidential[^.]+\./gi
-      ],
-      duration: [
-        /(?:period|term)\s+of\s+\d+\s+(?:years?|months?)[^.]+\./gi,
-        /survive\s+(?:termination|expiration)\s+for[^.]+\./gi,
-        /remain\s+in\s+effect\s+(?:for|until)[^.]+\./gi
-      ],
-      governing: [
-        /governed\s+by\s+(?:the\s+)?laws?\s+of[^.]+\./gi,
-        /exclusive\s+jurisdiction\s+of\s+(?:the\s+)?courts?[^.]+\./gi,
-        /disputes?\s+(?:shall|will)\s+be\s+(?:resolved|settled)[^.]+\./gi
-      ]
-    };
-    
-    return patterns[clauseType] || [];
+    return compilePatterns(getDetectionProfile(clauseType)?.semantic?.patterns || [], 'gi');
   }
   
   /**
    * Get clause-specific keywords
    */
   private getClauseKeywords(clauseType: string): string[] {
-    const keywords: Record<string, string[]> = {
-      definition: [
-        'confidential information',
-        'proprietary information',
-        'trade secret',
-        'means',
-        'includes',
-        'defined as'
-      ],
-      duration: [
-        'period',
-        'term',
-        'years',
-        'survive',
-        'termination',
-        'expiration',
-        'perpetuity'
-      ],
-      governing: [
-        'governed',
-        'jurisdiction',
-        'applicable law',
-        'disputes',
-        'courts',
-        'venue'
-      ]
-    };
-    
-    return keywords[clauseType] || [];
+    return getDetectionProfile(clauseType)?.semantic?.keywords || [];
   }
   
   /**
@@ -5,6 +5,7 @@
 import { SemanticClauseDetector } from './semanticEmbedding';
 import { optimizedSemanticEmbedding } from './optimizedSemanticEmbedding';
 import { supabase } from '../supabase';
+import { getClauseTypeForName } from '../playbook/detection-profiles';
 import type { ClauseMatch, AnalysisResult } from '../clause-matcher';
 import type { PartyPerspective } from '@/types';
 
@@ -262,17 +263,7 @@ export class SemanticClauseIntegration {
    * Map clause names to semantic detection types
    */
   mapClauseNameToType(clauseName: string): string {
-    const mapping: Record<string, string> = {
-      'Definition of Confidential Information': 'definition',
-      'Term and Duration': 'duration',
-      'Governing Law': 'governing',
-      'Permitted Use': 'permitted_use',
-      'Non-Disclosure': 'non_disclosure',
-      'Return of Information': 'return_of_info',
-      'No License': 'no_license'
-    };
-    
-    return mapping[clauseName] || clauseName.toLowerCase().replace(/\s+/g, '_');
+    return getClauseTypeForName(clauseName);
   }
   
   /**
@@ -0,0 +1,183 @@
+/**
+ * Offset-preserving text normalization.
+ *
+ * Analysis runs on normalized text (collapsed spaces, page artifacts removed),
+ * but reviewers need locations in the document they uploaded. Every character
+ * of the normalized text keeps the offset of the raw character it came from,
+ * so spans found during analysis can be mapped back to the raw text and,
+ * for PDFs, to a page and line.
+ */
+
+export interface NormalizedText {
+  text: string;
+  /**
+   * offsets[i] is the raw offset of normalized character i.
+   * Has one extra trailing entry holding the raw length, so `end` offsets map too.
+   */
+  offsets: number[];
+}
+
+export interface PageBoundary {
+  pageNumber: number;
+  /** Offset of the first character of the page in the raw text */
+  start: number;
+  /** Exclusive end offset of the page in the raw text */
+  end: number;
+  /** Mean OCR word confidence (0-100), for pages read from a scan */
+  ocrConfidence?: number;
+}
+
+export interface SourceLocation {
+  /** 1-based page number, only available for paginated sources such as PDFs */
+  page?: number;
+  /** 1-based line number, relative to the page when `page` is set */
+  line: number;
+  /** 1-based column number */
+  column: number;
+}
+
+// Artifacts removed during normalization; they are treated like spaces
+const PAGE_ARTIFACT_PATTERNS: RegExp[] = [
+  /Page \d+ of \d+/gi,        // "Page 3 of 12" headers and footers
+  /^[ \t]*\d+[ \t]*$/gm,      // Standalone page numbers
+  /\f/g                       // Form feeds between PDF pages
+];
+
+/**
+ * Normalize extracted text while recording where each character came from
+ * - Normalize line endings and collapse runs of spaces and tabs
+ * - Keep paragraph breaks, limiting blank lines to one
+ * - Remove page numbers and "Page X of Y" artifacts
+ * - Tidy bullet spacing
+ */
+export function normalizeText(raw: string): NormalizedText {
+  const removed = new Uint8Array(raw.length);
+  for (const pattern of PAGE_ARTIFACT_PATTERNS) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(raw)) !== null) {
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+        continue;
+      }
+      removed.fill(1, match.index, match.index + match[0].length);
+    }
+  }
+
+  const chars: string[] = [];
+  const offsets: number[] = [];
+  let i = 0;
+
+  while (i < raw.length) {
+    const char = raw[i];
+    const isSpace = removed[i] === 1 || /\s/.test(char);
+
+    if (!isSpace) {
+      chars.push(char);
+      offsets.push(i);
+      i++;
+      // Collapse spacing after bullets to a single space
+      if ((char === '•' || char === '◦') && i < raw.length && /[ \t]/.test(raw[i])) {
+        chars.push(' ');
+        offsets.push(i);
+        while (i < raw.length && /[ \t]/.test(raw[i])) i++;
+      }
+      continue;
+    }
+
+    // Consume a whitespace run, remembering where its newlines are
+    const runStart = i;
+    const newlineOffsets: number[] = [];
+    while (i < raw.length && (removed[i] === 1 || /\s/.test(raw[i]))) {
+      if (raw[i] === '\n' && removed[i] !== 1) newlineOffsets.push(i);
+      i++;
+    }
+
+    // Leading and trailing whitespace is trimmed
+    if (chars.length === 0 || i >= raw.length) continue;
+
+    if (newlineOffsets.length === 0) {
+      chars.push(' ');
+      offsets.push(runStart);
+    } else {
+      // Preserve a single line break or a single blank line between paragraphs
+      newlineOffsets.slice(0, 2).forEach(offset => {
+        chars.push('\n');
+        offsets.push(offset);
+      });
+    }
+  }
+
+  offsets.push(offsets.length > 0 ? offsets[offsets.length - 1] + 1 : 0);
+  return { text: chars.join(''), offsets };
+}
+
+/**
+ * Map an offset in normalized text back to the raw text
+ */
+export function toRawOffset(normalized: NormalizedText, offset: number): number {
+  const clamped = Math.max(0, Math.min(offset, normalized.offsets.length - 1));
+  return normalized.offsets[clamped];
+}
+
+/**
+ * Map a [start, end) span in normalized text back to the raw text
+ */
+export function toRawSpan(
+  normalized: NormalizedText,
+  span: { start: number; end: number }
+): { start: number; end: number } {
+  const start = toRawOffset(normalized, span.start);
+  if (span.end <= span.start) return { start, end: start };
+  // The end maps through the last included character so trailing removals are excluded
+  const end = toRawOffset(normalized, span.end - 1) + 1;
+  return { start, end: Math.max(start, end) };
+}
+
+/**
+ * Record page boundaries for text assembled from per-page strings.
+ * `separator` is what the extractor inserted before each page.
+ */
+export function buildPageBoundaries(pageTexts: string[], separator: string): PageBoundary[] {
+  const pages: PageBoundary[] = [];
+  let cursor = 0;
+  pageTexts.forEach((pageText, index) => {
+    cursor += separator.length;
+    pages.push({ pageNumber: index + 1, start: cursor, end: cursor + pageText.length });
+    cursor += pageText.length;
+  });
+  return pages;
+}
+
+/**
+ * Resolve a raw text offset to a page, line and column
+ */
+export function locateOffset(raw: string, offset: number, pages?: PageBoundary[]): SourceLocation {
+  const clamped = Math.max(0, Math.min(offset, raw.length));
+  const page = pages?.find(candidate => clamped >= candidate.start && clamped < candidate.end) ||
+    (pages && pages.length > 0 && clamped >= pages[pages.length - 1].start ? pages[pages.length - 1] : undefined);
+  const from = page ? page.start : 0;
+
+  const before = raw.slice(from, clamped);
+  const lineBreaks = before.split('\n');
+
+  return {
+    ...(page ? { page: page.pageNumber } : {}),
+    line: lineBreaks.length,
+    column: lineBreaks[lineBreaks.length - 1].length + 1
+  };
+}
+
+/** OCR pages below this mean word confidence are flagged: detection on them may be unreliable */
+export const LOW_OCR_CONFIDENCE = 70;
+
+/**
+ * Page numbers read by OCR with low confidence; when spans are given, only the pages they fall on
+ */
+export function findLowConfidencePages(pages?: PageBoundary[], spans?: Array<{ page?: number }>): number[] {
+  const touched = spans ? new Set(spans.map(span => span.page)) : null;
+  return (pages || [])
+    .filter(page => page.ocrConfidence !== undefined && page.ocrConfidence < LOW_OCR_CONFIDENCE)
+    .filter(page => !touched || touched.has(page.pageNumber))
+    .map(page => page.pageNumber);
+}
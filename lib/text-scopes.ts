@@ -0,0 +1,117 @@
+// lib/text-scopes.ts
+// Negation, exclusion and qualifier cues, scoped to the phrase they modify
+
+export type ScopeKind = 'negation' | 'exclusion' | 'qualifier';
+
+/** A cue and the span of text it modifies (offsets into the analysed text) */
+export interface TextScope {
+  kind: ScopeKind;
+  cue: string;
+  /** Start of the modified phrase, right after the cue */
+  start: number;
+  /** Exclusive end of the modified phrase */
+  end: number;
+}
+
+// Exclusion cues are listed before negation so "shall not include" is read as an exclusion, not a negation
+const CUE_PATTERNS: Array<{ kind: ScopeKind; pattern: RegExp }> = [
+  {
+    kind: 'exclusion',
+    pattern: /\b(?:exclud(?:ing|es?)|other\s+than|except(?:ing)?(?:\s+for)?|save\s+for|(?:shall|will|does|do)\s+not\s+(?:include|apply\s+to|extend\s+to|cover))\b/gi
+  },
+  {
+    kind: 'negation',
+    pattern: /\b(?:not|no|never|neither|nor|without|in\s+no\s+event|under\s+no\s+circumstances)\b|\b\w+n't\b/gi
+  },
+  {
+    kind: 'qualifier',
+    pattern: /\b(?:reasonabl[ey]|solely|only|strictly|to\s+the\s+extent|limited\s+to|as\s+necessary)\b/gi
+  }
+];
+
+// Negations and qualifiers modify the phrase up to the next punctuation or clause boundary
+const PHRASE_END = /[,;:.()]|\b(?:but|unless|provided|except|and\s+(?:shall|will|may))\b/i;
+const MAX_PHRASE_WORDS = 8;
+
+// Exclusions run to the end of the sentence, including lettered lists ("(a) ...; (b) ...")
+const EXCLUSION_END = /\.(?:\s|$)|;(?!\s*(?:(?:and|or)\s+)?\(\w{1,4}\))/;
+const MAX_EXCLUSION_LENGTH = 400;
+
+function findPhraseEnd(text: string, start: number): number {
+  const rest = text.slice(start);
+  const boundary = rest.search(PHRASE_END);
+  const limit = boundary === -1 ? rest.length : boundary;
+
+  // Cap at a few words so a missing comma does not negate the rest of the sentence
+  const words = /\S+/g;
+  let count = 0;
+  let match: RegExpExecArray | null;
+  while ((match = words.exec(rest)) !== null && match.index < limit) {
+    count += 1;
+    if (count === MAX_PHRASE_WORDS) return start + match.index + match[0].length;
+  }
+  return start + limit;
+}
+
+function findExclusionEnd(text: string, start: number): number {
+  const rest = text.slice(start, start + MAX_EXCLUSION_LENGTH);
+  const boundary = rest.search(EXCLUSION_END);
+  return start + (boundary === -1 ? rest.length : boundary);
+}
+
+/**
+ * Find negation, exclusion and qualifier scopes in text.
+ * Cues inside a longer cue ("not" in "shall not include") are not reported separately.
+ */
+export function findTextScopes(text: string): TextScope[] {
+  const scopes: TextScope[] = [];
+  const cueSpans: Array<{ start: number; end: number }> = [];
+
+  for (const { kind, pattern } of CUE_PATTERNS) {
+    const cues = new RegExp(pattern.source, pattern.flags);
+    let match: RegExpExecArray | null;
+    while ((match = cues.exec(text)) !== null) {
+      const cueStart = match.index;
+      const cueEnd = cueStart + match[0].length;
+      if (cueSpans.some(span => cueStart < span.end && cueEnd > span.start)) continue;
+
+      cueSpans.push({ start: cueStart, end: cueEnd });
+      scopes.push({
+        kind,
+        cue: match[0],
+        start: cueEnd,
+        end: kind === 'exclusion' ? findExclusionEnd(text, cueEnd) : findPhraseEnd(text, cueEnd)
+      });
+    }
+  }
+
+  // A negation or qualifier phrase also ends where the next cue starts
+  scopes.forEach(scope => {
+    if (scope.kind === 'exclusion') return;
+    cueSpans.forEach(span => {
+      if (span.start >= scope.start && span.start < scope.end) scope.end = span.start;
+    });
+  });
+
+  return scopes.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Check whether a phrase carries a cue of the given kind itself (e.g. the keyword "no exceptions")
+ */
+export function hasScopeCue(phrase: string, kind: ScopeKind): boolean {
+  const { pattern } = CUE_PATTERNS.find(entry => entry.kind === kind)!;
+  return new RegExp(pattern.source, 'i').test(phrase);
+}
+
+/**
+ * Blank out the phrases modified by the given scopes, keeping offsets intact
+ */
+export function maskScopes(text: string, scopes: TextScope[]): string {
+  if (scopes.length === 0) return text;
+  const chars = text.split('');
+  scopes.forEach(scope => {
+    for (let i = scope.start; i < scope.end; i += 1) chars[i] = ' ';
+  });
+  return chars.join('');
+}
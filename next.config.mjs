@@ -7,7 +7,12 @@ const nextConfig = {
     // Fix pdf-parse build issues
     if (isServer) {
       config.externals.push({
-        'pdf-parse': 'commonjs pdf-parse'
+        'pdf-parse': 'commonjs pdf-parse',
+        // OCR of scanned PDFs loads native canvas bindings, a Tesseract worker and bundled language data at runtime
+        'pdfjs-dist/legacy/build/pdf.js': 'commonjs pdfjs-dist/legacy/build/pdf.js',
+        '@napi-rs/canvas': 'commonjs @napi-rs/canvas',
+        'tesseract.js': 'commonjs tesseract.js',
+        '@tesseract.js-data/eng': 'commonjs @tesseract.js-data/eng'
       });
     }
     
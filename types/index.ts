@@ -1,3 +1,9 @@
+import type { PageBoundary } from '@/lib/text-normalization';
+import type { DetectionProfileOverride } from '@/lib/playbook/detection-profiles';
+import type { RuleCondition } from '@/lib/playbook/rule-conditions';
+import type { RuleCriteria } from '@/lib/playbook/rule-criteria';
+import type { ClassificationEvidence } from '@/lib/clause-matcher';
+
 // Core database types based on our schema
 export interface Clause {
   id: string;
@@ -5,6 +11,10 @@ export interface Clause {
   category: 'core' | 'standard' | 'optional';
   display_order: number;
   is_active: boolean;
+  /** Detection profile key in the playbook (lib/playbook/detection-profiles.json) */
+  clause_key?: string | null;
+  /** Per-clause overrides of the playbook detection profile */
+  detection_profile?: DetectionProfileOverride | null;
   created_at: string;
   updated_at: string;
 }
@@ -20,6 +30,10 @@ export interface ClauseRule {
   guidance_notes: string;
   example_language: string;
   rewriting_prompt: string;
+  /** Condition on extracted clause features, evaluated before keyword matching */
+  condition?: RuleCondition | null;
+  /** Legacy list of criteria that must all hold; read as an "all" condition when no condition is set */
+  criteria?: RuleCriteria | null;
   created_at: string;
   updated_at: string;
 }
@@ -30,6 +44,7 @@ export interface Review {
   nda_title: string;
   file_path?: string;
   original_text?: string;
+  source_pages?: PageBoundary[] | null;
   party_perspective: 'disclosing' | 'receiving' | 'mutual';
   status: 'pending' | 'processing' | 'completed' | 'error';
   overall_score?: number;
@@ -46,6 +61,14 @@ export interface ClauseAnalysis {
   confidence_score: number;
   risk_level: number;
   recommended_action: string;
+  position_start?: number | null;
+  position_end?: number | null;
+  position_page?: number | null;
+  position_line?: number | null;
+  match_spans?: Array<{ start: number; end: number; page?: number; line?: number }> | null;
+  extracted_features?: Record<string, unknown> | null;
+  /** Keyword matches, score components and competing rules behind match_type */
+  classification_evidence?: ClassificationEvidence | null;
   suggested_text?: string;
   edited_suggestion?: string;
   user_override_type?: string;
@@ -72,6 +95,8 @@ export interface AnalysisProgress {
 export interface MatrixResult {
   clause_id: string;
   clause_name: string;
+  /** Playbook key of the clause type (e.g. "standstill"), for feature display */
+  clause_key?: string | null;
   starting_position?: ClauseAnalysis;
   fallback?: ClauseAnalysis;
   not_acceptable?: ClauseAnalysis;
@@ -0,0 +1,14 @@
+// types/tesseract-data.d.ts
+// Bundled Tesseract language data packages ship without type declarations
+
+declare module '@tesseract.js-data/eng' {
+  const languageData: {
+    /** Language code passed to createWorker */
+    code: string;
+    /** Whether the traineddata file is gzipped */
+    gzip: boolean;
+    /** Directory holding the traineddata file */
+    langPath: string;
+  };
+  export default languageData;
+}